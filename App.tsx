@@ -4,12 +4,17 @@ import { Header } from './components/Header';
 import { TOOLS } from './constants';
 import type { Tool } from './types';
 import { SettingsProvider } from './contexts/SettingsContext';
+import { RouterProvider, useRouter } from './contexts/RouterContext';
 import HomePage from './features/HomePage';
 
-const App: React.FC = () => {
-  const [activeTool, setActiveTool] = useState<Tool | null>(null);
+const AppShell: React.FC = () => {
+  const { route, navigate } = useRouter();
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
+  // The active tool is derived from the URL so refreshes and shared links land on the same tool
+  const activeTool = TOOLS.find(tool => tool.slug === route.slug) ?? null;
+  const setActiveTool = (tool: Tool | null) => navigate(tool ? tool.slug : null);
+
   const ActiveComponent = activeTool?.component;
   const currentYear = new Date().getFullYear();
 
@@ -25,39 +30,51 @@ const App: React.FC = () => {
     };
   }, [isSidebarOpen]);
 
+  useEffect(() => {
+    document.title = activeTool ? `${activeTool.name} | Image Toolbox Pro` : 'Image Toolbox Pro';
+  }, [activeTool]);
+
   return (
-    <SettingsProvider>
-      <div className="flex min-h-screen text-gray-200">
-        <Sidebar
-          activeTool={activeTool}
-          setActiveTool={setActiveTool}
-          isSidebarOpen={isSidebarOpen}
+    <div className="flex min-h-screen text-gray-200">
+      <Sidebar
+        activeTool={activeTool}
+        setActiveTool={setActiveTool}
+        isSidebarOpen={isSidebarOpen}
+        setIsSidebarOpen={setIsSidebarOpen}
+      />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Header
+          toolName={activeTool ? activeTool.name : 'Image Toolbox Pro'}
           setIsSidebarOpen={setIsSidebarOpen}
         />
-        <div className="flex-1 flex flex-col overflow-hidden">
-          <Header
-            toolName={activeTool ? activeTool.name : 'Image Toolbox Pro'}
-            setIsSidebarOpen={setIsSidebarOpen}
-          />
-          <main className="flex-1 overflow-y-auto p-4 sm:p-6 lg:p-8">
-            <div className="max-w-7xl mx-auto">
-              {ActiveComponent ? (
-                 <div key={activeTool?.name} className="page-enter-animation">
-                    <ActiveComponent />
-                  </div>
-              ) : (
-                <HomePage setActiveTool={setActiveTool} />
-              )}
-            </div>
-          </main>
-          {/* Footer Section - Enhanced Design */}
-          <footer className="flex-shrink-0 bg-gradient-to-t from-zinc-900 via-zinc-900/90 to-transparent border-t border-zinc-800/70 p-6 sm:p-8 text-center text-sm text-gray-400">
-            <p className="tracking-wide text-gray-500 hover:text-gray-400 transition-colors duration-200">
-              &copy; {currentYear} <span className="text-[#1DB954] font-semibold">Copyright By Rio</span>, All Rights Reserved.
-            </p>
-          </footer>
-        </div>
+        <main className="flex-1 overflow-y-auto p-4 sm:p-6 lg:p-8">
+          <div className="max-w-7xl mx-auto">
+            {ActiveComponent ? (
+               <div key={activeTool?.name} className="page-enter-animation">
+                  <ActiveComponent />
+                </div>
+            ) : (
+              <HomePage setActiveTool={setActiveTool} />
+            )}
+          </div>
+        </main>
+        {/* Footer Section - Enhanced Design */}
+        <footer className="flex-shrink-0 bg-gradient-to-t from-zinc-900 via-zinc-900/90 to-transparent border-t border-zinc-800/70 p-6 sm:p-8 text-center text-sm text-gray-400">
+          <p className="tracking-wide text-gray-500 hover:text-gray-400 transition-colors duration-200">
+            &copy; {currentYear} <span className="text-[#1DB954] font-semibold">Copyright By Rio</span>, All Rights Reserved.
+          </p>
+        </footer>
       </div>
+    </div>
+  );
+};
+
+const App: React.FC = () => {
+  return (
+    <SettingsProvider>
+      <RouterProvider>
+        <AppShell />
+      </RouterProvider>
     </SettingsProvider>
   );
 };
@@ -0,0 +1,39 @@
+import React from 'react';
+import type { BatchItemState } from '../utils/imageBatch';
+
+interface BatchItemStatusProps {
+  state?: BatchItemState;
+}
+
+// Overlay for a queue thumbnail showing that file's progress in the current batch
+export const BatchItemStatus: React.FC<BatchItemStatusProps> = ({ state }) => {
+  if (!state || state.status === 'done') return null;
+
+  if (state.status === 'error') {
+    return (
+      <div className="absolute inset-x-0 bottom-0 bg-red-600/80 text-white text-xs p-1 truncate" title={state.error}>
+        Failed: {state.error}
+      </div>
+    );
+  }
+
+  if (state.status === 'cancelled') {
+    return (
+      <div className="absolute inset-x-0 bottom-0 bg-zinc-900/80 text-gray-400 text-xs p-1 text-center">
+        Cancelled
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute inset-x-0 bottom-0 bg-black/60 p-1">
+      <div className="w-full bg-zinc-700 rounded-full h-1.5">
+        <div
+          className="bg-[#1DB954] h-1.5 rounded-full"
+          style={{ width: `${Math.round(state.progress * 100)}%`, transition: 'width 0.2s ease-in-out' }}
+        ></div>
+      </div>
+      {state.status === 'queued' && <p className="text-gray-400 text-[10px] text-center mt-0.5">Queued</p>}
+    </div>
+  );
+};
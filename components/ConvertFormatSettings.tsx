@@ -0,0 +1,78 @@
+import React from 'react';
+
+// Output formats offered when converting away from JPG (Convert from JPG, Photo Editor export)
+export type ConvertFormat = 'png' | 'webp' | 'gif';
+
+export const CONVERT_FORMATS: readonly ConvertFormat[] = ['png', 'webp', 'gif'];
+
+interface ConvertFormatSettingsProps {
+  format: ConvertFormat;
+  onFormatChange: (format: ConvertFormat) => void;
+  quality: number; // WEBP only
+  onQualityChange: (quality: number) => void;
+  dither: boolean; // GIF only
+  onDitherChange: (dither: boolean) => void;
+  description?: string;
+  disabled?: boolean;
+}
+
+export const ConvertFormatSettings: React.FC<ConvertFormatSettingsProps> = ({
+  format,
+  onFormatChange,
+  quality,
+  onQualityChange,
+  dither,
+  onDitherChange,
+  description = 'Convert JPG to transparent PNG, efficient WEBP, or a 256-color GIF.',
+  disabled,
+}) => (
+  <>
+    <div>
+      <label htmlFor="format-select" className="block text-sm font-medium text-gray-300 mb-2">Output Format</label>
+      <select id="format-select" value={format} onChange={e => onFormatChange(e.target.value as ConvertFormat)} className="custom-input" disabled={disabled}>
+        <option value="png">PNG</option>
+        <option value="webp">WEBP</option>
+        <option value="gif">GIF (256 colors)</option>
+      </select>
+      <p className="text-xs text-gray-500 mt-1">{description}</p>
+    </div>
+
+    {format === 'gif' && (
+      <div>
+        <div className="flex items-center">
+          <input
+            id="dither-colors"
+            type="checkbox"
+            checked={dither}
+            onChange={(e) => onDitherChange(e.target.checked)}
+            className="h-4 w-4 rounded border-zinc-600 bg-zinc-700 text-[#1DB954] focus:ring-[#1DB954]"
+            disabled={disabled}
+          />
+          <label htmlFor="dither-colors" className="ml-3 block text-sm font-medium text-gray-300">Dither colors</label>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">Smooths gradients and skies at the cost of a larger file.</p>
+      </div>
+    )}
+
+    {format === 'webp' && (
+      <div>
+        <label htmlFor="quality-slider" className="flex justify-between text-sm font-medium text-gray-300 mb-2">
+          <span>WEBP Quality</span>
+          <span className="font-mono text-[#1DB954] text-lg">{Math.round(quality * 100)}</span>
+        </label>
+        <input
+          type="range"
+          id="quality-slider"
+          min="0.1"
+          max="1"
+          step="0.01"
+          value={quality}
+          onChange={(e) => onQualityChange(parseFloat(e.target.value))}
+          className="w-full range-slider"
+          aria-label="WEBP Quality"
+          disabled={disabled}
+        />
+      </div>
+    )}
+  </>
+);
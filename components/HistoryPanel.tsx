@@ -0,0 +1,46 @@
+import React from 'react';
+import type { History } from '../hooks/useHistory';
+import { ArrowUturnLeftIcon, ArrowUturnRightIcon } from './icons';
+
+interface HistoryPanelProps {
+  history: Pick<History<unknown>, 'entries' | 'index' | 'canUndo' | 'canRedo' | 'undo' | 'redo' | 'jumpTo'>;
+  showControls?: boolean; // Undo/redo buttons, for tools without their own toolbar
+  disabled?: boolean;
+}
+
+// Steps after the current one are dimmed; clicking one redoes up to it
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, showControls = true, disabled }) => {
+  const { entries, index, canUndo, canRedo, undo, redo, jumpTo } = history;
+  const controlClass = 'p-2 w-9 rounded-md bg-zinc-800 text-gray-300 hover:bg-zinc-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-zinc-900 rounded-lg p-6 space-y-4 border border-zinc-800">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">History</h3>
+        {showControls && (
+          <div className="flex gap-1">
+            <button onClick={undo} disabled={disabled || !canUndo} className={controlClass} title="Undo (Ctrl+Z)" aria-label="Undo">
+              <ArrowUturnLeftIcon />
+            </button>
+            <button onClick={redo} disabled={disabled || !canRedo} className={controlClass} title="Redo (Ctrl+Shift+Z)" aria-label="Redo">
+              <ArrowUturnRightIcon />
+            </button>
+          </div>
+        )}
+      </div>
+      <ol className="space-y-1 max-h-48 overflow-y-auto text-sm">
+        {entries.map((entry, i) => (
+          <li key={i}>
+            <button
+              onClick={() => jumpTo(i)}
+              className={`w-full text-left px-2 py-1 rounded-md transition-colors ${i === index ? 'bg-zinc-800 text-[#1DB954]' : i > index ? 'text-gray-600 hover:bg-zinc-800/60' : 'text-gray-300 hover:bg-zinc-800/60'}`}
+              disabled={disabled}
+            >
+              {entry.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
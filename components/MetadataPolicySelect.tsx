@@ -0,0 +1,38 @@
+import React from 'react';
+import { canCarryMetadata } from '../core';
+import type { MetadataPolicy, OutputFormat } from '../core';
+
+interface MetadataPolicySelectProps {
+  value: MetadataPolicy;
+  onChange: (value: MetadataPolicy) => void;
+  format?: OutputFormat; // Output format, to warn when it can't hold metadata
+  disabled?: boolean;
+}
+
+const DESCRIPTIONS: Record<MetadataPolicy, string> = {
+  keep: 'Camera details, GPS location, XMP and the color profile are copied to the output.',
+  copyright: 'Only the color profile and artist/copyright fields are kept. GPS and camera details are removed.',
+  strip: 'All metadata is removed, including GPS location and the color profile.',
+};
+
+export const MetadataPolicySelect: React.FC<MetadataPolicySelectProps> = ({ value, onChange, format, disabled }) => (
+  <div>
+    <label htmlFor="metadata-policy-select" className="block text-sm font-medium text-gray-300 mb-2">Metadata (EXIF / XMP / ICC)</label>
+    <select
+      id="metadata-policy-select"
+      value={value}
+      onChange={(e) => onChange(e.target.value as MetadataPolicy)}
+      className="custom-input"
+      disabled={disabled}
+    >
+      <option value="keep">Keep all</option>
+      <option value="copyright">Keep copyright & color profile only</option>
+      <option value="strip">Strip everything (privacy)</option>
+    </select>
+    <p className="text-xs text-gray-500 mt-1">
+      {format && !canCarryMetadata(format) && value !== 'strip'
+        ? `${format.toUpperCase()} output is always written without metadata.`
+        : DESCRIPTIONS[value]}
+    </p>
+  </div>
+);
@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from './Button';
+import { PlusIcon } from './icons';
+import { downloadBlob } from '../utils/imageUtils';
+import {
+  BUILT_IN_TEMPLATES,
+  createTemplate,
+  fillTemplate,
+  loadSavedTemplates,
+  parseTemplatesJson,
+  saveTemplates,
+  templateVariables,
+  templatesToJson,
+  variableLabel,
+} from '../utils/promptTemplates';
+import type { PromptTemplate } from '../utils/promptTemplates';
+
+interface PromptTemplatesProps {
+  // Receives the template and its prompt with the variables filled in
+  onUse: (template: PromptTemplate, prompt: string) => void;
+  disabled?: boolean;
+}
+
+// The template being created or edited; no id means it is new
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  prompt: string;
+  systemInstruction: string;
+  temperature?: number;
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+
+export const PromptTemplates: React.FC<PromptTemplatesProps> = ({ onUse, disabled }) => {
+  const [savedTemplates, setSavedTemplates] = useState<PromptTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState(BUILT_IN_TEMPLATES[0].id);
+  // Kept by variable name, so templates sharing a variable share its value
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSavedTemplates(loadSavedTemplates());
+  }, []);
+
+  const selected = [...BUILT_IN_TEMPLATES, ...savedTemplates].find(t => t.id === selectedId) ?? BUILT_IN_TEMPLATES[0];
+  const variables = templateVariables(selected.prompt);
+  const canUse = variables.every(name => values[name]?.trim());
+
+  const updateSaved = (templates: PromptTemplate[]) => {
+    setSavedTemplates(templates);
+    saveTemplates(templates);
+  };
+
+  const handleUse = () => {
+    onUse(selected, fillTemplate(selected.prompt, Object.fromEntries(variables.map(name => [name, values[name].trim()]))));
+  };
+
+  const handleEdit = () => {
+    const { name, prompt, systemInstruction, temperature } = selected;
+    // Built-in templates can't change, so editing one starts a copy
+    setDraft(selected.builtIn
+      ? { name: `${name} (copy)`, prompt, systemInstruction, temperature }
+      : { id: selected.id, name, prompt, systemInstruction, temperature });
+    setError(null);
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+    const fields = { name: draft.name.trim() || 'Untitled Template', prompt: draft.prompt, systemInstruction: draft.systemInstruction.trim(), temperature: draft.temperature };
+    const existing = savedTemplates.find(t => t.id === draft.id);
+    const template = existing ? { ...existing, ...fields } : createTemplate(fields);
+    updateSaved(existing ? savedTemplates.map(t => (t.id === existing.id ? template : t)) : [...savedTemplates, template]);
+    setSelectedId(template.id);
+    setDraft(null);
+  };
+
+  const handleDelete = () => {
+    if (selected.builtIn) return;
+    updateSaved(savedTemplates.filter(t => t.id !== selected.id));
+    setSelectedId(BUILT_IN_TEMPLATES[0].id);
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([templatesToJson(savedTemplates)], { type: 'application/json' }), 'prompt-templates.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const imported = parseTemplatesJson(await file.text());
+      updateSaved([...savedTemplates, ...imported]);
+      setSelectedId(imported[0].id);
+      setDraft(null);
+    } catch (err: any) {
+      setError(`Could not import templates: ${err.message}`);
+    }
+  };
+
+  const linkClass = 'text-xs font-semibold text-gray-400 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-zinc-900 rounded-lg p-4 space-y-4 border border-zinc-800">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-white">Templates</h3>
+        <div className="flex items-center gap-3">
+          <label htmlFor="import-prompt-templates" className={`${linkClass} cursor-pointer`} title="Import templates from a JSON file">
+            Import
+            <input id="import-prompt-templates" type="file" className="sr-only" accept="application/json,.json" onChange={handleImport} disabled={disabled} />
+          </label>
+          <button onClick={handleExport} className={linkClass} disabled={savedTemplates.length === 0} title="Export your templates as JSON">
+            Export
+          </button>
+        </div>
+      </div>
+
+      {draft ? (
+        <div className="space-y-3">
+          <div>
+            <label htmlFor="template-name" className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+            <input type="text" id="template-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className="custom-input" />
+          </div>
+          <div>
+            <label htmlFor="template-prompt" className="block text-sm font-medium text-gray-300 mb-2">Prompt</label>
+            <textarea id="template-prompt" rows={4} value={draft.prompt} onChange={(e) => setDraft({ ...draft, prompt: e.target.value })} className="custom-input text-sm resize-y" placeholder="Describe {{subject}} in a {{tone}} tone." />
+            <p className="text-xs text-gray-500 mt-1">{'Write {{name}} for a value you fill in each time. Leave empty for a system instruction preset.'}</p>
+          </div>
+          <div>
+            <label htmlFor="template-system" className="block text-sm font-medium text-gray-300 mb-2">System Instruction</label>
+            <textarea id="template-system" rows={3} value={draft.systemInstruction} onChange={(e) => setDraft({ ...draft, systemInstruction: e.target.value })} className="custom-input text-sm resize-y" placeholder="Optional. How the assistant should behave." />
+          </div>
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.temperature !== undefined}
+                onChange={(e) => setDraft({ ...draft, temperature: e.target.checked ? DEFAULT_TEMPERATURE : undefined })}
+                className="h-4 w-4 rounded border-zinc-600 bg-zinc-700 text-[#1DB954] focus:ring-[#1DB954]"
+              />
+              Set temperature
+              {draft.temperature !== undefined && <span className="ml-auto font-mono text-[#1DB954]">{draft.temperature.toFixed(1)}</span>}
+            </label>
+            {draft.temperature !== undefined && (
+              <input type="range" min={0} max={2} step={0.1} value={draft.temperature} onChange={(e) => setDraft({ ...draft, temperature: parseFloat(e.target.value) })} className="w-full range-slider" aria-label="Temperature" />
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleSaveDraft} variant="secondary" className="flex-1" disabled={!draft.prompt.trim() && !draft.systemInstruction.trim()}>
+              Save
+            </Button>
+            <Button onClick={() => setDraft(null)} variant="outline" className="flex-1">
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <select value={selected.id} onChange={(e) => setSelectedId(e.target.value)} className="custom-input" disabled={disabled} aria-label="Prompt template">
+            <optgroup label="Built-in">
+              {BUILT_IN_TEMPLATES.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </optgroup>
+            {savedTemplates.length > 0 && (
+              <optgroup label="My templates">
+                {savedTemplates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </optgroup>
+            )}
+          </select>
+
+          {selected.systemInstruction && (
+            <p className="text-xs text-gray-500 line-clamp-3" title={selected.systemInstruction}>{selected.systemInstruction}</p>
+          )}
+
+          {variables.map(name => (
+            <div key={name}>
+              <label htmlFor={`template-var-${name.replace(/\s+/g, '-')}`} className="block text-sm font-medium text-gray-300 mb-1">{variableLabel(name)}</label>
+              <input
+                type="text"
+                id={`template-var-${name.replace(/\s+/g, '-')}`}
+                value={values[name] ?? ''}
+                onChange={(e) => setValues((prev: Record<string, string>) => ({ ...prev, [name]: e.target.value }))}
+                className="custom-input text-sm"
+                disabled={disabled}
+              />
+            </div>
+          ))}
+
+          {selected.temperature !== undefined && (
+            <p className="text-xs text-gray-500">Temperature <span className="font-mono text-[#1DB954]">{selected.temperature.toFixed(1)}</span></p>
+          )}
+
+          <Button onClick={handleUse} className="w-full" disabled={disabled || !canUse}>
+            {selected.prompt.trim() ? 'Use Template' : 'Start Chat'}
+          </Button>
+          <div className="flex items-center justify-between">
+            <button onClick={() => { setDraft({ name: '', prompt: '', systemInstruction: '' }); setError(null); }} className={`${linkClass} inline-flex items-center gap-1`} disabled={disabled}>
+              <PlusIcon className="w-4 h-4" /> New
+            </button>
+            <div className="flex items-center gap-3">
+              <button onClick={handleEdit} className={linkClass} disabled={disabled}>
+                {selected.builtIn ? 'Duplicate' : 'Edit'}
+              </button>
+              {!selected.builtIn && (
+                <button onClick={handleDelete} className={`${linkClass} hover:text-red-400`} disabled={disabled}>
+                  Delete
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-300 text-sm">{error}</div>
+      )}
+    </div>
+  );
+};
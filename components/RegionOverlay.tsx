@@ -0,0 +1,161 @@
+import React, { useRef, useState } from 'react';
+import type { Point, Rect } from '../core';
+
+export interface OverlayRegion extends Rect {
+  id: string;
+}
+
+interface RegionOverlayProps {
+  imageWidth: number; // Regions are in image pixels, whatever size the overlay is displayed at
+  imageHeight: number;
+  regions: OverlayRegion[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onAdd: (rect: Rect) => void;
+  onMove: (id: string, rect: Rect) => void; // Called once when a drag ends
+  onRemove: (id: string) => void;
+  ellipse?: boolean;
+  showOutlines?: boolean;
+  disabled?: boolean;
+}
+
+type Drag =
+  | { kind: 'draw'; start: Point }
+  | { kind: 'move'; id: string; start: Point; origin: Rect };
+
+// Boxes smaller than this (in image pixels) are treated as a click on empty space
+const MIN_REGION_SIZE = 8;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Absolutely positioned over an image (the parent must be `relative`). Drag on empty space to draw
+// a box, drag a box to move it.
+export const RegionOverlay: React.FC<RegionOverlayProps> = ({
+  imageWidth,
+  imageHeight,
+  regions,
+  selectedId,
+  onSelect,
+  onAdd,
+  onMove,
+  onRemove,
+  ellipse = false,
+  showOutlines = true,
+  disabled = false,
+}) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [draft, setDraft] = useState<OverlayRegion | null>(null);
+
+  const toImagePoint = (e: { clientX: number; clientY: number }): Point => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return {
+      x: clamp(((e.clientX - rect.left) / rect.width) * imageWidth, 0, imageWidth),
+      y: clamp(((e.clientY - rect.top) / rect.height) * imageHeight, 0, imageHeight),
+    };
+  };
+
+  const draftFor = (drag: Drag, point: Point): OverlayRegion => {
+    if (drag.kind === 'draw') {
+      return {
+        id: 'draft',
+        x: Math.min(drag.start.x, point.x),
+        y: Math.min(drag.start.y, point.y),
+        width: Math.abs(point.x - drag.start.x),
+        height: Math.abs(point.y - drag.start.y),
+      };
+    }
+    const { origin } = drag;
+    return {
+      id: drag.id,
+      x: clamp(origin.x + point.x - drag.start.x, 0, imageWidth - origin.width),
+      y: clamp(origin.y + point.y - drag.start.y, 0, imageHeight - origin.height),
+      width: origin.width,
+      height: origin.height,
+    };
+  };
+
+  const startDrag = (e: React.PointerEvent, drag: Drag) => {
+    if (disabled || e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    overlayRef.current!.setPointerCapture(e.pointerId);
+    dragRef.current = drag;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    onSelect(null);
+    startDrag(e, { kind: 'draw', start: toImagePoint(e) });
+  };
+
+  const handleRegionPointerDown = (e: React.PointerEvent<HTMLDivElement>, region: OverlayRegion) => {
+    onSelect(region.id);
+    startDrag(e, { kind: 'move', id: region.id, start: toImagePoint(e), origin: region });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current) setDraft(draftFor(dragRef.current, toImagePoint(e)));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    setDraft(null);
+    const { id, ...rect } = draftFor(drag, toImagePoint(e));
+    if (drag.kind === 'draw') {
+      if (rect.width >= MIN_REGION_SIZE && rect.height >= MIN_REGION_SIZE) onAdd(rect);
+    } else if (rect.x !== drag.origin.x || rect.y !== drag.origin.y) {
+      onMove(id, rect);
+    }
+  };
+
+  // The region being moved is shown at its live position
+  const shown = regions.map((region) => (draft && draft.id === region.id ? draft : region));
+  if (draft && draft.id === 'draft') shown.push(draft);
+
+  const toStyle = (rect: Rect): React.CSSProperties => ({
+    left: `${(rect.x / imageWidth) * 100}%`,
+    top: `${(rect.y / imageHeight) * 100}%`,
+    width: `${(rect.width / imageWidth) * 100}%`,
+    height: `${(rect.height / imageHeight) * 100}%`,
+  });
+
+  return (
+    <div
+      ref={overlayRef}
+      className={`absolute inset-0 touch-none select-none ${disabled ? '' : 'cursor-crosshair'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {shown.map((region) => {
+        const isSelected = region.id === selectedId;
+        const isDraft = region.id === 'draft';
+        const visible = showOutlines || isSelected || isDraft;
+        return (
+          <div
+            key={region.id}
+            className={`absolute ${disabled || isDraft ? '' : 'cursor-move'} ${
+              visible ? `border-2 ${isSelected || isDraft ? 'border-[#1DB954]' : 'border-white/80'}` : ''
+            } ${ellipse ? 'rounded-[50%]' : ''}`}
+            style={toStyle(region)}
+            onPointerDown={isDraft ? undefined : (e) => handleRegionPointerDown(e, region)}
+          >
+            {isSelected && !disabled && (
+              <button
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={() => onRemove(region.id)}
+                className="absolute -top-3 -right-3 w-6 h-6 flex items-center justify-center bg-black/70 text-white rounded-full hover:bg-red-600 transition-colors text-sm"
+                title="Remove region (Delete)"
+              >
+                &times;
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
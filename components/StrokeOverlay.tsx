@@ -0,0 +1,92 @@
+import React, { useRef, useState } from 'react';
+import type { Point } from '../core';
+
+export interface OverlayStroke {
+  points: Point[];
+  size: number;
+  color: string;
+}
+
+interface StrokeOverlayProps {
+  imageWidth: number; // Strokes are in image pixels, whatever size the overlay is displayed at
+  imageHeight: number;
+  brushSize: number;
+  color?: string;
+  strokes?: OverlayStroke[]; // Committed strokes to keep showing
+  onStroke: (points: Point[]) => void;
+  disabled?: boolean;
+}
+
+const StrokePath: React.FC<OverlayStroke> = ({ points, size, color }) => (
+  <polyline
+    points={points.map((p) => `${p.x},${p.y}`).join(' ')}
+    fill="none"
+    stroke={color}
+    strokeOpacity={0.6}
+    strokeWidth={size}
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  />
+);
+
+// Absolutely positioned over an image (the parent must be `relative`). Collects freehand strokes
+// and previews them until they're committed.
+export const StrokeOverlay: React.FC<StrokeOverlayProps> = ({
+  imageWidth,
+  imageHeight,
+  brushSize,
+  color = '#1DB954',
+  strokes = [],
+  onStroke,
+  disabled = false,
+}) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [points, setPoints] = useState<Point[] | null>(null);
+
+  const toImagePoint = (e: React.PointerEvent): Point => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * imageWidth,
+      y: ((e.clientY - rect.top) / rect.height) * imageHeight,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled || e.button !== 0) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setPoints([toImagePoint(e)]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!points) return;
+    const point = toImagePoint(e);
+    setPoints((prev: Point[] | null) => (prev ? [...prev, point] : prev));
+  };
+
+  const handlePointerUp = () => {
+    if (!points) return;
+    onStroke(points);
+    setPoints(null);
+  };
+
+  return (
+    <div
+      ref={overlayRef}
+      className={`absolute inset-0 touch-none select-none ${disabled ? '' : 'cursor-crosshair'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {(strokes.length > 0 || points) && (
+        <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox={`0 0 ${imageWidth} ${imageHeight}`} preserveAspectRatio="none">
+          {strokes.map((stroke, index) => (
+            <StrokePath key={index} {...stroke} />
+          ))}
+          {points && <StrokePath points={points} size={brushSize} color={color} />}
+        </svg>
+      )}
+    </div>
+  );
+};
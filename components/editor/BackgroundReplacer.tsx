@@ -0,0 +1,306 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Button } from '../Button';
+import { ColorPicker } from '../ColorPicker';
+import { HistoryPanel } from '../HistoryPanel';
+import { ImageUploader } from '../ImageUploader';
+import { downloadImage } from '../../utils/imageUtils';
+import { loadCutout } from '../../utils/cutout';
+import type { LoadedCutout } from '../../utils/cutout';
+import { applyAlphaMask, decodeImage, drawToCanvas, encodeImage, parseHexColor, replaceBackground } from '../../core';
+import type { BackgroundFill, PixelBuffer, Point, ReplaceBackgroundOptions, RGBA } from '../../core';
+import { useHistory } from '../../hooks/useHistory';
+import { useUndoShortcuts } from '../../hooks/useUndoShortcuts';
+import { ArrowDownTrayIcon, XMarkIcon } from '../icons';
+
+type BackgroundKind = 'color' | 'gradient' | 'blur' | 'image';
+
+interface ReplaceSettings {
+  kind: BackgroundKind;
+  color: string;
+  gradientFrom: string;
+  gradientTo: string;
+  gradientAngle: number;
+  blurRadius: number; // % of the image's shorter side
+  imageFile: File | null;
+  subjectScale: number; // %
+  offsetX: number; // % of the image width
+  offsetY: number; // % of the image height
+  shadow: boolean;
+  shadowColor: string;
+  shadowOpacity: number;
+  shadowBlur: number; // % of the image's shorter side
+  shadowOffsetX: number; // % of the image's shorter side
+  shadowOffsetY: number;
+}
+
+const DEFAULT_SETTINGS: ReplaceSettings = {
+  kind: 'color',
+  color: '#1DB954',
+  gradientFrom: '#1DB954',
+  gradientTo: '#191414',
+  gradientAngle: 90,
+  blurRadius: 3,
+  imageFile: null,
+  subjectScale: 100,
+  offsetX: 0,
+  offsetY: 0,
+  shadow: false,
+  shadowColor: '#000000',
+  shadowOpacity: 0.4,
+  shadowBlur: 2,
+  shadowOffsetX: 1,
+  shadowOffsetY: 2,
+};
+
+const KIND_LABELS: Record<BackgroundKind, string> = {
+  color: 'Color',
+  gradient: 'Gradient',
+  blur: 'Blur',
+  image: 'Image',
+};
+
+const PREVIEW_MAX_SIZE = 1200;
+
+const toRGBA = (hex: string): RGBA => parseHexColor(hex) ?? { r: 0, g: 0, b: 0, a: 255 };
+
+interface BackgroundReplacerProps {
+  original: File;
+  cutout: Blob; // The remover's result; only its alpha channel is used
+  onClose: () => void;
+}
+
+const Slider: React.FC<{ id: string; label: string; value: number; min: number; max: number; step?: number; display: string; onChange: (value: number) => void; disabled?: boolean }> = ({ id, label, value, min, max, step = 1, display, onChange, disabled }) => (
+  <div>
+    <label htmlFor={id} className="flex justify-between text-sm font-medium text-gray-300 mb-2">
+      <span>{label}</span>
+      <span className="font-mono text-[#1DB954]">{display}</span>
+    </label>
+    <input type="range" id={id} min={min} max={max} step={step} value={value} onChange={(e) => onChange(parseFloat(e.target.value))} className="w-full range-slider" disabled={disabled} />
+  </div>
+);
+
+export const BackgroundReplacer: React.FC<BackgroundReplacerProps> = ({ original, cutout, onClose }) => {
+  const [loaded, setLoaded] = useState<LoadedCutout | null>(null);
+  const [previewCutout, setPreviewCutout] = useState<PixelBuffer | null>(null);
+  const [backgroundImage, setBackgroundImage] = useState<PixelBuffer | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ start: Point; offsetX: number; offsetY: number } | null>(null);
+
+  // Settings, with undo/redo
+  const history = useHistory<ReplaceSettings>(DEFAULT_SETTINGS);
+  const settings = history.state;
+  useUndoShortcuts(history, !!loaded);
+
+  // `mergeKey` groups slider drags into a single history step
+  const update = (patch: Partial<ReplaceSettings>, label: string, mergeKey?: string) => {
+    history.push({ ...history.state, ...patch }, label, mergeKey);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const result = await loadCutout(original, cutout, PREVIEW_MAX_SIZE);
+        if (cancelled) return;
+        setLoaded(result);
+        setPreviewCutout(applyAlphaMask(result.previewOriginal, result.previewMask));
+      } catch (err) {
+        console.error('Error loading images for background replacement:', err);
+        if (!cancelled) setError('Could not load the images.');
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [original, cutout]);
+
+  useEffect(() => {
+    if (!settings.imageFile) {
+      setBackgroundImage(null);
+      return;
+    }
+    let cancelled = false;
+    decodeImage(settings.imageFile)
+      .then((pixels) => { if (!cancelled) setBackgroundImage(pixels); })
+      .catch(() => { if (!cancelled) setError('Could not load the background image.'); });
+    return () => { cancelled = true; };
+  }, [settings.imageFile]);
+
+  // Percentages are resolved against the original size; replaceBackground scales them for the preview
+  const buildOptions = (source: PixelBuffer, width: number, height: number): ReplaceBackgroundOptions => {
+    const shortSide = Math.min(width, height);
+    let background: BackgroundFill;
+    switch (settings.kind) {
+      case 'gradient':
+        background = { kind: 'gradient', from: toRGBA(settings.gradientFrom), to: toRGBA(settings.gradientTo), angle: settings.gradientAngle };
+        break;
+      case 'blur':
+        background = { kind: 'blur', source, radius: (settings.blurRadius / 100) * shortSide };
+        break;
+      case 'image':
+        background = backgroundImage ? { kind: 'image', image: backgroundImage } : { kind: 'transparent' };
+        break;
+      default:
+        background = { kind: 'color', color: toRGBA(settings.color) };
+    }
+    return {
+      background,
+      subjectScale: settings.subjectScale / 100,
+      offset: { x: (settings.offsetX / 100) * width, y: (settings.offsetY / 100) * height },
+      shadow: settings.shadow
+        ? {
+            color: toRGBA(settings.shadowColor),
+            opacity: settings.shadowOpacity,
+            blur: (settings.shadowBlur / 100) * shortSide,
+            offset: { x: (settings.shadowOffsetX / 100) * shortSide, y: (settings.shadowOffsetY / 100) * shortSide },
+          }
+        : null,
+    };
+  };
+
+  useEffect(() => {
+    if (!loaded || !previewCutout || !canvasRef.current) return;
+    const frame = requestAnimationFrame(() => {
+      const options = buildOptions(loaded.previewOriginal, loaded.original.width, loaded.original.height);
+      if (canvasRef.current) drawToCanvas(canvasRef.current, replaceBackground(previewCutout, options, loaded.scale));
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [loaded, previewCutout, settings, backgroundImage]);
+
+  // Dragging the preview moves the subject
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { start: { x: e.clientX, y: e.clientY }, offsetX: settings.offsetX, offsetY: settings.offsetY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clamp = (value: number) => Math.round(Math.max(-100, Math.min(100, value)));
+    const offsetX = clamp(drag.offsetX + ((e.clientX - drag.start.x) / rect.width) * 100);
+    const offsetY = clamp(drag.offsetY + ((e.clientY - drag.start.y) / rect.height) * 100);
+    if (offsetX !== settings.offsetX || offsetY !== settings.offsetY) update({ offsetX, offsetY }, 'Move subject', 'move');
+  };
+
+  const handleDownload = async () => {
+    if (!loaded) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const { original: pixels, mask } = loaded;
+      const result = replaceBackground(applyAlphaMask(pixels, mask), buildOptions(pixels, pixels.width, pixels.height));
+      const baseName = original.name.substring(0, original.name.lastIndexOf('.')) || original.name;
+      downloadImage(await encodeImage(result, { format: 'png' }), `bg-replaced_${baseName}.png`);
+    } catch (err: any) {
+      console.error('Error exporting composite:', err);
+      setError(err.message || 'Failed to export the image.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const toggleClass = (active: boolean) =>
+    `flex-1 py-2 px-2 text-sm font-medium transition-colors ${
+      active ? 'bg-[#1DB954] text-black' : 'text-gray-300 hover:bg-zinc-700'
+    } disabled:opacity-50`;
+  const disabled = !loaded;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      <div className="lg:col-span-4 space-y-6">
+        <div className="bg-zinc-900 rounded-lg p-6 space-y-6 border border-zinc-800">
+          <h3 className="text-lg font-semibold text-white">New Background</h3>
+          <div className="flex rounded-lg overflow-hidden bg-zinc-800">
+            {(Object.keys(KIND_LABELS) as BackgroundKind[]).map((kind) => (
+              <button key={kind} className={toggleClass(settings.kind === kind)} onClick={() => update({ kind }, `${KIND_LABELS[kind]} background`)} disabled={disabled}>
+                {KIND_LABELS[kind]}
+              </button>
+            ))}
+          </div>
+
+          {settings.kind === 'color' && (
+            <ColorPicker label="Color" color={settings.color} onChange={(color) => update({ color }, 'Color', 'color')} disabled={disabled} />
+          )}
+          {settings.kind === 'gradient' && (
+            <>
+              <ColorPicker label="From" color={settings.gradientFrom} onChange={(gradientFrom) => update({ gradientFrom }, 'Gradient start', 'gradientFrom')} disabled={disabled} />
+              <ColorPicker label="To" color={settings.gradientTo} onChange={(gradientTo) => update({ gradientTo }, 'Gradient end', 'gradientTo')} disabled={disabled} />
+              <Slider id="gradient-angle" label="Angle" value={settings.gradientAngle} min={0} max={360} step={5} display={`${settings.gradientAngle}°`} onChange={(gradientAngle) => update({ gradientAngle }, 'Gradient angle', 'gradientAngle')} disabled={disabled} />
+            </>
+          )}
+          {settings.kind === 'blur' && (
+            <Slider id="background-blur" label="Blur" value={settings.blurRadius} min={0.5} max={10} step={0.5} display={`${settings.blurRadius}%`} onChange={(blurRadius) => update({ blurRadius }, 'Background blur', 'blurRadius')} disabled={disabled} />
+          )}
+          {settings.kind === 'image' && (
+            settings.imageFile ? (
+              <Button onClick={() => update({ imageFile: null }, 'Remove background image')} variant="outline" icon={<XMarkIcon />}>
+                Remove Background Image
+              </Button>
+            ) : (
+              <ImageUploader onFileSelect={(files) => files.length > 0 && update({ imageFile: files[0] }, 'Background image')} title="Upload Background" description="PNG, JPG, WEBP" multiple={false} accept="image/*" />
+            )
+          )}
+        </div>
+
+        <div className="bg-zinc-900 rounded-lg p-6 space-y-6 border border-zinc-800">
+          <h3 className="text-lg font-semibold text-white">Subject</h3>
+          <Slider id="subject-scale" label="Scale" value={settings.subjectScale} min={10} max={200} display={`${settings.subjectScale}%`} onChange={(subjectScale) => update({ subjectScale }, 'Subject scale', 'subjectScale')} disabled={disabled} />
+          <Slider id="subject-x" label="Horizontal Position" value={settings.offsetX} min={-100} max={100} display={`${settings.offsetX}%`} onChange={(offsetX) => update({ offsetX }, 'Move subject', 'move')} disabled={disabled} />
+          <Slider id="subject-y" label="Vertical Position" value={settings.offsetY} min={-100} max={100} display={`${settings.offsetY}%`} onChange={(offsetY) => update({ offsetY }, 'Move subject', 'move')} disabled={disabled} />
+
+          <div className="flex items-center pt-4 border-t border-zinc-800">
+            <input id="drop-shadow" type="checkbox" checked={settings.shadow} onChange={(e) => update({ shadow: e.target.checked }, e.target.checked ? 'Add shadow' : 'Remove shadow')} className="h-4 w-4 rounded border-zinc-600 bg-zinc-700 text-[#1DB954] focus:ring-[#1DB954]" disabled={disabled} />
+            <label htmlFor="drop-shadow" className="ml-3 block text-sm font-medium text-gray-300">Drop Shadow</label>
+          </div>
+          {settings.shadow && (
+            <>
+              <ColorPicker label="Shadow Color" color={settings.shadowColor} onChange={(shadowColor) => update({ shadowColor }, 'Shadow color', 'shadowColor')} disabled={disabled} />
+              <Slider id="shadow-opacity" label="Opacity" value={settings.shadowOpacity} min={0} max={1} step={0.05} display={`${Math.round(settings.shadowOpacity * 100)}%`} onChange={(shadowOpacity) => update({ shadowOpacity }, 'Shadow opacity', 'shadowOpacity')} disabled={disabled} />
+              <Slider id="shadow-blur" label="Softness" value={settings.shadowBlur} min={0} max={10} step={0.5} display={`${settings.shadowBlur}%`} onChange={(shadowBlur) => update({ shadowBlur }, 'Shadow softness', 'shadowBlur')} disabled={disabled} />
+              <Slider id="shadow-x" label="Offset X" value={settings.shadowOffsetX} min={-10} max={10} step={0.5} display={`${settings.shadowOffsetX}%`} onChange={(shadowOffsetX) => update({ shadowOffsetX }, 'Shadow offset', 'shadowOffset')} disabled={disabled} />
+              <Slider id="shadow-y" label="Offset Y" value={settings.shadowOffsetY} min={-10} max={10} step={0.5} display={`${settings.shadowOffsetY}%`} onChange={(shadowOffsetY) => update({ shadowOffsetY }, 'Shadow offset', 'shadowOffset')} disabled={disabled} />
+            </>
+          )}
+        </div>
+
+        {loaded && <HistoryPanel history={history} />}
+
+        {error && (
+          <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-300 text-sm">{error}</div>
+        )}
+
+        <div className="flex flex-col gap-4">
+          <Button onClick={handleDownload} isLoading={isExporting} icon={<ArrowDownTrayIcon />} disabled={disabled}>
+            Download PNG
+          </Button>
+          <p className="text-xs text-gray-500 -mt-2">Exported at the original resolution{loaded ? ` (${loaded.original.width} × ${loaded.original.height})` : ''}.</p>
+          <Button onClick={onClose} variant="outline" icon={<XMarkIcon />} disabled={isExporting}>
+            Close
+          </Button>
+        </div>
+      </div>
+
+      <div className="lg:col-span-8">
+        <div className="bg-zinc-900 p-4 rounded-lg border border-zinc-800 sticky top-24">
+          <div className="bg-black/50 p-2 rounded-lg flex items-center justify-center min-h-[40vh] overflow-hidden">
+            {!loaded ? (
+              <p className="text-gray-400">{error ? 'Nothing to show.' : 'Loading...'}</p>
+            ) : (
+              <canvas
+                ref={canvasRef}
+                className="block max-w-full max-h-[70vh] checkerboard-bg cursor-move touch-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => { dragRef.current = null; }}
+                onPointerCancel={() => { dragRef.current = null; }}
+              />
+            )}
+          </div>
+          {loaded && <p className="text-xs text-gray-500 mt-3 text-center">Drag the image to move the subject.</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
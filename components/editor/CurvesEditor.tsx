@@ -0,0 +1,108 @@
+import React, { useRef, useState, useMemo } from 'react';
+import { buildCurveLut } from '../../core';
+import type { CurvePoint } from '../../core';
+
+interface CurvesEditorProps {
+  points: CurvePoint[];
+  onChange: (points: CurvePoint[]) => void;
+  disabled?: boolean;
+}
+
+const SIZE = 256;
+const HIT_RADIUS = 10; // In curve units (0-255)
+
+// Click to add a point, drag to move it, double-click to remove it. The end points can move
+// but not be removed, so the curve always spans the full input range.
+export const CurvesEditor: React.FC<CurvesEditorProps> = ({ points, onChange, disabled }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const sorted = useMemo(() => [...points].sort((a, b) => a.x - b.x), [points]);
+
+  const path = useMemo(() => {
+    const lut = buildCurveLut(sorted);
+    let d = `M 0 ${SIZE - 1 - lut[0]}`;
+    for (let x = 1; x < 256; x++) d += ` L ${x} ${SIZE - 1 - lut[x]}`;
+    return d;
+  }, [sorted]);
+
+  const toCurvePoint = (e: { clientX: number; clientY: number }): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * (SIZE - 1);
+    const y = (SIZE - 1) - ((e.clientY - rect.top) / rect.height) * (SIZE - 1);
+    return {
+      x: Math.round(Math.max(0, Math.min(255, x))),
+      y: Math.round(Math.max(0, Math.min(255, y))),
+    };
+  };
+
+  const findPoint = (p: CurvePoint) =>
+    sorted.findIndex(point => Math.hypot(point.x - p.x, point.y - p.y) <= HIT_RADIUS);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    const p = toCurvePoint(e);
+    let index = findPoint(p);
+    if (index < 0) {
+      const next = [...sorted, p].sort((a, b) => a.x - b.x);
+      index = next.indexOf(p);
+      onChange(next);
+    }
+    setDragIndex(index);
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    const p = toCurvePoint(e);
+    const isFirst = dragIndex === 0;
+    const isLast = dragIndex === sorted.length - 1;
+    // Keep points in order: a point can't be dragged past its neighbours
+    const minX = isFirst ? 0 : sorted[dragIndex - 1].x + 1;
+    const maxX = isLast ? 255 : sorted[dragIndex + 1].x - 1;
+    const next = [...sorted];
+    next[dragIndex] = { x: Math.max(minX, Math.min(maxX, p.x)), y: p.y };
+    onChange(next);
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    const index = findPoint(toCurvePoint(e));
+    if (index > 0 && index < sorted.length - 1) {
+      onChange(sorted.filter((_, i) => i !== index));
+    }
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${SIZE} ${SIZE}`}
+      className={`w-full aspect-square bg-black/50 rounded-md border border-zinc-700 touch-none ${disabled ? 'opacity-50' : 'cursor-crosshair'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => setDragIndex(null)}
+      onPointerCancel={() => setDragIndex(null)}
+      onDoubleClick={handleDoubleClick}
+      aria-label="Tone curve"
+    >
+      {[64, 128, 192].map(v => (
+        <g key={v} stroke="#3f3f46" strokeWidth="1">
+          <line x1={v} y1="0" x2={v} y2={SIZE} />
+          <line x1="0" y1={v} x2={SIZE} y2={v} />
+        </g>
+      ))}
+      <line x1="0" y1={SIZE - 1} x2={SIZE - 1} y2="0" stroke="#52525b" strokeWidth="1" strokeDasharray="4 4" />
+      <path d={path} fill="none" stroke="#1DB954" strokeWidth="2" />
+      {sorted.map((point, i) => (
+        <circle
+          key={i}
+          cx={point.x}
+          cy={SIZE - 1 - point.y}
+          r="5"
+          fill={i === dragIndex ? '#1DB954' : '#18181b'}
+          stroke="#1DB954"
+          strokeWidth="2"
+        />
+      ))}
+    </svg>
+  );
+};
@@ -0,0 +1,341 @@
+import React, { useRef } from 'react';
+import { ColorPicker } from '../ColorPicker';
+import { HistoryPanel } from '../HistoryPanel';
+import { CurvesEditor } from './CurvesEditor';
+import { centeredAspectRect, DEFAULT_ADJUSTMENTS, IDENTITY_CURVE } from '../../core';
+import type { Adjustments, Levels, WatermarkPosition } from '../../core';
+import { describeLayer, layerCanvasSizes, LAYER_LABELS } from '../../utils/photoEditor';
+import type { EditorDocument, EditorLayer, EditorLayerType, Size } from '../../utils/photoEditor';
+import type { History } from '../../hooks/useHistory';
+import { ChevronDownIcon, ChevronUpIcon, EyeIcon, EyeSlashIcon, TrashIcon } from '../icons';
+
+export type AddableLayerType = Exclude<EditorLayerType, 'image'>;
+
+interface EditorSidebarProps {
+  doc: EditorDocument;
+  selectedLayerId: string | null;
+  onSelectLayer: (id: string) => void;
+  // `mergeKey` collapses a run of changes (e.g. a slider drag) into one history entry
+  onChangeLayer: (id: string, patch: Partial<EditorLayer>, label: string, mergeKey?: string) => void;
+  onAddLayer: (type: AddableLayerType) => void;
+  onAddImage: (file: File) => void;
+  onRemoveLayer: (id: string) => void;
+  onMoveLayer: (id: string, offset: number) => void;
+  history: History<EditorDocument | null>;
+  disabled?: boolean;
+}
+
+const ADDABLE_LAYERS: AddableLayerType[] = ['adjustment', 'paint', 'crop', 'rotate', 'watermark'];
+
+const CROP_PRESETS: { label: string; ratio: number | null }[] = [
+  { label: 'Full', ratio: null },
+  { label: '1:1', ratio: 1 },
+  { label: '4:3', ratio: 4 / 3 },
+  { label: '3:2', ratio: 3 / 2 },
+  { label: '16:9', ratio: 16 / 9 },
+];
+
+const PropertySlider: React.FC<{ id: string; label: string; value: number; min: number; max: number; step?: number; display?: string; onChange: (value: number) => void; disabled?: boolean }> = ({ id, label, value, min, max, step = 1, display, onChange, disabled }) => (
+  <div>
+    <label htmlFor={id} className="flex justify-between text-sm font-medium text-gray-300 mb-2">
+      <span>{label}</span>
+      <span className="font-mono text-[#1DB954]">{display ?? value}</span>
+    </label>
+    <input type="range" id={id} min={min} max={max} step={step} value={value} onChange={(e) => onChange(parseFloat(e.target.value))} className="w-full range-slider" disabled={disabled} />
+  </div>
+);
+
+const NumberField: React.FC<{ id: string; label: string; value: number; min?: number; max?: number; onChange: (value: number) => void; disabled?: boolean }> = ({ id, label, value, min, max, onChange, disabled }) => (
+  <div>
+    <label htmlFor={id} className="block text-xs font-medium text-gray-400 mb-1">{label}</label>
+    <input
+      type="number"
+      id={id}
+      value={Math.round(value)}
+      min={min}
+      max={max}
+      onChange={(e) => {
+        const parsed = parseInt(e.target.value, 10);
+        if (!isNaN(parsed)) onChange(parsed);
+      }}
+      className="custom-input"
+      disabled={disabled}
+    />
+  </div>
+);
+
+interface LayerPropertiesProps {
+  layer: EditorLayer;
+  canvas: Size; // Size of the composite the layer applies to
+  onChange: (patch: Partial<EditorLayer>, label: string, mergeKey?: string) => void;
+  disabled?: boolean;
+}
+
+const LayerProperties: React.FC<LayerPropertiesProps> = ({ layer, canvas, onChange, disabled }) => {
+  const key = (field: string) => `${layer.id}-${field}`;
+
+  switch (layer.type) {
+    case 'image':
+    case 'paint':
+      return (
+        <div className="space-y-4">
+          <PropertySlider id="layer-opacity" label="Opacity" value={layer.opacity} min={0} max={1} step={0.01} display={`${Math.round(layer.opacity * 100)}%`} onChange={opacity => onChange({ opacity }, 'Layer opacity', key('opacity'))} disabled={disabled} />
+          {layer.type === 'image' && (
+            <>
+              <PropertySlider id="layer-scale" label="Scale" value={layer.scale} min={1} max={400} display={`${Math.round(layer.scale)}%`} onChange={scale => onChange({ scale }, 'Scale layer', key('scale'))} disabled={disabled} />
+              <div className="grid grid-cols-2 gap-3">
+                <NumberField id="layer-x" label="X" value={layer.x} onChange={x => onChange({ x }, 'Move layer', key('position'))} disabled={disabled} />
+                <NumberField id="layer-y" label="Y" value={layer.y} onChange={y => onChange({ y }, 'Move layer', key('position'))} disabled={disabled} />
+              </div>
+            </>
+          )}
+          {layer.strokes.length > 0 && (
+            <button onClick={() => onChange({ strokes: [] }, 'Clear strokes')} className="text-sm text-[#1DB954] hover:underline disabled:opacity-50" disabled={disabled}>
+              Clear {layer.strokes.length} brush stroke{layer.strokes.length === 1 ? '' : 's'}
+            </button>
+          )}
+          <p className="text-xs text-gray-500">
+            {layer.type === 'image' ? 'Brush paints onto this image; the eraser makes it transparent.' : 'Paint with the brush; the eraser removes paint from this layer only.'}
+          </p>
+        </div>
+      );
+
+    case 'adjustment': {
+      const { adjustments } = layer;
+      const setAdjustment = (patch: Partial<Adjustments>, label: string, field: string) =>
+        onChange({ adjustments: { ...adjustments, ...patch } }, label, key(field));
+      const setLevels = (patch: Partial<Levels>) =>
+        setAdjustment({ levels: { ...adjustments.levels, ...patch } }, 'Levels', 'levels');
+      return (
+        <div className="space-y-4">
+          <PropertySlider id="adjust-exposure" label="Exposure" value={adjustments.exposure} min={-3} max={3} step={0.05} display={`${adjustments.exposure > 0 ? '+' : ''}${adjustments.exposure.toFixed(2)} EV`} onChange={exposure => setAdjustment({ exposure }, 'Exposure', 'exposure')} disabled={disabled} />
+          <PropertySlider id="adjust-contrast" label="Contrast" value={adjustments.contrast} min={-100} max={100} onChange={contrast => setAdjustment({ contrast }, 'Contrast', 'contrast')} disabled={disabled} />
+          <PropertySlider id="adjust-saturation" label="Saturation" value={adjustments.saturation} min={-100} max={100} onChange={saturation => setAdjustment({ saturation }, 'Saturation', 'saturation')} disabled={disabled} />
+          <PropertySlider id="adjust-temperature" label="Temperature" value={adjustments.temperature} min={-100} max={100} onChange={temperature => setAdjustment({ temperature }, 'Temperature', 'temperature')} disabled={disabled} />
+
+          <div className="pt-4 border-t border-zinc-800 space-y-3">
+            <h4 className="text-sm font-semibold text-gray-300">Levels</h4>
+            <div className="grid grid-cols-3 gap-3">
+              <NumberField id="levels-in-black" label="Input black" value={adjustments.levels.inputBlack} min={0} max={254} onChange={v => setLevels({ inputBlack: Math.max(0, Math.min(adjustments.levels.inputWhite - 1, v)) })} disabled={disabled} />
+              <NumberField id="levels-in-white" label="Input white" value={adjustments.levels.inputWhite} min={1} max={255} onChange={v => setLevels({ inputWhite: Math.min(255, Math.max(adjustments.levels.inputBlack + 1, v)) })} disabled={disabled} />
+              <div>
+                <label htmlFor="levels-gamma" className="block text-xs font-medium text-gray-400 mb-1">Gamma</label>
+                <input type="number" id="levels-gamma" value={adjustments.levels.gamma} min={0.1} max={10} step={0.05} onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) setLevels({ gamma: Math.max(0.1, Math.min(10, v)) }); }} className="custom-input" disabled={disabled} />
+              </div>
+              <NumberField id="levels-out-black" label="Output black" value={adjustments.levels.outputBlack} min={0} max={255} onChange={v => setLevels({ outputBlack: Math.max(0, Math.min(255, v)) })} disabled={disabled} />
+              <NumberField id="levels-out-white" label="Output white" value={adjustments.levels.outputWhite} min={0} max={255} onChange={v => setLevels({ outputWhite: Math.max(0, Math.min(255, v)) })} disabled={disabled} />
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-zinc-800 space-y-3">
+            <div className="flex justify-between items-center">
+              <h4 className="text-sm font-semibold text-gray-300">Curve</h4>
+              <button onClick={() => setAdjustment({ curve: IDENTITY_CURVE }, 'Reset curve', 'curve-reset')} className="text-xs text-[#1DB954] hover:underline disabled:opacity-50" disabled={disabled}>Reset</button>
+            </div>
+            <CurvesEditor points={adjustments.curve} onChange={curve => setAdjustment({ curve }, 'Curve', 'curve')} disabled={disabled} />
+            <p className="text-xs text-gray-500">Click to add a point, drag to shape the curve, double-click a point to remove it.</p>
+          </div>
+
+          <button onClick={() => onChange({ adjustments: DEFAULT_ADJUSTMENTS }, 'Reset adjustments')} className="text-sm text-[#1DB954] hover:underline disabled:opacity-50" disabled={disabled}>
+            Reset all adjustments
+          </button>
+        </div>
+      );
+    }
+
+    case 'crop': {
+      const { rect } = layer;
+      const setRect = (patch: Partial<typeof rect>) => onChange({ rect: { ...rect, ...patch } }, 'Crop', key('rect'));
+      return (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Aspect Ratio</label>
+            <div className="flex flex-wrap gap-2">
+              {CROP_PRESETS.map(preset => (
+                <button
+                  key={preset.label}
+                  onClick={() => onChange({
+                    rect: preset.ratio === null
+                      ? { x: 0, y: 0, width: canvas.width, height: canvas.height }
+                      : centeredAspectRect(canvas.width, canvas.height, preset.ratio),
+                  }, `Crop ${preset.label}`)}
+                  className="px-3 py-1 text-sm rounded-md bg-zinc-800 text-gray-300 hover:bg-zinc-700 disabled:opacity-50"
+                  disabled={disabled}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <NumberField id="crop-x" label="X" value={rect.x} min={0} max={canvas.width - 1} onChange={x => setRect({ x })} disabled={disabled} />
+            <NumberField id="crop-y" label="Y" value={rect.y} min={0} max={canvas.height - 1} onChange={y => setRect({ y })} disabled={disabled} />
+            <NumberField id="crop-width" label="Width" value={rect.width} min={1} max={canvas.width} onChange={width => setRect({ width })} disabled={disabled} />
+            <NumberField id="crop-height" label="Height" value={rect.height} min={1} max={canvas.height} onChange={height => setRect({ height })} disabled={disabled} />
+          </div>
+          <p className="text-xs text-gray-500">Crops the {canvas.width} × {canvas.height} image produced by the layers below.</p>
+        </div>
+      );
+    }
+
+    case 'rotate':
+      return (
+        <div className="space-y-4">
+          <PropertySlider id="rotate-degrees" label="Angle" value={layer.degrees} min={-180} max={180} display={`${layer.degrees}°`} onChange={degrees => onChange({ degrees }, 'Rotate', key('degrees'))} disabled={disabled} />
+          <div className="flex gap-2">
+            {[-90, 90, 180].map(delta => (
+              <button
+                key={delta}
+                onClick={() => {
+                  const degrees = ((((layer.degrees + delta) % 360) + 540) % 360) - 180;
+                  onChange({ degrees }, 'Rotate');
+                }}
+                className="flex-1 px-3 py-1 text-sm rounded-md bg-zinc-800 text-gray-300 hover:bg-zinc-700 disabled:opacity-50"
+                disabled={disabled}
+              >
+                {delta > 0 ? `+${delta}°` : `${delta}°`}
+              </button>
+            ))}
+          </div>
+        </div>
+      );
+
+    case 'watermark':
+      return (
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="layer-watermark-text" className="block text-sm font-medium text-gray-300 mb-2">Watermark Text</label>
+            <input type="text" id="layer-watermark-text" value={layer.text} onChange={(e) => onChange({ text: e.target.value }, 'Watermark text', key('text'))} className="custom-input" disabled={disabled} />
+          </div>
+          <ColorPicker label="Color" color={layer.color} onChange={color => onChange({ color }, 'Watermark color', key('color'))} disabled={disabled} />
+          <PropertySlider id="layer-watermark-size" label="Size" value={layer.size} min={1} max={50} display={`${layer.size}%`} onChange={size => onChange({ size }, 'Watermark size', key('size'))} disabled={disabled} />
+          <PropertySlider id="layer-watermark-opacity" label="Opacity" value={layer.opacity} min={0} max={1} step={0.05} display={`${Math.round(layer.opacity * 100)}%`} onChange={opacity => onChange({ opacity }, 'Watermark opacity', key('opacity'))} disabled={disabled} />
+          <div className="flex items-center">
+            <input
+              id="layer-watermark-tiled"
+              type="checkbox"
+              checked={layer.tiled}
+              onChange={(e) => onChange({ tiled: e.target.checked }, 'Tile watermark')}
+              className="h-4 w-4 rounded border-zinc-600 bg-zinc-700 text-[#1DB954] focus:ring-[#1DB954]"
+              disabled={disabled}
+            />
+            <label htmlFor="layer-watermark-tiled" className="ml-3 block text-sm font-medium text-gray-300">Tile Watermark</label>
+          </div>
+          <div>
+            <label htmlFor="layer-watermark-position" className="block text-sm font-medium text-gray-300 mb-2">Position</label>
+            <select id="layer-watermark-position" value={layer.position} onChange={(e) => onChange({ position: e.target.value as WatermarkPosition }, 'Watermark position')} className="custom-input" disabled={disabled || layer.tiled}>
+              <option value="bottom-right">Bottom Right</option>
+              <option value="bottom-left">Bottom Left</option>
+              <option value="top-right">Top Right</option>
+              <option value="top-left">Top Left</option>
+              <option value="center">Center</option>
+            </select>
+          </div>
+        </div>
+      );
+  }
+};
+
+export const EditorSidebar: React.FC<EditorSidebarProps> = ({
+  doc,
+  selectedLayerId,
+  onSelectLayer,
+  onChangeLayer,
+  onAddLayer,
+  onAddImage,
+  onRemoveLayer,
+  onMoveLayer,
+  history,
+  disabled,
+}) => {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const sizes = layerCanvasSizes(doc);
+  const selectedIndex = doc.layers.findIndex(layer => layer.id === selectedLayerId);
+  const selectedLayer = selectedIndex >= 0 ? doc.layers[selectedIndex] : null;
+  // Listed top to bottom, the reverse of the render order
+  const listed = doc.layers.map((layer, index) => ({ layer, index })).reverse();
+
+  const handleAdd = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value;
+    e.target.value = '';
+    if (value === 'image') {
+      imageInputRef.current?.click();
+    } else if (value) {
+      onAddLayer(value as AddableLayerType);
+    }
+  };
+
+  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onAddImage(file);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-zinc-900 rounded-lg p-6 space-y-4 border border-zinc-800">
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="text-lg font-semibold text-white">Layers</h3>
+          <select value="" onChange={handleAdd} className="custom-input max-w-[10rem]" disabled={disabled} aria-label="Add layer">
+            <option value="" disabled>Add layer…</option>
+            {ADDABLE_LAYERS.map(type => <option key={type} value={type}>{LAYER_LABELS[type]}</option>)}
+            <option value="image">Image…</option>
+          </select>
+          <input ref={imageInputRef} type="file" accept="image/*" className="sr-only" onChange={handleImageChange} />
+        </div>
+        <ul className="space-y-1 max-h-72 overflow-y-auto">
+          {listed.map(({ layer, index }) => (
+            <li
+              key={layer.id}
+              onClick={() => onSelectLayer(layer.id)}
+              className={`flex items-center gap-2 p-2 rounded-md border cursor-pointer transition-colors ${layer.id === selectedLayerId ? 'border-[#1DB954] bg-zinc-800' : 'border-transparent hover:bg-zinc-800/60'}`}
+            >
+              <button
+                onClick={(e) => { e.stopPropagation(); onChangeLayer(layer.id, { visible: !layer.visible }, layer.visible ? 'Hide layer' : 'Show layer'); }}
+                className="w-6 text-gray-400 hover:text-white"
+                title={layer.visible ? 'Hide layer' : 'Show layer'}
+                aria-label={layer.visible ? 'Hide layer' : 'Show layer'}
+                disabled={disabled}
+              >
+                {layer.visible ? <EyeIcon /> : <EyeSlashIcon />}
+              </button>
+              <div className={`flex-1 min-w-0 ${layer.visible ? '' : 'opacity-50'}`}>
+                <p className="text-sm text-gray-200 truncate">{layer.name}</p>
+                <p className="text-xs text-gray-500 truncate">{describeLayer(layer)}</p>
+              </div>
+              <button onClick={(e) => { e.stopPropagation(); onMoveLayer(layer.id, 1); }} className="p-1 text-gray-400 hover:text-white disabled:opacity-30" disabled={disabled || index === doc.layers.length - 1} title="Move up" aria-label="Move layer up">
+                <ChevronUpIcon />
+              </button>
+              <button onClick={(e) => { e.stopPropagation(); onMoveLayer(layer.id, -1); }} className="p-1 text-gray-400 hover:text-white disabled:opacity-30" disabled={disabled || index === 0} title="Move down" aria-label="Move layer down">
+                <ChevronDownIcon />
+              </button>
+              <button onClick={(e) => { e.stopPropagation(); onRemoveLayer(layer.id); }} className="p-1 text-gray-400 hover:text-red-400 disabled:opacity-30" disabled={disabled || doc.layers.length === 1} title="Delete layer" aria-label="Delete layer">
+                <TrashIcon />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <p className="text-xs text-gray-500">Each layer applies to everything below it. Nothing is baked in until you export.</p>
+      </div>
+
+      {selectedLayer && (
+        <div className="bg-zinc-900 rounded-lg p-6 space-y-4 border border-zinc-800">
+          <h3 className="text-lg font-semibold text-white">{LAYER_LABELS[selectedLayer.type]} Layer</h3>
+          <div>
+            <label htmlFor="layer-name" className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+            <input type="text" id="layer-name" value={selectedLayer.name} onChange={(e) => onChangeLayer(selectedLayer.id, { name: e.target.value }, 'Rename layer', `${selectedLayer.id}-name`)} className="custom-input" disabled={disabled} />
+          </div>
+          <LayerProperties
+            layer={selectedLayer}
+            canvas={sizes[selectedIndex]}
+            onChange={(patch, label, mergeKey) => onChangeLayer(selectedLayer.id, patch, label, mergeKey)}
+            disabled={disabled}
+          />
+        </div>
+      )}
+
+      {/* Undo and redo live in the toolbar */}
+      <HistoryPanel history={history} showControls={false} disabled={disabled} />
+    </div>
+  );
+};
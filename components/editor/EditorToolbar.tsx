@@ -0,0 +1,100 @@
+import React from 'react';
+import { ArrowUturnLeftIcon, ArrowUturnRightIcon, EraserIcon, MoveIcon, PaintBrushIcon } from '../icons';
+
+export type EditorTool = 'move' | 'brush' | 'eraser';
+
+export interface BrushSettings {
+  color: string;
+  size: number; // Diameter in image pixels
+  hardness: number; // 0.0 to 1.0
+  opacity: number; // 0.0 to 1.0
+}
+
+interface EditorToolbarProps {
+  tool: EditorTool;
+  onToolChange: (tool: EditorTool) => void;
+  brush: BrushSettings;
+  onBrushChange: (brush: BrushSettings) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  disabled?: boolean;
+}
+
+const TOOLS: { id: EditorTool; label: string; icon: React.ReactNode }[] = [
+  { id: 'move', label: 'Move layer', icon: <MoveIcon /> },
+  { id: 'brush', label: 'Brush', icon: <PaintBrushIcon /> },
+  { id: 'eraser', label: 'Eraser', icon: <EraserIcon /> },
+];
+
+const ToolbarSlider: React.FC<{ label: string; value: number; min: number; max: number; step?: number; display: string; onChange: (value: number) => void; disabled?: boolean }> = ({ label, value, min, max, step = 1, display, onChange, disabled }) => (
+  <label className="flex items-center gap-2 text-xs text-gray-400">
+    <span>{label}</span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-24 range-slider"
+      aria-label={label}
+      disabled={disabled}
+    />
+    <span className="font-mono text-gray-300 w-10">{display}</span>
+  </label>
+);
+
+export const EditorToolbar: React.FC<EditorToolbarProps> = ({ tool, onToolChange, brush, onBrushChange, canUndo, canRedo, onUndo, onRedo, disabled }) => {
+  const isBrushTool = tool === 'brush' || tool === 'eraser';
+  const buttonClass = (active: boolean) =>
+    `p-2 rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${active ? 'bg-[#1DB954] text-black' : 'bg-zinc-800 text-gray-300 hover:bg-zinc-700'}`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 bg-zinc-900 rounded-lg p-3 border border-zinc-800">
+      <div className="flex gap-1" role="toolbar" aria-label="Tools">
+        {TOOLS.map(t => (
+          <button
+            key={t.id}
+            onClick={() => onToolChange(t.id)}
+            className={`${buttonClass(tool === t.id)} w-9`}
+            title={t.label}
+            aria-label={t.label}
+            aria-pressed={tool === t.id}
+            disabled={disabled}
+          >
+            {t.icon}
+          </button>
+        ))}
+      </div>
+
+      {isBrushTool && (
+        <div className="flex flex-wrap items-center gap-3">
+          {tool === 'brush' && (
+            <input
+              type="color"
+              value={brush.color}
+              onChange={(e) => onBrushChange({ ...brush, color: e.target.value })}
+              className="w-8 h-8 rounded cursor-pointer bg-transparent border border-zinc-700"
+              aria-label="Brush color"
+              disabled={disabled}
+            />
+          )}
+          <ToolbarSlider label="Size" value={brush.size} min={1} max={500} display={`${brush.size}px`} onChange={size => onBrushChange({ ...brush, size })} disabled={disabled} />
+          <ToolbarSlider label="Hardness" value={brush.hardness} min={0} max={1} step={0.05} display={`${Math.round(brush.hardness * 100)}%`} onChange={hardness => onBrushChange({ ...brush, hardness })} disabled={disabled} />
+          <ToolbarSlider label="Opacity" value={brush.opacity} min={0.05} max={1} step={0.05} display={`${Math.round(brush.opacity * 100)}%`} onChange={opacity => onBrushChange({ ...brush, opacity })} disabled={disabled} />
+        </div>
+      )}
+
+      <div className="flex gap-1 ml-auto">
+        <button onClick={onUndo} disabled={disabled || !canUndo} className={`${buttonClass(false)} w-9`} title="Undo (Ctrl+Z)" aria-label="Undo">
+          <ArrowUturnLeftIcon />
+        </button>
+        <button onClick={onRedo} disabled={disabled || !canRedo} className={`${buttonClass(false)} w-9`} title="Redo (Ctrl+Shift+Z)" aria-label="Redo">
+          <ArrowUturnRightIcon />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Button } from '../Button';
+import { ColorPicker } from '../ColorPicker';
+import { HistoryPanel } from '../HistoryPanel';
+import { ImageUploader } from '../ImageUploader';
+import { StrokeOverlay } from '../StrokeOverlay';
+import { downloadImage } from '../../utils/imageUtils';
+import { loadCutout } from '../../utils/cutout';
+import type { LoadedCutout } from '../../utils/cutout';
+import { applyAlphaMask, decodeImage, drawToCanvas, encodeImage, parseHexColor, refineAlphaMask, replaceBackground } from '../../core';
+import type { AlphaMask, BackgroundFill, MaskBrushMode, MaskRefinement, PixelBuffer, Point } from '../../core';
+import { useHistory } from '../../hooks/useHistory';
+import { useUndoShortcuts } from '../../hooks/useUndoShortcuts';
+import { ArrowDownTrayIcon, CheckIcon, EraserIcon, PaintBrushIcon, XMarkIcon } from '../icons';
+
+type BackgroundKind = 'transparent' | 'color' | 'image';
+
+interface RefinementEditorProps {
+  original: File;
+  cutout: Blob; // The remover's result; only its alpha channel is used
+  onApply: (refined: Blob) => void;
+  onCancel: () => void;
+}
+
+const DEFAULT_REFINEMENT: MaskRefinement = { expand: 0, feather: 0, strokes: [] };
+
+// Edits are previewed on a downscaled copy and applied at full resolution on export
+const PREVIEW_MAX_SIZE = 1600;
+
+const REMOVED_TINT = { r: 255, g: 40, b: 40 };
+
+const BRUSH_COLORS: Record<MaskBrushMode, string> = {
+  restore: '#1DB954',
+  erase: '#ef4444',
+};
+
+// Shows masked-out pixels as a translucent red overlay of the original, so missed areas are easy to restore
+const tintRemoved = (target: PixelBuffer, original: PixelBuffer, mask: AlphaMask) => {
+  const { data } = target;
+  for (let i = 0; i < mask.data.length; i++) {
+    const amount = ((255 - mask.data[i]) / 255) * 0.5;
+    if (amount <= 0) continue;
+    const j = i * 4;
+    const alpha = data[j + 3] / 255;
+    const outAlpha = amount + alpha * (1 - amount);
+    data[j] = ((original.data[j] * 0.5 + REMOVED_TINT.r * 0.5) * amount + data[j] * alpha * (1 - amount)) / outAlpha;
+    data[j + 1] = ((original.data[j + 1] * 0.5 + REMOVED_TINT.g * 0.5) * amount + data[j + 1] * alpha * (1 - amount)) / outAlpha;
+    data[j + 2] = ((original.data[j + 2] * 0.5 + REMOVED_TINT.b * 0.5) * amount + data[j + 2] * alpha * (1 - amount)) / outAlpha;
+    data[j + 3] = outAlpha * 255;
+  }
+};
+
+export const RefinementEditor: React.FC<RefinementEditorProps> = ({ original, cutout, onApply, onCancel }) => {
+  const [loaded, setLoaded] = useState<LoadedCutout | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [brushMode, setBrushMode] = useState<MaskBrushMode>('restore');
+  const [brushSize, setBrushSize] = useState(40);
+  const [hardness, setHardness] = useState(0.5);
+  const [showRemoved, setShowRemoved] = useState(true);
+  const [backgroundKind, setBackgroundKind] = useState<BackgroundKind>('transparent');
+  const [backgroundColor, setBackgroundColor] = useState('#ffffff');
+  const [backgroundImage, setBackgroundImage] = useState<PixelBuffer | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Mask edits, with undo/redo
+  const history = useHistory<MaskRefinement>(DEFAULT_REFINEMENT);
+  const { expand, feather, strokes } = history.state;
+  useUndoShortcuts(history, !!loaded);
+
+  const update = (patch: Partial<MaskRefinement>, label: string, mergeKey?: string) => {
+    history.push({ ...history.state, ...patch }, label, mergeKey);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const result = await loadCutout(original, cutout, PREVIEW_MAX_SIZE);
+        if (!cancelled) setLoaded(result);
+      } catch (err) {
+        console.error('Error loading images for refinement:', err);
+        if (!cancelled) setError('Could not load the images for refinement.');
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [original, cutout]);
+
+  // Paints the cutout over the chosen background; transparent keeps the alpha channel
+  const composite = (cut: PixelBuffer): PixelBuffer => {
+    let background: BackgroundFill = { kind: 'transparent' };
+    if (backgroundKind === 'color') {
+      background = { kind: 'color', color: parseHexColor(backgroundColor) ?? { r: 255, g: 255, b: 255, a: 255 } };
+    } else if (backgroundKind === 'image' && backgroundImage) {
+      background = { kind: 'image', image: backgroundImage };
+    }
+    return background.kind === 'transparent' ? cut : replaceBackground(cut, { background });
+  };
+
+  useEffect(() => {
+    if (!loaded || !canvasRef.current) return;
+    const frame = requestAnimationFrame(() => {
+      const mask = refineAlphaMask(loaded.previewMask, history.state, loaded.scale);
+      const preview = composite(applyAlphaMask(loaded.previewOriginal, mask));
+      if (showRemoved) tintRemoved(preview, loaded.previewOriginal, mask);
+      if (canvasRef.current) drawToCanvas(canvasRef.current, preview);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [loaded, history.state, showRemoved, backgroundKind, backgroundColor, backgroundImage]);
+
+  const handleBackgroundUpload = async (files: File[]) => {
+    if (files.length === 0) return;
+    try {
+      setBackgroundImage(await decodeImage(files[0]));
+    } catch {
+      setError('Could not load the background image.');
+    }
+  };
+
+  const handleStroke = (points: Point[]) => {
+    update({ strokes: [...strokes, { mode: brushMode, size: brushSize, hardness, points }] }, brushMode === 'restore' ? 'Restore' : 'Erase');
+  };
+
+  const exportBlob = async (withBackground: boolean): Promise<Blob> => {
+    if (!loaded) throw new Error('Nothing to export.');
+    const cut = applyAlphaMask(loaded.original, refineAlphaMask(loaded.mask, history.state));
+    return encodeImage(withBackground ? composite(cut) : cut, { format: 'png' });
+  };
+
+  const runExport = async (action: (blob: Blob) => void, withBackground: boolean) => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      action(await exportBlob(withBackground));
+    } catch (err: any) {
+      console.error('Error exporting refined image:', err);
+      setError(err.message || 'Failed to export the image.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const baseName = original.name.substring(0, original.name.lastIndexOf('.')) || original.name;
+  const hasBackground = backgroundKind === 'color' || (backgroundKind === 'image' && !!backgroundImage);
+  const toggleClass = (active: boolean) =>
+    `flex-1 flex items-center justify-center py-2 px-3 text-sm font-medium transition-colors ${
+      active ? 'bg-[#1DB954] text-black' : 'text-gray-300 hover:bg-zinc-700'
+    } disabled:opacity-50`;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      <div className="lg:col-span-4 space-y-6">
+        <div className="bg-zinc-900 rounded-lg p-6 space-y-6 border border-zinc-800">
+          <h3 className="text-lg font-semibold text-white">Refine Mask</h3>
+          <div className="flex rounded-lg overflow-hidden bg-zinc-800">
+            <button className={toggleClass(brushMode === 'restore')} onClick={() => setBrushMode('restore')} disabled={!loaded}>
+              <PaintBrushIcon /> <span className="ml-2">Restore</span>
+            </button>
+            <button className={toggleClass(brushMode === 'erase')} onClick={() => setBrushMode('erase')} disabled={!loaded}>
+              <EraserIcon /> <span className="ml-2">Erase</span>
+            </button>
+          </div>
+          <div>
+            <label htmlFor="refine-brush-size" className="flex justify-between text-sm font-medium text-gray-300 mb-2">
+              <span>Brush Size</span>
+              <span className="font-mono text-[#1DB954]">{brushSize}px</span>
+            </label>
+            <input type="range" id="refine-brush-size" min="2" max="300" step="1" value={brushSize} onChange={(e) => setBrushSize(parseInt(e.target.value, 10))} className="w-full range-slider" disabled={!loaded} />
+          </div>
+          <div>
+            <label htmlFor="refine-hardness" className="flex justify-between text-sm font-medium text-gray-300 mb-2">
+              <span>Hardness</span>
+              <span className="font-mono text-[#1DB954]">{Math.round(hardness * 100)}%</span>
+            </label>
+            <input type="range" id="refine-hardness" min="0" max="1" step="0.05" value={hardness} onChange={(e) => setHardness(parseFloat(e.target.value))} className="w-full range-slider" disabled={!loaded} />
+          </div>
+
+          <div className="pt-4 border-t border-zinc-800">
+            <label htmlFor="refine-expand" className="flex justify-between text-sm font-medium text-gray-300 mb-2">
+              <span>Choke / Expand</span>
+              <span className="font-mono text-[#1DB954]">{expand > 0 ? `+${expand}` : expand}px</span>
+            </label>
+            <input type="range" id="refine-expand" min="-20" max="20" step="1" value={expand} onChange={(e) => update({ expand: parseInt(e.target.value, 10) }, 'Choke / expand', 'expand')} className="w-full range-slider" disabled={!loaded} />
+          </div>
+          <div>
+            <label htmlFor="refine-feather" className="flex justify-between text-sm font-medium text-gray-300 mb-2">
+              <span>Feather</span>
+              <span className="font-mono text-[#1DB954]">{feather}px</span>
+            </label>
+            <input type="range" id="refine-feather" min="0" max="20" step="0.5" value={feather} onChange={(e) => update({ feather: parseFloat(e.target.value) }, 'Feather', 'feather')} className="w-full range-slider" disabled={!loaded} />
+          </div>
+
+          <div className="flex items-center pt-4 border-t border-zinc-800">
+            <input id="show-removed" type="checkbox" checked={showRemoved} onChange={(e) => setShowRemoved(e.target.checked)} className="h-4 w-4 rounded border-zinc-600 bg-zinc-700 text-[#1DB954] focus:ring-[#1DB954]" disabled={!loaded} />
+            <label htmlFor="show-removed" className="ml-3 block text-sm font-medium text-gray-300">Highlight Removed Areas</label>
+          </div>
+        </div>
+
+        <div className="bg-zinc-900 rounded-lg p-6 space-y-4 border border-zinc-800">
+          <h3 className="text-lg font-semibold text-white">Background</h3>
+          <div className="flex rounded-lg overflow-hidden bg-zinc-800">
+            <button className={toggleClass(backgroundKind === 'transparent')} onClick={() => setBackgroundKind('transparent')}>None</button>
+            <button className={toggleClass(backgroundKind === 'color')} onClick={() => setBackgroundKind('color')}>Color</button>
+            <button className={toggleClass(backgroundKind === 'image')} onClick={() => setBackgroundKind('image')}>Image</button>
+          </div>
+          {backgroundKind === 'color' && <ColorPicker label="Background Color" color={backgroundColor} onChange={setBackgroundColor} />}
+          {backgroundKind === 'image' && (
+            backgroundImage ? (
+              <Button onClick={() => setBackgroundImage(null)} variant="outline" icon={<XMarkIcon />}>
+                Remove Background Image
+              </Button>
+            ) : (
+              <ImageUploader onFileSelect={handleBackgroundUpload} title="Upload Background" description="PNG, JPG, WEBP" multiple={false} accept="image/*" />
+            )
+          )}
+        </div>
+
+        {loaded && <HistoryPanel history={history} />}
+
+        {error && (
+          <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-300 text-sm">{error}</div>
+        )}
+
+        <div className="flex flex-col gap-4">
+          <Button onClick={() => runExport(onApply, false)} isLoading={isExporting} icon={<CheckIcon />} disabled={!loaded}>
+            Apply Refinements
+          </Button>
+          <Button onClick={() => runExport((blob) => downloadImage(blob, `bg-removed_${baseName}.png`), false)} variant="secondary" icon={<ArrowDownTrayIcon />} disabled={!loaded || isExporting}>
+            Download Transparent PNG
+          </Button>
+          <Button onClick={() => runExport((blob) => downloadImage(blob, `bg-replaced_${baseName}.png`), true)} variant="secondary" icon={<ArrowDownTrayIcon />} disabled={!loaded || isExporting || !hasBackground}>
+            Download with Background
+          </Button>
+          <Button onClick={onCancel} variant="outline" icon={<XMarkIcon />} disabled={isExporting}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+
+      <div className="lg:col-span-8">
+        <div className="bg-zinc-900 p-4 rounded-lg border border-zinc-800 sticky top-24">
+          <div className="bg-black/50 p-2 rounded-lg flex items-center justify-center min-h-[40vh] overflow-hidden">
+            {!loaded ? (
+              <p className="text-gray-400">{error ? 'Nothing to refine.' : 'Loading...'}</p>
+            ) : (
+              <div className={`relative inline-block ${backgroundKind === 'transparent' ? 'checkerboard-bg' : ''}`}>
+                <canvas ref={canvasRef} className="block max-w-full max-h-[70vh]" />
+                <StrokeOverlay
+                  imageWidth={loaded.original.width}
+                  imageHeight={loaded.original.height}
+                  brushSize={brushSize}
+                  color={BRUSH_COLORS[brushMode]}
+                  onStroke={handleStroke}
+                  disabled={isExporting}
+                />
+              </div>
+            )}
+          </div>
+          {loaded && <p className="text-xs text-gray-500 mt-3 text-center">Paint with Restore to bring back parts of the subject, or Erase to remove leftovers.</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
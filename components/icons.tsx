@@ -44,6 +44,12 @@ export const NoiseIcon: React.FC = () => <Icon faClass="fa-solid fa-wave-square
 export const CollageIcon: React.FC = () => <Icon faClass="fa-solid fa-grip" />; // New Collage Icon
 export const StitchIcon: React.FC = () => <Icon faClass="fa-solid fa-arrows-left-right-to-line" />; // New Image Stitching Icon
 export const QuestionMarkCircleIcon: React.FC = () => <Icon faClass="fa-solid fa-circle-question fa-fw" />;
+export const WorkflowIcon: React.FC = () => <Icon faClass="fa-solid fa-diagram-project fa-fw" />;
+export const MetadataIcon: React.FC = () => <Icon faClass="fa-solid fa-tags fa-fw" />;
+export const GifIcon: React.FC = () => <Icon faClass="fa-solid fa-film fa-fw" />;
+export const FramesIcon: React.FC = () => <Icon faClass="fa-solid fa-photo-film fa-fw" />;
+export const PhotoEditorIcon: React.FC = () => <Icon faClass="fa-solid fa-sliders fa-fw" />;
+export const RedactIcon: React.FC = () => <Icon faClass="fa-solid fa-user-secret fa-fw" />;
 
 
 // Icons used in other UI parts (buttons, header, etc.) - no fa-fw needed
@@ -57,6 +63,7 @@ export const DocumentIconNoFw: React.FC = () => <Icon faClass="fa-solid fa-file-
 export const ArrowDownTrayIcon: React.FC = () => <Icon faClass="fa-solid fa-download" />;
 export const ArrowUturnLeftIcon: React.FC = () => <Icon faClass="fa-solid fa-arrow-rotate-left" />;
 export const ArrowUturnRightIcon: React.FC = () => <Icon faClass="fa-solid fa-arrow-rotate-right" />;
+export const StopIcon: React.FC = () => <Icon faClass="fa-solid fa-stop" />;
 export const ViewfinderCircleIcon: React.FC = () => <Icon faClass="fa-solid fa-crosshairs" />;
 // FIX: Pass props to allow className and define type as SpecificIconProps
 export const CheckIcon: React.FC<SpecificIconProps> = (props) => <Icon faClass="fa-solid fa-check" {...props} />; 
@@ -64,7 +71,16 @@ export const PlusIcon: React.FC<SpecificIconProps> = (props) => <Icon faClass="f
 export const ArrowsLeftRightIcon: React.FC<SpecificIconProps> = (props) => <Icon faClass="fa-solid fa-arrows-left-right" {...props} />;
 export const ChevronUpIcon: React.FC<SpecificIconProps> = (props) => <Icon faClass="fa-solid fa-chevron-up" {...props} />;
 export const ChevronDownIcon: React.FC<SpecificIconProps> = (props) => <Icon faClass="fa-solid fa-chevron-down" {...props} />;
+export const ChevronLeftIcon: React.FC<SpecificIconProps> = (props) => <Icon faClass="fa-solid fa-chevron-left" {...props} />;
+export const ChevronRightIcon: React.FC<SpecificIconProps> = (props) => <Icon faClass="fa-solid fa-chevron-right" {...props} />;
 export const MagnifyingGlassIcon: React.FC<SpecificIconProps> = (props) => <Icon faClass="fa-solid fa-magnifying-glass" {...props} />;
+export const EyeIcon: React.FC<SpecificIconProps> = (props) => <Icon faClass="fa-solid fa-eye" {...props} />;
+export const EyeSlashIcon: React.FC<SpecificIconProps> = (props) => <Icon faClass="fa-solid fa-eye-slash" {...props} />;
+export const TrashIcon: React.FC<SpecificIconProps> = (props) => <Icon faClass="fa-solid fa-trash" {...props} />;
+export const PaintBrushIcon: React.FC<SpecificIconProps> = (props) => <Icon faClass="fa-solid fa-paintbrush" {...props} />;
+export const EraserIcon: React.FC<SpecificIconProps> = (props) => <Icon faClass="fa-solid fa-eraser" {...props} />;
+export const MoveIcon: React.FC<SpecificIconProps> = (props) => <Icon faClass="fa-solid fa-up-down-left-right" {...props} />;
+export const VectorSquareIcon: React.FC<SpecificIconProps> = (props) => <Icon faClass="fa-solid fa-vector-square" {...props} />;
 
 
 // Re-export AIIcon as SparklesIcon for compatibility if needed
@@ -10,7 +10,8 @@ import {
   UpscaleIcon,
   RemoveBgIcon,
   WatermarkIcon,
-  // Removed BlurIcon
+  BlurIcon,
+  RedactIcon,
   SharpenIcon,
   GearIcon,
   ColorSwatchIcon,
@@ -22,10 +23,16 @@ import {
   StitchIcon, // New Import for Stitch Icon
   QuestionMarkCircleIcon, // New Import for FAQ Icon
   SwatchbookIcon, // New Import for Match Color Icon
+  WorkflowIcon,
+  MetadataIcon,
+  GifIcon,
+  FramesIcon,
+  PhotoEditorIcon,
 } from './components/icons';
 
 // Import feature components
 import AITextGenerator from './features/AITextGenerator';
+import AltTextGenerator from './features/AltTextGenerator';
 import MemeGenerator from './features/MemeGenerator';
 import { ResizeImage } from './features/ResizeImage';
 import RotateImage from './features/RotateImage';
@@ -36,7 +43,8 @@ import ConvertFromJpg from './features/ConvertFromJpg';
 import UpscaleImage from './features/UpscaleImage';
 import RemoveBackground from './features/RemoveBackground';
 import WatermarkImage from './features/WatermarkImage';
-// Removed BlurFace import
+import BlurFace from './features/BlurFace';
+import RedactImage from './features/RedactImage';
 import ImageSharpen from './features/ImageSharpen';
 import ApiKeyManager from './features/ApiKeyManager';
 import ColorFromImage from './features/ColorFromImage';
@@ -49,32 +57,43 @@ import NoiseGenerator from './features/NoiseGenerator'; // New import for NoiseG
 import CollageMaker from './features/CollageMaker'; // New import for CollageMaker
 import ImageStitching from './features/ImageStitching'; // New import for ImageStitching
 import FaqPage from './features/FaqPage'; // New import for FAQ page
+import WorkflowBuilder from './features/WorkflowBuilder';
+import MetadataEditor from './features/MetadataEditor';
+import GifMaker from './features/GifMaker';
+import FrameExtractor from './features/FrameExtractor';
+import PhotoEditor from './features/PhotoEditor';
 
 
 export const TOOLS: Tool[] = [
-  { name: 'Collage Maker', icon: <CollageIcon />, component: CollageMaker, description: 'Create collages from up to 10 of your images.' },
-  { name: 'Image Stitching', icon: <StitchIcon />, component: ImageStitching, description: 'Combine given images to get one large image.' },
-  { name: 'AI Meme Generator', icon: <AIIcon />, component: MemeGenerator, description: 'Create viral memes with AI-generated text based on your image.' },
-  { name: 'AI Text Generator', icon: <DocumentIconSidebar />, component: AITextGenerator, description: 'Generate creative text for any purpose with the power of AI.' },
-  { name: 'Noise Generator', icon: <NoiseIcon />, component: NoiseGenerator, description: 'Generate procedural noise textures with customizable parameters.' }, // New Tool
-  { name: 'Resize Image', icon: <ResizeIcon />, component: ResizeImage, description: 'Resize the dimensions of your image to exact pixel sizes.' },
-  { name: 'Rotate Image', icon: <RotateIcon />, component: RotateImage, description: 'Easily rotate your image to the perfect angle.' },
-  { name: 'Crop Image', icon: <CropIcon />, component: CropImage, description: 'Crop images with fixed aspect ratios or freeform cropping.' },
-  { name: 'Compress Image', icon: <CompressIcon />, component: CompressImage, description: 'Reduce the file size of your images with adjustable quality.' },
-  { name: 'Convert to JPG', icon: <ConvertToJpgIcon />, component: ConvertToJpg, description: 'Convert PNG, WEBP, or other image formats to the JPG format.' },
-  { name: 'Convert from JPG', icon: <ConvertToJpgIcon />, component: ConvertFromJpg, description: 'Convert JPG images to PNG, WEBP, or other formats.' },
-  { name: 'Remove Background', icon: <RemoveBgIcon />, component: RemoveBackground, description: 'Automatically remove the background from images with AI.' },
-  { name: 'Upscale Image', icon: <UpscaleIcon />, component: UpscaleImage, description: 'Increase the resolution of your images using AI for higher quality.' },
-  { name: 'Sharpen Image', icon: <SharpenIcon />, component: ImageSharpen, description: 'Enhance details and sharpen your images with AI.' },
-  // { name: 'Blur Faces', icon: <BlurIcon />, component: BlurFace, description: 'Automatically detect and blur faces to protect privacy.' }, // Removed
-  { name: 'Watermark Image', icon: <WatermarkIcon />, component: WatermarkImage, description: 'Add custom text or a logo as a watermark to your images.' },
-  { name: 'Pick Color From Image', icon: <ColorSwatchIcon />, component: ColorFromImage, description: 'Extract the dominant color palette from any image.' }, // Renamed
-  { name: 'Match Image Color', icon: <SwatchbookIcon />, component: MatchImageColor, description: 'Transfer the color palette from a source image to a target image.' }, // New Tool
-  // Removed 'Photo Editor' entry
-  { name: 'HTML to Image', icon: <DocumentIconSidebar />, component: HtmlToImage, description: 'Convert HTML code snippets into images with AI.' },
-  { name: 'Image to PDF', icon: <PdfIcon />, component: ImageToPdf, description: 'Combine multiple images into a single PDF document.' }, // New Tool
-  { name: 'PDF to Image', icon: <PdfIcon />, component: PdfToImage, description: 'Convert a PDF document into a series of images.' }, // New Tool
-  { name: 'Image Splitter', icon: <GridIcon />, component: ImageSplitter, description: 'Split a large image into several smaller parts based on rows and columns.' }, // New Tool
-  { name: 'FAQ', icon: <QuestionMarkCircleIcon />, component: FaqPage, description: 'Find answers to common questions about the tools.' },
-  { name: 'API Key Settings', icon: <GearIcon />, component: ApiKeyManager, description: 'Manage your API keys for third-party services.' },
+  { name: 'Collage Maker', slug: 'collage-maker', icon: <CollageIcon />, component: CollageMaker, description: 'Create collages from up to 10 of your images.' },
+  { name: 'Image Stitching', slug: 'image-stitching', icon: <StitchIcon />, component: ImageStitching, description: 'Combine given images to get one large image.' },
+  { name: 'GIF Maker', slug: 'gif-maker', icon: <GifIcon />, component: GifMaker, description: 'Turn a sequence of images into an animated GIF with per-frame timing.' },
+  { name: 'AI Meme Generator', slug: 'ai-meme-generator', icon: <AIIcon />, component: MemeGenerator, description: 'Create viral memes with AI-generated text based on your image.' },
+  { name: 'AI Text Generator', slug: 'ai-text-generator', icon: <DocumentIconSidebar />, component: AITextGenerator, description: 'Generate creative text for any purpose with the power of AI.' },
+  { name: 'AI Alt Text Generator', slug: 'ai-alt-text', icon: <AIIcon />, component: AltTextGenerator, description: 'Write alt text, captions and keywords for a batch of images with AI, and export or embed them.' },
+  { name: 'Noise Generator', slug: 'noise-generator', icon: <NoiseIcon />, component: NoiseGenerator, description: 'Generate procedural noise textures with customizable parameters.' }, // New Tool
+  { name: 'Resize Image', slug: 'resize-image', icon: <ResizeIcon />, component: ResizeImage, description: 'Resize the dimensions of your image to exact pixel sizes.' },
+  { name: 'Rotate Image', slug: 'rotate-image', icon: <RotateIcon />, component: RotateImage, description: 'Easily rotate your image to the perfect angle.' },
+  { name: 'Crop Image', slug: 'crop-image', icon: <CropIcon />, component: CropImage, description: 'Crop images with fixed aspect ratios or freeform cropping.' },
+  { name: 'View / Edit Metadata', slug: 'metadata', icon: <MetadataIcon />, component: MetadataEditor, description: 'Inspect EXIF, GPS, XMP and ICC metadata, edit fields and remove locations in bulk.' },
+  { name: 'Compress Image', slug: 'compress-image', icon: <CompressIcon />, component: CompressImage, description: 'Reduce the file size of your images with adjustable quality.' },
+  { name: 'Convert to JPG', slug: 'convert-to-jpg', icon: <ConvertToJpgIcon />, component: ConvertToJpg, description: 'Convert PNG, WEBP, or other image formats to the JPG format.' },
+  { name: 'Convert from JPG', slug: 'convert-from-jpg', icon: <ConvertToJpgIcon />, component: ConvertFromJpg, description: 'Convert JPG images to PNG, WEBP, or other formats.' },
+  { name: 'Remove Background', slug: 'remove-background', icon: <RemoveBgIcon />, component: RemoveBackground, description: 'Remove the background from images on your device or with AI.' },
+  { name: 'Upscale Image', slug: 'upscale-image', icon: <UpscaleIcon />, component: UpscaleImage, description: 'Enlarge images 2x or 4x on your device or with AI, for photos and pixel art.' },
+  { name: 'Sharpen Image', slug: 'sharpen-image', icon: <SharpenIcon />, component: ImageSharpen, description: 'Sharpen images with unsharp mask, high-pass or smart sharpening, or with AI.' },
+  { name: 'Blur Faces', slug: 'blur-faces', icon: <BlurIcon />, component: BlurFace, description: 'Detect and blur, pixelate or black out faces on your device to protect privacy.' },
+  { name: 'Redact', slug: 'redact', icon: <RedactIcon />, component: RedactImage, description: 'Permanently hide text and details in images and PDFs with boxes, a brush or text search.' },
+  { name: 'Watermark Image', slug: 'watermark-image', icon: <WatermarkIcon />, component: WatermarkImage, description: 'Add custom text or a logo as a watermark to your images.' },
+  { name: 'Pick Color From Image', slug: 'pick-color', icon: <ColorSwatchIcon />, component: ColorFromImage, description: 'Extract the dominant color palette from any image.' }, // Renamed
+  { name: 'Match Image Color', slug: 'match-image-color', icon: <SwatchbookIcon />, component: MatchImageColor, description: 'Transfer the color palette from a source image to a target image.' }, // New Tool
+  { name: 'Photo Editor', slug: 'photo-editor', icon: <PhotoEditorIcon />, component: PhotoEditor, description: 'Edit photos with layers, adjustments, brushes and full undo history.' },
+  { name: 'HTML to Image', slug: 'html-to-image', icon: <DocumentIconSidebar />, component: HtmlToImage, description: 'Convert HTML code snippets into images with AI.' },
+  { name: 'Image to PDF', slug: 'image-to-pdf', icon: <PdfIcon />, component: ImageToPdf, description: 'Combine multiple images into a single PDF document.' }, // New Tool
+  { name: 'PDF to Image', slug: 'pdf-to-image', icon: <PdfIcon />, component: PdfToImage, description: 'Convert a PDF document into a series of images.' }, // New Tool
+  { name: 'Extract Animation Frames', slug: 'extract-frames', icon: <FramesIcon />, component: FrameExtractor, description: 'Split animated GIF, APNG or WEBP files into individual frame images.' },
+  { name: 'Workflow Builder', slug: 'workflow', icon: <WorkflowIcon />, component: WorkflowBuilder, description: 'Chain resize, rotate, watermark and convert steps and run them over a whole batch.' },
+  { name: 'Image Splitter', slug: 'image-splitter', icon: <GridIcon />, component: ImageSplitter, description: 'Split a large image into several smaller parts based on rows and columns.' }, // New Tool
+  { name: 'FAQ', slug: 'faq', icon: <QuestionMarkCircleIcon />, component: FaqPage, description: 'Find answers to common questions about the tools.' },
+  { name: 'API Key Settings', slug: 'settings', icon: <GearIcon />, component: ApiKeyManager, description: 'Manage your API keys for third-party services.' },
 ];
\ No newline at end of file
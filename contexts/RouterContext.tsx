@@ -0,0 +1,154 @@
+import React, { createContext, useState, useEffect, useContext, useCallback, useRef, ReactNode } from 'react';
+
+// Routes live in the URL hash so the app keeps working on static hosting:
+//   #/resize-image?scale=50
+// The path segment is a tool slug from TOOLS, the query string holds tool settings.
+interface Route {
+  slug: string | null;
+  params: URLSearchParams;
+}
+
+interface RouterContextType {
+  route: Route;
+  navigate: (slug: string | null) => void;
+  setParams: (updates: Record<string, string | null>) => void;
+}
+
+const RouterContext = createContext<RouterContextType | undefined>(undefined);
+
+const parseLocation = (): Route => {
+  const hash = window.location.hash.replace(/^#\/?/, '');
+  const queryIndex = hash.indexOf('?');
+  const path = queryIndex === -1 ? hash : hash.substring(0, queryIndex);
+  const query = queryIndex === -1 ? '' : hash.substring(queryIndex + 1);
+  return {
+    slug: path ? decodeURIComponent(path) : null,
+    params: new URLSearchParams(query),
+  };
+};
+
+const buildHash = (slug: string | null, params?: URLSearchParams): string => {
+  if (!slug) return '#/';
+  const query = params?.toString();
+  return `#/${encodeURIComponent(slug)}${query ? `?${query}` : ''}`;
+};
+
+export const RouterProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [route, setRoute] = useState<Route>(parseLocation);
+
+  // Back/forward buttons and manually edited URLs both arrive as hashchange events
+  useEffect(() => {
+    const handleHashChange = () => setRoute(parseLocation());
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // Switching tools pushes a new history entry so back/forward moves between tools.
+  // Picking the tool that is already open keeps its query, so the link still matches what is shown.
+  const navigate = useCallback((slug: string | null) => {
+    if (parseLocation().slug === slug) return;
+    const nextHash = buildHash(slug);
+    window.location.hash = nextHash;
+  }, []);
+
+  // Settings changes replace the current entry instead of flooding the history on every slider tick
+  const setParams = useCallback((updates: Record<string, string | null>) => {
+    const current = parseLocation();
+    if (!current.slug) return;
+    const params = new URLSearchParams(current.params);
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value === null) {
+        params.delete(key);
+      } else {
+        params.set(key, value);
+      }
+    });
+    window.history.replaceState(window.history.state, '', buildHash(current.slug, params));
+    setRoute({ slug: current.slug, params });
+  }, []);
+
+  return (
+    <RouterContext.Provider value={{ route, navigate, setParams }}>
+      {children}
+    </RouterContext.Provider>
+  );
+};
+
+export const useRouter = (): RouterContextType => {
+  const context = useContext(RouterContext);
+  if (!context) {
+    throw new Error('useRouter must be used within a RouterProvider');
+  }
+  return context;
+};
+
+type QueryValue = string | number | boolean;
+
+// Numeric and boolean defaults are declared as literals (`const DEFAULT_WIDTH = 512`), so widen them back
+type WidenQueryValue<T> = T extends number ? number : T extends boolean ? boolean : T;
+
+const parseQueryValue = <T extends QueryValue>(raw: string, defaultValue: T): T => {
+  if (typeof defaultValue === 'number') {
+    const parsed = parseFloat(raw);
+    return (Number.isFinite(parsed) ? parsed : defaultValue) as T;
+  }
+  if (typeof defaultValue === 'boolean') {
+    return (raw === '1' || raw === 'true') as T;
+  }
+  return raw as T;
+};
+
+const serializeQueryValue = (value: QueryValue): string => {
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  return String(value);
+};
+
+interface QueryStateOptions<T> {
+  // Keep the value in the URL even when it equals the default (e.g. a randomly generated seed)
+  keepDefault?: boolean;
+  // Restrict string values to a known set, falling back to the default otherwise
+  allowed?: readonly T[];
+}
+
+// Drop-in replacement for useState that mirrors a tool setting into the URL query string,
+// so a shared link reopens the tool with the exact same configuration.
+export const useQueryState = <T extends QueryValue>(
+  key: string,
+  defaultValue: T,
+  options: QueryStateOptions<T> = {}
+): [WidenQueryValue<T>, (value: WidenQueryValue<T>) => void] => {
+  const { route, setParams } = useRouter();
+  const { keepDefault = false, allowed } = options;
+
+  const raw = route.params.get(key);
+  const readValue = (): WidenQueryValue<T> => {
+    if (raw === null) return defaultValue as WidenQueryValue<T>;
+    const parsed = parseQueryValue(raw, defaultValue);
+    if (allowed && !allowed.includes(parsed)) return defaultValue as WidenQueryValue<T>;
+    return parsed as WidenQueryValue<T>;
+  };
+
+  const [value, setValueState] = useState<WidenQueryValue<T>>(readValue);
+
+  // The tool stays mounted when only the query changes (a pasted link, back/forward within the tool),
+  // so follow the URL rather than keeping the value it was opened with. Sticky values are written
+  // back at once, so they are part of the link before the first edit.
+  useEffect(() => {
+    const next = readValue();
+    setValueState(next);
+    if (keepDefault && raw === null) {
+      setParams({ [key]: serializeQueryValue(next) });
+    }
+  }, [raw]);
+
+  const defaultRef = useRef<QueryValue>(defaultValue);
+  defaultRef.current = defaultValue;
+
+  const setValue = useCallback((next: WidenQueryValue<T>) => {
+    setValueState(next);
+    const omit = !keepDefault && next === defaultRef.current;
+    setParams({ [key]: omit ? null : serializeQueryValue(next) });
+  }, [key, keepDefault, setParams]);
+
+  return [value, setValue];
+};
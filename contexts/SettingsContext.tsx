@@ -1,11 +1,35 @@
 
 import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
+import type { AIProviderId } from '../services/aiProvider';
 
 interface SettingsContextType {
   upscalerApiKey: string;
   setUpscalerApiKey: (key: string) => void;
   bgRemoverApiKey: string;
   setBgRemoverApiKey: (key: string) => void;
+  aiProvider: AIProviderId;
+  setAiProvider: (provider: AIProviderId) => void;
+  // Chosen model and key per provider, so switching back and forth keeps both
+  aiModels: Partial<Record<AIProviderId, string>>;
+  setAiModel: (provider: AIProviderId, model: string) => void;
+  aiApiKeys: Partial<Record<AIProviderId, string>>;
+  setAiApiKey: (provider: AIProviderId, key: string) => void;
+  // OpenAI-compatible server for the 'local' provider
+  localAiBaseUrl: string;
+  setLocalAiBaseUrl: (url: string) => void;
+  localAiVisionModel: string;
+  setLocalAiVisionModel: (model: string) => void;
+}
+
+// What is saved under SETTINGS_STORAGE_KEY. Services read it directly, so every field may be missing.
+export interface StoredSettings {
+  upscalerApiKey?: string;
+  bgRemoverApiKey?: string;
+  aiProvider?: AIProviderId;
+  aiModels?: Partial<Record<AIProviderId, string>>;
+  aiApiKeys?: Partial<Record<AIProviderId, string>>;
+  localAiBaseUrl?: string;
+  localAiVisionModel?: string;
 }
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
@@ -18,6 +42,11 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
   // The key must be sourced from process.env.API_KEY only.
   const [upscalerApiKey, setUpscalerApiKeyState] = useState<string>('');
   const [bgRemoverApiKey, setBgRemoverApiKeyState] = useState<string>('');
+  const [aiProvider, setAiProviderState] = useState<AIProviderId>('gemini');
+  const [aiModels, setAiModels] = useState<Partial<Record<AIProviderId, string>>>({});
+  const [aiApiKeys, setAiApiKeys] = useState<Partial<Record<AIProviderId, string>>>({});
+  const [localAiBaseUrl, setLocalAiBaseUrlState] = useState<string>('');
+  const [localAiVisionModel, setLocalAiVisionModelState] = useState<string>('');
 
   // Load settings from localStorage on initial render
   useEffect(() => {
@@ -34,6 +63,21 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
         } else if (typeof savedSettings.slazzerApiKey === 'string') { // Migration from old key
             setBgRemoverApiKeyState(savedSettings.slazzerApiKey);
         }
+        if (typeof savedSettings.aiProvider === 'string') {
+          setAiProviderState(savedSettings.aiProvider);
+        }
+        if (savedSettings.aiModels && typeof savedSettings.aiModels === 'object') {
+          setAiModels(savedSettings.aiModels);
+        }
+        if (savedSettings.aiApiKeys && typeof savedSettings.aiApiKeys === 'object') {
+          setAiApiKeys(savedSettings.aiApiKeys);
+        }
+        if (typeof savedSettings.localAiBaseUrl === 'string') {
+          setLocalAiBaseUrlState(savedSettings.localAiBaseUrl);
+        }
+        if (typeof savedSettings.localAiVisionModel === 'string') {
+          setLocalAiVisionModelState(savedSettings.localAiVisionModel);
+        }
       } 
       // FIX: Removed migration logic for old Gemini key.
     } catch (error) {
@@ -45,12 +89,12 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
   useEffect(() => {
     try {
         // FIX: Removed geminiApiKey from saved settings.
-        const settings = { upscalerApiKey, bgRemoverApiKey };
+        const settings: StoredSettings = { upscalerApiKey, bgRemoverApiKey, aiProvider, aiModels, aiApiKeys, localAiBaseUrl, localAiVisionModel };
         localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
     } catch (error) {
         console.error("Failed to save settings to localStorage", error);
     }
-  }, [upscalerApiKey, bgRemoverApiKey]);
+  }, [upscalerApiKey, bgRemoverApiKey, aiProvider, aiModels, aiApiKeys, localAiBaseUrl, localAiVisionModel]);
 
   // FIX: Removed setter for Gemini API key.
   
@@ -62,10 +106,35 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     setBgRemoverApiKeyState(key);
   };
 
+  const setAiProvider = (provider: AIProviderId) => {
+    setAiProviderState(provider);
+  };
+
+  const setAiModel = (provider: AIProviderId, model: string) => {
+    setAiModels((prev: Partial<Record<AIProviderId, string>>) => ({ ...prev, [provider]: model }));
+  };
+
+  const setAiApiKey = (provider: AIProviderId, key: string) => {
+    setAiApiKeys((prev: Partial<Record<AIProviderId, string>>) => ({ ...prev, [provider]: key }));
+  };
+
+  const setLocalAiBaseUrl = (url: string) => {
+    setLocalAiBaseUrlState(url);
+  };
+
+  const setLocalAiVisionModel = (model: string) => {
+    setLocalAiVisionModelState(model);
+  };
+
   return (
     <SettingsContext.Provider value={{ 
         upscalerApiKey, setUpscalerApiKey,
-        bgRemoverApiKey, setBgRemoverApiKey
+        bgRemoverApiKey, setBgRemoverApiKey,
+        aiProvider, setAiProvider,
+        aiModels, setAiModel,
+        aiApiKeys, setAiApiKey,
+        localAiBaseUrl, setLocalAiBaseUrl,
+        localAiVisionModel, setLocalAiVisionModel
     }}>
       {children}
     </SettingsContext.Provider>
@@ -0,0 +1,187 @@
+import { createPixelBuffer } from './pixelBuffer';
+import type { PixelBuffer } from './types';
+
+// Tonal and color adjustments. Everything except saturation is folded into one lookup table
+// per channel, so a full stack of adjustments costs about the same as a single one.
+
+export interface CurvePoint {
+  x: number; // Input, 0 to 255
+  y: number; // Output, 0 to 255
+}
+
+export interface Levels {
+  inputBlack: number; // 0 to 254
+  inputWhite: number; // 1 to 255
+  gamma: number; // 0.1 to 10, 1 = linear
+  outputBlack: number;
+  outputWhite: number;
+}
+
+export interface Adjustments {
+  exposure: number; // Stops, -3 to 3
+  contrast: number; // -100 to 100
+  saturation: number; // -100 (grayscale) to 100
+  temperature: number; // -100 (cool) to 100 (warm)
+  levels: Levels;
+  curve: CurvePoint[]; // Master curve, applied to all three channels
+}
+
+export const IDENTITY_LEVELS: Levels = { inputBlack: 0, inputWhite: 255, gamma: 1, outputBlack: 0, outputWhite: 255 };
+
+export const IDENTITY_CURVE: CurvePoint[] = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+
+export const DEFAULT_ADJUSTMENTS: Adjustments = {
+  exposure: 0,
+  contrast: 0,
+  saturation: 0,
+  temperature: 0,
+  levels: IDENTITY_LEVELS,
+  curve: IDENTITY_CURVE,
+};
+
+const TEMPERATURE_STRENGTH = 0.2; // Channel gain at ±100
+
+const clampByte = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : value);
+
+const toLinear = (value: number) => {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+const fromLinear = (value: number) => {
+  const v = value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+  return v * 255;
+};
+
+// Monotone cubic (Fritsch–Carlson) through the points, so the curve never overshoots between them
+export const buildCurveLut = (points: CurvePoint[]): Uint8Array => {
+  const sorted = [...points]
+    .map(p => ({ x: clampByte(p.x), y: clampByte(p.y) }))
+    .sort((a, b) => a.x - b.x)
+    .filter((p, i, all) => i === 0 || p.x > all[i - 1].x);
+  const lut = new Uint8Array(256);
+  if (sorted.length === 0) {
+    for (let i = 0; i < 256; i++) lut[i] = i;
+    return lut;
+  }
+  if (sorted.length === 1) {
+    lut.fill(Math.round(sorted[0].y));
+    return lut;
+  }
+
+  const n = sorted.length;
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    slopes.push((sorted[i + 1].y - sorted[i].y) / (sorted[i + 1].x - sorted[i].x));
+  }
+  const tangents: number[] = [slopes[0]];
+  for (let i = 1; i < n - 1; i++) {
+    tangents.push(slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2);
+  }
+  tangents.push(slopes[n - 2]);
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const h = a * a + b * b;
+    if (h > 9) {
+      const t = 3 / Math.sqrt(h);
+      tangents[i] = t * a * slopes[i];
+      tangents[i + 1] = t * b * slopes[i];
+    }
+  }
+
+  let segment = 0;
+  for (let x = 0; x < 256; x++) {
+    if (x <= sorted[0].x) {
+      lut[x] = Math.round(sorted[0].y);
+      continue;
+    }
+    if (x >= sorted[n - 1].x) {
+      lut[x] = Math.round(sorted[n - 1].y);
+      continue;
+    }
+    while (x > sorted[segment + 1].x) segment++;
+    const p0 = sorted[segment];
+    const p1 = sorted[segment + 1];
+    const h = p1.x - p0.x;
+    const t = (x - p0.x) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    const y = (2 * t3 - 3 * t2 + 1) * p0.y
+      + (t3 - 2 * t2 + t) * h * tangents[segment]
+      + (-2 * t3 + 3 * t2) * p1.y
+      + (t3 - t2) * h * tangents[segment + 1];
+    lut[x] = Math.round(clampByte(y));
+  }
+  return lut;
+};
+
+const applyLevels = (value: number, levels: Levels) => {
+  const range = Math.max(1, levels.inputWhite - levels.inputBlack);
+  const normalized = Math.max(0, Math.min(1, (value - levels.inputBlack) / range));
+  const corrected = Math.pow(normalized, 1 / Math.max(0.01, levels.gamma));
+  return levels.outputBlack + corrected * (levels.outputWhite - levels.outputBlack);
+};
+
+// Per-channel tables for exposure → temperature → contrast → levels → curve
+const buildChannelLuts = (adjustments: Adjustments): [Uint8Array, Uint8Array, Uint8Array] => {
+  const { exposure, contrast, temperature, levels, curve } = adjustments;
+  const gain = Math.pow(2, exposure);
+  const warmth = (temperature / 100) * TEMPERATURE_STRENGTH;
+  const channelGains = [1 + warmth, 1, 1 - warmth];
+  const contrastValue = Math.max(-100, Math.min(100, contrast)) * 2.55;
+  const contrastFactor = (259 * (contrastValue + 255)) / (255 * (259 - contrastValue));
+  const curveLut = buildCurveLut(curve);
+
+  return channelGains.map(channelGain => {
+    const lut = new Uint8Array(256);
+    for (let i = 0; i < 256; i++) {
+      let v = fromLinear(toLinear(i) * gain) * channelGain;
+      v = (clampByte(v) - 128) * contrastFactor + 128;
+      v = applyLevels(clampByte(v), levels);
+      lut[i] = curveLut[Math.round(clampByte(v))];
+    }
+    return lut;
+  }) as [Uint8Array, Uint8Array, Uint8Array];
+};
+
+const sameLevels = (a: Levels, b: Levels) =>
+  a.inputBlack === b.inputBlack && a.inputWhite === b.inputWhite && a.gamma === b.gamma &&
+  a.outputBlack === b.outputBlack && a.outputWhite === b.outputWhite;
+
+export const isIdentityAdjustment = (adjustments: Adjustments): boolean => {
+  const { exposure, contrast, saturation, temperature, levels, curve } = adjustments;
+  if (exposure !== 0 || contrast !== 0 || saturation !== 0 || temperature !== 0) return false;
+  if (!sameLevels(levels, IDENTITY_LEVELS)) return false;
+  return curve.every(p => p.x === p.y);
+};
+
+export const applyAdjustments = (source: PixelBuffer, adjustments: Adjustments): PixelBuffer => {
+  const output = createPixelBuffer(source.width, source.height);
+  const src = source.data;
+  const dst = output.data;
+  const [lutR, lutG, lutB] = buildChannelLuts(adjustments);
+  const saturation = 1 + Math.max(-100, Math.min(100, adjustments.saturation)) / 100;
+
+  for (let i = 0; i < src.length; i += 4) {
+    let r = lutR[src[i]];
+    let g = lutG[src[i + 1]];
+    let b = lutB[src[i + 2]];
+    if (saturation !== 1) {
+      const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      r = clampByte(luma + (r - luma) * saturation);
+      g = clampByte(luma + (g - luma) * saturation);
+      b = clampByte(luma + (b - luma) * saturation);
+    }
+    dst[i] = r;
+    dst[i + 1] = g;
+    dst[i + 2] = b;
+    dst[i + 3] = src[i + 3];
+  }
+  return output;
+};
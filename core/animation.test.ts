@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { composeAnimation, detectAnimationFormat, parseApng } from './animation';
+import type { AnimationLayer, FrameDisposal } from './animation';
+import { PNG_SIGNATURE, pngChunk, readPngChunks } from './png';
+import { BLUE, RED, pixelAt, solid } from './testUtils';
+
+const layer = (overrides: Partial<AnimationLayer>): AnimationLayer => ({
+  pixels: solid(2, 2, RED),
+  x: 0,
+  y: 0,
+  delay: 100,
+  disposal: 'none',
+  blend: 'over',
+  ...overrides,
+});
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const uint32s = (...values: number[]) => {
+  const bytes = new Uint8Array(values.length * 4);
+  values.forEach((value, i) => new DataView(bytes.buffer).setUint32(i * 4, value));
+  return bytes;
+};
+
+const frameControl = (sequence: number, width: number, height: number, x: number, y: number, delayMs: number, disposal: FrameDisposal) => {
+  const data = new Uint8Array(26);
+  data.set(uint32s(sequence, width, height, x, y));
+  new DataView(data.buffer).setUint16(20, delayMs);
+  new DataView(data.buffer).setUint16(22, 1000);
+  data[24] = ['none', 'background', 'previous'].indexOf(disposal);
+  data[25] = 1;
+  return pngChunk('fcTL', data);
+};
+
+// The image data is never decoded by parseApng, so any bytes do
+const apng = (firstDisposal: FrameDisposal) => concat([
+  PNG_SIGNATURE,
+  pngChunk('IHDR', concat([uint32s(4, 3), new Uint8Array([8, 6, 0, 0, 0])])),
+  pngChunk('acTL', uint32s(2, 5)),
+  frameControl(0, 4, 3, 0, 0, 80, firstDisposal),
+  pngChunk('IDAT', new Uint8Array([1, 2, 3])),
+  frameControl(1, 2, 1, 1, 2, 120, 'none'),
+  pngChunk('fdAT', concat([uint32s(2), new Uint8Array([4, 5])])),
+  pngChunk('IEND', new Uint8Array(0)),
+]);
+
+describe('composeAnimation', () => {
+  it('draws each layer over what is already there', () => {
+    const { frames } = composeAnimation(4, 2, [layer({}), layer({ x: 2, pixels: solid(2, 2, BLUE) })]);
+    expect(frames).toHaveLength(2);
+    expect(pixelAt(frames[0].pixels, 3, 0).a).toBe(0);
+    expect(pixelAt(frames[1].pixels, 0, 0)).toEqual(RED);
+    expect(pixelAt(frames[1].pixels, 3, 0)).toEqual(BLUE);
+  });
+
+  it('clears the area of a background-disposed layer before the next one', () => {
+    const { frames } = composeAnimation(4, 2, [layer({ disposal: 'background' }), layer({ x: 2, pixels: solid(2, 2, BLUE) })]);
+    expect(pixelAt(frames[1].pixels, 0, 0).a).toBe(0);
+  });
+
+  it('restores the canvas under a previous-disposed layer', () => {
+    const { frames } = composeAnimation(2, 2, [
+      layer({}),
+      layer({ pixels: solid(2, 2, BLUE), disposal: 'previous' }),
+      layer({ pixels: solid(1, 1, { r: 0, g: 0, b: 0, a: 0 }) }),
+    ]);
+    expect(pixelAt(frames[1].pixels, 0, 0)).toEqual(BLUE);
+    expect(pixelAt(frames[2].pixels, 0, 0)).toEqual(RED);
+  });
+
+  it('replaces pixels instead of blending for source layers', () => {
+    const { frames } = composeAnimation(2, 2, [layer({}), layer({ pixels: solid(1, 1, { r: 0, g: 0, b: 0, a: 0 }), blend: 'source' })]);
+    expect(pixelAt(frames[1].pixels, 0, 0).a).toBe(0);
+    expect(pixelAt(frames[1].pixels, 1, 1)).toEqual(RED);
+  });
+});
+
+describe('parseApng', () => {
+  it('splits the animation into one PNG per frame', () => {
+    const data = parseApng(apng('none'));
+    expect(data).toMatchObject({ width: 4, height: 3, loopCount: 5 });
+    expect(data.frames.map(({ png: _png, ...frame }) => frame)).toEqual([
+      { x: 0, y: 0, delay: 80, disposal: 'none', blend: 'over' },
+      { x: 1, y: 2, delay: 120, disposal: 'none', blend: 'over' },
+    ]);
+
+    const chunks = readPngChunks(data.frames[1].png);
+    expect(chunks.map(chunk => chunk.type)).toEqual(['IHDR', 'IDAT', 'IEND']);
+    expect(new DataView(chunks[0].data.buffer, chunks[0].data.byteOffset).getUint32(0)).toBe(2);
+    expect(Array.from(chunks[1].data)).toEqual([4, 5]);
+  });
+
+  it('treats dispose-previous on the first frame as dispose-background', () => {
+    expect(parseApng(apng('previous')).frames[0].disposal).toBe('background');
+  });
+
+  it('rejects a still PNG', () => {
+    const still = concat([PNG_SIGNATURE, pngChunk('IHDR', new Uint8Array(13)), pngChunk('IEND', new Uint8Array(0))]);
+    expect(() => parseApng(still)).toThrow('Not an animated PNG');
+  });
+});
+
+describe('detectAnimationFormat', () => {
+  it('recognizes GIF and APNG, but not a still PNG', () => {
+    expect(detectAnimationFormat(new TextEncoder().encode('GIF89a......'))).toBe('gif');
+    expect(detectAnimationFormat(apng('none'))).toBe('apng');
+    expect(detectAnimationFormat(concat([PNG_SIGNATURE, pngChunk('IDAT', new Uint8Array(1))]))).toBeNull();
+  });
+});
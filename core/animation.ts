@@ -0,0 +1,401 @@
+import { createPixelBuffer, drawPixelBuffer } from './pixelBuffer';
+import { PNG_SIGNATURE, isPng, pngChunk, readPngChunks } from './png';
+import type { PixelBuffer, Rect } from './types';
+
+// Frame extraction for animated GIF and APNG. Frames are returned fully composited, i.e. as they
+// appear on screen, with each format's disposal rules applied.
+
+export type AnimationFormat = 'gif' | 'apng' | 'webp';
+
+export interface AnimationFrame {
+  pixels: PixelBuffer;
+  delay: number; // Milliseconds this frame is shown
+}
+
+export interface DecodedAnimation {
+  width: number;
+  height: number;
+  frames: AnimationFrame[];
+  loopCount: number; // Number of plays, 0 loops forever
+}
+
+// What happens to a frame's area before the next one is drawn
+export type FrameDisposal = 'none' | 'background' | 'previous';
+
+// A frame as stored: a region of the canvas, drawn over (or replacing) what is already there
+export interface AnimationLayer {
+  pixels: PixelBuffer;
+  x: number;
+  y: number;
+  delay: number;
+  disposal: FrameDisposal;
+  blend: 'source' | 'over';
+}
+
+// Browsers show GIF delays of 10ms or less at 100ms
+const MIN_GIF_DELAY = 20;
+const SLOW_GIF_DELAY = 100;
+const MAX_LZW_CODES = 4096;
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+export const detectAnimationFormat = (bytes: Uint8Array): AnimationFormat | null => {
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'gif';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+    // Extended (VP8X) header with the animation flag set
+    return ascii(bytes, 12, 4) === 'VP8X' && (bytes[20] & 0x02) !== 0 ? 'webp' : null;
+  }
+  if (isPng(bytes)) {
+    for (const { type } of readPngChunks(bytes)) {
+      if (type === 'acTL') return 'apng';
+      if (type === 'IDAT') return null;
+    }
+  }
+  return null;
+};
+
+const clearRect = (target: PixelBuffer, { x, y, width, height }: Rect) => {
+  const x0 = Math.max(0, x);
+  const x1 = Math.min(target.width, x + width);
+  for (let row = Math.max(0, y); row < Math.min(target.height, y + height); row++) {
+    target.data.fill(0, (row * target.width + x0) * 4, (row * target.width + x1) * 4);
+  }
+};
+
+const copyInto = (target: PixelBuffer, source: PixelBuffer, dx: number, dy: number) => {
+  const width = Math.min(source.width, target.width - dx);
+  for (let row = 0; row < source.height && dy + row < target.height; row++) {
+    if (dy + row < 0 || width <= 0) continue;
+    const start = row * source.width * 4;
+    target.data.set(source.data.subarray(start, start + width * 4), ((dy + row) * target.width + dx) * 4);
+  }
+};
+
+// Plays the layers onto a transparent canvas and snapshots it after each one
+export const composeAnimation = (width: number, height: number, layers: AnimationLayer[], loopCount = 0): DecodedAnimation => {
+  const canvas = createPixelBuffer(width, height);
+  const frames: AnimationFrame[] = [];
+  let pendingDisposal: { rect: Rect; disposal: FrameDisposal; saved: Uint8ClampedArray | null } | null = null;
+
+  for (const layer of layers) {
+    if (pendingDisposal?.disposal === 'background') clearRect(canvas, pendingDisposal.rect);
+    if (pendingDisposal?.disposal === 'previous' && pendingDisposal.saved) canvas.data.set(pendingDisposal.saved);
+
+    const rect = { x: layer.x, y: layer.y, width: layer.pixels.width, height: layer.pixels.height };
+    const saved = layer.disposal === 'previous' ? canvas.data.slice() : null;
+    if (layer.blend === 'source') {
+      copyInto(canvas, layer.pixels, layer.x, layer.y);
+    } else {
+      drawPixelBuffer(canvas, layer.pixels, layer.x, layer.y);
+    }
+
+    const snapshot = createPixelBuffer(width, height);
+    snapshot.data.set(canvas.data);
+    frames.push({ pixels: snapshot, delay: layer.delay });
+    pendingDisposal = { rect, disposal: layer.disposal, saved };
+  }
+  return { width, height, frames, loopCount };
+};
+
+// --- GIF ---
+
+// Variable-width LZW. Truncated data leaves the remaining pixels at index 0.
+const lzwDecode = (data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array => {
+  const output = new Uint8Array(pixelCount);
+  const prefix = new Uint16Array(MAX_LZW_CODES);
+  const suffix = new Uint8Array(MAX_LZW_CODES);
+  const stack = new Uint8Array(MAX_LZW_CODES + 1);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  for (let i = 0; i < clearCode; i++) suffix[i] = i;
+
+  let codeSize = minCodeSize + 1;
+  let codeMask = (1 << codeSize) - 1;
+  let available = clearCode + 2;
+  let oldCode = -1;
+  let first = 0;
+  let accumulator = 0;
+  let bits = 0;
+  let pos = 0;
+  let written = 0;
+
+  while (written < pixelCount) {
+    while (bits < codeSize) {
+      if (pos >= data.length) return output;
+      accumulator |= data[pos++] << bits;
+      bits += 8;
+    }
+    let code = accumulator & codeMask;
+    accumulator >>>= codeSize;
+    bits -= codeSize;
+
+    if (code === clearCode) {
+      codeSize = minCodeSize + 1;
+      codeMask = (1 << codeSize) - 1;
+      available = clearCode + 2;
+      oldCode = -1;
+      continue;
+    }
+    if (code === endCode) break;
+    if (oldCode === -1) {
+      if (code >= clearCode) break; // Corrupt: the first code after a clear must be a literal
+      output[written++] = code;
+      oldCode = code;
+      first = code;
+      continue;
+    }
+    if (code > available) break;
+
+    const inCode = code;
+    let top = 0;
+    if (code === available) {
+      // The code being defined right now: the previous string plus its own first index
+      stack[top++] = first;
+      code = oldCode;
+    }
+    while (code >= clearCode) {
+      stack[top++] = suffix[code];
+      code = prefix[code];
+    }
+    first = suffix[code];
+    stack[top++] = first;
+
+    if (available < MAX_LZW_CODES) {
+      prefix[available] = oldCode;
+      suffix[available] = first;
+      available++;
+      if ((available & codeMask) === 0 && available < MAX_LZW_CODES) {
+        codeSize++;
+        codeMask = (1 << codeSize) - 1;
+      }
+    }
+    oldCode = inCode;
+    while (top > 0 && written < pixelCount) output[written++] = stack[--top];
+  }
+  return output;
+};
+
+// Interlaced GIFs store rows in four passes: every 8th from 0, every 8th from 4, every 4th from 2, every 2nd from 1
+const interlacedRows = (height: number): number[] => {
+  const rows: number[] = [];
+  for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+    for (let y = start; y < height; y += step) rows.push(y);
+  }
+  return rows;
+};
+
+const readSubBlocks = (bytes: Uint8Array, pos: number): { data: Uint8Array; end: number } => {
+  const parts: Uint8Array[] = [];
+  let size = 0;
+  while (pos < bytes.length && bytes[pos] !== 0) {
+    const length = bytes[pos];
+    parts.push(bytes.subarray(pos + 1, pos + 1 + length));
+    size += length;
+    pos += 1 + length;
+  }
+  const data = new Uint8Array(size);
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return { data, end: pos + 1 };
+};
+
+const GIF_DISPOSAL: Record<number, FrameDisposal> = { 2: 'background', 3: 'previous' };
+
+export const decodeGif = (bytes: Uint8Array): DecodedAnimation => {
+  if (ascii(bytes, 0, 4) !== 'GIF8') {
+    throw new Error('Not a GIF file.');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const width = view.getUint16(6, true);
+  const height = view.getUint16(8, true);
+  const screenFlags = bytes[10];
+  let pos = 13;
+  let globalPalette: Uint8Array | null = null;
+  if (screenFlags & 0x80) {
+    const size = 3 << ((screenFlags & 0x07) + 1);
+    globalPalette = bytes.subarray(pos, pos + size);
+    pos += size;
+  }
+
+  const layers: AnimationLayer[] = [];
+  let loopCount = 1; // Without a NETSCAPE extension the animation plays once
+  let control = { delay: 0, disposal: 0, transparentIndex: -1 };
+
+  while (pos < bytes.length) {
+    const blockType = bytes[pos++];
+    if (blockType === 0x3b) break;
+
+    if (blockType === 0x21) {
+      const label = bytes[pos++];
+      const { data, end } = readSubBlocks(bytes, pos);
+      if (label === 0xf9 && data.length >= 4) {
+        control = {
+          delay: (data[1] | (data[2] << 8)) * 10,
+          disposal: (data[0] >> 2) & 0x07,
+          transparentIndex: data[0] & 0x01 ? data[3] : -1,
+        };
+      } else if (label === 0xff && ascii(data, 0, 11) === 'NETSCAPE2.0' && data[11] === 1) {
+        // Stored as the number of repeats after the first play
+        const repeats = data[12] | (data[13] << 8);
+        loopCount = repeats === 0 ? 0 : repeats + 1;
+      }
+      pos = end;
+      continue;
+    }
+
+    if (blockType !== 0x2c) break; // Unknown block: treat the rest as trailing garbage
+
+    const x = view.getUint16(pos, true);
+    const y = view.getUint16(pos + 2, true);
+    const frameWidth = view.getUint16(pos + 4, true);
+    const frameHeight = view.getUint16(pos + 6, true);
+    const flags = bytes[pos + 8];
+    pos += 9;
+    let palette = globalPalette;
+    if (flags & 0x80) {
+      const size = 3 << ((flags & 0x07) + 1);
+      palette = bytes.subarray(pos, pos + size);
+      pos += size;
+    }
+    const minCodeSize = bytes[pos++];
+    const { data, end } = readSubBlocks(bytes, pos);
+    pos = end;
+    if (!palette || frameWidth === 0 || frameHeight === 0) continue;
+
+    const indices = lzwDecode(data, minCodeSize, frameWidth * frameHeight);
+    const rows = flags & 0x40 ? interlacedRows(frameHeight) : null;
+    const pixels = createPixelBuffer(frameWidth, frameHeight);
+    for (let row = 0; row < frameHeight; row++) {
+      const targetRow = rows ? rows[row] : row;
+      for (let col = 0; col < frameWidth; col++) {
+        const index = indices[row * frameWidth + col];
+        if (index === control.transparentIndex || index * 3 + 2 >= palette.length) continue;
+        const i = (targetRow * frameWidth + col) * 4;
+        pixels.data[i] = palette[index * 3];
+        pixels.data[i + 1] = palette[index * 3 + 1];
+        pixels.data[i + 2] = palette[index * 3 + 2];
+        pixels.data[i + 3] = 255;
+      }
+    }
+
+    layers.push({
+      pixels,
+      x,
+      y,
+      delay: control.delay < MIN_GIF_DELAY ? SLOW_GIF_DELAY : control.delay,
+      disposal: GIF_DISPOSAL[control.disposal] ?? 'none',
+      blend: 'over',
+    });
+    control = { delay: 0, disposal: 0, transparentIndex: -1 };
+  }
+
+  if (layers.length === 0) {
+    throw new Error('The GIF contains no frames.');
+  }
+  return composeAnimation(width, height, layers, loopCount);
+};
+
+// --- APNG ---
+
+export interface ApngFrame {
+  png: Uint8Array; // A standalone PNG holding just this frame's region
+  x: number;
+  y: number;
+  delay: number;
+  disposal: FrameDisposal;
+  blend: 'source' | 'over';
+}
+
+export interface ApngData {
+  width: number;
+  height: number;
+  loopCount: number;
+  frames: ApngFrame[];
+}
+
+const APNG_DISPOSAL: FrameDisposal[] = ['none', 'background', 'previous'];
+// Chunks that describe the image data and so must be repeated in every frame's PNG
+const SHARED_PNG_CHUNKS = new Set(['PLTE', 'tRNS', 'gAMA', 'cHRM', 'sRGB', 'iCCP', 'sBIT']);
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// Splits an APNG into one PNG per frame. Decoding those is left to the caller (see decodeAnimation),
+// after which composeAnimation() lays them out.
+export const parseApng = (bytes: Uint8Array): ApngData => {
+  const chunks = readPngChunks(bytes);
+  const header = chunks.find(chunk => chunk.type === 'IHDR');
+  const control = chunks.find(chunk => chunk.type === 'acTL');
+  if (!header || !control) {
+    throw new Error('Not an animated PNG.');
+  }
+  const headerView = new DataView(header.data.buffer, header.data.byteOffset, header.data.byteLength);
+  const controlView = new DataView(control.data.buffer, control.data.byteOffset, control.data.byteLength);
+  const width = headerView.getUint32(0);
+  const height = headerView.getUint32(4);
+  const shared = chunks.filter(chunk => SHARED_PNG_CHUNKS.has(chunk.type));
+
+  const frames: ApngFrame[] = [];
+  let current: (Omit<ApngFrame, 'png'> & { width: number; height: number; data: Uint8Array[] }) | null = null;
+  const finish = () => {
+    if (!current || current.data.length === 0) return;
+    const frameHeader = header.data.slice();
+    const view = new DataView(frameHeader.buffer);
+    view.setUint32(0, current.width);
+    view.setUint32(4, current.height);
+    const { data, width: _w, height: _h, ...frame } = current;
+    frames.push({
+      ...frame,
+      // There is no earlier canvas to go back to, so the spec treats PREVIOUS on the first frame as BACKGROUND
+      disposal: frames.length === 0 && frame.disposal === 'previous' ? 'background' : frame.disposal,
+      png: concatBytes([
+        PNG_SIGNATURE,
+        pngChunk('IHDR', frameHeader),
+        ...shared.map(chunk => pngChunk(chunk.type, chunk.data)),
+        ...data.map(part => pngChunk('IDAT', part)),
+        pngChunk('IEND', new Uint8Array(0)),
+      ]),
+    });
+  };
+
+  for (const chunk of chunks) {
+    if (chunk.type === 'fcTL') {
+      finish();
+      const view = new DataView(chunk.data.buffer, chunk.data.byteOffset, chunk.data.byteLength);
+      const delayNum = view.getUint16(20);
+      const delayDen = view.getUint16(22) || 100;
+      current = {
+        width: view.getUint32(4),
+        height: view.getUint32(8),
+        x: view.getUint32(12),
+        y: view.getUint32(16),
+        delay: Math.round((delayNum / delayDen) * 1000),
+        disposal: APNG_DISPOSAL[chunk.data[24]] ?? 'none',
+        blend: chunk.data[25] === 1 ? 'over' : 'source',
+        data: [],
+      };
+    } else if (chunk.type === 'IDAT' && current) {
+      // The default image only belongs to the animation when an fcTL precedes it
+      current.data.push(chunk.data);
+    } else if (chunk.type === 'fdAT' && current) {
+      current.data.push(chunk.data.subarray(4)); // Drop the sequence number
+    }
+  }
+  finish();
+
+  if (frames.length === 0) {
+    throw new Error('The animated PNG contains no frames.');
+  }
+  return { width, height, loopCount: controlView.getUint32(4), frames };
+};
@@ -0,0 +1,93 @@
+import { gaussianBlur } from './blur';
+import { createPixelBuffer, drawPixelBuffer } from './pixelBuffer';
+import { cover, resize } from './resize';
+import type { PixelBuffer, Point, RGBA } from './types';
+
+export type BackgroundFill =
+  | { kind: 'transparent' }
+  | { kind: 'color'; color: RGBA }
+  | { kind: 'gradient'; from: RGBA; to: RGBA; angle: number } // Degrees, 0 runs left to right, 90 top to bottom
+  | { kind: 'blur'; source: PixelBuffer; radius: number } // Usually the original photo, at the output size
+  | { kind: 'image'; image: PixelBuffer }; // Scaled to cover the output
+
+export interface DropShadow {
+  color: RGBA;
+  opacity: number; // 0.0 to 1.0
+  blur: number; // Pixels
+  offset: Point; // Pixels
+}
+
+export interface ReplaceBackgroundOptions {
+  background: BackgroundFill;
+  subjectScale?: number; // 1 keeps the cutout at its own size
+  offset?: Point; // Subject position in pixels, relative to centered
+  shadow?: DropShadow | null;
+}
+
+const renderGradient = (width: number, height: number, from: RGBA, to: RGBA, angle: number): PixelBuffer => {
+  const output = createPixelBuffer(width, height);
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.cos(radians);
+  const dy = Math.sin(radians);
+  // Half the canvas extent along the gradient direction, so it runs exactly corner to corner
+  const extent = (Math.abs(width * dx) + Math.abs(height * dy)) / 2 || 1;
+  const { data } = output;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const t = Math.max(0, Math.min(1, (((x + 0.5 - width / 2) * dx + (y + 0.5 - height / 2) * dy) / extent + 1) / 2));
+      const i = (y * width + x) * 4;
+      data[i] = from.r + (to.r - from.r) * t;
+      data[i + 1] = from.g + (to.g - from.g) * t;
+      data[i + 2] = from.b + (to.b - from.b) * t;
+      data[i + 3] = from.a + (to.a - from.a) * t;
+    }
+  }
+  return output;
+};
+
+const renderBackground = (fill: BackgroundFill, width: number, height: number, scale: number): PixelBuffer => {
+  switch (fill.kind) {
+    case 'color':
+      return createPixelBuffer(width, height, fill.color);
+    case 'gradient':
+      return renderGradient(width, height, fill.from, fill.to, fill.angle);
+    case 'blur':
+      return gaussianBlur(cover(fill.source, width, height), (fill.radius * scale) / 2);
+    case 'image':
+      return cover(fill.image, width, height);
+    case 'transparent':
+    default:
+      return createPixelBuffer(width, height);
+  }
+};
+
+// Places a cutout (transparent around the subject) over a new background, on a canvas the size of
+// the cutout. `scale` maps the pixel amounts onto a scaled-down cutout, so previews match the export.
+export const replaceBackground = (cutout: PixelBuffer, options: ReplaceBackgroundOptions, scale = 1): PixelBuffer => {
+  const { background, subjectScale = 1, offset = { x: 0, y: 0 }, shadow } = options;
+  const { width, height } = cutout;
+  const output = renderBackground(background, width, height, scale);
+
+  const subject = subjectScale === 1
+    ? cutout
+    : resize(cutout, { width: width * subjectScale, height: height * subjectScale, method: 'bicubic' });
+  const x = (width - subject.width) / 2 + offset.x * scale;
+  const y = (height - subject.height) / 2 + offset.y * scale;
+
+  if (shadow && shadow.opacity > 0) {
+    // The shadow is the subject's silhouette, drawn on a full-size layer so its blur isn't clipped
+    const layer = createPixelBuffer(width, height);
+    const silhouette = createPixelBuffer(subject.width, subject.height);
+    for (let i = 0; i < silhouette.data.length; i += 4) {
+      silhouette.data[i] = shadow.color.r;
+      silhouette.data[i + 1] = shadow.color.g;
+      silhouette.data[i + 2] = shadow.color.b;
+      silhouette.data[i + 3] = subject.data[i + 3];
+    }
+    drawPixelBuffer(layer, silhouette, x + shadow.offset.x * scale, y + shadow.offset.y * scale);
+    drawPixelBuffer(output, gaussianBlur(layer, (shadow.blur * scale) / 2), 0, 0, shadow.opacity);
+  }
+
+  drawPixelBuffer(output, subject, x, y);
+  return output;
+};
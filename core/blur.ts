@@ -0,0 +1,77 @@
+import { createPixelBuffer } from './pixelBuffer';
+import type { PixelBuffer } from './types';
+
+// Box widths for three successive box blurs that together approximate a Gaussian of `sigma`
+const boxSizesForGauss = (sigma: number, passes: number): number[] => {
+  const ideal = Math.sqrt((12 * sigma * sigma) / passes + 1);
+  let lower = Math.floor(ideal);
+  if (lower % 2 === 0) lower--;
+  const upper = lower + 2;
+  const m = Math.round((12 * sigma * sigma - passes * lower * lower - 4 * passes * lower - 3 * passes) / (-4 * lower - 4));
+  return Array.from({ length: passes }, (_, i) => (i < m ? lower : upper));
+};
+
+// Running-sum box blur along one axis, clamping at the edges
+const boxBlurPass = (src: Float32Array, dst: Float32Array, width: number, height: number, radius: number, horizontal: boolean) => {
+  const length = horizontal ? width : height;
+  const lines = horizontal ? height : width;
+  const step = horizontal ? 4 : width * 4;
+  const scale = 1 / (radius * 2 + 1);
+
+  for (let line = 0; line < lines; line++) {
+    const start = horizontal ? line * width * 4 : line * 4;
+    for (let c = 0; c < 4; c++) {
+      const base = start + c;
+      const first = src[base];
+      const last = src[base + (length - 1) * step];
+      let sum = first * (radius + 1);
+      for (let i = 1; i <= radius; i++) sum += src[base + Math.min(i, length - 1) * step];
+      for (let i = 0; i < length; i++) {
+        dst[base + i * step] = sum * scale;
+        const right = i + radius + 1;
+        const left = i - radius;
+        sum += (right < length ? src[base + right * step] : last) - (left >= 0 ? src[base + left * step] : first);
+      }
+    }
+  }
+};
+
+// Gaussian blur (approximated by three box blurs, so the cost doesn't depend on sigma).
+// Works in premultiplied alpha so transparent pixels don't darken the edges.
+export const gaussianBlur = (source: PixelBuffer, sigma: number): PixelBuffer => {
+  const { width, height } = source;
+  const output = createPixelBuffer(width, height);
+  if (sigma <= 0) {
+    output.data.set(source.data);
+    return output;
+  }
+
+  const a = new Float32Array(width * height * 4);
+  const b = new Float32Array(width * height * 4);
+  const src = source.data;
+  for (let i = 0; i < src.length; i += 4) {
+    const alpha = src[i + 3] / 255;
+    a[i] = src[i] * alpha;
+    a[i + 1] = src[i + 1] * alpha;
+    a[i + 2] = src[i + 2] * alpha;
+    a[i + 3] = src[i + 3];
+  }
+
+  for (const size of boxSizesForGauss(sigma, 3)) {
+    const radius = (size - 1) / 2;
+    boxBlurPass(a, b, width, height, radius, true);
+    boxBlurPass(b, a, width, height, radius, false);
+  }
+
+  const dst = output.data;
+  for (let i = 0; i < dst.length; i += 4) {
+    const alpha = a[i + 3];
+    if (alpha <= 0) continue;
+    const unpremultiply = 255 / alpha;
+    dst[i] = a[i] * unpremultiply;
+    dst[i + 1] = a[i + 1] * unpremultiply;
+    dst[i + 2] = a[i + 2] * unpremultiply;
+    dst[i + 3] = alpha;
+  }
+  return output;
+};
@@ -0,0 +1,89 @@
+import { parseHexColor } from './color';
+import type { PixelBuffer, Point } from './types';
+
+export type BrushMode = 'paint' | 'erase';
+
+export interface BrushStroke {
+  mode: BrushMode;
+  color: string; // Hex, ignored when erasing
+  size: number; // Diameter in pixels
+  hardness: number; // 0 (soft edge) to 1 (hard edge)
+  opacity: number; // 0.0 to 1.0, for the whole stroke
+  points: Point[];
+}
+
+const STAMP_SPACING = 0.25; // Fraction of the radius between stamps
+
+// Rasterizes a stroke into `target` in place. Coverage is the maximum of the round stamps along
+// the path, so overlapping stamps don't build up and the stroke's opacity stays uniform.
+// `scale` maps stroke coordinates and size onto the target (e.g. for a downscaled preview).
+export const renderStroke = (target: PixelBuffer, stroke: BrushStroke, scale = 1) => {
+  if (stroke.points.length === 0 || stroke.opacity <= 0) return;
+  const radius = Math.max(0.5, (stroke.size * scale) / 2);
+  const hardRadius = radius * Math.max(0, Math.min(1, stroke.hardness));
+  const points = stroke.points.map(p => ({ x: p.x * scale, y: p.y * scale }));
+
+  const minX = Math.max(0, Math.floor(Math.min(...points.map(p => p.x)) - radius));
+  const minY = Math.max(0, Math.floor(Math.min(...points.map(p => p.y)) - radius));
+  const maxX = Math.min(target.width, Math.ceil(Math.max(...points.map(p => p.x)) + radius) + 1);
+  const maxY = Math.min(target.height, Math.ceil(Math.max(...points.map(p => p.y)) + radius) + 1);
+  if (minX >= maxX || minY >= maxY) return;
+
+  const boxWidth = maxX - minX;
+  const coverage = new Float32Array(boxWidth * (maxY - minY));
+
+  const stamp = (cx: number, cy: number) => {
+    const x0 = Math.max(minX, Math.floor(cx - radius));
+    const x1 = Math.min(maxX, Math.ceil(cx + radius) + 1);
+    const y0 = Math.max(minY, Math.floor(cy - radius));
+    const y1 = Math.min(maxY, Math.ceil(cy + radius) + 1);
+    for (let y = y0; y < y1; y++) {
+      const dy = y + 0.5 - cy;
+      for (let x = x0; x < x1; x++) {
+        const dx = x + 0.5 - cx;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance >= radius) continue;
+        let alpha = 1;
+        if (distance > hardRadius) {
+          const t = (distance - hardRadius) / (radius - hardRadius);
+          alpha = 1 - t * t * (3 - 2 * t); // Smoothstep falloff towards the edge
+        }
+        const ci = (y - minY) * boxWidth + (x - minX);
+        if (alpha > coverage[ci]) coverage[ci] = alpha;
+      }
+    }
+  };
+
+  const spacing = Math.max(0.5, radius * STAMP_SPACING);
+  stamp(points[0].x, points[0].y);
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    const steps = Math.ceil(length / spacing);
+    for (let s = 1; s <= steps; s++) {
+      const t = s / steps;
+      stamp(from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t);
+    }
+  }
+
+  const data = target.data;
+  const color = parseHexColor(stroke.color) ?? { r: 0, g: 0, b: 0, a: 255 };
+  for (let y = minY; y < maxY; y++) {
+    for (let x = minX; x < maxX; x++) {
+      const amount = coverage[(y - minY) * boxWidth + (x - minX)] * stroke.opacity;
+      if (amount <= 0) continue;
+      const i = (y * target.width + x) * 4;
+      if (stroke.mode === 'erase') {
+        data[i + 3] = data[i + 3] * (1 - amount);
+        continue;
+      }
+      const dstAlpha = data[i + 3] / 255;
+      const outAlpha = amount + dstAlpha * (1 - amount);
+      data[i] = (color.r * amount + data[i] * dstAlpha * (1 - amount)) / outAlpha;
+      data[i + 1] = (color.g * amount + data[i + 1] * dstAlpha * (1 - amount)) / outAlpha;
+      data[i + 2] = (color.b * amount + data[i + 2] * dstAlpha * (1 - amount)) / outAlpha;
+      data[i + 3] = outAlpha * 255;
+    }
+  }
+};
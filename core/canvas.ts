@@ -0,0 +1,285 @@
+// Browser adapters: the only part of core/ that touches the DOM / canvas APIs.
+// Everything else operates on plain PixelBuffers.
+import { composeAnimation, decodeGif, detectAnimationFormat, parseApng } from './animation';
+import type { DecodedAnimation } from './animation';
+import { EXIF_TAGS, setExifNumber } from './exif';
+import { encodeGif } from './gif';
+import { canCarryMetadata, filterMetadata, readBlobMetadata, readOrientation, writeMetadata } from './metadata';
+import type { ImageMetadata, MetadataPolicy } from './metadata';
+import { applyOrientation, inverseOrientation, orientedSize } from './orientation';
+import { createPixelBuffer } from './pixelBuffer';
+import type { OutputFormat, PixelBuffer } from './types';
+
+type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+type AnyContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+const createCanvas = (width: number, height: number): { canvas: AnyCanvas; ctx: AnyContext } => {
+  const canvas: AnyCanvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement('canvas'), { width, height });
+  const ctx = canvas.getContext('2d') as AnyContext | null;
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+  return { canvas, ctx };
+};
+
+const toImageData = (buffer: PixelBuffer): ImageData => {
+  return buffer instanceof ImageData ? buffer : new ImageData(new Uint8ClampedArray(buffer.data), buffer.width, buffer.height);
+};
+
+const bufferToCanvas = (buffer: PixelBuffer): { canvas: AnyCanvas; ctx: AnyContext } => {
+  const result = createCanvas(buffer.width, buffer.height);
+  result.ctx.putImageData(toImageData(buffer), 0, 0);
+  return result;
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image.'));
+    img.src = src;
+  });
+};
+
+export const imageToPixelBuffer = (image: CanvasImageSource, width: number, height: number): PixelBuffer => {
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(image, 0, 0);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+export interface DecodeOptions {
+  // 'none' keeps the pixels in the file's own color space, for when its ICC profile is carried over to the output
+  colorSpaceConversion?: ColorSpaceConversion;
+  // 'apply' (default) returns upright pixels; 'ignore' returns them as stored, for tools that keep the EXIF tag
+  orientation?: 'apply' | 'ignore';
+}
+
+export interface DecodedImage {
+  pixels: PixelBuffer;
+  orientation: number; // EXIF orientation found in the file, 1 when absent
+}
+
+// Decodes as the browser does, which may or may not honour the EXIF orientation
+const decodeBlobPixels = async (blob: Blob, colorSpaceConversion: ColorSpaceConversion = 'default'): Promise<PixelBuffer> => {
+  if (typeof createImageBitmap !== 'undefined') {
+    const bitmap = await createImageBitmap(blob, { colorSpaceConversion });
+    try {
+      return imageToPixelBuffer(bitmap, bitmap.width, bitmap.height);
+    } finally {
+      bitmap.close();
+    }
+  }
+  const url = URL.createObjectURL(blob);
+  try {
+    const img = await loadImage(url);
+    return imageToPixelBuffer(img, img.naturalWidth, img.naturalHeight);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+let orientationProbe: Promise<boolean> | null = null;
+
+// Current browsers rotate by the EXIF orientation while decoding; older ones hand back the stored pixels.
+// Probed once with a 2x1 JPEG tagged as "rotate 90°": an upright decode comes back 1x2.
+export const browserAppliesOrientation = (): Promise<boolean> => {
+  orientationProbe ??= (async () => {
+    try {
+      const jpeg = await encodeImage(createPixelBuffer(2, 1), { format: 'jpeg' });
+      const exif = setExifNumber({ littleEndian: false, entries: [] }, 'ifd0', EXIF_TAGS.Orientation, 6);
+      const tagged = await writeMetadata(new Uint8Array(await jpeg.arrayBuffer()), { exif });
+      const pixels = await decodeBlobPixels(new Blob([tagged], { type: 'image/jpeg' }));
+      return pixels.height === 2;
+    } catch (error) {
+      console.warn('Could not detect EXIF orientation support; assuming the browser applies it.', error);
+      return true;
+    }
+  })();
+  return orientationProbe;
+};
+
+// Decodes a Blob and normalizes its EXIF orientation the same way in every browser
+export const decodeImageWithOrientation = async (blob: Blob, options: DecodeOptions = {}): Promise<DecodedImage> => {
+  const [orientation, pixels] = await Promise.all([readOrientation(blob), decodeBlobPixels(blob, options.colorSpaceConversion)]);
+  if (orientation === 1) return { pixels, orientation };
+
+  const applied = await browserAppliesOrientation();
+  if (options.orientation === 'ignore') {
+    return { pixels: applied ? applyOrientation(pixels, inverseOrientation(orientation)) : pixels, orientation };
+  }
+  return { pixels: applied ? pixels : applyOrientation(pixels, orientation), orientation };
+};
+
+// Decodes a URL (data:, blob:, http) or a Blob into upright pixels
+export const decodeImage = async (source: string | Blob, options: DecodeOptions = {}): Promise<PixelBuffer> => {
+  const blob = typeof source === 'string' ? await (await fetch(source)).blob() : source;
+  return (await decodeImageWithOrientation(blob, options)).pixels;
+};
+
+// Natural size of an image as it displays, i.e. after its EXIF orientation
+export const getImageSize = async (blob: Blob): Promise<{ width: number; height: number; orientation: number }> => {
+  const [orientation, applied] = await Promise.all([readOrientation(blob), browserAppliesOrientation()]);
+  let size: { width: number; height: number };
+  if (typeof createImageBitmap !== 'undefined') {
+    const bitmap = await createImageBitmap(blob);
+    size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+  } else {
+    const url = URL.createObjectURL(blob);
+    try {
+      const img = await loadImage(url);
+      size = { width: img.naturalWidth, height: img.naturalHeight };
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+  return { ...(applied ? size : orientedSize(size.width, size.height, orientation)), orientation };
+};
+
+// Decodes a file that will be re-encoded as `format`, along with the metadata `policy` keeps for it.
+// When the ICC profile is kept, the pixels stay in that profile's color space so the two still match.
+export const decodeImageWithMetadata = async (
+  file: Blob,
+  format: OutputFormat,
+  policy: MetadataPolicy,
+): Promise<{ pixels: PixelBuffer; metadata: ImageMetadata | null; orientation: number }> => {
+  const metadata = policy !== 'strip' && canCarryMetadata(format) ? filterMetadata(await readBlobMetadata(file), policy) : null;
+  const { pixels, orientation } = await decodeImageWithOrientation(file, { colorSpaceConversion: metadata?.icc ? 'none' : 'default' });
+  return { pixels, metadata, orientation };
+};
+
+// Animated WebP has no pure decoder here; browsers with WebCodecs' ImageDecoder can still play it back
+const decodeWithImageDecoder = async (blob: Blob, type: string): Promise<DecodedAnimation> => {
+  if (typeof ImageDecoder === 'undefined') {
+    throw new Error('Animated WebP frames can only be extracted in browsers that support ImageDecoder (e.g. Chrome or Edge).');
+  }
+  const decoder = new ImageDecoder({ data: await blob.arrayBuffer(), type });
+  try {
+    await decoder.tracks.ready;
+    const track = decoder.tracks.selectedTrack;
+    if (!track) throw new Error('The file contains no image track.');
+    await decoder.completed;
+    const frames = [];
+    for (let frameIndex = 0; frameIndex < track.frameCount; frameIndex++) {
+      const { image } = await decoder.decode({ frameIndex });
+      try {
+        frames.push({
+          pixels: imageToPixelBuffer(image, image.displayWidth, image.displayHeight),
+          delay: Math.round((image.duration ?? 0) / 1000), // Microseconds
+        });
+      } finally {
+        image.close();
+      }
+    }
+    const { width, height } = frames[0].pixels;
+    return { width, height, frames, loopCount: Number.isFinite(track.repetitionCount) ? track.repetitionCount + 1 : 0 };
+  } finally {
+    decoder.close();
+  }
+};
+
+// Decodes every frame of an animated GIF, APNG or WebP, composited as it plays.
+// Still images come back as a single frame.
+export const decodeAnimation = async (blob: Blob): Promise<DecodedAnimation> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const format = detectAnimationFormat(bytes);
+  if (format === 'gif') return decodeGif(bytes);
+  if (format === 'webp') return decodeWithImageDecoder(blob, 'image/webp');
+  if (format === 'apng') {
+    const apng = parseApng(bytes);
+    const layers = [];
+    for (const { png, ...frame } of apng.frames) {
+      layers.push({ ...frame, pixels: await decodeBlobPixels(new Blob([png], { type: 'image/png' })) });
+    }
+    return composeAnimation(apng.width, apng.height, layers, apng.loopCount);
+  }
+  const pixels = await decodeImage(blob);
+  return { width: pixels.width, height: pixels.height, frames: [{ pixels, delay: 0 }], loopCount: 1 };
+};
+
+export const formatToMimeType = (format: OutputFormat): string => `image/${format}`;
+
+export const formatToExtension = (format: OutputFormat): string => (format === 'jpeg' ? 'jpg' : format);
+
+// Formats the encoder can't write (BMP, ...) fall back to PNG, like canvas.toDataURL does
+export const mimeTypeToFormat = (mimeType: string): OutputFormat => {
+  if (mimeType === 'image/jpeg' || mimeType === 'image/jpg') return 'jpeg';
+  if (mimeType === 'image/webp') return 'webp';
+  if (mimeType === 'image/gif') return 'gif';
+  return 'png';
+};
+
+export interface EncodeOptions {
+  format: OutputFormat;
+  quality?: number; // 0.0 to 1.0, ignored for PNG and GIF
+  dither?: boolean; // GIF only: dither when reducing to 256 colors
+}
+
+// The output has no metadata: EXIF, which can carry GPS coordinates and camera serials, is only
+// kept when copied back with embedMetadata(). Redaction tools rely on this.
+export const encodeImage = async (buffer: PixelBuffer, { format, quality, dither }: EncodeOptions): Promise<Blob> => {
+  // Canvas can't write GIF, so it goes through the pure encoder
+  if (format === 'gif') {
+    return new Blob([encodeGif([{ pixels: buffer }], { dither })], { type: 'image/gif' });
+  }
+  const { canvas } = bufferToCanvas(buffer);
+  const type = formatToMimeType(format);
+  const encoderQuality = format === 'png' ? undefined : quality;
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality: encoderQuality });
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image.'))), type, encoderQuality);
+  });
+};
+
+// Synchronous data URL encoding for previews and the existing download helpers.
+// Always uses a DOM canvas since OffscreenCanvas has no toDataURL.
+export const encodeImageToDataURL = (buffer: PixelBuffer, mimeType: string, quality?: number): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = buffer.width;
+  canvas.height = buffer.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+  ctx.putImageData(toImageData(buffer), 0, 0);
+  // Lossless formats ignore the quality argument
+  return canvas.toDataURL(mimeType, mimeType === 'image/png' ? undefined : quality);
+};
+
+// Shows a buffer on a visible canvas, resizing the canvas to match (for live previews)
+export const drawToCanvas = (canvas: HTMLCanvasElement, buffer: PixelBuffer) => {
+  if (canvas.width !== buffer.width) canvas.width = buffer.width;
+  if (canvas.height !== buffer.height) canvas.height = buffer.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+  ctx.putImageData(toImageData(buffer), 0, 0);
+};
+
+export interface TextMarkOptions {
+  fontSize: number;
+  color: string;
+}
+
+// Renders a single line of bold text into a tightly sized transparent buffer, for use with watermark()
+export const renderTextMark = (text: string, { fontSize, color }: TextMarkOptions): PixelBuffer => {
+  const font = `bold ${fontSize}px Arial`;
+  const measure = createCanvas(1, 1).ctx;
+  measure.font = font;
+  const width = Math.max(1, Math.ceil(measure.measureText(text).width));
+  const height = Math.max(1, Math.ceil(fontSize * 1.2));
+
+  const { ctx } = createCanvas(width, height);
+  ctx.font = font;
+  ctx.fillStyle = color;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, 0, height / 2);
+  return ctx.getImageData(0, 0, width, height);
+};
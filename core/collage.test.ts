@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { collage } from './collage';
+import { BLUE, GREEN, RED, WHITE, pixelAt, solid } from './testUtils';
+
+describe('collage', () => {
+  it('lays the images out in square cells, row by row', () => {
+    const output = collage([solid(20, 10, RED), solid(10, 30, GREEN), solid(8, 8, BLUE)], {
+      cols: 2,
+      border: 'none',
+      borderWidth: 4,
+      borderColor: WHITE,
+      cellSize: 10,
+    });
+    expect(output.width).toBe(20);
+    expect(output.height).toBe(20);
+    expect(pixelAt(output, 5, 5)).toEqual(RED);
+    expect(pixelAt(output, 15, 5)).toEqual(GREEN);
+    expect(pixelAt(output, 5, 15)).toEqual(BLUE);
+    // The empty last cell shows the background
+    expect(pixelAt(output, 15, 15)).toEqual(WHITE);
+  });
+
+  it('separates the cells with grid borders', () => {
+    const output = collage([solid(10, 10, RED), solid(10, 10, GREEN)], {
+      cols: 2,
+      border: 'grid',
+      borderWidth: 2,
+      borderColor: WHITE,
+      cellSize: 10,
+    });
+    expect(output.width).toBe(2 * 10 + 3 * 2);
+    expect(output.height).toBe(10 + 2 * 2);
+    expect(pixelAt(output, 0, 0)).toEqual(WHITE);
+    expect(pixelAt(output, 2, 2)).toEqual(RED);
+    expect(pixelAt(output, 12, 5)).toEqual(WHITE);
+    expect(pixelAt(output, 14, 5)).toEqual(GREEN);
+  });
+
+  it('rounds the cell corners to show the border color', () => {
+    const output = collage([solid(20, 20, RED)], {
+      cols: 1,
+      border: 'rounded',
+      borderWidth: 2,
+      borderColor: WHITE,
+      cellSize: 40,
+    });
+    expect(pixelAt(output, 2, 2)).toEqual(WHITE);
+    expect(pixelAt(output, 22, 22)).toEqual(RED);
+  });
+
+  it('rejects an empty list', () => {
+    expect(() => collage([], { cols: 2, border: 'none', borderWidth: 0, borderColor: WHITE })).toThrow('At least one image');
+  });
+});
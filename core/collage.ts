@@ -0,0 +1,65 @@
+import { centeredAspectRect, crop } from './crop';
+import { createPixelBuffer, drawPixelBuffer } from './pixelBuffer';
+import { resize } from './resize';
+import type { PixelBuffer, RGBA } from './types';
+
+export type CollageBorder = 'none' | 'grid' | 'rounded';
+
+export interface CollageOptions {
+  cols: number;
+  border: CollageBorder;
+  borderWidth: number;
+  borderColor: RGBA;
+  cellSize?: number;
+}
+
+const DEFAULT_CELL_SIZE = 500;
+
+// Antialiased rounded-rectangle alpha mask, applied in place
+const applyRoundedCorners = (image: PixelBuffer, radius: number) => {
+  const { width, height, data } = image;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Distance from the nearest corner circle center, only inside the corner squares
+      const cx = x + 0.5 < radius ? radius : x + 0.5 > width - radius ? width - radius : -1;
+      const cy = y + 0.5 < radius ? radius : y + 0.5 > height - radius ? height - radius : -1;
+      if (cx < 0 || cy < 0) continue;
+      const distance = Math.hypot(x + 0.5 - cx, y + 0.5 - cy);
+      const coverage = Math.max(0, Math.min(1, radius - distance + 0.5));
+      const i = (y * width + x) * 4 + 3;
+      data[i] = data[i] * coverage;
+    }
+  }
+};
+
+// Square cells, each image cover-cropped to fill its cell. Rows are added as needed for the image count.
+export const collage = (images: PixelBuffer[], options: CollageOptions): PixelBuffer => {
+  if (images.length === 0) {
+    throw new Error('At least one image is required for a collage.');
+  }
+  const cols = Math.max(1, Math.floor(options.cols));
+  const cellSize = options.cellSize ?? DEFAULT_CELL_SIZE;
+  const borderWidth = options.border === 'none' ? 0 : options.borderWidth;
+  const renderRows = Math.ceil(images.length / cols);
+
+  const output = createPixelBuffer(
+    cols * cellSize + (cols + 1) * borderWidth,
+    renderRows * cellSize + (renderRows + 1) * borderWidth,
+    options.borderColor,
+  );
+
+  images.forEach((image, index) => {
+    const r = Math.floor(index / cols);
+    const c = index % cols;
+    const cell = resize(crop(image, centeredAspectRect(image.width, image.height, 1)), {
+      width: cellSize,
+      height: cellSize,
+      method: 'bicubic',
+    });
+    if (options.border === 'rounded') {
+      applyRoundedCorners(cell, cellSize * 0.1); // 10% of the cell size
+    }
+    drawPixelBuffer(output, cell, borderWidth + c * (cellSize + borderWidth), borderWidth + r * (cellSize + borderWidth));
+  });
+  return output;
+};
@@ -0,0 +1,15 @@
+import type { RGBA } from './types';
+
+// Accepts #rgb and #rrggbb, with or without the leading hash
+export const parseHexColor = (hex: string): RGBA | null => {
+  const expanded = hex.replace(/^#?([a-f\d])([a-f\d])([a-f\d])$/i, (m, r, g, b) => r + r + g + g + b + b);
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(expanded);
+  return result
+    ? {
+        r: parseInt(result[1], 16),
+        g: parseInt(result[2], 16),
+        b: parseInt(result[3], 16),
+        a: 255,
+      }
+    : null;
+};
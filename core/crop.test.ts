@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { centeredAspectRect, crop } from './crop';
+import { gradient, pixelAt } from './testUtils';
+
+describe('crop', () => {
+  it('copies the requested rectangle', () => {
+    const source = gradient(8, 6);
+    const output = crop(source, { x: 2, y: 1, width: 3, height: 4 });
+    expect(output.width).toBe(3);
+    expect(output.height).toBe(4);
+    expect(pixelAt(output, 0, 0)).toEqual(pixelAt(source, 2, 1));
+    expect(pixelAt(output, 2, 3)).toEqual(pixelAt(source, 4, 4));
+  });
+
+  it('clamps the rectangle to the image', () => {
+    const source = gradient(8, 6);
+    const output = crop(source, { x: 5, y: -3, width: 10, height: 4 });
+    expect(output.width).toBe(3);
+    expect(output.height).toBe(4);
+    expect(pixelAt(output, 0, 0)).toEqual(pixelAt(source, 5, 0));
+  });
+});
+
+describe('centeredAspectRect', () => {
+  it('trims the sides of a wide image', () => {
+    expect(centeredAspectRect(200, 100, 1)).toEqual({ x: 50, y: 0, width: 100, height: 100 });
+  });
+
+  it('trims the top and bottom of a tall image', () => {
+    expect(centeredAspectRect(100, 200, 2)).toEqual({ x: 0, y: 75, width: 100, height: 50 });
+  });
+});
@@ -0,0 +1,28 @@
+import { createPixelBuffer } from './pixelBuffer';
+import type { PixelBuffer, Rect } from './types';
+
+// Copies a rectangle out of the source. The rectangle is clamped to the image bounds.
+export const crop = (source: PixelBuffer, rect: Rect): PixelBuffer => {
+  const x = Math.max(0, Math.min(source.width - 1, Math.round(rect.x)));
+  const y = Math.max(0, Math.min(source.height - 1, Math.round(rect.y)));
+  const width = Math.max(1, Math.min(source.width - x, Math.round(rect.width)));
+  const height = Math.max(1, Math.min(source.height - y, Math.round(rect.height)));
+
+  const output = createPixelBuffer(width, height);
+  const rowLength = width * 4;
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * source.width + x) * 4;
+    output.data.set(source.data.subarray(start, start + rowLength), row * rowLength);
+  }
+  return output;
+};
+
+// Largest centered rectangle with the given aspect ratio (width / height), as used for "cover" fitting
+export const centeredAspectRect = (width: number, height: number, aspectRatio: number): Rect => {
+  if (width / height > aspectRatio) {
+    const cropWidth = height * aspectRatio;
+    return { x: (width - cropWidth) / 2, y: 0, width: cropWidth, height };
+  }
+  const cropHeight = width / aspectRatio;
+  return { x: 0, y: (height - cropHeight) / 2, width, height: cropHeight };
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { EXIF_TAGS, getExifNumber, getExifText, parseExif, removeExifEntries, setExifNumber, setExifText, writeExif } from './exif';
+import type { ExifData } from './exif';
+
+const sample = (littleEndian: boolean): ExifData => {
+  let exif: ExifData = { littleEndian, entries: [] };
+  exif = setExifText(exif, 'ifd0', EXIF_TAGS.Artist, 'Jane Doe');
+  exif = setExifText(exif, 'ifd0', EXIF_TAGS.Copyright, '© 2024 Jane Doe');
+  exif = setExifNumber(exif, 'ifd0', EXIF_TAGS.Orientation, 6);
+  exif = setExifNumber(exif, 'exif', EXIF_TAGS.PixelXDimension, 100000);
+  exif = setExifNumber(exif, 'gps', 0x0005, 0);
+  return exif;
+};
+
+describe('parseExif and writeExif', () => {
+  it.each([true, false])('round-trip every entry (little endian: %s)', (littleEndian) => {
+    const exif = sample(littleEndian);
+    const parsed = parseExif(writeExif(exif));
+    expect(parsed).not.toBeNull();
+    expect(parsed!.littleEndian).toBe(littleEndian);
+    expect(getExifText(parsed!, 'ifd0', EXIF_TAGS.Artist)).toBe('Jane Doe');
+    expect(getExifText(parsed!, 'ifd0', EXIF_TAGS.Copyright)).toBe('© 2024 Jane Doe');
+    expect(getExifNumber(parsed!, 'ifd0', EXIF_TAGS.Orientation)).toBe(6);
+    expect(getExifNumber(parsed!, 'exif', EXIF_TAGS.PixelXDimension)).toBe(100000);
+    expect(getExifNumber(parsed!, 'gps', 0x0005)).toBe(0);
+  });
+
+  it('keeps unknown tags byte for byte', () => {
+    const value = new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    const exif: ExifData = { littleEndian: true, entries: [{ ifd: 'ifd0', tag: 0xc000, type: 7, count: value.length, value }] };
+    const entry = parseExif(writeExif(exif))!.entries.find(e => e.tag === 0xc000);
+    expect(entry).toMatchObject({ ifd: 'ifd0', type: 7, count: 9 });
+    expect(Array.from(entry!.value)).toEqual(Array.from(value));
+  });
+
+  it('returns null for data that is not TIFF', () => {
+    expect(parseExif(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]))).toBeNull();
+  });
+});
+
+describe('editing entries', () => {
+  it('replaces an existing value instead of adding a second one', () => {
+    const exif = setExifText(sample(true), 'ifd0', EXIF_TAGS.Artist, 'John Roe');
+    expect(exif.entries.filter(e => e.tag === EXIF_TAGS.Artist)).toHaveLength(1);
+    expect(getExifText(exif, 'ifd0', EXIF_TAGS.Artist)).toBe('John Roe');
+  });
+
+  it('removes the entries matching a predicate', () => {
+    const exif = removeExifEntries(sample(true), entry => entry.ifd === 'gps');
+    expect(exif.entries.some(e => e.ifd === 'gps')).toBe(false);
+    expect(getExifNumber(exif, 'ifd0', EXIF_TAGS.Orientation)).toBe(6);
+  });
+});
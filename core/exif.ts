@@ -0,0 +1,267 @@
+// EXIF is a TIFF structure: IFD0 (image), with pointers to the Exif, GPS and Interop sub-IFDs.
+// Entries keep their raw value bytes so unknown tags survive a parse/write round-trip untouched.
+
+export type ExifIfd = 'ifd0' | 'exif' | 'gps' | 'interop';
+
+export interface ExifEntry {
+  ifd: ExifIfd;
+  tag: number;
+  type: number;
+  count: number;
+  value: Uint8Array; // Raw bytes in the data's byte order
+}
+
+export interface ExifData {
+  littleEndian: boolean;
+  entries: ExifEntry[];
+}
+
+export const EXIF_TAGS = {
+  Orientation: 0x0112,
+  Artist: 0x013b,
+  Copyright: 0x8298,
+  ImageDescription: 0x010e,
+  PixelXDimension: 0xa002,
+  PixelYDimension: 0xa003,
+} as const;
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+const INTEROP_IFD_POINTER = 0xa005;
+
+const POINTER_TAGS: Partial<Record<ExifIfd, Array<[number, ExifIfd]>>> = {
+  ifd0: [[EXIF_IFD_POINTER, 'exif'], [GPS_IFD_POINTER, 'gps']],
+  exif: [[INTEROP_IFD_POINTER, 'interop']],
+};
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+
+const TAG_NAMES: Record<ExifIfd, Record<number, string>> = {
+  ifd0: {
+    0x010e: 'Image Description', 0x010f: 'Make', 0x0110: 'Model', 0x0112: 'Orientation',
+    0x011a: 'X Resolution', 0x011b: 'Y Resolution', 0x0128: 'Resolution Unit', 0x0131: 'Software',
+    0x0132: 'Date/Time', 0x013b: 'Artist', 0x0213: 'YCbCr Positioning', 0x8298: 'Copyright',
+  },
+  exif: {
+    0x829a: 'Exposure Time', 0x829d: 'F-Number', 0x8822: 'Exposure Program', 0x8827: 'ISO',
+    0x9000: 'Exif Version', 0x9003: 'Date/Time Original', 0x9004: 'Date/Time Digitized',
+    0x9201: 'Shutter Speed', 0x9202: 'Aperture', 0x9204: 'Exposure Bias', 0x9207: 'Metering Mode',
+    0x9209: 'Flash', 0x920a: 'Focal Length', 0x927c: 'Maker Note', 0x9286: 'User Comment',
+    0xa001: 'Color Space', 0xa002: 'Pixel Width', 0xa003: 'Pixel Height', 0xa402: 'Exposure Mode',
+    0xa403: 'White Balance', 0xa405: 'Focal Length (35mm)', 0xa406: 'Scene Capture Type',
+    0xa430: 'Camera Owner', 0xa431: 'Body Serial Number', 0xa433: 'Lens Make', 0xa434: 'Lens Model',
+  },
+  gps: {
+    0x0000: 'GPS Version', 0x0001: 'Latitude Ref', 0x0002: 'Latitude', 0x0003: 'Longitude Ref',
+    0x0004: 'Longitude', 0x0005: 'Altitude Ref', 0x0006: 'Altitude', 0x0007: 'GPS Time',
+    0x0010: 'Direction Ref', 0x0011: 'Direction', 0x001d: 'GPS Date',
+  },
+  interop: {
+    0x0001: 'Interop Index', 0x0002: 'Interop Version',
+  },
+};
+
+export const getExifTagName = (ifd: ExifIfd, tag: number): string =>
+  TAG_NAMES[ifd][tag] ?? `Tag 0x${tag.toString(16).padStart(4, '0')}`;
+
+// --- Parsing ---
+
+export const parseExif = (tiff: Uint8Array): ExifData | null => {
+  if (tiff.length < 8) return null;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const littleEndian = order === 0x4949;
+  if (view.getUint16(2, littleEndian) !== 42) return null;
+
+  const entries: ExifEntry[] = [];
+  const visited = new Set<number>();
+
+  const readIfd = (offset: number, ifd: ExifIfd) => {
+    // Guard against corrupt files with looping or out-of-range offsets
+    if (offset < 8 || offset + 2 > tiff.length || visited.has(offset)) return;
+    visited.add(offset);
+    const count = view.getUint16(offset, littleEndian);
+    const pointers = POINTER_TAGS[ifd] ?? [];
+
+    for (let i = 0; i < count; i++) {
+      const entryOffset = offset + 2 + i * 12;
+      if (entryOffset + 12 > tiff.length) break;
+      const tag = view.getUint16(entryOffset, littleEndian);
+      const type = view.getUint16(entryOffset + 2, littleEndian);
+      const valueCount = view.getUint32(entryOffset + 4, littleEndian);
+
+      const pointer = pointers.find(([pointerTag]) => pointerTag === tag);
+      if (pointer) {
+        readIfd(view.getUint32(entryOffset + 8, littleEndian), pointer[1]);
+        continue;
+      }
+
+      const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+      if (size === 0) continue;
+      const valueOffset = size <= 4 ? entryOffset + 8 : view.getUint32(entryOffset + 8, littleEndian);
+      if (valueOffset + size > tiff.length) continue;
+      entries.push({ ifd, tag, type, count: valueCount, value: tiff.slice(valueOffset, valueOffset + size) });
+    }
+  };
+
+  // IFD1 (the embedded thumbnail) is intentionally not read; it would be stale after any edit
+  readIfd(view.getUint32(4, littleEndian), 'ifd0');
+  return { littleEndian, entries };
+};
+
+// --- Writing ---
+
+const IFD_ORDER: ExifIfd[] = ['ifd0', 'exif', 'interop', 'gps'];
+
+export const writeExif = (exif: ExifData): Uint8Array => {
+  const { littleEndian } = exif;
+  const byIfd = new Map<ExifIfd, ExifEntry[]>(IFD_ORDER.map(ifd => [ifd, []]));
+  exif.entries.forEach(entry => byIfd.get(entry.ifd)!.push(entry));
+
+  // Sub-IFDs are only written when they have entries; the parent then needs a pointer to them
+  const present = (ifd: ExifIfd): boolean =>
+    byIfd.get(ifd)!.length > 0 || (POINTER_TAGS[ifd] ?? []).some(([, child]) => present(child));
+  const ifds = IFD_ORDER.filter(ifd => ifd === 'ifd0' || present(ifd));
+  const pointersFor = (ifd: ExifIfd) => (POINTER_TAGS[ifd] ?? []).filter(([, child]) => ifds.includes(child));
+
+  // Lay out each IFD followed by its out-of-line values
+  const offsets = new Map<ExifIfd, number>();
+  let cursor = 8;
+  for (const ifd of ifds) {
+    offsets.set(ifd, cursor);
+    const entryCount = byIfd.get(ifd)!.length + pointersFor(ifd).length;
+    cursor += 2 + entryCount * 12 + 4;
+    for (const entry of byIfd.get(ifd)!) {
+      if (entry.value.length > 4) cursor += entry.value.length + (entry.value.length % 2);
+    }
+  }
+
+  const out = new Uint8Array(cursor);
+  const view = new DataView(out.buffer);
+  view.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+  view.setUint16(2, 42, littleEndian);
+  view.setUint32(4, 8, littleEndian);
+
+  for (const ifd of ifds) {
+    const start = offsets.get(ifd)!;
+    const pointerEntries: ExifEntry[] = pointersFor(ifd).map(([tag, child]) => {
+      const value = new Uint8Array(4);
+      new DataView(value.buffer).setUint32(0, offsets.get(child)!, littleEndian);
+      return { ifd, tag, type: TYPE_LONG, count: 1, value };
+    });
+    // TIFF requires entries sorted by tag
+    const entries = [...byIfd.get(ifd)!, ...pointerEntries].sort((a, b) => a.tag - b.tag);
+
+    view.setUint16(start, entries.length, littleEndian);
+    let dataCursor = start + 2 + entries.length * 12 + 4;
+    entries.forEach((entry, i) => {
+      const entryOffset = start + 2 + i * 12;
+      view.setUint16(entryOffset, entry.tag, littleEndian);
+      view.setUint16(entryOffset + 2, entry.type, littleEndian);
+      view.setUint32(entryOffset + 4, entry.count, littleEndian);
+      if (entry.value.length <= 4) {
+        out.set(entry.value, entryOffset + 8);
+      } else {
+        view.setUint32(entryOffset + 8, dataCursor, littleEndian);
+        out.set(entry.value, dataCursor);
+        dataCursor += entry.value.length + (entry.value.length % 2);
+      }
+    });
+    view.setUint32(start + 2 + entries.length * 12, 0, littleEndian); // No next IFD
+  }
+
+  return out;
+};
+
+// --- Reading and editing values ---
+
+const readNumbers = (entry: ExifEntry, littleEndian: boolean): number[] => {
+  const view = new DataView(entry.value.buffer, entry.value.byteOffset, entry.value.byteLength);
+  const values: number[] = [];
+  for (let i = 0; i < entry.count; i++) {
+    switch (entry.type) {
+      case 1: case 7: values.push(view.getUint8(i)); break;
+      case 6: values.push(view.getInt8(i)); break;
+      case 3: values.push(view.getUint16(i * 2, littleEndian)); break;
+      case 8: values.push(view.getInt16(i * 2, littleEndian)); break;
+      case 4: values.push(view.getUint32(i * 4, littleEndian)); break;
+      case 9: values.push(view.getInt32(i * 4, littleEndian)); break;
+      case 5: {
+        const den = view.getUint32(i * 8 + 4, littleEndian);
+        values.push(den === 0 ? 0 : view.getUint32(i * 8, littleEndian) / den);
+        break;
+      }
+      case 10: {
+        const den = view.getInt32(i * 8 + 4, littleEndian);
+        values.push(den === 0 ? 0 : view.getInt32(i * 8, littleEndian) / den);
+        break;
+      }
+      case 11: values.push(view.getFloat32(i * 4, littleEndian)); break;
+      case 12: values.push(view.getFloat64(i * 8, littleEndian)); break;
+    }
+  }
+  return values;
+};
+
+const decodeAscii = (bytes: Uint8Array): string => new TextDecoder().decode(bytes).replace(/\0+$/, '').trim();
+
+export const isTextEntry = (entry: ExifEntry) => entry.type === TYPE_ASCII;
+
+// Human-readable value for display; binary blobs are summarized by size
+export const formatExifValue = (entry: ExifEntry, littleEndian: boolean): string => {
+  if (entry.type === TYPE_ASCII) return decodeAscii(entry.value);
+  if (entry.type === 7) {
+    // Version tags are 4 ASCII digits stored as UNDEFINED
+    const isVersion = entry.count === 4 && entry.value.every(b => b >= 0x30 && b <= 0x39);
+    return isVersion ? decodeAscii(entry.value) : `${entry.count} bytes`;
+  }
+  const numbers = readNumbers(entry, littleEndian);
+  if (entry.ifd === 'gps' && (entry.tag === 0x0002 || entry.tag === 0x0004) && numbers.length === 3) {
+    const [d, m, s] = numbers;
+    return `${d}° ${m}' ${s.toFixed(2)}"`;
+  }
+  const formatted = numbers.slice(0, 8).map(n => (Number.isInteger(n) ? String(n) : n.toFixed(4).replace(/0+$/, '')));
+  return formatted.join(', ') + (numbers.length > 8 ? ', …' : '');
+};
+
+export const getExifNumber = (exif: ExifData, ifd: ExifIfd, tag: number): number | undefined => {
+  const entry = exif.entries.find(e => e.ifd === ifd && e.tag === tag);
+  return entry ? readNumbers(entry, exif.littleEndian)[0] : undefined;
+};
+
+export const getExifText = (exif: ExifData, ifd: ExifIfd, tag: number): string | undefined => {
+  const entry = exif.entries.find(e => e.ifd === ifd && e.tag === tag && e.type === TYPE_ASCII);
+  return entry ? decodeAscii(entry.value) : undefined;
+};
+
+const replaceEntry = (exif: ExifData, entry: ExifEntry): ExifData => ({
+  ...exif,
+  entries: [...exif.entries.filter(e => !(e.ifd === entry.ifd && e.tag === entry.tag)), entry],
+});
+
+export const setExifText = (exif: ExifData, ifd: ExifIfd, tag: number, text: string): ExifData => {
+  const encoded = new TextEncoder().encode(text);
+  const value = new Uint8Array(encoded.length + 1); // NUL terminated
+  value.set(encoded);
+  return replaceEntry(exif, { ifd, tag, type: TYPE_ASCII, count: value.length, value });
+};
+
+// Writes a SHORT when the value fits, otherwise a LONG
+export const setExifNumber = (exif: ExifData, ifd: ExifIfd, tag: number, number: number): ExifData => {
+  const isShort = number >= 0 && number <= 0xffff;
+  const value = new Uint8Array(isShort ? 2 : 4);
+  const view = new DataView(value.buffer);
+  if (isShort) view.setUint16(0, number, exif.littleEndian);
+  else view.setUint32(0, number, exif.littleEndian);
+  return replaceEntry(exif, { ifd, tag, type: isShort ? TYPE_SHORT : TYPE_LONG, count: 1, value });
+};
+
+export const removeExifEntries = (exif: ExifData, predicate: (entry: ExifEntry) => boolean): ExifData => ({
+  ...exif,
+  entries: exif.entries.filter(entry => !predicate(entry)),
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { decodeGif } from './animation';
+import { encodeGif } from './gif';
+import type { PixelBuffer } from './types';
+import { BLUE, RED, gradient, maxDifference, pixelAt, solid } from './testUtils';
+
+const ascii = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+const uint16 = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+
+// 200 distinct colors in a repeating pattern: fits one palette exactly, and is long enough for the
+// LZW code size to grow past its starting width
+const palettePattern = (width: number, height: number): PixelBuffer => {
+  const image = solid(width, height, RED);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const n = (x * 7 + y * 13) % 200;
+      image.data.set([n, 255 - n, (n * 5) % 256, 255], (y * width + x) * 4);
+    }
+  }
+  return image;
+};
+
+describe('encodeGif', () => {
+  it('writes a GIF89a header with the frame size and a global color table', () => {
+    const gif = encodeGif([{ pixels: solid(300, 2, RED) }, { pixels: solid(300, 2, BLUE) }]);
+    expect(ascii(gif.subarray(0, 6))).toBe('GIF89a');
+    expect(uint16(gif, 6)).toBe(300);
+    expect(uint16(gif, 8)).toBe(2);
+    // Two colors fit the smallest table: two entries, three bytes each
+    expect(gif[10]).toBe(0xf0);
+    expect(Array.from(gif.subarray(13, 19)).sort()).toEqual([0, 0, 0, 0, 255, 255]);
+    expect(gif[gif.length - 1]).toBe(0x3b);
+  });
+
+  it('adds a looping extension to animations only', () => {
+    const frames = [{ pixels: solid(2, 2, RED) }, { pixels: solid(2, 2, BLUE) }];
+    const looping = ascii(encodeGif(frames, { repeat: 3 }));
+    expect(looping).toContain('NETSCAPE2.0');
+    const at = looping.indexOf('NETSCAPE2.0') + 13;
+    expect(looping.charCodeAt(at) | (looping.charCodeAt(at + 1) << 8)).toBe(3);
+    expect(ascii(encodeGif(frames, { repeat: -1 }))).not.toContain('NETSCAPE2.0');
+    expect(ascii(encodeGif([frames[0]]))).not.toContain('NETSCAPE2.0');
+  });
+
+  it('stores frame delays in hundredths of a second', () => {
+    const gif = encodeGif([{ pixels: solid(2, 2, RED), delay: 250 }, { pixels: solid(2, 2, BLUE) }], { repeat: -1 });
+    // The first graphic control extension directly follows the color table
+    expect(Array.from(gif.subarray(19, 22))).toEqual([0x21, 0xf9, 4]);
+    expect(uint16(gif, 23)).toBe(25);
+  });
+
+  it('rejects frames of different sizes', () => {
+    expect(() => encodeGif([{ pixels: solid(2, 2, RED) }, { pixels: solid(3, 2, RED) }])).toThrow('same dimensions');
+  });
+
+  it('rejects an empty frame list', () => {
+    expect(() => encodeGif([])).toThrow('At least one frame');
+  });
+});
+
+describe('encodeGif and decodeGif', () => {
+  it('round-trips frames whose colors fit the palette exactly', () => {
+    const frames = [palettePattern(64, 48), solid(64, 48, BLUE)];
+    const decoded = decodeGif(encodeGif(frames.map(pixels => ({ pixels, delay: 250 })), { repeat: 0 }));
+    expect(decoded).toMatchObject({ width: 64, height: 48, loopCount: 0 });
+    expect(decoded.frames).toHaveLength(2);
+    decoded.frames.forEach((frame, i) => {
+      expect(frame.delay).toBe(250);
+      expect(maxDifference(frame.pixels, frames[i])).toBe(0);
+    });
+  });
+
+  it('keeps fully transparent pixels transparent', () => {
+    const image = solid(4, 4, RED);
+    image.data[3] = 0;
+    const decoded = decodeGif(encodeGif([{ pixels: image }]));
+    expect(pixelAt(decoded.frames[0].pixels, 0, 0).a).toBe(0);
+    expect(pixelAt(decoded.frames[0].pixels, 1, 0)).toEqual(RED);
+  });
+
+  it('does not let a transparent frame show the previous one', () => {
+    const clear = solid(4, 4, { r: 0, g: 0, b: 0, a: 0 });
+    const decoded = decodeGif(encodeGif([{ pixels: solid(4, 4, RED) }, { pixels: clear }]));
+    expect(pixelAt(decoded.frames[1].pixels, 2, 2).a).toBe(0);
+  });
+
+  it('stores the repeat count as the number of plays', () => {
+    const frames = [{ pixels: solid(2, 2, RED) }, { pixels: solid(2, 2, BLUE) }];
+    expect(decodeGif(encodeGif(frames, { repeat: 2 })).loopCount).toBe(3);
+    expect(decodeGif(encodeGif(frames, { repeat: -1 })).loopCount).toBe(1);
+  });
+
+  it('reduces images with more colors than the palette allows', () => {
+    const source = gradient(40, 30);
+    const decoded = decodeGif(encodeGif([{ pixels: source }], { maxColors: 16 }));
+    const colors = new Set<number>();
+    const data = decoded.frames[0].pixels.data;
+    for (let i = 0; i < data.length; i += 4) colors.add((data[i] << 16) | (data[i + 1] << 8) | data[i + 2]);
+    expect(colors.size).toBeLessThanOrEqual(16);
+  });
+});
@@ -0,0 +1,205 @@
+import { ALPHA_THRESHOLD, buildPalette, indexPixels } from './quantize';
+import type { PixelBuffer } from './types';
+
+// GIF89a encoder: one shared palette (median cut), optional dithering, LZW-compressed frames.
+
+export interface GifFrame {
+  pixels: PixelBuffer;
+  delay?: number; // Milliseconds before the next frame, defaults to 100
+}
+
+export interface GifOptions {
+  repeat?: number; // 0 loops forever (default), n plays n + 1 times, -1 plays once
+  dither?: boolean;
+  maxColors?: number; // 2 to 256, including the transparent entry when one is needed
+}
+
+const DEFAULT_DELAY = 100;
+const MIN_DELAY_CS = 2; // Browsers slow anything faster than 20ms down to 100ms
+const MAX_CODE_SIZE = 12;
+
+class ByteWriter {
+  private bytes = new Uint8Array(1024);
+  length = 0;
+
+  private reserve(extra: number) {
+    if (this.length + extra <= this.bytes.length) return;
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.length + extra) capacity *= 2;
+    const grown = new Uint8Array(capacity);
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+  }
+
+  byte(value: number) {
+    this.reserve(1);
+    this.bytes[this.length++] = value & 0xff;
+  }
+
+  uint16(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  ascii(text: string) {
+    for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i));
+  }
+
+  write(data: Uint8Array) {
+    this.reserve(data.length);
+    this.bytes.set(data, this.length);
+    this.length += data.length;
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+// Variable-width LZW as specified for GIF: codes grow from minCodeSize + 1 bits up to 12,
+// and the table is reset with a clear code once it is full. Codes are packed LSB first.
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const out = new ByteWriter();
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  const table = new Map<number, number>();
+
+  let accumulator = 0;
+  let bits = 0;
+  const emit = (code: number) => {
+    accumulator |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.byte(accumulator & 0xff);
+      accumulator >>>= 8;
+      bits -= 8;
+    }
+    // The decoder adds its table entry one code later, so widen only once the next code can't fit
+    if (nextCode > (1 << codeSize) - 1 && codeSize < MAX_CODE_SIZE) codeSize++;
+  };
+
+  emit(clearCode);
+  if (indices.length === 0) {
+    emit(endCode);
+    if (bits > 0) out.byte(accumulator & 0xff);
+    return out.result();
+  }
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode < 1 << MAX_CODE_SIZE) {
+      table.set(key, nextCode++);
+    } else {
+      emit(clearCode);
+      table.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bits > 0) out.byte(accumulator & 0xff);
+  return out.result();
+};
+
+// Image data is stored as a chain of sub-blocks of at most 255 bytes, ended by an empty one
+const writeSubBlocks = (out: ByteWriter, data: Uint8Array) => {
+  for (let i = 0; i < data.length; i += 255) {
+    const block = data.subarray(i, i + 255);
+    out.byte(block.length);
+    out.write(block);
+  }
+  out.byte(0);
+};
+
+export const encodeGif = (frames: GifFrame[], { repeat = 0, dither = false, maxColors = 256 }: GifOptions = {}): Uint8Array => {
+  if (frames.length === 0) {
+    throw new Error('At least one frame is required for a GIF.');
+  }
+  const { width, height } = frames[0].pixels;
+  if (frames.some(frame => frame.pixels.width !== width || frame.pixels.height !== height)) {
+    throw new Error('All GIF frames must have the same dimensions.');
+  }
+  if (width > 0xffff || height > 0xffff) {
+    throw new Error('GIF dimensions are limited to 65535 pixels.');
+  }
+
+  const images = frames.map(frame => frame.pixels);
+  const hasTransparency = images.some(({ data }) => {
+    for (let i = 3; i < data.length; i += 4) if (data[i] < ALPHA_THRESHOLD) return true;
+    return false;
+  });
+  const colorLimit = Math.max(2, Math.min(256, Math.floor(maxColors)));
+  const palette = buildPalette(images, { maxColors: hasTransparency ? colorLimit - 1 : colorLimit });
+  const transparentIndex = hasTransparency ? palette.size : undefined;
+
+  // The color table size is a power of two, at least 2 entries
+  const usedColors = palette.size + (hasTransparency ? 1 : 0);
+  let tableBits = 1;
+  while (1 << tableBits < usedColors) tableBits++;
+  const colorTable = new Uint8Array(3 << tableBits);
+  colorTable.set(palette.colors);
+  const minCodeSize = Math.max(2, tableBits);
+  const animated = frames.length > 1;
+
+  const out = new ByteWriter();
+  out.ascii('GIF89a');
+  out.uint16(width);
+  out.uint16(height);
+  out.byte(0x80 | (0x07 << 4) | (tableBits - 1)); // Global color table, 8-bit color resolution
+  out.byte(0); // Background color index
+  out.byte(0); // No pixel aspect ratio
+  out.write(colorTable);
+
+  if (animated && repeat >= 0) {
+    out.byte(0x21);
+    out.byte(0xff);
+    out.byte(11);
+    out.ascii('NETSCAPE2.0');
+    out.byte(3);
+    out.byte(1);
+    out.uint16(Math.min(0xffff, Math.floor(repeat)));
+    out.byte(0);
+  }
+
+  for (const frame of frames) {
+    if (animated || hasTransparency) {
+      // Graphic control extension. Frames cover the whole canvas, so transparent frames
+      // restore to background instead of showing the previous frame through.
+      const disposal = hasTransparency ? 2 : 1;
+      const delay = Math.max(MIN_DELAY_CS, Math.round((frame.delay ?? DEFAULT_DELAY) / 10));
+      out.byte(0x21);
+      out.byte(0xf9);
+      out.byte(4);
+      out.byte((disposal << 2) | (hasTransparency ? 1 : 0));
+      out.uint16(Math.min(0xffff, delay));
+      out.byte(transparentIndex ?? 0);
+      out.byte(0);
+    }
+
+    out.byte(0x2c);
+    out.uint16(0);
+    out.uint16(0);
+    out.uint16(width);
+    out.uint16(height);
+    out.byte(0); // No local color table, not interlaced
+
+    const indices = indexPixels(frame.pixels, palette, { dither, transparentIndex });
+    out.byte(minCodeSize);
+    writeSubBlocks(out, lzwEncode(indices, minCodeSize));
+  }
+
+  out.byte(0x3b);
+  return out.result();
+};
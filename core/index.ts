@@ -0,0 +1,102 @@
+// Framework-free image processing. Operations take and return PixelBuffers (ImageData-compatible);
+// only ./canvas touches browser APIs for decoding and encoding.
+export type { PixelBuffer, Point, Rect, RGBA, OutputFormat, WatermarkPosition } from './types';
+export { createPixelBuffer, clonePixelBuffer, drawPixelBuffer } from './pixelBuffer';
+export { parseHexColor } from './color';
+export { resize, fitWithin, contain, cover } from './resize';
+export type { ResampleMethod, ResizeOptions } from './resize';
+export { upscale } from './upscale';
+export type { UpscaleMethod, UpscaleOptions } from './upscale';
+export { rotate, rotatedSize } from './rotate';
+export { crop, centeredAspectRect } from './crop';
+export { split, splitRects } from './split';
+export type { SplitOptions, SplitTile } from './split';
+export { overlappingTiles, createTileBlender } from './tiles';
+export type { TileBlender } from './tiles';
+export { stitch } from './stitch';
+export type { StitchOptions } from './stitch';
+export { collage } from './collage';
+export type { CollageBorder, CollageOptions } from './collage';
+export { watermark } from './watermark';
+export type { WatermarkOptions } from './watermark';
+export { applyAdjustments, buildCurveLut, isIdentityAdjustment, DEFAULT_ADJUSTMENTS, IDENTITY_CURVE, IDENTITY_LEVELS } from './adjustments';
+export type { Adjustments, CurvePoint, Levels } from './adjustments';
+export { renderStroke } from './brush';
+export type { BrushMode, BrushStroke } from './brush';
+export { gaussianBlur } from './blur';
+export { sharpen } from './sharpen';
+export type { SharpenMethod, SharpenOptions } from './sharpen';
+export { redact, brushRegion } from './redact';
+export type { RedactMode, RedactOptions, RedactRegion, RedactShape } from './redact';
+export {
+  createAlphaMask,
+  extractAlphaMask,
+  applyAlphaMask,
+  resizeAlphaMask,
+  featherAlphaMask,
+  expandAlphaMask,
+  paintAlphaMask,
+  refineAlphaMask,
+} from './mask';
+export type { AlphaMask, MaskBrushMode, MaskRefinement, MaskStroke } from './mask';
+export { segmentForeground } from './segment';
+export type { SegmentationStroke, SegmentOptions } from './segment';
+export { replaceBackground } from './background';
+export type { BackgroundFill, DropShadow, ReplaceBackgroundOptions } from './background';
+export { generateNoise } from './noise';
+export type { NoiseOptions } from './noise';
+export { buildPalette, indexPixels } from './quantize';
+export type { Palette, QuantizeOptions, IndexOptions } from './quantize';
+export { encodeGif } from './gif';
+export type { GifFrame, GifOptions } from './gif';
+export { decodeGif, parseApng, composeAnimation, detectAnimationFormat } from './animation';
+export type { AnimationFormat, AnimationFrame, AnimationLayer, ApngData, ApngFrame, DecodedAnimation, FrameDisposal } from './animation';
+export {
+  parseExif,
+  writeExif,
+  getExifTagName,
+  formatExifValue,
+  isTextEntry,
+  getExifNumber,
+  getExifText,
+  setExifText,
+  setExifNumber,
+  removeExifEntries,
+  EXIF_TAGS,
+} from './exif';
+export type { ExifData, ExifEntry, ExifIfd } from './exif';
+export {
+  readMetadata,
+  readBlobMetadata,
+  readOrientation,
+  writeMetadata,
+  embedMetadata,
+  stripMetadata,
+  filterMetadata,
+  transferMetadata,
+  hasMetadata,
+  canCarryMetadata,
+  detectContainer,
+} from './metadata';
+export type { ImageMetadata, MetadataPolicy, MetadataContainer, EncodedPixels } from './metadata';
+export { setXmpDescription } from './xmp';
+export type { XmpDescription } from './xmp';
+export { applyOrientation, inverseOrientation, normalizeOrientation, orientedSize, orientationSwapsAxes } from './orientation';
+export {
+  loadImage,
+  imageToPixelBuffer,
+  decodeImage,
+  decodeImageWithOrientation,
+  decodeImageWithMetadata,
+  decodeAnimation,
+  getImageSize,
+  browserAppliesOrientation,
+  encodeImage,
+  encodeImageToDataURL,
+  drawToCanvas,
+  renderTextMark,
+  formatToMimeType,
+  formatToExtension,
+  mimeTypeToFormat,
+} from './canvas';
+export type { DecodeOptions, DecodedImage, EncodeOptions, TextMarkOptions } from './canvas';
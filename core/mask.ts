@@ -0,0 +1,123 @@
+import { gaussianBlur } from './blur';
+import { renderStroke } from './brush';
+import { createPixelBuffer } from './pixelBuffer';
+import { resize } from './resize';
+import type { PixelBuffer, Point } from './types';
+
+// Coverage for cutouts, one byte per pixel: 255 keeps the pixel, 0 makes it transparent
+export interface AlphaMask {
+  readonly width: number;
+  readonly height: number;
+  readonly data: Uint8ClampedArray;
+}
+
+export const createAlphaMask = (width: number, height: number, fill = 0): AlphaMask => {
+  const data = new Uint8ClampedArray(width * height);
+  if (fill) data.fill(fill);
+  return { width, height, data };
+};
+
+export const extractAlphaMask = (source: PixelBuffer): AlphaMask => {
+  const mask = createAlphaMask(source.width, source.height);
+  for (let i = 0; i < mask.data.length; i++) mask.data[i] = source.data[i * 4 + 3];
+  return mask;
+};
+
+// Multiplies the source's own alpha by the mask. The mask must be the same size as the source.
+export const applyAlphaMask = (source: PixelBuffer, mask: AlphaMask): PixelBuffer => {
+  if (mask.width !== source.width || mask.height !== source.height) {
+    throw new Error('Mask size does not match the image.');
+  }
+  const output = createPixelBuffer(source.width, source.height);
+  output.data.set(source.data);
+  for (let i = 0; i < mask.data.length; i++) {
+    output.data[i * 4 + 3] = (source.data[i * 4 + 3] * mask.data[i]) / 255;
+  }
+  return output;
+};
+
+// Masks go through the color pipelines as opaque gray images
+const maskToPixels = (mask: AlphaMask): PixelBuffer => {
+  const pixels = createPixelBuffer(mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i++) {
+    const j = i * 4;
+    pixels.data[j] = pixels.data[j + 1] = pixels.data[j + 2] = mask.data[i];
+    pixels.data[j + 3] = 255;
+  }
+  return pixels;
+};
+
+const pixelsToMask = (pixels: PixelBuffer): AlphaMask => {
+  const mask = createAlphaMask(pixels.width, pixels.height);
+  for (let i = 0; i < mask.data.length; i++) mask.data[i] = pixels.data[i * 4];
+  return mask;
+};
+
+// Bilinear, so a hard mask scaled up gets soft edges rather than stair steps
+export const resizeAlphaMask = (mask: AlphaMask, width: number, height: number): AlphaMask =>
+  width === mask.width && height === mask.height
+    ? mask
+    : pixelsToMask(resize(maskToPixels(mask), { width, height, method: 'bilinear' }));
+
+// Softens the mask's edges by `radius` pixels
+export const featherAlphaMask = (mask: AlphaMask, radius: number): AlphaMask =>
+  radius > 0 ? pixelsToMask(gaussianBlur(maskToPixels(mask), radius / 2)) : mask;
+
+// Grows (positive `amount`) or shrinks (negative) the opaque area by that many pixels, using a
+// separable max/min filter so soft edges keep their falloff
+export const expandAlphaMask = (mask: AlphaMask, amount: number): AlphaMask => {
+  const radius = Math.round(Math.abs(amount));
+  if (radius === 0) return mask;
+  const pick = amount > 0 ? Math.max : Math.min;
+  const { width, height } = mask;
+
+  const pass = (src: Uint8ClampedArray, horizontal: boolean) => {
+    const dst = new Uint8ClampedArray(src.length);
+    const length = horizontal ? width : height;
+    const lines = horizontal ? height : width;
+    const step = horizontal ? 1 : width;
+    for (let line = 0; line < lines; line++) {
+      const base = horizontal ? line * width : line;
+      for (let i = 0; i < length; i++) {
+        let value = src[base + i * step];
+        const from = Math.max(0, i - radius);
+        const to = Math.min(length - 1, i + radius);
+        for (let j = from; j <= to; j++) value = pick(value, src[base + j * step]);
+        dst[base + i * step] = value;
+      }
+    }
+    return dst;
+  };
+
+  return { width, height, data: pass(pass(mask.data, true), false) };
+};
+
+export type MaskBrushMode = 'restore' | 'erase';
+
+export interface MaskStroke {
+  mode: MaskBrushMode;
+  size: number; // Diameter in pixels
+  hardness: number; // 0 (soft edge) to 1 (hard edge)
+  points: Point[];
+}
+
+// Restore strokes paint the mask opaque, erase strokes clear it
+export const paintAlphaMask = (mask: AlphaMask, strokes: MaskStroke[], scale = 1): AlphaMask => {
+  if (strokes.length === 0) return mask;
+  const pixels = maskToPixels(mask);
+  for (const { mode, size, hardness, points } of strokes) {
+    renderStroke(pixels, { mode: 'paint', color: mode === 'restore' ? '#ffffff' : '#000000', size, hardness, opacity: 1, points }, scale);
+  }
+  return pixelsToMask(pixels);
+};
+
+export interface MaskRefinement {
+  expand: number; // Pixels, negative to choke
+  strokes: MaskStroke[];
+  feather: number; // Pixels
+}
+
+// Expand/choke first so brush corrections are kept exactly as painted, then soften everything.
+// `scale` maps the pixel amounts and stroke coordinates onto a scaled-down mask (for previews).
+export const refineAlphaMask = (mask: AlphaMask, { expand, strokes, feather }: MaskRefinement, scale = 1): AlphaMask =>
+  featherAlphaMask(paintAlphaMask(expandAlphaMask(mask, expand * scale), strokes, scale), feather * scale);
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { EXIF_TAGS, getExifNumber, getExifText, setExifNumber, setExifText } from './exif';
+import type { ExifData } from './exif';
+import { detectContainer, filterMetadata, readMetadata, stripMetadata, writeMetadata } from './metadata';
+import type { ImageMetadata } from './metadata';
+import { PNG_SIGNATURE, pngChunk, readPngChunks } from './png';
+
+// Just enough structure for the segment and chunk readers; the image data is never decoded
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xdb, 0x00, 0x04, 0x00, 0x00, 0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0xff, 0xd9]);
+const PNG = new Uint8Array([
+  ...PNG_SIGNATURE,
+  ...pngChunk('IHDR', new Uint8Array([0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0])),
+  ...pngChunk('IDAT', new Uint8Array([0x78, 0x9c, 0x01, 0x02, 0x03])),
+  ...pngChunk('IEND', new Uint8Array(0)),
+]);
+
+const XMP = '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"></rdf:RDF></x:xmpmeta>';
+
+const exif = (): ExifData => setExifNumber(
+  setExifText({ littleEndian: false, entries: [] }, 'ifd0', EXIF_TAGS.Copyright, '© Jane Doe'),
+  'ifd0', EXIF_TAGS.Orientation, 3,
+);
+
+const metadata = (): ImageMetadata => ({
+  exif: exif(),
+  xmp: XMP,
+  icc: new Uint8Array(Array.from({ length: 300 }, (_, i) => i % 256)),
+  text: [{ keyword: 'Comment', text: 'Größe: 1 × 1' }],
+});
+
+describe('detectContainer', () => {
+  it('recognizes JPEG and PNG only', () => {
+    expect(detectContainer(JPEG)).toBe('jpeg');
+    expect(detectContainer(PNG)).toBe('png');
+    expect(detectContainer(new TextEncoder().encode('GIF89a'))).toBeNull();
+  });
+});
+
+describe.each([['JPEG', JPEG], ['PNG', PNG]])('readMetadata and writeMetadata (%s)', (_name, file) => {
+  it('round-trip EXIF, XMP, ICC and text', async () => {
+    const read = await readMetadata(await writeMetadata(file, metadata()));
+    expect(getExifText(read.exif!, 'ifd0', EXIF_TAGS.Copyright)).toBe('© Jane Doe');
+    expect(getExifNumber(read.exif!, 'ifd0', EXIF_TAGS.Orientation)).toBe(3);
+    expect(read.xmp).toBe(XMP);
+    expect(Array.from(read.icc!)).toEqual(Array.from(metadata().icc!));
+    expect(read.text).toEqual(metadata().text);
+  });
+
+  it('replaces earlier metadata instead of adding to it', async () => {
+    const once = await writeMetadata(file, metadata());
+    const twice = await writeMetadata(once, { xmp: XMP });
+    expect(await readMetadata(twice)).toEqual({ xmp: XMP });
+  });
+
+  it('leaves the image data alone when stripping', async () => {
+    const stripped = await stripMetadata(await writeMetadata(file, metadata()));
+    expect(Array.from(stripped)).toEqual(Array.from(file));
+  });
+});
+
+describe('writeMetadata', () => {
+  it('places PNG metadata before the image data', async () => {
+    const types = readPngChunks(await writeMetadata(PNG, metadata())).map(chunk => chunk.type);
+    expect(types[0]).toBe('IHDR');
+    expect(types.indexOf('eXIf')).toBeLessThan(types.indexOf('IDAT'));
+    expect(types.indexOf('iCCP')).toBeLessThan(types.indexOf('IDAT'));
+  });
+
+  it('returns other formats unchanged', async () => {
+    const gif = new TextEncoder().encode('GIF89a');
+    expect(await writeMetadata(gif, metadata())).toBe(gif);
+  });
+});
+
+describe('filterMetadata', () => {
+  it('keeps only the ICC profile and copyright fields for the copyright policy', () => {
+    const filtered = filterMetadata(metadata(), 'copyright');
+    expect(filtered.xmp).toBeUndefined();
+    expect(filtered.icc).toBeDefined();
+    expect(filtered.exif!.entries.map(entry => entry.tag)).toEqual([EXIF_TAGS.Copyright]);
+    expect(filtered.text).toEqual([]);
+  });
+
+  it('drops everything for the strip policy', () => {
+    expect(filterMetadata(metadata(), 'strip')).toEqual({});
+  });
+});
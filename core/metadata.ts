@@ -0,0 +1,359 @@
+// Reads and writes the metadata blocks of JPEG (APP1 EXIF/XMP, APP2 ICC, APP13 IPTC, COM) and
+// PNG (eXIf, iCCP, tEXt/zTXt/iTXt) files without touching the compressed image data.
+// Canvas encoders write none of these, so they are copied over from the source after encoding.
+import { EXIF_TAGS, getExifNumber, parseExif, removeExifEntries, setExifNumber, writeExif } from './exif';
+import type { ExifData } from './exif';
+import { normalizeOrientation } from './orientation';
+import { isPng, pngChunk, readPngChunks } from './png';
+import type { OutputFormat } from './types';
+
+export interface ImageMetadata {
+  exif?: ExifData;
+  xmp?: string;
+  icc?: Uint8Array;
+  iptc?: Uint8Array; // Raw Photoshop APP13 payload, only carried between JPEGs
+  text?: Array<{ keyword: string; text: string }>; // PNG text chunks (other than XMP) and JPEG comments
+}
+
+// keep: everything; copyright: ICC profile plus artist/copyright fields; strip: nothing
+export type MetadataPolicy = 'keep' | 'copyright' | 'strip';
+
+export type MetadataContainer = 'jpeg' | 'png';
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_EXTENSION_HEADER = 'http://ns.adobe.com/xmp/extension/\0';
+const ICC_HEADER = 'ICC_PROFILE\0';
+const IPTC_HEADER = 'Photoshop 3.0\0';
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+const MAX_SEGMENT_PAYLOAD = 0xffff - 2;
+const ICC_CHUNK_SIZE = MAX_SEGMENT_PAYLOAD - ICC_HEADER.length - 2;
+
+const latin1Decoder = new TextDecoder('latin1');
+const latin1 = (bytes: Uint8Array) => latin1Decoder.decode(bytes);
+const ascii = (text: string) => Uint8Array.from(text, ch => ch.charCodeAt(0) & 0xff);
+const utf8Decoder = new TextDecoder();
+const utf8Encoder = new TextEncoder();
+
+const startsWith = (bytes: Uint8Array, offset: number, header: string) => {
+  if (offset + header.length > bytes.length) return false;
+  for (let i = 0; i < header.length; i++) {
+    if (bytes[offset + i] !== header.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((acc, part) => acc + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// zlib streams (PNG iCCP / zTXt / compressed iTXt) via the built-in Compression Streams API
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+const inflate = (bytes: Uint8Array) => pipeBytes(bytes, new DecompressionStream('deflate'));
+const deflate = (bytes: Uint8Array) => pipeBytes(bytes, new CompressionStream('deflate'));
+
+export const detectContainer = (bytes: Uint8Array): MetadataContainer | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpeg';
+  if (isPng(bytes)) return 'png';
+  return null;
+};
+
+export const canCarryMetadata = (format: OutputFormat) => format === 'jpeg' || format === 'png';
+
+export const hasMetadata = (metadata: ImageMetadata) =>
+  Boolean((metadata.exif && metadata.exif.entries.length > 0) || metadata.xmp || metadata.icc || metadata.iptc || metadata.text?.length);
+
+// --- JPEG ---
+
+interface JpegSegment {
+  marker: number;
+  start: number; // Offset of the 0xFF marker byte
+  end: number; // Offset just past the segment
+  payload: Uint8Array;
+}
+
+// Walks the marker segments up to the start of the entropy-coded scan data
+const readJpegSegments = (bytes: Uint8Array): { segments: JpegSegment[]; scanStart: number } => {
+  const segments: JpegSegment[] = [];
+  let pos = 2;
+  while (pos + 4 <= bytes.length) {
+    if (bytes[pos] !== 0xff) break;
+    const marker = bytes[pos + 1];
+    if (marker === 0xff) {
+      pos++; // Fill byte
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = (bytes[pos + 2] << 8) | bytes[pos + 3];
+    const end = pos + 2 + length;
+    if (length < 2 || end > bytes.length) break;
+    segments.push({ marker, start: pos, end, payload: bytes.subarray(pos + 4, end) });
+    pos = end;
+  }
+  return { segments, scanStart: pos };
+};
+
+const isJpegMetadataSegment = ({ marker, payload }: JpegSegment) =>
+  (marker === 0xe1 && (startsWith(payload, 0, EXIF_HEADER) || startsWith(payload, 0, XMP_HEADER) || startsWith(payload, 0, XMP_EXTENSION_HEADER))) ||
+  (marker === 0xe2 && startsWith(payload, 0, ICC_HEADER)) ||
+  (marker === 0xed && startsWith(payload, 0, IPTC_HEADER)) ||
+  marker === 0xfe;
+
+const readJpegMetadata = (bytes: Uint8Array): ImageMetadata => {
+  const metadata: ImageMetadata = {};
+  const iccChunks: Array<{ seq: number; data: Uint8Array }> = [];
+
+  for (const segment of readJpegSegments(bytes).segments) {
+    const { marker, payload } = segment;
+    if (marker === 0xe1 && startsWith(payload, 0, EXIF_HEADER)) {
+      metadata.exif = parseExif(payload.subarray(EXIF_HEADER.length)) ?? undefined;
+    } else if (marker === 0xe1 && startsWith(payload, 0, XMP_HEADER)) {
+      metadata.xmp = utf8Decoder.decode(payload.subarray(XMP_HEADER.length));
+    } else if (marker === 0xe2 && startsWith(payload, 0, ICC_HEADER)) {
+      iccChunks.push({ seq: payload[ICC_HEADER.length], data: payload.subarray(ICC_HEADER.length + 2) });
+    } else if (marker === 0xed && startsWith(payload, 0, IPTC_HEADER)) {
+      metadata.iptc = payload.slice();
+    } else if (marker === 0xfe) {
+      (metadata.text ??= []).push({ keyword: 'Comment', text: utf8Decoder.decode(payload) });
+    }
+  }
+
+  if (iccChunks.length > 0) {
+    metadata.icc = concat(iccChunks.sort((a, b) => a.seq - b.seq).map(chunk => chunk.data));
+  }
+  return metadata;
+};
+
+const jpegSegment = (marker: number, payload: Uint8Array): Uint8Array => {
+  const length = payload.length + 2;
+  return concat([new Uint8Array([0xff, marker, length >> 8, length & 0xff]), payload]);
+};
+
+const buildJpegSegments = (metadata: ImageMetadata): Uint8Array[] => {
+  const segments: Uint8Array[] = [];
+
+  if (metadata.exif && metadata.exif.entries.length > 0) {
+    let tiff = writeExif(metadata.exif);
+    // Maker notes are the usual reason EXIF outgrows a single segment; they are the first thing to go
+    if (EXIF_HEADER.length + tiff.length > MAX_SEGMENT_PAYLOAD) {
+      tiff = writeExif(removeExifEntries(metadata.exif, entry => entry.tag === 0x927c));
+    }
+    if (EXIF_HEADER.length + tiff.length <= MAX_SEGMENT_PAYLOAD) {
+      segments.push(jpegSegment(0xe1, concat([ascii(EXIF_HEADER), tiff])));
+    }
+  }
+
+  if (metadata.xmp) {
+    const xmp = utf8Encoder.encode(metadata.xmp);
+    // Extended XMP (split across segments) isn't supported; oversized packets are dropped
+    if (XMP_HEADER.length + xmp.length <= MAX_SEGMENT_PAYLOAD) {
+      segments.push(jpegSegment(0xe1, concat([ascii(XMP_HEADER), xmp])));
+    }
+  }
+
+  if (metadata.icc) {
+    const total = Math.ceil(metadata.icc.length / ICC_CHUNK_SIZE);
+    for (let i = 0; i < total; i++) {
+      const data = metadata.icc.subarray(i * ICC_CHUNK_SIZE, (i + 1) * ICC_CHUNK_SIZE);
+      segments.push(jpegSegment(0xe2, concat([ascii(ICC_HEADER), new Uint8Array([i + 1, total]), data])));
+    }
+  }
+
+  if (metadata.iptc && metadata.iptc.length <= MAX_SEGMENT_PAYLOAD) {
+    segments.push(jpegSegment(0xed, metadata.iptc));
+  }
+
+  // JPEG has no keyed text; only comments map across
+  metadata.text
+    ?.filter(entry => entry.keyword === 'Comment')
+    .forEach(entry => segments.push(jpegSegment(0xfe, utf8Encoder.encode(entry.text).subarray(0, MAX_SEGMENT_PAYLOAD))));
+
+  return segments;
+};
+
+const writeJpegMetadata = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+  const { segments, scanStart } = readJpegSegments(bytes);
+  const kept = segments.filter(segment => !isJpegMetadataSegment(segment));
+  // JFIF's APP0 has to stay first
+  const leading = kept.filter(segment => segment.marker === 0xe0).map(segment => bytes.subarray(segment.start, segment.end));
+  const trailing = kept.filter(segment => segment.marker !== 0xe0).map(segment => bytes.subarray(segment.start, segment.end));
+  return concat([
+    bytes.subarray(0, 2),
+    ...leading,
+    ...buildJpegSegments(metadata),
+    ...trailing,
+    bytes.subarray(scanStart),
+  ]);
+};
+
+// --- PNG ---
+
+const PNG_METADATA_CHUNKS = new Set(['eXIf', 'iCCP', 'tEXt', 'zTXt', 'iTXt']);
+
+const readPngMetadata = async (bytes: Uint8Array): Promise<ImageMetadata> => {
+  const metadata: ImageMetadata = {};
+  const addText = (keyword: string, text: string) => {
+    if (keyword === PNG_XMP_KEYWORD) metadata.xmp = text;
+    else (metadata.text ??= []).push({ keyword, text });
+  };
+
+  for (const { type, data } of readPngChunks(bytes)) {
+    try {
+      if (type === 'eXIf') {
+        metadata.exif = parseExif(data) ?? undefined;
+        continue;
+      }
+      const keywordEnd = data.indexOf(0);
+      if (keywordEnd < 0) continue;
+      const keyword = latin1(data.subarray(0, keywordEnd));
+      if (type === 'iCCP') {
+        metadata.icc = await inflate(data.subarray(keywordEnd + 2));
+      } else if (type === 'tEXt') {
+        addText(keyword, latin1(data.subarray(keywordEnd + 1)));
+      } else if (type === 'zTXt') {
+        addText(keyword, latin1(await inflate(data.subarray(keywordEnd + 2))));
+      } else if (type === 'iTXt') {
+        const compressed = data[keywordEnd + 1] === 1;
+        const languageEnd = data.indexOf(0, keywordEnd + 3);
+        const translatedEnd = data.indexOf(0, languageEnd + 1);
+        if (languageEnd < 0 || translatedEnd < 0) continue;
+        const text = data.subarray(translatedEnd + 1);
+        addText(keyword, utf8Decoder.decode(compressed ? await inflate(text) : text));
+      }
+    } catch (error) {
+      // A corrupt chunk shouldn't hide the rest of the metadata
+      console.warn(`Skipping unreadable PNG ${type} chunk`, error);
+    }
+  }
+  return metadata;
+};
+
+const buildPngChunks = async (metadata: ImageMetadata): Promise<Uint8Array[]> => {
+  const chunks: Uint8Array[] = [];
+  if (metadata.icc) {
+    chunks.push(pngChunk('iCCP', concat([ascii('ICC profile\0'), new Uint8Array([0]), await deflate(metadata.icc)])));
+  }
+  if (metadata.exif && metadata.exif.entries.length > 0) {
+    chunks.push(pngChunk('eXIf', writeExif(metadata.exif)));
+  }
+  const texts = [...(metadata.xmp ? [{ keyword: PNG_XMP_KEYWORD, text: metadata.xmp }] : []), ...(metadata.text ?? [])];
+  for (const { keyword, text } of texts) {
+    // iTXt: keyword, no compression, empty language tag and translated keyword, UTF-8 text
+    chunks.push(pngChunk('iTXt', concat([ascii(`${keyword}\0`), new Uint8Array([0, 0, 0, 0]), utf8Encoder.encode(text)])));
+  }
+  return chunks;
+};
+
+const writePngMetadata = async (bytes: Uint8Array, metadata: ImageMetadata): Promise<Uint8Array> => {
+  const chunks = readPngChunks(bytes);
+  const inserted = await buildPngChunks(metadata);
+  // An embedded profile replaces the sRGB chunk; the two are mutually exclusive
+  const dropSrgb = Boolean(metadata.icc);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  for (const chunk of chunks) {
+    if (PNG_METADATA_CHUNKS.has(chunk.type) || (dropSrgb && chunk.type === 'sRGB')) continue;
+    parts.push(bytes.subarray(chunk.start, chunk.end));
+    // Metadata has to precede the image data, so it goes straight after the header
+    if (chunk.type === 'IHDR') parts.push(...inserted);
+  }
+  return concat(parts);
+};
+
+// --- Public API ---
+
+export const readMetadata = async (bytes: Uint8Array): Promise<ImageMetadata> => {
+  switch (detectContainer(bytes)) {
+    case 'jpeg': return readJpegMetadata(bytes);
+    case 'png': return readPngMetadata(bytes);
+    default: return {};
+  }
+};
+
+// Replaces all metadata blocks in a JPEG or PNG file. Other formats are returned unchanged.
+export const writeMetadata = async (bytes: Uint8Array, metadata: ImageMetadata): Promise<Uint8Array> => {
+  switch (detectContainer(bytes)) {
+    case 'jpeg': return writeJpegMetadata(bytes, metadata);
+    case 'png': return writePngMetadata(bytes, metadata);
+    default: return bytes;
+  }
+};
+
+export const stripMetadata = (bytes: Uint8Array): Promise<Uint8Array> => writeMetadata(bytes, {});
+
+const COPYRIGHT_TEXT_KEYWORDS = new Set(['Copyright', 'Author']);
+
+export const filterMetadata = (metadata: ImageMetadata, policy: MetadataPolicy): ImageMetadata => {
+  if (policy === 'keep') return metadata;
+  if (policy === 'strip') return {};
+  const exif = metadata.exif && removeExifEntries(
+    metadata.exif,
+    entry => !(entry.ifd === 'ifd0' && (entry.tag === EXIF_TAGS.Copyright || entry.tag === EXIF_TAGS.Artist)),
+  );
+  return {
+    exif: exif && exif.entries.length > 0 ? exif : undefined,
+    icc: metadata.icc,
+    text: metadata.text?.filter(entry => COPYRIGHT_TEXT_KEYWORDS.has(entry.keyword)),
+  };
+};
+
+export interface EncodedPixels {
+  width: number;
+  height: number;
+  orientation?: number; // Orientation of the encoded pixels; 1 (upright) unless the stored orientation was kept
+}
+
+// The encoded pixels may have a new size and are normally upright,
+// so EXIF fields describing the original pixels must follow suit.
+const updateExifForPixels = (exif: ExifData, { width, height, orientation = 1 }: EncodedPixels): ExifData => {
+  let updated = exif;
+  if (orientation !== 1 || getExifNumber(updated, 'ifd0', EXIF_TAGS.Orientation) !== undefined) {
+    updated = setExifNumber(updated, 'ifd0', EXIF_TAGS.Orientation, orientation);
+  }
+  if (getExifNumber(updated, 'exif', EXIF_TAGS.PixelXDimension) !== undefined) {
+    updated = setExifNumber(updated, 'exif', EXIF_TAGS.PixelXDimension, width);
+  }
+  if (getExifNumber(updated, 'exif', EXIF_TAGS.PixelYDimension) !== undefined) {
+    updated = setExifNumber(updated, 'exif', EXIF_TAGS.PixelYDimension, height);
+  }
+  return updated;
+};
+
+export const readBlobMetadata = async (blob: Blob): Promise<ImageMetadata> =>
+  readMetadata(new Uint8Array(await blob.arrayBuffer()));
+
+// EXIF sits near the start of the file, so only the head is read
+const ORIENTATION_SCAN_BYTES = 512 * 1024;
+
+export const readOrientation = async (blob: Blob): Promise<number> => {
+  const { exif } = await readBlobMetadata(blob.slice(0, ORIENTATION_SCAN_BYTES));
+  return normalizeOrientation(exif && getExifNumber(exif, 'ifd0', EXIF_TAGS.Orientation));
+};
+
+// Writes metadata read from the original file into a freshly encoded one
+export const embedMetadata = async (encoded: Blob, metadata: ImageMetadata, pixels: EncodedPixels): Promise<Blob> => {
+  if (!hasMetadata(metadata)) return encoded;
+  const encodedBytes = new Uint8Array(await encoded.arrayBuffer());
+  if (!detectContainer(encodedBytes)) return encoded;
+
+  const exif = metadata.exif && updateExifForPixels(metadata.exif, pixels);
+  return new Blob([await writeMetadata(encodedBytes, { ...metadata, exif })], { type: encoded.type });
+};
+
+// Copies the metadata allowed by `policy` from the original file into a freshly encoded one
+export const transferMetadata = async (
+  source: Blob,
+  encoded: Blob,
+  policy: MetadataPolicy,
+  pixels: EncodedPixels,
+): Promise<Blob> => {
+  if (policy === 'strip') return encoded;
+  return embedMetadata(encoded, filterMetadata(await readBlobMetadata(source), policy), pixels);
+};
@@ -0,0 +1,237 @@
+import { createNoise2D } from 'simplex-noise';
+import { createPixelBuffer } from './pixelBuffer';
+import type { PixelBuffer, RGBA } from './types';
+
+// Helper to create a seeded randomizer for deterministic results
+function createSeededRandom(seed: number) {
+  let s = seed;
+  return function() {
+    s = (s * 9301 + 49297) % 233280;
+    return s / 233280;
+  };
+}
+
+// 1. Simplex Noise (from library)
+const getSimplexNoiseFn = (seed: number) => {
+  const randomizer = createSeededRandom(seed);
+  return createNoise2D(randomizer);
+};
+
+// 2. White Noise (custom implementation)
+const getWhiteNoiseFn = (seed: number, width: number, height: number) => {
+  const rand = createSeededRandom(seed);
+  // Pre-generate white noise values to make it "deterministic" per seed
+  // Map to [-1, 1] as per Simplex Noise output range
+  const noiseMap = new Array(width * height).fill(0).map(() => rand() * 2 - 1);
+
+  return (x: number, y: number) => {
+    // x and y here are normalized (0-1) coordinates
+    const pixelX = Math.floor(x * width);
+    const pixelY = Math.floor(y * height);
+    const index = pixelY * width + pixelX;
+    // Ensure index is within bounds (can happen with floating point inaccuracies for x,y near 1)
+    if (index < 0 || index >= noiseMap.length) return 0; 
+    return noiseMap[index];
+  };
+};
+
+// 3. Basic Value Noise (custom implementation with cosine interpolation)
+const getBasicValueNoiseFn = (seed: number, gridSize: number = 16) => { // Increased default grid size for smoother output
+  const rand = createSeededRandom(seed);
+  const values: number[][] = [];
+  for (let i = 0; i <= gridSize; i++) {
+    values[i] = [];
+    for (let j = 0; j <= gridSize; j++) {
+      values[i][j] = rand(); // Random value for each grid point
+    }
+  }
+
+  // Cosine interpolation helper
+  const interpolate = (a: number, b: number, t: number) => {
+    const ft = t * Math.PI;
+    const f = (1 - Math.cos(ft)) * 0.5;
+    return a * (1 - f) + b * f;
+  };
+
+  return (x: number, y: number) => {
+    const gx = x * gridSize; // Grid X coordinate
+    const gy = y * gridSize; // Grid Y coordinate
+
+    const x0 = Math.floor(gx);
+    const y0 = Math.floor(gy);
+    const x1 = x0 + 1;
+    const y1 = y0 + 1;
+
+    const fx = gx - x0; // Fractional part of X
+    const fy = gy - y0; // Fractional part of Y
+
+    // Get values from the 4 surrounding grid points, wrapping around
+    const v00 = values[x0 % (gridSize + 1)][y0 % (gridSize + 1)];
+    const v01 = values[x0 % (gridSize + 1)][y1 % (gridSize + 1)];
+    const v10 = values[x1 % (gridSize + 1)][y0 % (gridSize + 1)];
+    const v11 = values[x1 % (gridSize + 1)][y1 % (gridSize + 1)];
+
+    // Interpolate along X axis
+    const i1 = interpolate(v00, v10, fx);
+    const i2 = interpolate(v01, v11, fx);
+
+    // Interpolate along Y axis and map to [-1, 1]
+    return interpolate(i1, i2, fy) * 2 - 1; 
+  };
+};
+
+// Main dispatcher to get the active noise function based on type
+export type NoiseFunction = (x: number, y: number) => number;
+
+const getActiveNoiseFunction = (noiseType: string, seed: number, width: number, height: number): NoiseFunction => {
+  switch (noiseType) {
+    case 'Simplex':
+      return getSimplexNoiseFn(seed);
+    case 'WhiteNoise':
+      return getWhiteNoiseFn(seed, width, height);
+    case 'Value':
+      return getBasicValueNoiseFn(seed);
+    // For these, we'll still use SimplexNoise as the underlying generator
+    // but the labels in the UI differentiate them as variants.
+    case 'Perlin':
+    case 'Worley':
+    case 'Cellular':
+    default:
+      return getSimplexNoiseFn(seed); // Default to Simplex for other conceptual types
+  }
+};
+
+
+const applyFractalNoise = (
+  noiseFn: (x: number, y: number) => number,
+  x: number, y: number,
+  frequency: number, amplitude: number,
+  octaves: number, persistence: number, lacunarity: number,
+  fractalType: string
+): number => {
+  let total = 0;
+  let currentAmplitude = amplitude;
+  let currentFrequency = frequency;
+
+  for (let i = 0; i < octaves; i++) {
+    let noiseValue = noiseFn(x * currentFrequency, y * currentFrequency);
+
+    // Apply fractal types (simplified conceptual implementation)
+    switch (fractalType) {
+      case 'FBM': // Fractional Brownian Motion - standard sum of octaves
+        // No modification, just add noise
+        break;
+      case 'Billow': // Makes valleys into peaks, resulting in a ridged, wavy appearance.
+        noiseValue = Math.abs(noiseValue) * 2 - 1; // Maps [-1,1] to [-1,1], making negative values positive.
+        break;
+      case 'Ridged': // Inverts and makes ridges, often used for mountain-like terrain.
+        noiseValue = 1 - Math.abs(noiseValue); // Maps [-1,1] to [0,1], inverting negative parts and emphasizing peaks.
+        break;
+      case 'Turbulence': // Similar to FBM but often uses absolute value to create a more "turbulent" or "cloudy" look.
+        noiseValue = Math.abs(noiseValue);
+        break;
+      case 'IQ': // "Inverted Quotient" - conceptual, a non-standard term for a division-based distortion.
+        // This creates sharp contrasts where noise values are close to zero.
+        noiseValue = 1 / (Math.abs(noiseValue) + 0.1); // Add 0.1 to avoid division by zero and soften effect.
+        // Normalize the IQ noise value to roughly fit within a reasonable range (crude re-normalization)
+        noiseValue = Math.min(1, Math.max(-1, noiseValue * 0.2 - 0.5)); 
+        break;
+      case 'None':
+      default:
+        // No modification, use raw noise as if 1 octave
+        break;
+    }
+    
+    total += noiseValue * currentAmplitude;
+    currentAmplitude *= persistence;
+    currentFrequency *= lacunarity;
+  }
+  // Normalize total noise value to a 0-1 range from a potential [-Octaves, Octaves] range (simplified)
+  // A proper normalization might involve tracking max possible amplitude sum.
+  return (total + amplitude * (1 / (1 - persistence))) / (2 * amplitude * (1 / (1 - persistence)));
+  // The above normalization is a crude approximation. A simpler safe clamp is often used.
+  // return Math.max(0, Math.min(1, (total + 1) / 2)); // Simplex noise returns values in [-1, 1], so divide by 2 and shift by 0.5
+};
+
+export interface NoiseOptions {
+  width: number;
+  height: number;
+  seed: number;
+  frequency: number;
+  amplitude: number;
+  background: RGBA;
+  noiseType: string;
+  fractalType: string;
+  domainWrap: boolean;
+  octaves: number;
+  persistence: number;
+  lacunarity: number;
+}
+
+export const generateNoise = ({
+  width,
+  height,
+  seed,
+  frequency,
+  amplitude,
+  background,
+  noiseType,
+  fractalType,
+  domainWrap,
+  octaves,
+  persistence,
+  lacunarity,
+}: NoiseOptions): PixelBuffer => {
+  const output = createPixelBuffer(width, height);
+  const data = output.data;
+
+  // Get the active noise function based on user selection
+  const noiseFn = getActiveNoiseFunction(noiseType, seed, width, height);
+  // Create separate noise functions for domain warping for more varied distortion
+  const domainWrapNoiseX = getSimplexNoiseFn(seed + 100);
+  const domainWrapNoiseY = getSimplexNoiseFn(seed + 200);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+
+      let nx = x / width; // Normalized X coordinate (0 to 1)
+      let ny = y / height; // Normalized Y coordinate (0 to 1)
+
+      // Simple domain warping effect (conceptual)
+      if (domainWrap) {
+        const wrapStrength = 0.05; // Adjust this for more or less warping
+        // Use different seeded simplex noise for the offset to avoid regular patterns
+        const offsetX = domainWrapNoiseX(nx * 5, ny * 5) * wrapStrength;
+        const offsetY = domainWrapNoiseY(nx * 5, ny * 5) * wrapStrength;
+        nx += offsetX;
+        ny += offsetY;
+      }
+
+      let noiseVal;
+      if (fractalType === 'None') {
+        // If no fractal, just use the base noise function with current frequency/amplitude
+        noiseVal = noiseFn(nx * frequency, ny * frequency) * amplitude;
+        noiseVal = (noiseVal + amplitude) / (2 * amplitude); // Normalize to 0-1 range
+      } else {
+        noiseVal = applyFractalNoise(
+          noiseFn,
+          nx, ny,
+          frequency, amplitude,
+          octaves, persistence, lacunarity,
+          fractalType
+        );
+      }
+
+      // Ensure noiseVal is within 0-1 range after all calculations
+      noiseVal = Math.max(0, Math.min(1, noiseVal));
+
+      // Interpolate between the background color and white based on the noise value
+      data[i] = Math.floor(background.r * (1 - noiseVal) + 255 * noiseVal);
+      data[i + 1] = Math.floor(background.g * (1 - noiseVal) + 255 * noiseVal);
+      data[i + 2] = Math.floor(background.b * (1 - noiseVal) + 255 * noiseVal);
+      data[i + 3] = 255; // Alpha (fully opaque)
+    }
+  }
+  return output;
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { applyOrientation, inverseOrientation, normalizeOrientation, orientedSize } from './orientation';
+import { gradient, maxDifference, pixelAt } from './testUtils';
+import { rotate } from './rotate';
+
+describe('normalizeOrientation', () => {
+  it('falls back to 1 for missing or invalid values', () => {
+    expect(normalizeOrientation(undefined)).toBe(1);
+    expect(normalizeOrientation(0)).toBe(1);
+    expect(normalizeOrientation(9)).toBe(1);
+    expect(normalizeOrientation(2.5)).toBe(1);
+    expect(normalizeOrientation(6)).toBe(6);
+  });
+});
+
+describe('orientedSize', () => {
+  it('swaps the axes for orientations with a quarter turn', () => {
+    expect(orientedSize(40, 30, 3)).toEqual({ width: 40, height: 30 });
+    for (const orientation of [5, 6, 7, 8]) {
+      expect(orientedSize(40, 30, orientation)).toEqual({ width: 30, height: 40 });
+    }
+  });
+});
+
+describe('applyOrientation', () => {
+  it('turns orientation 6 clockwise and 8 counterclockwise', () => {
+    const source = gradient(4, 3);
+    expect(maxDifference(applyOrientation(source, 6), rotate(source, 90))).toBe(0);
+    expect(maxDifference(applyOrientation(source, 8), rotate(source, 270))).toBe(0);
+    expect(maxDifference(applyOrientation(source, 3), rotate(source, 180))).toBe(0);
+  });
+
+  it('mirrors orientation 2 horizontally', () => {
+    const source = gradient(4, 3);
+    const output = applyOrientation(source, 2);
+    expect(pixelAt(output, 0, 1)).toEqual(pixelAt(source, 3, 1));
+  });
+
+  it('is undone by the inverse orientation', () => {
+    const source = gradient(5, 3);
+    for (let orientation = 1; orientation <= 8; orientation++) {
+      const restored = applyOrientation(applyOrientation(source, orientation), inverseOrientation(orientation));
+      expect(restored.width).toBe(source.width);
+      expect(maxDifference(restored, source)).toBe(0);
+    }
+  });
+});
@@ -0,0 +1,47 @@
+import { createPixelBuffer } from './pixelBuffer';
+import type { PixelBuffer } from './types';
+
+// EXIF orientation 1-8 describes how the stored pixels must be transformed to display upright.
+// 5-8 include a quarter turn, so width and height swap.
+
+export const normalizeOrientation = (value: number | undefined): number =>
+  value !== undefined && Number.isInteger(value) && value >= 1 && value <= 8 ? value : 1;
+
+export const orientationSwapsAxes = (orientation: number) => orientation >= 5 && orientation <= 8;
+
+export const orientedSize = (width: number, height: number, orientation: number): { width: number; height: number } =>
+  orientationSwapsAxes(orientation) ? { width: height, height: width } : { width, height };
+
+// The transform that undoes `orientation`: the quarter turns reverse, the mirrors are their own inverse
+export const inverseOrientation = (orientation: number): number => (orientation === 6 ? 8 : orientation === 8 ? 6 : orientation);
+
+// Maps an upright (output) pixel back to the stored (source) pixel it comes from
+const sourceCoords = (orientation: number, x: number, y: number, w: number, h: number): [number, number] => {
+  switch (orientation) {
+    case 2: return [w - 1 - x, y];
+    case 3: return [w - 1 - x, h - 1 - y];
+    case 4: return [x, h - 1 - y];
+    case 5: return [y, x];
+    case 6: return [y, h - 1 - x];
+    case 7: return [w - 1 - y, h - 1 - x];
+    case 8: return [w - 1 - y, x];
+    default: return [x, y];
+  }
+};
+
+// Turns stored pixels into upright pixels
+export const applyOrientation = (source: PixelBuffer, orientation: number): PixelBuffer => {
+  if (orientation === 1) return source;
+  const { width: w, height: h } = source;
+  const size = orientedSize(w, h, orientation);
+  const output = createPixelBuffer(size.width, size.height);
+  const src = new Uint32Array(source.data.buffer, source.data.byteOffset, w * h);
+  const dst = new Uint32Array(output.data.buffer, output.data.byteOffset, size.width * size.height);
+  for (let y = 0; y < size.height; y++) {
+    for (let x = 0; x < size.width; x++) {
+      const [sx, sy] = sourceCoords(orientation, x, y, w, h);
+      dst[y * size.width + x] = src[sy * w + sx];
+    }
+  }
+  return output;
+};
@@ -0,0 +1,55 @@
+import type { PixelBuffer, RGBA } from './types';
+
+// Prefer a real ImageData in the browser so buffers can go straight into putImageData
+export const createPixelBuffer = (width: number, height: number, fill?: RGBA): PixelBuffer => {
+  const w = Math.max(1, Math.round(width));
+  const h = Math.max(1, Math.round(height));
+  const buffer: PixelBuffer = typeof ImageData !== 'undefined'
+    ? new ImageData(w, h)
+    : { width: w, height: h, data: new Uint8ClampedArray(w * h * 4) };
+
+  if (fill) {
+    const { data } = buffer;
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] = fill.r;
+      data[i + 1] = fill.g;
+      data[i + 2] = fill.b;
+      data[i + 3] = fill.a;
+    }
+  }
+  return buffer;
+};
+
+export const clonePixelBuffer = (source: PixelBuffer): PixelBuffer => {
+  const copy = createPixelBuffer(source.width, source.height);
+  copy.data.set(source.data);
+  return copy;
+};
+
+// Source-over blend of `source` onto `target` at (dx, dy), in place. Pixels outside the target are clipped.
+export const drawPixelBuffer = (target: PixelBuffer, source: PixelBuffer, dx: number, dy: number, opacity = 1) => {
+  const offsetX = Math.round(dx);
+  const offsetY = Math.round(dy);
+  const startX = Math.max(0, -offsetX);
+  const startY = Math.max(0, -offsetY);
+  const endX = Math.min(source.width, target.width - offsetX);
+  const endY = Math.min(source.height, target.height - offsetY);
+  const src = source.data;
+  const dst = target.data;
+
+  for (let y = startY; y < endY; y++) {
+    for (let x = startX; x < endX; x++) {
+      const si = (y * source.width + x) * 4;
+      const di = ((y + offsetY) * target.width + (x + offsetX)) * 4;
+      const srcAlpha = (src[si + 3] / 255) * opacity;
+      if (srcAlpha <= 0) continue;
+
+      const dstAlpha = dst[di + 3] / 255;
+      const outAlpha = srcAlpha + dstAlpha * (1 - srcAlpha);
+      for (let c = 0; c < 3; c++) {
+        dst[di + c] = (src[si + c] * srcAlpha + dst[di + c] * dstAlpha * (1 - srcAlpha)) / outAlpha;
+      }
+      dst[di + 3] = outAlpha * 255;
+    }
+  }
+};
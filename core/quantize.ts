@@ -0,0 +1,202 @@
+import type { PixelBuffer } from './types';
+
+// Palette reduction for indexed formats (GIF). Pixels with alpha below this are treated as transparent.
+export const ALPHA_THRESHOLD = 128;
+
+export interface Palette {
+  colors: Uint8Array; // Packed RGB triplets
+  size: number;
+}
+
+export interface QuantizeOptions {
+  maxColors?: number; // 2 to 256, defaults to 256
+}
+
+export interface IndexOptions {
+  dither?: boolean; // Floyd–Steinberg error diffusion
+  transparentIndex?: number; // Index written for transparent pixels
+}
+
+const HISTOGRAM_BITS = 5;
+const HISTOGRAM_SIZE = 1 << (HISTOGRAM_BITS * 3);
+
+const histogramKey = (r: number, g: number, b: number) =>
+  ((r >> 3) << (HISTOGRAM_BITS * 2)) | ((g >> 3) << HISTOGRAM_BITS) | (b >> 3);
+
+// Images that already fit the palette (logos, screenshots, pixel art) keep their exact colors
+const collectExactColors = (images: PixelBuffer[], maxColors: number): number[] | null => {
+  const colors = new Set<number>();
+  for (const { data } of images) {
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < ALPHA_THRESHOLD) continue;
+      colors.add((data[i] << 16) | (data[i + 1] << 8) | data[i + 2]);
+      if (colors.size > maxColors) return null;
+    }
+  }
+  return [...colors];
+};
+
+interface ColorBox {
+  keys: number[]; // Occupied histogram bins
+  count: number;
+}
+
+// Median cut over a 15-bit histogram: repeatedly split the most populated box with any extent
+// along its widest channel, at the population median. Each box becomes its weighted mean color.
+const medianCut = (images: PixelBuffer[], maxColors: number): number[] => {
+  const counts = new Uint32Array(HISTOGRAM_SIZE);
+  const sums = new Float64Array(HISTOGRAM_SIZE * 3);
+  for (const { data } of images) {
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < ALPHA_THRESHOLD) continue;
+      const key = histogramKey(data[i], data[i + 1], data[i + 2]);
+      counts[key]++;
+      sums[key * 3] += data[i];
+      sums[key * 3 + 1] += data[i + 1];
+      sums[key * 3 + 2] += data[i + 2];
+    }
+  }
+
+  const occupied: number[] = [];
+  let total = 0;
+  for (let key = 0; key < HISTOGRAM_SIZE; key++) {
+    if (counts[key] > 0) {
+      occupied.push(key);
+      total += counts[key];
+    }
+  }
+  if (occupied.length === 0) return [];
+
+  const channel = (key: number, c: number) => (key >> (HISTOGRAM_BITS * (2 - c))) & ((1 << HISTOGRAM_BITS) - 1);
+  const widestChannel = (box: ColorBox): { channel: number; range: number } => {
+    let best = { channel: 0, range: 0 };
+    for (let c = 0; c < 3; c++) {
+      let min = Infinity;
+      let max = -Infinity;
+      for (const key of box.keys) {
+        const v = channel(key, c);
+        if (v < min) min = v;
+        if (v > max) max = v;
+      }
+      if (max - min > best.range) best = { channel: c, range: max - min };
+    }
+    return best;
+  };
+
+  const boxes: ColorBox[] = [{ keys: occupied, count: total }];
+  while (boxes.length < maxColors) {
+    const candidates = boxes.filter(box => box.keys.length > 1);
+    if (candidates.length === 0) break;
+    const box = candidates.reduce((a, b) => (b.count > a.count ? b : a));
+    const { channel: c } = widestChannel(box);
+    box.keys.sort((a, b) => channel(a, c) - channel(b, c));
+
+    let running = 0;
+    let cut = 1;
+    for (; cut < box.keys.length - 1; cut++) {
+      running += counts[box.keys[cut - 1]];
+      if (running >= box.count / 2) break;
+    }
+    const low = box.keys.slice(0, cut);
+    const high = box.keys.slice(cut);
+    const lowCount = low.reduce((sum, key) => sum + counts[key], 0);
+    boxes.splice(boxes.indexOf(box), 1, { keys: low, count: lowCount }, { keys: high, count: box.count - lowCount });
+  }
+
+  return boxes.map(box => {
+    let r = 0, g = 0, b = 0;
+    for (const key of box.keys) {
+      r += sums[key * 3];
+      g += sums[key * 3 + 1];
+      b += sums[key * 3 + 2];
+    }
+    return (Math.round(r / box.count) << 16) | (Math.round(g / box.count) << 8) | Math.round(b / box.count);
+  });
+};
+
+// Builds one palette shared by all images, so animation frames don't flicker between palettes
+export const buildPalette = (images: PixelBuffer[], { maxColors = 256 }: QuantizeOptions = {}): Palette => {
+  const limit = Math.max(2, Math.min(256, Math.floor(maxColors)));
+  const colors = collectExactColors(images, limit) ?? medianCut(images, limit);
+  const packed = new Uint8Array(colors.length * 3);
+  colors.forEach((color, i) => {
+    packed[i * 3] = (color >> 16) & 0xff;
+    packed[i * 3 + 1] = (color >> 8) & 0xff;
+    packed[i * 3 + 2] = color & 0xff;
+  });
+  return { colors: packed, size: colors.length };
+};
+
+// Nearest palette entry by squared RGB distance, cached per 15-bit color
+const createMatcher = (palette: Palette) => {
+  const cache = new Int16Array(HISTOGRAM_SIZE).fill(-1);
+  const { colors, size } = palette;
+  return (r: number, g: number, b: number): number => {
+    const key = histogramKey(r, g, b);
+    if (cache[key] >= 0) return cache[key];
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < size; i++) {
+      const dr = colors[i * 3] - r;
+      const dg = colors[i * 3 + 1] - g;
+      const db = colors[i * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    cache[key] = best;
+    return best;
+  };
+};
+
+// Maps pixels to palette indices. Exact palette colors always map to themselves.
+export const indexPixels = (image: PixelBuffer, palette: Palette, { dither = false, transparentIndex }: IndexOptions = {}): Uint8Array => {
+  const { width, height, data } = image;
+  const { colors } = palette;
+  const indices = new Uint8Array(width * height);
+  const nearest = createMatcher(palette);
+  const exact = new Map<number, number>();
+  for (let i = 0; i < palette.size; i++) {
+    exact.set((colors[i * 3] << 16) | (colors[i * 3 + 1] << 8) | colors[i * 3 + 2], i);
+  }
+  const lookup = (r: number, g: number, b: number) => exact.get((r << 16) | (g << 8) | b) ?? nearest(r, g, b);
+
+  // Error carried to the current and next row, per channel
+  let current = new Float32Array((width + 2) * 3);
+  let next = new Float32Array((width + 2) * 3);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const i = p * 4;
+      if (data[i + 3] < ALPHA_THRESHOLD && transparentIndex !== undefined) {
+        indices[p] = transparentIndex;
+        continue;
+      }
+      if (!dither) {
+        indices[p] = lookup(data[i], data[i + 1], data[i + 2]);
+        continue;
+      }
+
+      const e = (x + 1) * 3;
+      const r = Math.max(0, Math.min(255, Math.round(data[i] + current[e])));
+      const g = Math.max(0, Math.min(255, Math.round(data[i + 1] + current[e + 1])));
+      const b = Math.max(0, Math.min(255, Math.round(data[i + 2] + current[e + 2])));
+      const index = lookup(r, g, b);
+      indices[p] = index;
+
+      const errors = [r - colors[index * 3], g - colors[index * 3 + 1], b - colors[index * 3 + 2]];
+      for (let c = 0; c < 3; c++) {
+        current[e + 3 + c] += (errors[c] * 7) / 16;
+        next[e - 3 + c] += (errors[c] * 3) / 16;
+        next[e + c] += (errors[c] * 5) / 16;
+        next[e + 3 + c] += errors[c] / 16;
+      }
+    }
+    [current, next] = [next, current];
+    next.fill(0);
+  }
+  return indices;
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { brushRegion, redact } from './redact';
+import type { RedactRegion } from './redact';
+import { RED, WHITE, gradient, pixelAt, solid } from './testUtils';
+
+const BLACK = { r: 0, g: 0, b: 0, a: 255 };
+
+describe('redact', () => {
+  it('fills rectangles with black by default', () => {
+    const output = redact(solid(10, 10, WHITE), [{ x: 2, y: 2, width: 4, height: 3, shape: 'rect' }], { mode: 'fill', strength: 50 });
+    expect(pixelAt(output, 2, 2)).toEqual(BLACK);
+    expect(pixelAt(output, 5, 4)).toEqual(BLACK);
+    expect(pixelAt(output, 6, 4)).toEqual(WHITE);
+    expect(pixelAt(output, 5, 5)).toEqual(WHITE);
+  });
+
+  it('leaves the corners of an ellipse alone', () => {
+    const region: RedactRegion = { x: 0, y: 0, width: 10, height: 10, shape: 'ellipse' };
+    const output = redact(solid(10, 10, WHITE), [region], { mode: 'fill', strength: 50, color: RED });
+    expect(pixelAt(output, 0, 0)).toEqual(WHITE);
+    expect(pixelAt(output, 5, 5)).toEqual(RED);
+  });
+
+  it('pixelates into uniform blocks', () => {
+    const source = gradient(16, 16);
+    const output = redact(source, [{ x: 0, y: 0, width: 8, height: 8, shape: 'rect' }], { mode: 'pixelate', strength: 100 });
+    // Strength 100 makes blocks half the region's shorter side
+    expect(pixelAt(output, 0, 0)).toEqual(pixelAt(output, 3, 3));
+    expect(pixelAt(output, 0, 0)).not.toEqual(pixelAt(output, 4, 0));
+    expect(pixelAt(output, 8, 8)).toEqual(pixelAt(source, 8, 8));
+  });
+
+  it('blurs only inside the region and never changes the source', () => {
+    const source = gradient(20, 20);
+    const before = source.data.slice();
+    const output = redact(source, [{ x: 5, y: 5, width: 10, height: 10, shape: 'rect' }], { mode: 'blur', strength: 50 });
+    expect(pixelAt(output, 10, 10)).not.toEqual(pixelAt(source, 10, 10));
+    expect(pixelAt(output, 4, 10)).toEqual(pixelAt(source, 4, 10));
+    expect(source.data).toEqual(before);
+  });
+
+  it('only touches the brushed pixels of a freehand region', () => {
+    const region = brushRegion([{ x: 2, y: 5 }, { x: 17, y: 5 }], 2, 20, 10);
+    expect(region).not.toBeNull();
+    const output = redact(solid(20, 10, WHITE), [region!], { mode: 'fill', strength: 50 });
+    expect(pixelAt(output, 10, 5)).toEqual(BLACK);
+    expect(pixelAt(output, 10, 8)).toEqual(WHITE);
+  });
+});
+
+describe('brushRegion', () => {
+  it('clips the stroke to the image', () => {
+    expect(brushRegion([{ x: -1, y: 3 }], 6, 20, 10)).toMatchObject({ x: 0, y: 0, width: 2, height: 6 });
+  });
+
+  it('returns null for strokes outside the image', () => {
+    expect(brushRegion([{ x: -20, y: -20 }], 4, 20, 10)).toBeNull();
+    expect(brushRegion([], 4, 20, 10)).toBeNull();
+  });
+});
@@ -0,0 +1,180 @@
+import { gaussianBlur } from './blur';
+import { clonePixelBuffer } from './pixelBuffer';
+import { crop } from './crop';
+import type { PixelBuffer, Point, Rect, RGBA } from './types';
+
+export type RedactMode = 'blur' | 'pixelate' | 'fill';
+
+export type RedactShape = 'rect' | 'ellipse';
+
+export interface RedactRegion extends Rect {
+  shape: RedactShape;
+  // Coverage for freehand regions, one byte per pixel over the region's (whole pixel) bounds.
+  // Takes the place of `shape` when set; pixels where it's 0 are left alone.
+  mask?: Uint8Array;
+}
+
+export interface RedactOptions {
+  mode: RedactMode;
+  // 1 to 100. Relative to each region's size, so a small face and a large one are
+  // obscured to the same degree. Ignored for 'fill'.
+  strength: number;
+  color?: RGBA; // For 'fill', defaults to black
+}
+
+const BLACK: RGBA = { r: 0, g: 0, b: 0, a: 255 };
+
+// Blur sigma or pixel block size for a region, from 2% (strength 1) to 50% (strength 100) of its shorter side
+const effectSize = (region: Rect, strength: number) =>
+  Math.max(2, Math.round((Math.min(region.width, region.height) * Math.max(1, Math.min(100, strength))) / 200));
+
+const insideShape = (region: RedactRegion, x: number, y: number) => {
+  if (region.mask) return region.mask[(y - region.y) * region.width + (x - region.x)] > 0;
+  if (region.shape === 'rect') return true;
+  const rx = region.width / 2;
+  const ry = region.height / 2;
+  const dx = (x + 0.5 - (region.x + rx)) / rx;
+  const dy = (y + 0.5 - (region.y + ry)) / ry;
+  return dx * dx + dy * dy <= 1;
+};
+
+const clampRegion = (region: RedactRegion, width: number, height: number) => {
+  const x0 = Math.max(0, Math.floor(region.x));
+  const y0 = Math.max(0, Math.floor(region.y));
+  const x1 = Math.min(width, Math.ceil(region.x + region.width));
+  const y1 = Math.min(height, Math.ceil(region.y + region.height));
+  return { x0, y0, x1, y1 };
+};
+
+const blurRegion = (output: PixelBuffer, source: PixelBuffer, region: RedactRegion, strength: number) => {
+  const sigma = effectSize(region, strength);
+  // Blur a padded area so the region's edges are mixed with their real surroundings
+  const pad = sigma * 3;
+  const area = {
+    x: Math.max(0, Math.floor(region.x - pad)),
+    y: Math.max(0, Math.floor(region.y - pad)),
+    width: 0,
+    height: 0,
+  };
+  area.width = Math.min(source.width, Math.ceil(region.x + region.width + pad)) - area.x;
+  area.height = Math.min(source.height, Math.ceil(region.y + region.height + pad)) - area.y;
+  if (area.width <= 0 || area.height <= 0) return;
+  const blurred = gaussianBlur(crop(source, area), sigma);
+
+  const { x0, y0, x1, y1 } = clampRegion(region, output.width, output.height);
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      if (!insideShape(region, x, y)) continue;
+      const si = ((y - area.y) * blurred.width + (x - area.x)) * 4;
+      const di = (y * output.width + x) * 4;
+      for (let c = 0; c < 4; c++) output.data[di + c] = blurred.data[si + c];
+    }
+  }
+};
+
+// Blocks are aligned to the region's corner and averaged over the whole block, including pixels
+// outside an ellipse, so the block colors give nothing away about the shape's edge.
+const pixelateRegion = (output: PixelBuffer, source: PixelBuffer, region: RedactRegion, strength: number) => {
+  const block = effectSize(region, strength);
+  const { x0, y0, x1, y1 } = clampRegion(region, output.width, output.height);
+  const src = source.data;
+  const dst = output.data;
+
+  for (let by = y0; by < y1; by += block) {
+    for (let bx = x0; bx < x1; bx += block) {
+      const ex = Math.min(x1, bx + block);
+      const ey = Math.min(y1, by + block);
+      let r = 0, g = 0, b = 0, a = 0, count = 0;
+      for (let y = by; y < ey; y++) {
+        for (let x = bx; x < ex; x++) {
+          const i = (y * source.width + x) * 4;
+          const alpha = src[i + 3];
+          r += src[i] * alpha;
+          g += src[i + 1] * alpha;
+          b += src[i + 2] * alpha;
+          a += alpha;
+          count++;
+        }
+      }
+      if (count === 0) continue;
+      for (let y = by; y < ey; y++) {
+        for (let x = bx; x < ex; x++) {
+          if (!insideShape(region, x, y)) continue;
+          const i = (y * output.width + x) * 4;
+          dst[i] = a > 0 ? r / a : 0;
+          dst[i + 1] = a > 0 ? g / a : 0;
+          dst[i + 2] = a > 0 ? b / a : 0;
+          dst[i + 3] = a / count;
+        }
+      }
+    }
+  }
+};
+
+const fillRegion = (output: PixelBuffer, region: RedactRegion, color: RGBA) => {
+  const { x0, y0, x1, y1 } = clampRegion(region, output.width, output.height);
+  const dst = output.data;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      if (!insideShape(region, x, y)) continue;
+      const i = (y * output.width + x) * 4;
+      dst[i] = color.r;
+      dst[i + 1] = color.g;
+      dst[i + 2] = color.b;
+      dst[i + 3] = color.a;
+    }
+  }
+};
+
+// The area covered by a round brush of `size` pixels dragged through `points`, as a masked region
+// clipped to the image. Returns null when the stroke misses the image entirely.
+export const brushRegion = (points: Point[], size: number, imageWidth: number, imageHeight: number): RedactRegion | null => {
+  if (points.length === 0) return null;
+  const radius = Math.max(0.5, size / 2);
+  const x0 = Math.max(0, Math.floor(Math.min(...points.map((p) => p.x)) - radius));
+  const y0 = Math.max(0, Math.floor(Math.min(...points.map((p) => p.y)) - radius));
+  const x1 = Math.min(imageWidth, Math.ceil(Math.max(...points.map((p) => p.x)) + radius));
+  const y1 = Math.min(imageHeight, Math.ceil(Math.max(...points.map((p) => p.y)) + radius));
+  if (x1 <= x0 || y1 <= y0) return null;
+
+  const width = x1 - x0;
+  const height = y1 - y0;
+  const mask = new Uint8Array(width * height);
+  const stamp = (cx: number, cy: number) => {
+    const sx = Math.max(x0, Math.floor(cx - radius));
+    const sy = Math.max(y0, Math.floor(cy - radius));
+    const ex = Math.min(x1, Math.ceil(cx + radius));
+    const ey = Math.min(y1, Math.ceil(cy + radius));
+    for (let y = sy; y < ey; y++) {
+      for (let x = sx; x < ex; x++) {
+        const dx = x + 0.5 - cx;
+        const dy = y + 0.5 - cy;
+        if (dx * dx + dy * dy <= radius * radius) mask[(y - y0) * width + (x - x0)] = 1;
+      }
+    }
+  };
+
+  stamp(points[0].x, points[0].y);
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / Math.max(0.5, radius / 2)));
+    for (let s = 1; s <= steps; s++) {
+      stamp(from.x + ((to.x - from.x) * s) / steps, from.y + ((to.y - from.y) * s) / steps);
+    }
+  }
+  return { x: x0, y: y0, width, height, shape: 'rect', mask };
+};
+
+// Obscures each region. Effects always read from the original pixels, so overlapping
+// regions don't compound.
+export const redact = (source: PixelBuffer, regions: RedactRegion[], { mode, strength, color = BLACK }: RedactOptions): PixelBuffer => {
+  const output = clonePixelBuffer(source);
+  for (const region of regions) {
+    if (region.width <= 0 || region.height <= 0) continue;
+    if (mode === 'blur') blurRegion(output, source, region, strength);
+    else if (mode === 'pixelate') pixelateRegion(output, source, region, strength);
+    else fillRegion(output, region, color);
+  }
+  return output;
+};
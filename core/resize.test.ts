@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { contain, cover, fitWithin, resize } from './resize';
+import type { ResampleMethod } from './resize';
+import { BLUE, RED, gradient, pixelAt, solid } from './testUtils';
+
+describe('resize', () => {
+  it.each<ResampleMethod>(['nearest', 'bilinear', 'bicubic', 'lanczos3'])('keeps a solid color solid with %s', (method) => {
+    const output = resize(solid(10, 6, RED), { width: 23, height: 4, method });
+    expect(output.width).toBe(23);
+    expect(output.height).toBe(4);
+    for (let y = 0; y < output.height; y++) {
+      for (let x = 0; x < output.width; x++) {
+        expect(pixelAt(output, x, y)).toEqual(RED);
+      }
+    }
+  });
+
+  it('doubles pixels with nearest neighbor', () => {
+    const source = gradient(3, 2);
+    const output = resize(source, { width: 6, height: 4, method: 'nearest' });
+    expect(pixelAt(output, 5, 3)).toEqual(pixelAt(source, 2, 1));
+    expect(pixelAt(output, 2, 1)).toEqual(pixelAt(source, 1, 0));
+  });
+
+  it('does not bleed transparent pixels into opaque ones', () => {
+    const source = solid(4, 1, RED);
+    source.data.fill(0, 8); // Right half fully transparent (and black)
+    const output = resize(source, { width: 8, height: 1, method: 'bilinear' });
+    for (let x = 0; x < output.width; x++) {
+      const { r, g, b, a } = pixelAt(output, x, 0);
+      if (a > 0) expect({ r, g, b }).toEqual({ r: 255, g: 0, b: 0 });
+    }
+  });
+});
+
+describe('fitWithin', () => {
+  it('scales down to the tighter bound', () => {
+    expect(fitWithin(4000, 3000, 1000, 1000)).toEqual({ width: 1000, height: 750 });
+    expect(fitWithin(4000, 3000, undefined, 300)).toEqual({ width: 400, height: 300 });
+  });
+
+  it('never upscales', () => {
+    expect(fitWithin(200, 100, 1000, 1000)).toEqual({ width: 200, height: 100 });
+  });
+});
+
+describe('contain and cover', () => {
+  it('letterboxes with contain', () => {
+    const output = contain(solid(20, 10, RED), 20, 20, BLUE);
+    expect(output.width).toBe(20);
+    expect(output.height).toBe(20);
+    expect(pixelAt(output, 10, 0)).toEqual(BLUE);
+    expect(pixelAt(output, 10, 10)).toEqual(RED);
+  });
+
+  it('fills the whole frame with cover', () => {
+    const output = cover(solid(20, 10, RED), 10, 10);
+    expect(output.width).toBe(10);
+    expect(output.height).toBe(10);
+    expect(pixelAt(output, 0, 0)).toEqual(RED);
+    expect(pixelAt(output, 9, 9)).toEqual(RED);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { rotate, rotatedSize } from './rotate';
+import { RED, gradient, maxDifference, pixelAt, solid } from './testUtils';
+
+describe('rotatedSize', () => {
+  it('swaps the axes for quarter turns', () => {
+    expect(rotatedSize(40, 30, 90)).toEqual({ width: 30, height: 40 });
+    expect(rotatedSize(40, 30, -90)).toEqual({ width: 30, height: 40 });
+    expect(rotatedSize(40, 30, 180)).toEqual({ width: 40, height: 30 });
+  });
+
+  it('grows to the bounding box for other angles', () => {
+    expect(rotatedSize(10, 10, 45)).toEqual({ width: 14, height: 14 });
+  });
+});
+
+describe('rotate', () => {
+  it('moves the top-left pixel to the top-right on a clockwise quarter turn', () => {
+    const source = gradient(4, 3);
+    const output = rotate(source, 90);
+    expect(output.width).toBe(3);
+    expect(output.height).toBe(4);
+    expect(pixelAt(output, 2, 0)).toEqual(pixelAt(source, 0, 0));
+    expect(pixelAt(output, 0, 3)).toEqual(pixelAt(source, 3, 2));
+  });
+
+  it('returns to the original after four quarter turns', () => {
+    const source = gradient(5, 3);
+    let output = source;
+    for (let i = 0; i < 4; i++) output = rotate(output, 90);
+    expect(maxDifference(output, source)).toBe(0);
+  });
+
+  it('returns a copy for a full turn', () => {
+    const source = gradient(3, 3);
+    const output = rotate(source, 360);
+    expect(output).not.toBe(source);
+    expect(maxDifference(output, source)).toBe(0);
+  });
+
+  it('leaves the uncovered corners transparent for arbitrary angles', () => {
+    const output = rotate(solid(20, 20, RED), 45);
+    expect(output.width).toBe(28);
+    expect(pixelAt(output, 0, 0).a).toBe(0);
+    expect(pixelAt(output, 14, 14)).toEqual(RED);
+  });
+});
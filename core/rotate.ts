@@ -0,0 +1,106 @@
+import { clonePixelBuffer, createPixelBuffer } from './pixelBuffer';
+import type { PixelBuffer } from './types';
+
+// Quarter turns are exact pixel transposes, no resampling involved
+const rotateQuarterTurns = (source: PixelBuffer, turns: number): PixelBuffer => {
+  const { width, height } = source;
+  const swap = turns % 2 === 1;
+  const output = createPixelBuffer(swap ? height : width, swap ? width : height);
+  const src = new Uint32Array(source.data.buffer, source.data.byteOffset, width * height);
+  const dst = new Uint32Array(output.data.buffer, output.data.byteOffset, output.width * output.height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let nx: number, ny: number;
+      if (turns === 1) { nx = height - 1 - y; ny = x; }
+      else if (turns === 2) { nx = width - 1 - x; ny = height - 1 - y; }
+      else { nx = y; ny = width - 1 - x; }
+      dst[ny * output.width + nx] = src[y * width + x];
+    }
+  }
+  return output;
+};
+
+// Canvas size after `rotate`: quarter turns swap the axes, other angles grow to the bounding box
+export const rotatedSize = (width: number, height: number, degrees: number) => {
+  const normalized = ((degrees % 360) + 360) % 360;
+  if (normalized % 180 === 0) return { width, height };
+  if (normalized % 90 === 0) return { width: height, height: width };
+  const radians = (normalized * Math.PI) / 180;
+  const absCos = Math.abs(Math.cos(radians));
+  const absSin = Math.abs(Math.sin(radians));
+  return {
+    width: Math.round(width * absCos + height * absSin),
+    height: Math.round(width * absSin + height * absCos),
+  };
+};
+
+// Rotates clockwise by any angle. The canvas grows to fit the rotated image, and
+// uncovered corners are left transparent.
+export const rotate = (source: PixelBuffer, degrees: number): PixelBuffer => {
+  const normalized = ((degrees % 360) + 360) % 360;
+  if (normalized === 0) {
+    return clonePixelBuffer(source);
+  }
+  if (normalized % 90 === 0) {
+    return rotateQuarterTurns(source, normalized / 90);
+  }
+
+  const radians = (normalized * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const { width: newWidth, height: newHeight } = rotatedSize(source.width, source.height, normalized);
+
+  const output = createPixelBuffer(newWidth, newHeight);
+  const src = source.data;
+  const dst = output.data;
+  const srcCx = source.width / 2;
+  const srcCy = source.height / 2;
+  const dstCx = newWidth / 2;
+  const dstCy = newHeight / 2;
+
+  const sample = (sx: number, sy: number, c: number) => {
+    if (sx < 0 || sy < 0 || sx >= source.width || sy >= source.height) return 0;
+    return src[(sy * source.width + sx) * 4 + c];
+  };
+
+  for (let y = 0; y < newHeight; y++) {
+    for (let x = 0; x < newWidth; x++) {
+      // Inverse-map the destination pixel center back into the source
+      const dx = x + 0.5 - dstCx;
+      const dy = y + 0.5 - dstCy;
+      const sx = dx * cos + dy * sin + srcCx - 0.5;
+      const sy = -dx * sin + dy * cos + srcCy - 0.5;
+      if (sx < -1 || sy < -1 || sx > source.width || sy > source.height) continue;
+
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const w00 = (1 - fx) * (1 - fy);
+      const w10 = fx * (1 - fy);
+      const w01 = (1 - fx) * fy;
+      const w11 = fx * fy;
+
+      // Bilinear in premultiplied alpha
+      const a00 = sample(x0, y0, 3) * w00;
+      const a10 = sample(x0 + 1, y0, 3) * w10;
+      const a01 = sample(x0, y0 + 1, 3) * w01;
+      const a11 = sample(x0 + 1, y0 + 1, 3) * w11;
+      const alpha = a00 + a10 + a01 + a11;
+      if (alpha <= 0) continue;
+
+      const di = (y * newWidth + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        dst[di + c] = (
+          sample(x0, y0, c) * a00 +
+          sample(x0 + 1, y0, c) * a10 +
+          sample(x0, y0 + 1, c) * a01 +
+          sample(x0 + 1, y0 + 1, c) * a11
+        ) / alpha;
+      }
+      dst[di + 3] = alpha;
+    }
+  }
+  return output;
+};
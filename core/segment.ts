@@ -0,0 +1,192 @@
+import { createAlphaMask, featherAlphaMask, resizeAlphaMask } from './mask';
+import type { AlphaMask } from './mask';
+import { brushRegion } from './redact';
+import { fitWithin, resize } from './resize';
+import type { PixelBuffer, Point } from './types';
+
+export interface SegmentationStroke {
+  points: Point[];
+  size: number;
+}
+
+export interface SegmentOptions {
+  foreground?: SegmentationStroke[]; // Marked as subject
+  background?: SegmentationStroke[]; // Marked for removal. Without any, the image border is taken as background.
+  // 0 to 100. How readily colors are given to the background: with only background colors known it's
+  // the distance they may be from them, with both it biases the comparison. Defaults to 50.
+  tolerance?: number;
+  feather?: number; // Edge softness in pixels
+}
+
+// Classification runs on a downscaled copy; only the edge band is revisited at full resolution
+const WORKING_SIZE = 640;
+const CLUSTERS = 6;
+const MAX_SAMPLES = 4000;
+
+type Color = [number, number, number];
+
+const UNKNOWN = 0;
+const FOREGROUND = 1;
+const BACKGROUND = 2;
+
+const distanceSq = (data: Uint8ClampedArray, i: number, c: Color) => {
+  const dr = data[i] - c[0];
+  const dg = data[i + 1] - c[1];
+  const db = data[i + 2] - c[2];
+  return dr * dr + dg * dg + db * db;
+};
+
+const nearestDistance = (data: Uint8ClampedArray, i: number, centers: Color[]) => {
+  let best = Infinity;
+  for (const center of centers) best = Math.min(best, distanceSq(data, i, center));
+  return Math.sqrt(best);
+};
+
+// A handful of k-means centers summarizing the colors at the given pixel indices
+const colorModel = (data: Uint8ClampedArray, pixels: number[]): Color[] => {
+  if (pixels.length === 0) return [];
+  const step = Math.max(1, Math.floor(pixels.length / MAX_SAMPLES));
+  const samples: number[] = [];
+  for (let i = 0; i < pixels.length; i += step) samples.push(pixels[i] * 4);
+
+  const k = Math.min(CLUSTERS, samples.length);
+  const centers: Color[] = Array.from({ length: k }, (_, c) => {
+    const i = samples[Math.floor((c * samples.length) / k)];
+    return [data[i], data[i + 1], data[i + 2]];
+  });
+
+  for (let iteration = 0; iteration < 8; iteration++) {
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    for (const i of samples) {
+      let best = 0;
+      let bestDistance = Infinity;
+      centers.forEach((center, c) => {
+        const d = distanceSq(data, i, center);
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = c;
+        }
+      });
+      sums[best][0] += data[i];
+      sums[best][1] += data[i + 1];
+      sums[best][2] += data[i + 2];
+      sums[best][3]++;
+    }
+    sums.forEach(([r, g, b, count], c) => {
+      if (count > 0) centers[c] = [r / count, g / count, b / count];
+    });
+  }
+  return centers;
+};
+
+const paintStrokes = (seeds: Uint8Array, width: number, height: number, strokes: SegmentationStroke[], scale: number, label: number) => {
+  for (const stroke of strokes) {
+    const points = stroke.points.map((p) => ({ x: p.x * scale, y: p.y * scale }));
+    const region = brushRegion(points, Math.max(1, stroke.size * scale), width, height);
+    if (!region?.mask) continue;
+    for (let y = 0; y < region.height; y++) {
+      for (let x = 0; x < region.width; x++) {
+        if (region.mask[y * region.width + x]) seeds[(region.y + y) * width + region.x + x] = label;
+      }
+    }
+  }
+};
+
+// Separates the subject from the background, GrabCut-style but much simpler: color models are built
+// from the marked (or border) pixels, then the background is flood filled outwards from its seeds
+// through every pixel that looks more like background than subject. Background-colored areas enclosed
+// by the subject are kept, which is what a plain color key gets wrong.
+export const segmentForeground = (source: PixelBuffer, options: SegmentOptions = {}): AlphaMask => {
+  const { foreground = [], background = [], tolerance = 50, feather = 1 } = options;
+  const target = fitWithin(source.width, source.height, WORKING_SIZE, WORKING_SIZE);
+  const small = target.width < source.width ? resize(source, { ...target, method: 'bilinear' }) : source;
+  const { width, height } = small;
+  const scale = width / source.width;
+  const data = small.data;
+
+  const seeds = new Uint8Array(width * height);
+  if (background.length > 0) {
+    paintStrokes(seeds, width, height, background, scale, BACKGROUND);
+  } else {
+    for (let x = 0; x < width; x++) seeds[x] = seeds[(height - 1) * width + x] = BACKGROUND;
+    for (let y = 0; y < height; y++) seeds[y * width] = seeds[y * width + width - 1] = BACKGROUND;
+  }
+  paintStrokes(seeds, width, height, foreground, scale, FOREGROUND);
+
+  const seeded = (label: number) => {
+    const pixels: number[] = [];
+    for (let i = 0; i < seeds.length; i++) if (seeds[i] === label && data[i * 4 + 3] > 0) pixels.push(i);
+    return pixels;
+  };
+  const backgroundModel = colorModel(data, seeded(BACKGROUND));
+  const foregroundModel = colorModel(data, seeded(FOREGROUND));
+  const bias = 0.5 + Math.max(0, Math.min(100, tolerance)) / 100;
+  const maxDistance = Math.max(0, Math.min(100, tolerance)) * 2;
+
+  const looksLikeBackground = (pixels: Uint8ClampedArray, i: number) => {
+    if (pixels[i + 3] === 0) return true;
+    if (backgroundModel.length === 0) return false;
+    const toBackground = nearestDistance(pixels, i, backgroundModel);
+    return foregroundModel.length > 0
+      ? toBackground < nearestDistance(pixels, i, foregroundModel) * bias
+      : toBackground <= maxDistance;
+  };
+
+  // Flood fill the background from its seeds, never crossing subject marks
+  const isBackground = new Uint8Array(width * height);
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+  for (let i = 0; i < seeds.length; i++) {
+    if (seeds[i] === BACKGROUND && looksLikeBackground(data, i * 4)) {
+      isBackground[i] = 1;
+      queue[tail++] = i;
+    }
+  }
+  while (head < tail) {
+    const i = queue[head++];
+    const x = i % width;
+    const neighbors = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width];
+    for (const n of neighbors) {
+      if (n < 0 || n >= seeds.length || isBackground[n] || seeds[n] === FOREGROUND) continue;
+      if (seeds[n] === BACKGROUND || looksLikeBackground(data, n * 4)) {
+        isBackground[n] = 1;
+        queue[tail++] = n;
+      }
+    }
+  }
+
+  // Majority vote over each 3x3 neighborhood clears single-pixel specks along noisy edges
+  const coarse = createAlphaMask(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (seeds[i] !== UNKNOWN) {
+        coarse.data[i] = seeds[i] === FOREGROUND ? 255 : 0;
+        continue;
+      }
+      let votes = 0;
+      let total = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          votes += isBackground[ny * width + nx];
+          total++;
+        }
+      }
+      coarse.data[i] = votes * 2 > total ? 0 : 255;
+    }
+  }
+
+  // Scaling up leaves a soft band along the edges; decide those pixels again from the full-resolution colors
+  const mask = resizeAlphaMask(coarse, source.width, source.height);
+  if (small !== source) {
+    for (let i = 0; i < mask.data.length; i++) {
+      const value = mask.data[i];
+      if (value > 0 && value < 255) mask.data[i] = looksLikeBackground(source.data, i * 4) ? 0 : 255;
+    }
+  }
+  return featherAlphaMask(mask, feather);
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { sharpen } from './sharpen';
+import type { SharpenMethod } from './sharpen';
+import { maxDifference, pixelAt, solid } from './testUtils';
+
+// Vertical edge between two mid grays, so sharpening has room to push both sides apart
+const edge = () => {
+  const image = solid(12, 6, { r: 100, g: 100, b: 100, a: 255 });
+  for (let y = 0; y < 6; y++) {
+    for (let x = 6; x < 12; x++) image.data.fill(150, (y * 12 + x) * 4, (y * 12 + x) * 4 + 3);
+  }
+  return image;
+};
+
+describe('sharpen', () => {
+  it.each<SharpenMethod>(['unsharp', 'high-pass', 'smart'])('leaves flat areas alone with %s', (method) => {
+    const source = solid(8, 8, { r: 90, g: 140, b: 200, a: 255 });
+    expect(maxDifference(sharpen(source, { method, amount: 2, radius: 1.5 }), source)).toBeLessThanOrEqual(1);
+  });
+
+  it.each<SharpenMethod>(['unsharp', 'high-pass', 'smart'])('raises the contrast across an edge with %s', (method) => {
+    const output = sharpen(edge(), { method, amount: 1, radius: 1 });
+    expect(pixelAt(output, 5, 3).r).toBeLessThan(100);
+    expect(pixelAt(output, 6, 3).r).toBeGreaterThan(150);
+  });
+
+  it('skips differences under the unsharp threshold', () => {
+    const source = edge();
+    expect(maxDifference(sharpen(source, { method: 'unsharp', amount: 1, radius: 1, threshold: 255 }), source)).toBe(0);
+  });
+
+  it('protects edges weaker than the smart edge threshold', () => {
+    const source = edge();
+    expect(maxDifference(sharpen(source, { method: 'smart', amount: 1, radius: 1, edgeThreshold: 200 }), source)).toBe(0);
+  });
+
+  it('keeps alpha', () => {
+    const source = edge();
+    source.data[3] = 40;
+    expect(pixelAt(sharpen(source, { method: 'unsharp', amount: 1, radius: 1 }), 0, 0).a).toBe(40);
+  });
+});
@@ -0,0 +1,105 @@
+import { gaussianBlur } from './blur';
+import { createPixelBuffer } from './pixelBuffer';
+import type { PixelBuffer } from './types';
+
+export type SharpenMethod = 'unsharp' | 'high-pass' | 'smart';
+
+export interface SharpenOptions {
+  method: SharpenMethod;
+  amount: number; // 1 adds the full detail layer once
+  radius: number; // Pixels, the sigma of the blur the detail is measured against
+  threshold?: number; // unsharp: brightness difference (0-255) below which pixels are left alone
+  edgeThreshold?: number; // smart: edge strength (0-255) below which areas count as flat and are protected
+}
+
+const luma = (data: Uint8ClampedArray, i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+// Classic unsharp mask: adds back the difference between the image and a blurred copy, skipping
+// low-contrast differences (usually noise or skin texture) under the threshold.
+const unsharpMask = (source: PixelBuffer, blurred: PixelBuffer, amount: number, threshold: number): PixelBuffer => {
+  const output = createPixelBuffer(source.width, source.height);
+  const src = source.data;
+  const blur = blurred.data;
+  const dst = output.data;
+  for (let i = 0; i < src.length; i += 4) {
+    dst[i + 3] = src[i + 3];
+    if (Math.abs(luma(src, i) - luma(blur, i)) < threshold) {
+      dst[i] = src[i];
+      dst[i + 1] = src[i + 1];
+      dst[i + 2] = src[i + 2];
+      continue;
+    }
+    for (let c = 0; c < 3; c++) {
+      dst[i + c] = src[i + c] + (src[i + c] - blur[i + c]) * amount;
+    }
+  }
+  return output;
+};
+
+// High-pass sharpening: the detail layer (image minus blur, around mid-gray) overlay-blended onto
+// the image, as done by hand in layer-based editors. Contrast rises on edges without shifting flat tones.
+const highPass = (source: PixelBuffer, blurred: PixelBuffer, amount: number): PixelBuffer => {
+  const output = createPixelBuffer(source.width, source.height);
+  const src = source.data;
+  const blur = blurred.data;
+  const dst = output.data;
+  for (let i = 0; i < src.length; i += 4) {
+    dst[i + 3] = src[i + 3];
+    for (let c = 0; c < 3; c++) {
+      const base = src[i + c] / 255;
+      const detail = Math.max(0, Math.min(1, (src[i + c] - blur[i + c]) / 255 + 0.5));
+      const overlay = base < 0.5 ? 2 * base * detail : 1 - 2 * (1 - base) * (1 - detail);
+      dst[i + c] = (base + (overlay - base) * amount) * 255;
+    }
+  }
+  return output;
+};
+
+// Smart sharpen: sharpens brightness only, so edges don't pick up color fringes, and scales it by an
+// edge mask (Sobel gradient of the blurred image) so flat areas like sky and skin don't gain noise.
+const smartSharpen = (source: PixelBuffer, blurred: PixelBuffer, amount: number, edgeThreshold: number): PixelBuffer => {
+  const { width, height } = source;
+  const output = createPixelBuffer(width, height);
+  const src = source.data;
+  const blur = blurred.data;
+  const dst = output.data;
+
+  const blurLuma = new Float32Array(width * height);
+  for (let p = 0; p < blurLuma.length; p++) blurLuma[p] = luma(blur, p * 4);
+  const at = (x: number, y: number) =>
+    blurLuma[Math.max(0, Math.min(height - 1, y)) * width + Math.max(0, Math.min(width - 1, x))];
+
+  // The mask ramps from 0 at the threshold to 1 at twice the threshold
+  const ramp = Math.max(1, edgeThreshold);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx = at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy = at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      const edge = Math.sqrt(gx * gx + gy * gy) / 4;
+      const mask = edgeThreshold <= 0 ? 1 : Math.max(0, Math.min(1, (edge - edgeThreshold) / ramp));
+
+      const i = (y * width + x) * 4;
+      const delta = (luma(src, i) - blurLuma[y * width + x]) * amount * mask;
+      dst[i] = src[i] + delta;
+      dst[i + 1] = src[i + 1] + delta;
+      dst[i + 2] = src[i + 2] + delta;
+      dst[i + 3] = src[i + 3];
+    }
+  }
+  return output;
+};
+
+// `scale` maps the radius onto a scaled-down preview, so it looks like the full-size result
+export const sharpen = (source: PixelBuffer, options: SharpenOptions, scale = 1): PixelBuffer => {
+  const { method, amount, radius, threshold = 0, edgeThreshold = 0 } = options;
+  const blurred = gaussianBlur(source, Math.max(0.3, radius * scale));
+  switch (method) {
+    case 'high-pass':
+      return highPass(source, blurred, amount);
+    case 'smart':
+      return smartSharpen(source, blurred, amount, edgeThreshold);
+    case 'unsharp':
+    default:
+      return unsharpMask(source, blurred, amount, threshold);
+  }
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { split, splitRects } from './split';
+import { gradient, pixelAt } from './testUtils';
+
+describe('splitRects', () => {
+  it('gives the remainder pixels to the first rows and columns', () => {
+    const cells = splitRects(10, 7, { rows: 2, cols: 3 });
+    expect(cells.map(cell => cell.rect.width).slice(0, 3)).toEqual([4, 3, 3]);
+    expect(cells.filter(cell => cell.col === 0).map(cell => cell.rect.height)).toEqual([4, 3]);
+  });
+
+  it('covers the image without gaps or overlaps', () => {
+    const cells = splitRects(10, 7, { rows: 2, cols: 3 });
+    const area = cells.reduce((sum, { rect }) => sum + rect.width * rect.height, 0);
+    expect(area).toBe(70);
+    const last = cells[cells.length - 1].rect;
+    expect(last.x + last.width).toBe(10);
+    expect(last.y + last.height).toBe(7);
+  });
+
+  it('treats counts below one as a single cell', () => {
+    expect(splitRects(10, 7, { rows: 0, cols: -2 })).toEqual([{ row: 0, col: 0, rect: { x: 0, y: 0, width: 10, height: 7 } }]);
+  });
+});
+
+describe('split', () => {
+  it('crops each tile from its cell', () => {
+    const source = gradient(6, 4);
+    const tiles = split(source, { rows: 2, cols: 2 });
+    expect(tiles).toHaveLength(4);
+    const bottomRight = tiles[3];
+    expect(bottomRight).toMatchObject({ row: 1, col: 1 });
+    expect(bottomRight.image.width).toBe(3);
+    expect(bottomRight.image.height).toBe(2);
+    expect(pixelAt(bottomRight.image, 0, 0)).toEqual(pixelAt(source, 3, 2));
+  });
+});
@@ -0,0 +1,45 @@
+import { crop } from './crop';
+import type { PixelBuffer, Rect } from './types';
+
+export interface SplitOptions {
+  rows: number;
+  cols: number;
+}
+
+export interface SplitTile {
+  row: number; // 0-based row index
+  col: number; // 0-based column index
+  rect: Rect;
+  image: PixelBuffer;
+}
+
+// Grid cells for an image. Remainder pixels go to the first rows/columns so nothing is lost.
+export const splitRects = (width: number, height: number, { rows, cols }: SplitOptions): Array<{ row: number; col: number; rect: Rect }> => {
+  const effectiveRows = Math.max(1, Math.floor(rows));
+  const effectiveCols = Math.max(1, Math.floor(cols));
+  const baseSliceWidth = Math.floor(width / effectiveCols);
+  const remainderWidth = width % effectiveCols;
+  const baseSliceHeight = Math.floor(height / effectiveRows);
+  const remainderHeight = height % effectiveRows;
+
+  const cells: Array<{ row: number; col: number; rect: Rect }> = [];
+  let currentY = 0;
+  for (let r = 0; r < effectiveRows; r++) {
+    const sliceHeight = baseSliceHeight + (r < remainderHeight ? 1 : 0);
+    let currentX = 0;
+    for (let c = 0; c < effectiveCols; c++) {
+      const sliceWidth = baseSliceWidth + (c < remainderWidth ? 1 : 0);
+      cells.push({ row: r, col: c, rect: { x: currentX, y: currentY, width: sliceWidth, height: sliceHeight } });
+      currentX += sliceWidth;
+    }
+    currentY += sliceHeight;
+  }
+  return cells;
+};
+
+export const split = (source: PixelBuffer, options: SplitOptions): SplitTile[] => {
+  return splitRects(source.width, source.height, options).map(cell => ({
+    ...cell,
+    image: crop(source, cell.rect),
+  }));
+};
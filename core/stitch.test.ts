@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { stitch } from './stitch';
+import { BLUE, GREEN, RED, WHITE, pixelAt, solid } from './testUtils';
+
+describe('stitch', () => {
+  it('places images side by side, filling the gap with the background', () => {
+    const output = stitch([solid(3, 2, RED), solid(2, 4, GREEN)], { direction: 'horizontal', background: WHITE });
+    expect(output.width).toBe(5);
+    expect(output.height).toBe(4);
+    expect(pixelAt(output, 0, 0)).toEqual(RED);
+    expect(pixelAt(output, 3, 3)).toEqual(GREEN);
+    expect(pixelAt(output, 0, 3)).toEqual(WHITE);
+  });
+
+  it('stacks images vertically', () => {
+    const output = stitch([solid(3, 2, RED), solid(2, 1, BLUE)], { direction: 'vertical', background: WHITE });
+    expect(output.width).toBe(3);
+    expect(output.height).toBe(3);
+    expect(pixelAt(output, 0, 2)).toEqual(BLUE);
+    expect(pixelAt(output, 2, 2)).toEqual(WHITE);
+  });
+
+  it('rejects an empty list', () => {
+    expect(() => stitch([], { direction: 'horizontal', background: WHITE })).toThrow('At least one image');
+  });
+});
@@ -0,0 +1,35 @@
+import { createPixelBuffer, drawPixelBuffer } from './pixelBuffer';
+import type { PixelBuffer, RGBA } from './types';
+
+export interface StitchOptions {
+  direction: 'horizontal' | 'vertical';
+  background: RGBA;
+}
+
+// Places images side by side (or stacked), top/left aligned, over a solid background
+export const stitch = (images: PixelBuffer[], { direction, background }: StitchOptions): PixelBuffer => {
+  if (images.length === 0) {
+    throw new Error('At least one image is required to stitch.');
+  }
+
+  const horizontal = direction === 'horizontal';
+  const width = horizontal
+    ? images.reduce((sum, img) => sum + img.width, 0)
+    : Math.max(...images.map(img => img.width));
+  const height = horizontal
+    ? Math.max(...images.map(img => img.height))
+    : images.reduce((sum, img) => sum + img.height, 0);
+
+  const output = createPixelBuffer(width, height, background);
+  let offset = 0;
+  for (const img of images) {
+    if (horizontal) {
+      drawPixelBuffer(output, img, offset, 0);
+      offset += img.width;
+    } else {
+      drawPixelBuffer(output, img, 0, offset);
+      offset += img.height;
+    }
+  }
+  return output;
+};
@@ -0,0 +1,46 @@
+import type { PixelBuffer, RGBA } from './types';
+
+// Test helpers. Buffers are plain objects, the same shape the core functions accept outside the browser.
+
+export const RED: RGBA = { r: 255, g: 0, b: 0, a: 255 };
+export const GREEN: RGBA = { r: 0, g: 255, b: 0, a: 255 };
+export const BLUE: RGBA = { r: 0, g: 0, b: 255, a: 255 };
+export const WHITE: RGBA = { r: 255, g: 255, b: 255, a: 255 };
+
+export const solid = (width: number, height: number, color: RGBA): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = color.r;
+    data[i + 1] = color.g;
+    data[i + 2] = color.b;
+    data[i + 3] = color.a;
+  }
+  return { width, height, data };
+};
+
+// Every pixel distinct, so any misplaced pixel shows up
+export const gradient = (width: number, height: number): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = (x * 37) % 256;
+      data[i + 1] = (y * 53) % 256;
+      data[i + 2] = (x * 11 + y * 7) % 256;
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+};
+
+export const pixelAt = (image: PixelBuffer, x: number, y: number): RGBA => {
+  const i = (y * image.width + x) * 4;
+  return { r: image.data[i], g: image.data[i + 1], b: image.data[i + 2], a: image.data[i + 3] };
+};
+
+// Largest per-channel difference between two buffers of the same size
+export const maxDifference = (a: PixelBuffer, b: PixelBuffer): number => {
+  let max = 0;
+  for (let i = 0; i < a.data.length; i++) max = Math.max(max, Math.abs(a.data[i] - b.data[i]));
+  return max;
+};
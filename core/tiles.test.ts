@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { crop } from './crop';
+import { createTileBlender, overlappingTiles } from './tiles';
+import { gradient, maxDifference } from './testUtils';
+
+describe('overlappingTiles', () => {
+  it('uses a single tile for small images', () => {
+    expect(overlappingTiles(50, 30, 64, 8)).toEqual([{ x: 0, y: 0, width: 50, height: 30 }]);
+  });
+
+  it('spreads the tiles so the last one ends at the edge', () => {
+    const tiles = overlappingTiles(100, 40, 40, 8);
+    const xs = [...new Set(tiles.map(tile => tile.x))];
+    expect(xs[0]).toBe(0);
+    expect(xs[xs.length - 1] + 40).toBe(100);
+    for (let i = 1; i < xs.length; i++) {
+      expect(xs[i - 1] + 40 - xs[i]).toBeGreaterThanOrEqual(8);
+    }
+    expect(tiles.every(tile => tile.width === 40 && tile.height === 40)).toBe(true);
+  });
+});
+
+describe('createTileBlender', () => {
+  it('reassembles unchanged tiles into the original image', () => {
+    const source = gradient(50, 35);
+    const blender = createTileBlender(source.width, source.height, 6);
+    for (const rect of overlappingTiles(source.width, source.height, 20, 6)) {
+      blender.add(rect, crop(source, rect));
+    }
+    expect(maxDifference(blender.result(), source)).toBeLessThanOrEqual(1);
+  });
+});
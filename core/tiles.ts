@@ -0,0 +1,76 @@
+import { createPixelBuffer } from './pixelBuffer';
+import type { PixelBuffer, Rect } from './types';
+
+// Tile starts along one axis: as few tiles as fit `tileSize` with at least `overlap` shared between
+// neighbors, spread evenly so the last one ends flush with the edge.
+const axisStarts = (size: number, tileSize: number, overlap: number): number[] => {
+  if (size <= tileSize) return [0];
+  const count = Math.ceil((size - overlap) / (tileSize - overlap));
+  return Array.from({ length: count }, (_, i) => Math.round((i * (size - tileSize)) / (count - 1)));
+};
+
+// Covers an image with tiles no larger than `tileSize` on either side, overlapping their neighbors
+// so they can be blended back together without visible seams.
+export const overlappingTiles = (width: number, height: number, tileSize: number, overlap: number): Rect[] => {
+  const size = Math.max(1, Math.floor(tileSize));
+  const shared = Math.max(0, Math.min(Math.floor(overlap), size - 1));
+  const tiles: Rect[] = [];
+  for (const y of axisStarts(height, size, shared)) {
+    for (const x of axisStarts(width, size, shared)) {
+      tiles.push({ x, y, width: Math.min(size, width), height: Math.min(size, height) });
+    }
+  }
+  return tiles;
+};
+
+export interface TileBlender {
+  add: (rect: Rect, image: PixelBuffer) => void;
+  result: () => PixelBuffer;
+}
+
+// Reassembles processed tiles into one image. Each tile fades in linearly over `feather` pixels on
+// the sides it shares with a neighbor, and overlapping pixels keep a running weighted average, so
+// tiles can be added as they arrive instead of all being held in memory.
+export const createTileBlender = (width: number, height: number, feather: number): TileBlender => {
+  const output = createPixelBuffer(width, height);
+  const totals = new Float32Array(width * height);
+  const ramp = Math.max(1, feather);
+
+  const add = (rect: Rect, image: PixelBuffer) => {
+    const x0 = Math.round(rect.x);
+    const y0 = Math.round(rect.y);
+    const fadeLeft = x0 > 0;
+    const fadeTop = y0 > 0;
+    const fadeRight = x0 + image.width < width;
+    const fadeBottom = y0 + image.height < height;
+    const edgeWeight = (i: number, size: number, fadeStart: boolean, fadeEnd: boolean) => {
+      let w = 1;
+      if (fadeStart) w = Math.min(w, (i + 0.5) / ramp);
+      if (fadeEnd) w = Math.min(w, (size - i - 0.5) / ramp);
+      return w;
+    };
+
+    for (let ty = 0; ty < image.height; ty++) {
+      const y = y0 + ty;
+      if (y < 0 || y >= height) continue;
+      const wy = edgeWeight(ty, image.height, fadeTop, fadeBottom);
+      for (let tx = 0; tx < image.width; tx++) {
+        const x = x0 + tx;
+        if (x < 0 || x >= width) continue;
+        const w = wy * edgeWeight(tx, image.width, fadeLeft, fadeRight);
+        const p = y * width + x;
+        const total = totals[p] + w;
+        if (total <= 0) continue;
+        const t = w / total;
+        const si = (ty * image.width + tx) * 4;
+        const di = p * 4;
+        for (let c = 0; c < 4; c++) {
+          output.data[di + c] += (image.data[si + c] - output.data[di + c]) * t;
+        }
+        totals[p] = total;
+      }
+    }
+  };
+
+  return { add, result: () => output };
+};
@@ -0,0 +1,30 @@
+// Framework-free image types. `PixelBuffer` is structurally identical to the DOM `ImageData`,
+// so browser ImageData can be passed straight in, while plain objects work anywhere (workers, Node).
+export interface PixelBuffer {
+  readonly width: number;
+  readonly height: number;
+  readonly data: Uint8ClampedArray;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export type OutputFormat = 'jpeg' | 'png' | 'webp' | 'gif';
+
+export type WatermarkPosition = 'bottom-right' | 'top-left' | 'center' | 'bottom-left' | 'top-right';
+
+export interface Point {
+  x: number;
+  y: number;
+}
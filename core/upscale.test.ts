@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { upscale } from './upscale';
+import { RED, WHITE, gradient, pixelAt, solid } from './testUtils';
+
+const BLACK = { r: 0, g: 0, b: 0, a: 255 };
+
+// A diagonal edge: black above the anti-diagonal, white below
+const diagonal = () => {
+  const image = solid(3, 3, WHITE);
+  for (const [x, y] of [[0, 0], [1, 0], [0, 1]]) image.data.set([0, 0, 0, 255], (y * 3 + x) * 4);
+  return image;
+};
+
+describe('upscale', () => {
+  it('multiplies the size by the factor', () => {
+    expect(upscale(gradient(5, 3), { factor: 2, method: 'lanczos3' })).toMatchObject({ width: 10, height: 6 });
+    expect(upscale(gradient(5, 3), { factor: 4, method: 'bicubic' })).toMatchObject({ width: 20, height: 12 });
+    expect(upscale(gradient(5, 3), { factor: 4, method: 'pixel-art' })).toMatchObject({ width: 20, height: 12 });
+  });
+
+  it('repeats each pixel with nearest neighbor', () => {
+    const source = gradient(3, 3);
+    const output = upscale(source, { factor: 2, method: 'nearest' });
+    expect(pixelAt(output, 3, 3)).toEqual(pixelAt(source, 1, 1));
+    expect(pixelAt(output, 2, 2)).toEqual(pixelAt(source, 1, 1));
+  });
+
+  it('keeps pixel-art colors exact and smooths diagonals', () => {
+    const output = upscale(diagonal(), { factor: 2, method: 'pixel-art' });
+    // The white center pixel's top-left corner follows the edge and turns black
+    expect(pixelAt(output, 2, 2)).toEqual(BLACK);
+    expect(pixelAt(output, 3, 3)).toEqual(WHITE);
+    for (let i = 0; i < output.data.length; i += 4) {
+      expect([0, 255]).toContain(output.data[i]);
+    }
+  });
+
+  it('leaves flat areas unchanged in pixel-art mode', () => {
+    const output = upscale(solid(4, 4, RED), { factor: 4, method: 'pixel-art' });
+    expect(pixelAt(output, 7, 9)).toEqual(RED);
+  });
+});
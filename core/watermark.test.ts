@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { watermark } from './watermark';
+import { RED, WHITE, pixelAt, solid } from './testUtils';
+
+describe('watermark', () => {
+  it('places the mark in the chosen corner, inside the margin', () => {
+    const output = watermark(solid(100, 50, WHITE), solid(10, 5, RED), { opacity: 1, position: 'bottom-right', tiled: false });
+    // 2% margin: the mark spans x 88-97, y 43-47
+    expect(pixelAt(output, 97, 47)).toEqual(RED);
+    expect(pixelAt(output, 88, 43)).toEqual(RED);
+    expect(pixelAt(output, 98, 48)).toEqual(WHITE);
+    expect(pixelAt(output, 50, 25)).toEqual(WHITE);
+  });
+
+  it('blends the mark at the given opacity', () => {
+    const output = watermark(solid(20, 20, WHITE), solid(4, 4, RED), { opacity: 0.5, position: 'center', tiled: false });
+    const { r, g, b } = pixelAt(output, 10, 10);
+    expect(r).toBe(255);
+    expect(g).toBeGreaterThan(120);
+    expect(g).toBeLessThan(135);
+    expect(b).toBe(g);
+  });
+
+  it('scales the mark to a percentage of the image width', () => {
+    const output = watermark(solid(100, 100, WHITE), solid(10, 10, RED), { opacity: 1, position: 'top-left', tiled: false, size: 30 });
+    expect(pixelAt(output, 2 + 29, 2 + 29)).toEqual(RED);
+    expect(pixelAt(output, 2 + 31, 2 + 31)).toEqual(WHITE);
+  });
+
+  it('repeats the mark across the image when tiled', () => {
+    const output = watermark(solid(100, 100, WHITE), solid(10, 10, RED), { opacity: 1, position: 'center', tiled: true });
+    // Tiles every 10px + 5% padding
+    expect(pixelAt(output, 0, 0)).toEqual(RED);
+    expect(pixelAt(output, 15, 15)).toEqual(RED);
+    expect(pixelAt(output, 12, 12)).toEqual(WHITE);
+    expect(pixelAt(output, 90, 90)).toEqual(RED);
+  });
+
+  it('leaves the source untouched', () => {
+    const source = solid(20, 20, WHITE);
+    watermark(source, solid(4, 4, RED), { opacity: 1, position: 'center', tiled: false });
+    expect(pixelAt(source, 10, 10)).toEqual(WHITE);
+  });
+});
@@ -0,0 +1,58 @@
+import { clonePixelBuffer, drawPixelBuffer } from './pixelBuffer';
+import { resize } from './resize';
+import type { PixelBuffer, WatermarkPosition } from './types';
+
+export interface WatermarkOptions {
+  opacity: number; // 0.0 to 1.0
+  position: WatermarkPosition;
+  tiled: boolean;
+  // Mark width as a percentage of the image width. When omitted the mark is used at its own size
+  // (e.g. text that was already rendered at the right font size).
+  size?: number;
+}
+
+const MARGIN_FACTOR = 0.02; // 2% of image width from the edges
+const TILE_PADDING_FACTOR = 0.05; // 5% gap between tiles
+
+const placeMark = (width: number, height: number, markWidth: number, markHeight: number, position: WatermarkPosition, margin: number) => {
+  switch (position) {
+    case 'bottom-right':
+      return { x: width - markWidth - margin, y: height - markHeight - margin };
+    case 'top-left':
+      return { x: margin, y: margin };
+    case 'top-right':
+      return { x: width - markWidth - margin, y: margin };
+    case 'bottom-left':
+      return { x: margin, y: height - markHeight - margin };
+    case 'center':
+    default:
+      return { x: (width - markWidth) / 2, y: (height - markHeight) / 2 };
+  }
+};
+
+export const watermark = (source: PixelBuffer, mark: PixelBuffer, options: WatermarkOptions): PixelBuffer => {
+  const { opacity, position, tiled, size } = options;
+  const output = clonePixelBuffer(source);
+
+  let scaledMark = mark;
+  if (size !== undefined) {
+    const markWidth = Math.max(1, Math.round((source.width * size) / 100));
+    const markHeight = Math.max(1, Math.round((mark.height / mark.width) * markWidth));
+    scaledMark = resize(mark, { width: markWidth, height: markHeight, method: 'bicubic' });
+  }
+
+  if (tiled) {
+    const stepX = scaledMark.width + source.width * TILE_PADDING_FACTOR;
+    const stepY = scaledMark.height + source.height * TILE_PADDING_FACTOR;
+    for (let y = 0; y < source.height; y += stepY) {
+      for (let x = 0; x < source.width; x += stepX) {
+        drawPixelBuffer(output, scaledMark, x, y, opacity);
+      }
+    }
+  } else {
+    const margin = source.width * MARGIN_FACTOR;
+    const { x, y } = placeMark(source.width, source.height, scaledMark.width, scaledMark.height, position, margin);
+    drawPixelBuffer(output, scaledMark, x, y, opacity);
+  }
+  return output;
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { setXmpDescription } from './xmp';
+
+describe('setXmpDescription', () => {
+  it('creates a packet when there is none', () => {
+    const xmp = setXmpDescription(undefined, { description: 'A red fox', altText: 'Fox in snow', keywords: ['fox', 'snow'] });
+    expect(xmp).toContain('<?xpacket begin=');
+    expect(xmp).toContain('<dc:description><rdf:Alt><rdf:li xml:lang="x-default">A red fox</rdf:li></rdf:Alt></dc:description>');
+    expect(xmp).toContain('<Iptc4xmpCore:AltTextAccessibility><rdf:Alt><rdf:li xml:lang="x-default">Fox in snow</rdf:li></rdf:Alt></Iptc4xmpCore:AltTextAccessibility>');
+    expect(xmp).toContain('<dc:subject><rdf:Bag><rdf:li>fox</rdf:li><rdf:li>snow</rdf:li></rdf:Bag></dc:subject>');
+  });
+
+  it('replaces existing values and keeps other properties', () => {
+    const existing = setXmpDescription(undefined, { description: 'Old', keywords: ['old'] })
+      .replace('</rdf:RDF>', '<rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmp:Rating="4" dc:description="Attr"/></rdf:RDF>');
+    const xmp = setXmpDescription(existing, { description: 'New', keywords: ['new'] });
+    expect(xmp).not.toContain('Old');
+    expect(xmp).not.toContain('Attr');
+    expect(xmp).not.toContain('<rdf:li>old</rdf:li>');
+    expect(xmp).toContain('New');
+    expect(xmp).toContain('xmp:Rating="4"');
+    expect(xmp.match(/<x:xmpmeta/g)).toHaveLength(1);
+  });
+
+  it('escapes markup in the text', () => {
+    expect(setXmpDescription(undefined, { description: 'Fish & "chips" <hot>' })).toContain('Fish &amp; &quot;chips&quot; &lt;hot&gt;');
+  });
+});
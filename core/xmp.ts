@@ -0,0 +1,54 @@
+// Writes description fields into an XMP packet: dc:description (the caption most apps show),
+// Iptc4xmpCore:AltTextAccessibility (IPTC's alt text field) and dc:subject (keywords).
+// Other properties in an existing packet are kept as they are.
+
+export interface XmpDescription {
+  description?: string;
+  altText?: string;
+  keywords?: string[];
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const langAlt = (text: string) =>
+  `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(text)}</rdf:li></rdf:Alt>`;
+
+// Element and attribute forms of a property, so a replaced value never appears twice
+const removeProperty = (xmp: string, name: string) =>
+  xmp
+    .replace(new RegExp(`<${name}\\b[^>]*/>`, 'g'), '')
+    .replace(new RegExp(`<${name}\\b[\\s\\S]*?</${name}>`, 'g'), '')
+    .replace(new RegExp(`\\s${name}="[^"]*"`, 'g'), '');
+
+export const setXmpDescription = (xmp: string | undefined, { description, altText, keywords }: XmpDescription): string => {
+  const properties: Array<[string, string]> = [];
+  if (description) properties.push(['dc:description', langAlt(description)]);
+  if (altText) properties.push(['Iptc4xmpCore:AltTextAccessibility', langAlt(altText)]);
+  if (keywords?.length) {
+    properties.push(['dc:subject', `<rdf:Bag>${keywords.map(k => `<rdf:li>${escapeXml(k)}</rdf:li>`).join('')}</rdf:Bag>`]);
+  }
+
+  const block = [
+    '  <rdf:Description rdf:about=""',
+    '    xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    '    xmlns:Iptc4xmpCore="http://iptc.org/std/Iptc4xmpCore/1.0/xmlns/">',
+    ...properties.map(([name, value]) => `   <${name}>${value}</${name}>`),
+    '  </rdf:Description>',
+  ].join('\n');
+
+  if (xmp && xmp.includes('</rdf:RDF>')) {
+    const cleaned = properties.reduce((packet, [name]) => removeProperty(packet, name), xmp);
+    return cleaned.replace('</rdf:RDF>', `${block}\n </rdf:RDF>`);
+  }
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    block,
+    ' </rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+};
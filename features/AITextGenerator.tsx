@@ -1,41 +1,173 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Button } from '../components/Button';
-import { generateText } from '../services';
-import { AIIcon } from '../components/icons';
+import { PromptTemplates } from '../components/PromptTemplates';
+import { streamChat } from '../services';
+import type { ChatMessage } from '../services';
+import { AIIcon, ArrowDownTrayIcon, PlusIcon, StopIcon, TrashIcon, XMarkIcon } from '../components/icons';
+import { downloadBlob } from '../utils/imageUtils';
+import { conversationToMarkdown, deleteConversation, listConversations, saveConversation, titleFromPrompt } from '../utils/conversations';
+import type { Conversation } from '../utils/conversations';
+import type { PromptTemplate } from '../utils/promptTemplates';
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+const MessageBubble: React.FC<ChatMessage> = ({ role, content }) => (
+  <div className={`flex ${role === 'user' ? 'justify-end' : 'justify-start'}`}>
+    <div className={`max-w-[85%] rounded-lg px-4 py-3 whitespace-pre-wrap leading-relaxed selection:bg-[#1DB954]/30 ${
+      role === 'user' ? 'bg-[#1DB954]/15 text-gray-100 border border-[#1DB954]/20' : 'bg-zinc-800 text-gray-200'
+    }`}>
+      {content}
+    </div>
+  </div>
+);
 
 const AITextGenerator: React.FC = () => {
   const [prompt, setPrompt] = useState('');
-  const [result, setResult] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  // Supplies the system instruction and temperature of the next new chat
+  const [pendingTemplate, setPendingTemplate] = useState<PromptTemplate | null>(null);
+  // The reply being streamed, shown after the saved messages until it completes
+  const [streamingText, setStreamingText] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const messagesRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const isLoading = streamingText !== null;
+  const active = conversations.find((c) => c.id === activeId) ?? null;
+  const messages: ChatMessage[] = active?.messages ?? [];
+  // What the open chat runs with, or what the next one will when a template is waiting
+  const chatSettings = active ?? pendingTemplate;
+  const settingsSummary = [
+    chatSettings?.systemInstruction ? 'system instruction' : '',
+    chatSettings?.temperature !== undefined ? `temperature ${chatSettings.temperature.toFixed(1)}` : '',
+  ].filter(Boolean).join(' · ');
+
+  useEffect(() => {
+    listConversations()
+      .then(setConversations)
+      .catch((e) => {
+        console.error('Failed to load conversations', e);
+        setError('Saved conversations could not be loaded. New chats will not be saved.');
+      });
+    // Stop streaming into a component that is going away
+    return () => abortRef.current?.abort();
+  }, []);
 
   useEffect(() => {
     const textarea = textareaRef.current;
     if (textarea) {
       textarea.style.height = 'auto';
       const scrollHeight = textarea.scrollHeight;
-      const maxHeight = 200; 
+      const maxHeight = 200;
       textarea.style.height = `${Math.min(scrollHeight, maxHeight)}px`;
       textarea.style.overflowY = scrollHeight > maxHeight ? 'auto' : 'hidden';
     }
   }, [prompt]);
 
+  useEffect(() => {
+    const container = messagesRef.current;
+    if (container) container.scrollTop = container.scrollHeight;
+  }, [messages.length, streamingText, activeId]);
+
+  // Updates the list right away and persists in the background
+  const storeConversation = (conversation: Conversation) => {
+    setConversations((prev) => [conversation, ...prev.filter((c) => c.id !== conversation.id)]);
+    saveConversation(conversation).catch((e) => console.error('Failed to save conversation', e));
+  };
+
+  const removeConversation = (id: string) => {
+    setConversations((prev) => prev.filter((c) => c.id !== id));
+    setActiveId((current) => (current === id ? null : current));
+    deleteConversation(id).catch((e) => console.error('Failed to delete conversation', e));
+  };
+
   const handleGenerate = async () => {
-    if (!prompt.trim() || isLoading) return;
-    setIsLoading(true);
+    const text = prompt.trim();
+    if (!text || isLoading) return;
+    const template = pendingTemplate;
     setError(null);
-    setResult('');
+    setPrompt('');
+
+    const now = Date.now();
+    const base: Conversation = active ?? {
+      id: createId(),
+      title: titleFromPrompt(text),
+      messages: [],
+      systemInstruction: template?.systemInstruction || undefined,
+      temperature: template?.temperature,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const withPrompt: Conversation = { ...base, messages: [...base.messages, { role: 'user', content: text }], updatedAt: now };
+    storeConversation(withPrompt);
+    setActiveId(withPrompt.id);
+    setPendingTemplate(null);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let received = '';
+    setStreamingText('');
     try {
-      const generatedText = await generateText(prompt);
-      setResult(generatedText);
+      const { messages, systemInstruction, temperature } = withPrompt;
+      await streamChat({ messages, systemInstruction, temperature }, {
+        signal: controller.signal,
+        onText: (delta) => {
+          received += delta;
+          setStreamingText(received);
+        },
+      });
     } catch (e: any) {
-      setError(e.message || 'An unknown error occurred.');
+      if (!controller.signal.aborted) {
+        setError(e.message || 'An unknown error occurred.');
+      }
     } finally {
-      setIsLoading(false);
+      // A stopped reply keeps whatever arrived before the stop
+      if (received) {
+        storeConversation({ ...withPrompt, messages: [...withPrompt.messages, { role: 'assistant', content: received }], updatedAt: Date.now() });
+      } else {
+        // Nothing came back: drop the unanswered message, or the next send would post two user turns in a row.
+        // The text (and the template of a new chat) goes back into the input so it can be sent again.
+        if (base.messages.length === 0) {
+          removeConversation(base.id);
+          setPendingTemplate(template);
+        } else {
+          storeConversation(base);
+        }
+        setPrompt(text);
+      }
+      abortRef.current = null;
+      setStreamingText(null);
     }
   };
-  
+
+  const handleStop = () => abortRef.current?.abort();
+
+  const handleNewChat = () => {
+    if (isLoading) return;
+    setActiveId(null);
+    setPendingTemplate(null);
+    setError(null);
+    textareaRef.current?.focus();
+  };
+
+  // Starts a new chat with the template's settings; the filled prompt is left for review before sending
+  const handleUseTemplate = (template: PromptTemplate, templatePrompt: string) => {
+    if (isLoading) return;
+    setActiveId(null);
+    setPendingTemplate(template);
+    setPrompt(templatePrompt);
+    setError(null);
+    textareaRef.current?.focus();
+  };
+
+  const handleExport = () => {
+    if (!active) return;
+    const filename = active.title.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '_').slice(0, 60) || 'conversation';
+    downloadBlob(new Blob([conversationToMarkdown(active)], { type: 'text/markdown' }), `${filename}.md`);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
         e.preventDefault();
@@ -44,66 +176,126 @@ const AITextGenerator: React.FC = () => {
   };
 
   return (
-    <div className="max-w-4xl mx-auto space-y-8">
-      <div className="bg-zinc-900 p-6 rounded-lg border border-zinc-800 space-y-4">
-        <h2 className="text-lg font-semibold text-white">
-          AI Text Generator
-        </h2>
-        <div className="relative">
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      <div className="lg:col-span-3 space-y-4">
+        <Button onClick={handleNewChat} icon={<PlusIcon />} variant="outline" disabled={isLoading}>
+          New Chat
+        </Button>
+        <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-2 space-y-1 max-h-[60vh] overflow-y-auto">
+          {conversations.length === 0 ? (
+            <p className="text-sm text-gray-500 p-2">No saved conversations yet.</p>
+          ) : (
+            conversations.map((c) => (
+              <div key={c.id} className={`group flex items-center gap-2 rounded-md ${c.id === activeId ? 'bg-zinc-800' : 'hover:bg-zinc-800/60'}`}>
+                <button
+                  onClick={() => { if (!isLoading) { setActiveId(c.id); setPendingTemplate(null); setError(null); } }}
+                  className={`flex-1 min-w-0 text-left px-3 py-2 text-sm truncate ${c.id === activeId ? 'text-white' : 'text-gray-400'}`}
+                  disabled={isLoading}
+                  title={c.title}
+                >
+                  {c.title}
+                </button>
+                <button
+                  onClick={() => removeConversation(c.id)}
+                  className="px-2 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                  disabled={isLoading}
+                  aria-label={`Delete ${c.title}`}
+                >
+                  <TrashIcon />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+        <PromptTemplates onUse={handleUseTemplate} disabled={isLoading} />
+      </div>
+
+      <div className="lg:col-span-9 space-y-4">
+        <div className="bg-zinc-900 rounded-lg border border-zinc-800">
+          <div className="flex items-center justify-between gap-4 p-4 border-b border-zinc-800">
+            <h2 className="text-lg font-semibold text-white truncate">
+              {active?.title ?? 'AI Text Generator'}
+            </h2>
+            <Button onClick={handleExport} icon={<ArrowDownTrayIcon />} variant="secondary" disabled={!active || isLoading}>
+              Export Markdown
+            </Button>
+          </div>
+
+          <div ref={messagesRef} className="p-4 space-y-4 min-h-[40vh] max-h-[60vh] overflow-y-auto bg-black/50">
+            {messages.length === 0 && !isLoading && (
+              <p className="text-center text-gray-500 py-16">Ask anything to start a conversation. Follow-up messages remember the earlier ones.</p>
+            )}
+            {messages.map((message, index) => (
+              <MessageBubble key={index} role={message.role} content={message.content} />
+            ))}
+            {isLoading && (
+              streamingText ? (
+                <MessageBubble role="assistant" content={streamingText} />
+              ) : (
+                <div className="flex items-center text-gray-400">
+                  <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                  <span>Generating response...</span>
+                </div>
+              )
+            )}
+          </div>
+
+          <div className="relative p-4 border-t border-zinc-800">
+            {(pendingTemplate || settingsSummary) && (
+              <div className="flex items-center gap-2 mb-3 text-xs text-gray-400">
+                <span className="truncate" title={chatSettings?.systemInstruction || undefined}>
+                  {pendingTemplate ? <>Template: <span className="text-gray-200">{pendingTemplate.name}</span></> : 'This chat uses'}
+                  {settingsSummary && <span className="text-gray-500">{pendingTemplate ? ` (${settingsSummary})` : ` ${settingsSummary}`}</span>}
+                </span>
+                {pendingTemplate && (
+                  <button onClick={() => setPendingTemplate(null)} className="text-gray-500 hover:text-white" aria-label="Clear template">
+                    <XMarkIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            )}
             <label htmlFor="prompt" className="sr-only">Your Prompt</label>
             <textarea
               ref={textareaRef}
               id="prompt"
               rows={3}
               className="custom-input text-base resize-none block w-full pr-36"
-              placeholder="e.g., A short, funny poem about a cat who loves coding..."
+              placeholder={active ? 'Send a follow-up...' : 'e.g., A short, funny poem about a cat who loves coding...'}
               value={prompt}
               onChange={(e) => setPrompt(e.target.value)}
               onKeyDown={handleKeyDown}
             />
-            <div className="absolute bottom-3 right-3">
-                <Button 
-                  onClick={handleGenerate} 
-                  isLoading={isLoading} 
+            <div className="absolute bottom-7 right-7">
+              {isLoading ? (
+                <Button onClick={handleStop} icon={<StopIcon />} variant="secondary" aria-label="Stop generating">
+                  Stop
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleGenerate}
                   icon={<AIIcon />}
-                  disabled={!prompt.trim() || isLoading}
+                  disabled={!prompt.trim()}
                   aria-label="Generate Text"
                 >
-                  Generate
+                  Send
                 </Button>
+              )}
             </div>
+          </div>
         </div>
-      </div>
 
-      {error && (
-        <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-300">
-          <p className="font-semibold">Error</p>
-          <p>{error}</p>
-        </div>
-      )}
-
-      {isLoading && !result && (
-          <div className="flex justify-center items-center p-8 text-gray-400 bg-zinc-900 rounded-lg border border-zinc-800">
-              <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-              </svg>
-              <span>Generating response...</span>
+        {error && (
+          <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-300">
+            <p className="font-semibold">Error</p>
+            <p>{error}</p>
           </div>
-      )}
-
-      {result && (
-        <div className="bg-zinc-900 rounded-lg border border-zinc-800">
-            <div className="p-6">
-                <h3 className="text-lg font-semibold text-white">Generated Result</h3>
-            </div>
-            <div className="p-6 border-t border-zinc-800 bg-black/50 rounded-b-lg">
-                <div className="text-gray-200 whitespace-pre-wrap leading-relaxed selection:bg-[#1DB954]/30 prose prose-invert max-w-none prose-p:my-2">{result}</div>
-            </div>
-        </div>
-      )}
+        )}
+      </div>
     </div>
   );
 };
 
-export default AITextGenerator;
\ No newline at end of file
+export default AITextGenerator;
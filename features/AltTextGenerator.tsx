@@ -0,0 +1,321 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ImageUploader } from '../components/ImageUploader';
+import { Button } from '../components/Button';
+import { BatchItemStatus } from '../components/BatchItemStatus';
+import { useSettings } from '../contexts/SettingsContext';
+import { useObjectUrls } from '../hooks/useObjectUrls';
+import { getAIProvider } from '../services';
+import type { ImageDescription } from '../services';
+import { descriptionsToCsv, descriptionsToJson, embedDescription, runDescribeBatch } from '../utils/altText';
+import type { DescribedImage } from '../utils/altText';
+import type { BatchItemState } from '../utils/imageBatch';
+import { downloadBlob, downloadImage, downloadZip } from '../utils/imageUtils';
+import { AIIcon, ArrowDownTrayIcon, ArrowUturnLeftIcon, PlusIcon, StopIcon, XMarkIcon } from '../components/icons';
+import type { FileWithPreview } from '../types';
+
+type DescriptionField = 'altText' | 'caption';
+
+interface AltTextItem {
+  file: FileWithPreview;
+  described: boolean;
+  altText: string;
+  caption: string;
+  keywords: string; // Comma separated while editing
+}
+
+// Screen readers commonly cut alt text off around this length
+const ALT_TEXT_LIMIT = 125;
+
+const toDescription = (item: AltTextItem): ImageDescription => ({
+  altText: item.altText.trim(),
+  caption: item.caption.trim(),
+  keywords: item.keywords.split(',').map(k => k.trim()).filter(Boolean),
+});
+
+const AltTextGenerator: React.FC = () => {
+  const [items, setItems] = useState<AltTextItem[]>([]);
+  const [context, setContext] = useState('');
+  const [requestsPerMinute, setRequestsPerMinute] = useState(10);
+  const [concurrency, setConcurrency] = useState(2);
+  const [descriptionField, setDescriptionField] = useState<DescriptionField>('altText');
+  const [batchItems, setBatchItems] = useState<Record<string, BatchItemState>>({});
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const objectUrls = useObjectUrls();
+  const { aiProvider } = useSettings();
+
+  // Stop queuing requests when the tool unmounts
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const described = items.filter(item => item.described);
+  const pending = items.filter(item => !item.described);
+  const states: BatchItemState[] = Object.values(batchItems);
+  const finishedCount = states.filter(state => state.status === 'done' || state.status === 'error').length;
+  const failedCount = states.filter(state => state.status === 'error').length;
+
+  const handleImageUpload = (files: File[]) => {
+    const newItems: AltTextItem[] = files.map(file => ({
+      file: Object.assign(file, {
+        preview: objectUrls.create(file),
+        id: `${file.name}-${file.lastModified}-${Math.random()}`,
+      }),
+      described: false,
+      altText: '',
+      caption: '',
+      keywords: '',
+    }));
+    setItems((prev: AltTextItem[]) => [...prev, ...newItems]);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      handleImageUpload(Array.from(e.target.files));
+    }
+  };
+
+  const updateItem = (id: string, update: Partial<AltTextItem>) => {
+    setItems((prev: AltTextItem[]) => prev.map(item => (item.file.id === id ? { ...item, ...update } : item)));
+  };
+
+  // Describes the images that have no text yet, or all of them again once every one has
+  const handleDescribe = async () => {
+    const targets = pending.length > 0 ? pending : items;
+    if (targets.length === 0) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setBatchItems({});
+    setIsProcessing(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await runDescribeBatch(targets.map(item => ({ id: item.file.id, file: item.file })), {
+        context: context.trim() || undefined,
+        concurrency,
+        requestsPerMinute,
+        signal: controller.signal,
+        onItemUpdate: (id, state) => setBatchItems((prev: Record<string, BatchItemState>) => ({ ...prev, [id]: state })),
+        onResult: (id, description) => updateItem(id, {
+          described: true,
+          altText: description.altText,
+          caption: description.caption,
+          keywords: description.keywords.join(', '),
+        }),
+      });
+    } catch (e: any) {
+      setError(e.message || 'An unknown error occurred.');
+    } finally {
+      controllerRef.current = null;
+      setIsProcessing(false);
+    }
+  };
+
+  const handleCancel = () => controllerRef.current?.abort();
+
+  const describedImages = (): DescribedImage[] => described.map(item => ({ filename: item.file.name, ...toDescription(item) }));
+
+  const handleExportCsv = () => {
+    downloadBlob(new Blob([descriptionsToCsv(describedImages())], { type: 'text/csv;charset=utf-8' }), 'image_descriptions.csv');
+  };
+
+  const handleExportJson = () => {
+    downloadBlob(new Blob([descriptionsToJson(describedImages())], { type: 'application/json' }), 'image_descriptions.json');
+  };
+
+  const handleDownloadImages = async () => {
+    if (described.length === 0) return;
+    setIsExporting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const files: Array<{ blob: Blob; filename: string }> = [];
+      for (const item of described) {
+        const blob = await embedDescription(item.file, toDescription(item), descriptionField);
+        if (blob) files.push({ blob, filename: item.file.name });
+      }
+      const skipped = described.length - files.length;
+      if (skipped > 0) {
+        setNotice(`${skipped} image(s) were left out: only JPG and PNG files can hold the description. Use the CSV or JSON export for those.`);
+      }
+      if (files.length === 1) {
+        downloadImage(files[0].blob, files[0].filename);
+      } else if (files.length > 1) {
+        await downloadZip(files, 'images_with_descriptions.zip');
+      }
+    } catch (e: any) {
+      setError(e.message || 'Failed to write the descriptions into the images.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    objectUrls.revoke(items.find(item => item.file.id === id)?.file.preview);
+    setItems((prev: AltTextItem[]) => prev.filter(item => item.file.id !== id));
+  };
+
+  const handleReset = () => {
+    controllerRef.current?.abort();
+    objectUrls.revokeAll();
+    setItems([]);
+    setBatchItems({});
+    setError(null);
+    setNotice(null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      <div className="lg:col-span-4 space-y-6">
+        <div className="bg-zinc-900 rounded-lg p-6 space-y-6 border border-zinc-800">
+          <h3 className="text-lg font-semibold text-white">Description Settings</h3>
+          <div>
+            <label htmlFor="alt-context" className="block text-sm font-medium text-gray-300 mb-2">Context</label>
+            <textarea
+              id="alt-context"
+              rows={3}
+              value={context}
+              onChange={(e) => setContext(e.target.value)}
+              className="custom-input text-sm resize-y"
+              placeholder="Optional, e.g. product photos for an outdoor gear shop, written in German"
+              disabled={isProcessing}
+            />
+          </div>
+          <div>
+            <label htmlFor="alt-rpm" className="flex justify-between text-sm font-medium text-gray-300 mb-2">
+              <span>Requests per Minute</span>
+              <span className="font-mono text-[#1DB954]">{requestsPerMinute}</span>
+            </label>
+            <input type="range" id="alt-rpm" min={1} max={60} step={1} value={requestsPerMinute} onChange={(e) => setRequestsPerMinute(parseInt(e.target.value, 10))} className="w-full range-slider" disabled={isProcessing} />
+            <p className="text-xs text-gray-500 mt-1">Keep this under your key's quota. Requests that still hit the limit are retried after a pause.</p>
+          </div>
+          <div>
+            <label htmlFor="alt-concurrency" className="flex justify-between text-sm font-medium text-gray-300 mb-2">
+              <span>Parallel Requests</span>
+              <span className="font-mono text-[#1DB954]">{concurrency}</span>
+            </label>
+            <input type="range" id="alt-concurrency" min={1} max={4} step={1} value={concurrency} onChange={(e) => setConcurrency(parseInt(e.target.value, 10))} className="w-full range-slider" disabled={isProcessing} />
+          </div>
+          <p className="text-xs text-gray-500">
+            Uses <span className="text-gray-300">{getAIProvider(aiProvider).name}</span>, chosen in "API Key Settings". Images are scaled down before they are sent.
+          </p>
+        </div>
+
+        <div className="bg-zinc-900 rounded-lg p-6 space-y-4 border border-zinc-800">
+          <h3 className="text-lg font-semibold text-white">Embed in Images</h3>
+          <div>
+            <span className="block text-sm font-medium text-gray-300 mb-2">Image Description</span>
+            <div className="flex rounded-lg overflow-hidden bg-zinc-800">
+              {([['altText', 'Alt Text'], ['caption', 'Caption']] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setDescriptionField(value)}
+                  className={`flex-1 px-3 py-2 text-sm font-semibold transition-colors ${descriptionField === value ? 'bg-[#1DB954] text-black' : 'text-gray-300 hover:bg-zinc-700'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Written to the EXIF and XMP description that photo apps and CMSs read. The alt text also goes into the IPTC alt text field, and the keywords into XMP. Only JPG and PNG files can hold it.
+          </p>
+        </div>
+
+        <div className="flex flex-col gap-4">
+          <Button onClick={handleDescribe} isLoading={isProcessing} icon={<AIIcon />} disabled={items.length === 0}>
+            {isProcessing
+              ? `Describing... (${finishedCount} of ${states.length})`
+              : pending.length > 0 ? `Describe ${pending.length} Image${pending.length === 1 ? '' : 's'}` : 'Describe All Again'}
+          </Button>
+          {isProcessing && (
+            <Button onClick={handleCancel} variant="outline" icon={<StopIcon />}>
+              Cancel
+            </Button>
+          )}
+          {!isProcessing && failedCount > 0 && (
+            <p className="text-sm text-red-400">{failedCount} image(s) could not be described. Run again to retry them.</p>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <Button onClick={handleExportCsv} variant="secondary" disabled={described.length === 0}>
+              CSV
+            </Button>
+            <Button onClick={handleExportJson} variant="secondary" disabled={described.length === 0}>
+              JSON
+            </Button>
+          </div>
+          <Button onClick={handleDownloadImages} variant="secondary" isLoading={isExporting} disabled={described.length === 0 || isProcessing} icon={<ArrowDownTrayIcon />}>
+            Download Images with Descriptions
+          </Button>
+          {notice && <p className="text-sm text-yellow-400">{notice}</p>}
+        </div>
+        <Button onClick={handleReset} variant="outline" icon={<ArrowUturnLeftIcon />} disabled={items.length === 0}>
+          Start Over
+        </Button>
+      </div>
+
+      <div className="lg:col-span-8 space-y-4">
+        <div className="bg-zinc-900 p-4 rounded-lg border border-zinc-800">
+          <h3 className="text-lg font-semibold text-white mb-4 px-2">Images</h3>
+          {items.length === 0 ? (
+            <div className="bg-black/50 p-2 rounded-lg flex items-center justify-center min-h-[40vh]">
+              <ImageUploader onFileSelect={handleImageUpload} multiple={true} accept="image/*" title="Upload images to describe" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {isProcessing && states.length > 0 && (
+                <div className="w-full bg-zinc-700 rounded-full h-2.5">
+                  <div className="bg-[#1DB954] h-2.5 rounded-full" style={{ width: `${(finishedCount / states.length) * 100}%`, transition: 'width 0.2s ease-in-out' }}></div>
+                </div>
+              )}
+              <div className="space-y-3 p-2 bg-black/50 rounded-lg max-h-[75vh] overflow-y-auto">
+                {items.map(item => (
+                  <div key={item.file.id} className="flex gap-4 bg-zinc-800/50 p-3 rounded-lg border border-zinc-700">
+                    <div className="relative w-28 h-28 flex-shrink-0 overflow-hidden rounded-md bg-black">
+                      <img src={item.file.preview} alt={item.altText || item.file.name} className="object-cover w-full h-full" loading="lazy" />
+                      <BatchItemStatus state={batchItems[item.file.id]} />
+                    </div>
+                    <div className="flex-1 min-w-0 space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-sm font-semibold text-gray-200 truncate" title={item.file.name}>{item.file.name}</p>
+                        <button onClick={() => handleRemove(item.file.id)} className="p-1 text-gray-500 hover:text-red-400 transition-colors" disabled={isProcessing} aria-label={`Remove ${item.file.name}`}>
+                          <XMarkIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <div>
+                        <label htmlFor={`alt-${item.file.id}`} className="flex justify-between text-xs text-gray-400 mb-1">
+                          <span>Alt Text</span>
+                          <span className={`font-mono ${item.altText.length > ALT_TEXT_LIMIT ? 'text-yellow-400' : ''}`}>{item.altText.length}/{ALT_TEXT_LIMIT}</span>
+                        </label>
+                        <input type="text" id={`alt-${item.file.id}`} value={item.altText} onChange={(e) => updateItem(item.file.id, { altText: e.target.value, described: true })} className="custom-input text-sm" />
+                      </div>
+                      <div>
+                        <label htmlFor={`caption-${item.file.id}`} className="block text-xs text-gray-400 mb-1">Caption</label>
+                        <textarea id={`caption-${item.file.id}`} rows={2} value={item.caption} onChange={(e) => updateItem(item.file.id, { caption: e.target.value, described: true })} className="custom-input text-sm resize-y" />
+                      </div>
+                      <div>
+                        <label htmlFor={`keywords-${item.file.id}`} className="block text-xs text-gray-400 mb-1">Keywords</label>
+                        <input type="text" id={`keywords-${item.file.id}`} value={item.keywords} onChange={(e) => updateItem(item.file.id, { keywords: e.target.value, described: true })} className="custom-input text-sm" placeholder="Comma separated" />
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                <label htmlFor="add-more-files-input" className="group flex items-center justify-center gap-2 p-4 rounded-lg border-2 border-dashed border-zinc-700 bg-zinc-800/50 text-gray-400 transition-colors hover:border-[#1DB954] hover:text-[#1DB954] cursor-pointer">
+                  <PlusIcon className="w-6 h-6" />
+                  <span className="text-sm font-semibold">Add More</span>
+                  <input id="add-more-files-input" type="file" className="sr-only" accept="image/*" multiple onChange={handleFileChange} disabled={isProcessing} />
+                </label>
+              </div>
+            </div>
+          )}
+        </div>
+        {error && (
+          <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-300 text-sm">{error}</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AltTextGenerator;
@@ -2,16 +2,28 @@ import React, { useState, useEffect } from 'react';
 import { useSettings } from '../contexts/SettingsContext';
 import { Button } from '../components/Button';
 import { CheckIcon } from '../components/icons';
+import { AI_PROVIDERS, DEFAULT_LOCAL_BASE_URL, getAIProvider } from '../services';
+import type { AIProviderId } from '../services';
 
 const ApiKeyManager: React.FC = () => {
   const { 
     // FIX: Removed Gemini key from settings context as it should come from environment variables.
     upscalerApiKey, setUpscalerApiKey,
-    bgRemoverApiKey, setBgRemoverApiKey
+    bgRemoverApiKey, setBgRemoverApiKey,
+    aiProvider, setAiProvider,
+    aiModels, setAiModel,
+    aiApiKeys, setAiApiKey,
+    localAiBaseUrl, setLocalAiBaseUrl,
+    localAiVisionModel, setLocalAiVisionModel
   } = useSettings();
 
   // FIX: Removed local state for Gemini key.
   const [localRapidApiKey, setLocalRapidApiKey] = useState('');
+  const [localAiProvider, setLocalAiProvider] = useState<AIProviderId>(aiProvider);
+  const [localAiModels, setLocalAiModels] = useState<Partial<Record<AIProviderId, string>>>(aiModels);
+  const [localAiKeys, setLocalAiKeys] = useState<Partial<Record<AIProviderId, string>>>(aiApiKeys);
+  const [localBaseUrl, setLocalBaseUrl] = useState(localAiBaseUrl);
+  const [localVisionModel, setLocalVisionModel] = useState(localAiVisionModel);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
 
   useEffect(() => {
@@ -19,12 +31,29 @@ const ApiKeyManager: React.FC = () => {
     setLocalRapidApiKey(bgRemoverApiKey || upscalerApiKey);
   }, [upscalerApiKey, bgRemoverApiKey]);
 
+  useEffect(() => {
+    setLocalAiProvider(aiProvider);
+    setLocalAiModels(aiModels);
+    setLocalAiKeys(aiApiKeys);
+    setLocalBaseUrl(localAiBaseUrl);
+    setLocalVisionModel(localAiVisionModel);
+  }, [aiProvider, aiModels, aiApiKeys, localAiBaseUrl, localAiVisionModel]);
+
+  const provider = getAIProvider(localAiProvider);
+
   const handleSave = () => {
     setSaveStatus('saving');
     // FIX: Removed saving of Gemini key.
     // Set both RapidAPI-dependent keys with the single value
     setUpscalerApiKey(localRapidApiKey);
     setBgRemoverApiKey(localRapidApiKey);
+    setAiProvider(localAiProvider);
+    AI_PROVIDERS.forEach(({ id }) => {
+      if (localAiModels[id] !== undefined) setAiModel(id, localAiModels[id]!);
+      if (localAiKeys[id] !== undefined) setAiApiKey(id, localAiKeys[id]!);
+    });
+    setLocalAiBaseUrl(localBaseUrl.trim());
+    setLocalAiVisionModel(localVisionModel.trim());
     setTimeout(() => {
       setSaveStatus('saved');
       setTimeout(() => setSaveStatus('idle'), 1500);
@@ -59,15 +88,115 @@ const ApiKeyManager: React.FC = () => {
           API Key Settings
         </h2>
         <p className="mt-4 text-lg leading-8 text-gray-400">
-          Manage keys for AI features. Keys are stored locally in your browser. The Google Gemini key is configured centrally.
+          Choose the AI provider and manage keys for AI features. Keys are stored locally in your browser. The Google Gemini key is configured centrally.
         </p>
       </div>
 
       <div className="space-y-6">
+        <div className="bg-zinc-900 p-6 rounded-lg border border-zinc-800 space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold text-[#1DB954]">AI Provider</h3>
+            <p className="text-sm text-gray-400 mt-1">Used by: AI Text Generator, Meme Generator captions & HTML to Image.</p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="ai-provider" className="block text-sm font-medium text-gray-300 mb-2">Provider</label>
+              <select id="ai-provider" value={localAiProvider} onChange={(e) => setLocalAiProvider(e.target.value as AIProviderId)} className="custom-input">
+                {AI_PROVIDERS.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="ai-model" className="block text-sm font-medium text-gray-300 mb-2">Model</label>
+              {provider.customEndpoint ? (
+                <>
+                  <input
+                    type="text"
+                    id="ai-model"
+                    list="ai-model-suggestions"
+                    value={localAiModels[provider.id] ?? ''}
+                    onChange={(e) => setLocalAiModels((prev: Partial<Record<AIProviderId, string>>) => ({ ...prev, [provider.id]: e.target.value }))}
+                    placeholder={provider.models[0]}
+                    className="custom-input"
+                  />
+                  <datalist id="ai-model-suggestions">
+                    {provider.models.map((model) => <option key={model} value={model} />)}
+                  </datalist>
+                </>
+              ) : (
+                <select
+                  id="ai-model"
+                  value={localAiModels[provider.id] || provider.models[0]}
+                  onChange={(e) => setLocalAiModels((prev: Partial<Record<AIProviderId, string>>) => ({ ...prev, [provider.id]: e.target.value }))}
+                  className="custom-input"
+                >
+                  {provider.models.map((model) => <option key={model} value={model}>{model}</option>)}
+                </select>
+              )}
+            </div>
+          </div>
+          {provider.customEndpoint && (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="ai-base-url" className="block text-sm font-medium text-gray-300 mb-2">Base URL</label>
+                  <input
+                    type="url"
+                    id="ai-base-url"
+                    value={localBaseUrl}
+                    onChange={(e) => setLocalBaseUrl(e.target.value)}
+                    placeholder={DEFAULT_LOCAL_BASE_URL}
+                    className="custom-input"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="ai-vision-model" className="block text-sm font-medium text-gray-300 mb-2">Vision Model <span className="text-gray-500">(optional)</span></label>
+                  <input
+                    type="text"
+                    id="ai-vision-model"
+                    value={localVisionModel}
+                    onChange={(e) => setLocalVisionModel(e.target.value)}
+                    placeholder="e.g. llava, qwen2.5vl"
+                    className="custom-input"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                Any server with an OpenAI-compatible API works: Ollama (<code>http://localhost:11434/v1</code>), llama.cpp server (<code>http://localhost:8080/v1</code>) or LM Studio (<code>http://localhost:1234/v1</code>).
+                The vision model is used for image captions when your main model can't read images. The server must allow requests from this page; for Ollama, set <code>OLLAMA_ORIGINS</code>.
+              </p>
+            </>
+          )}
+          {provider.requiresApiKey || provider.customEndpoint ? (
+            <div>
+              <label htmlFor="ai-provider-key" className="block text-sm font-medium text-gray-300 mb-2">{provider.customEndpoint ? <>API Key <span className="text-gray-500">(optional)</span></> : `${provider.name} API Key`}</label>
+              <input
+                type="password"
+                id="ai-provider-key"
+                value={localAiKeys[provider.id] || ''}
+                onChange={(e) => setLocalAiKeys((prev: Partial<Record<AIProviderId, string>>) => ({ ...prev, [provider.id]: e.target.value }))}
+                placeholder={provider.customEndpoint ? 'Only if your server requires one' : `Enter your ${provider.name} API key`}
+                className="custom-input"
+              />
+              {provider.apiKeyUrl && (
+                <p className="text-xs text-gray-500 mt-2">Get a key from <a href={provider.apiKeyUrl} target="_blank" rel="noopener noreferrer" className="underline hover:text-[#1DB954]">{provider.name}</a>. Requests go straight from your browser to {provider.name}.</p>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500">The {provider.name} key is configured centrally, no key needed.</p>
+          )}
+          {!provider.generateImage && (
+            <p className="text-xs text-gray-500">
+              {provider.customEndpoint
+                ? "A local endpoint can't generate images, so HTML to Image only writes the description."
+                : `${provider.name} can't generate images, so HTML to Image uses Google Gemini for that step.`}
+            </p>
+          )}
+        </div>
+
         {/* FIX: Removed ApiCard for Google Gemini to comply with API key guidelines. */}
         <ApiCard
           title="RapidAPI Key"
-          description="One key for: Background Remover, Upscaler, Image Sharpening & Face Blur."
+          description="One key for: Background Remover, Upscaler & Image Sharpening."
           link="https://rapidapi.com/hub"
           linkText="RapidAPI Hub"
           value={localRapidApiKey}
@@ -0,0 +1,284 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ImageUploader } from '../components/ImageUploader';
+import { Button } from '../components/Button';
+import { HistoryPanel } from '../components/HistoryPanel';
+import { RegionOverlay } from '../components/RegionOverlay';
+import type { OverlayRegion } from '../components/RegionOverlay';
+import { downloadImage } from '../utils/imageUtils';
+import { detectFaces, isFaceDetectionSupported } from '../utils/faceDetection';
+import { decodeImage, drawToCanvas, encodeImage, mimeTypeToFormat, redact } from '../core';
+import type { PixelBuffer, Rect, RedactMode, RedactShape } from '../core';
+import { useHistory } from '../hooks/useHistory';
+import { useUndoShortcuts } from '../hooks/useUndoShortcuts';
+import { ArrowDownTrayIcon, ArrowUturnLeftIcon, MagnifyingGlassIcon, TrashIcon } from '../components/icons';
+
+interface BlurState {
+  regions: OverlayRegion[];
+  mode: RedactMode;
+  strength: number;
+  shape: RedactShape;
+}
+
+const DEFAULT_STATE: BlurState = {
+  regions: [],
+  mode: 'blur',
+  strength: 50,
+  shape: 'ellipse',
+};
+
+const MODE_LABELS: Record<RedactMode, string> = {
+  blur: 'Blur',
+  pixelate: 'Pixelate',
+  fill: 'Black Out',
+};
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+const BlurFace: React.FC = () => {
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [source, setSource] = useState<PixelBuffer | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [padding, setPadding] = useState(20); // Percent added around detected faces
+  const [showOutlines, setShowOutlines] = useState(true);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const canDetect = isFaceDetectionSupported();
+
+  // Regions and effect settings, with undo/redo
+  const history = useHistory<BlurState>(DEFAULT_STATE);
+  const { regions, mode, strength, shape } = history.state;
+
+  const update = (patch: Partial<BlurState>, label: string, mergeKey?: string) => {
+    history.push({ ...history.state, ...patch }, label, mergeKey);
+  };
+
+  useUndoShortcuts(history, !!source);
+
+  const redactOptions = { mode, strength };
+  const toRedactRegions = (list: OverlayRegion[]) => list.map(({ x, y, width, height }) => ({ x, y, width, height, shape }));
+
+  // The preview is rendered at full resolution so it shows exactly what will be exported
+  useEffect(() => {
+    if (!source || !canvasRef.current) return;
+    const frame = requestAnimationFrame(() => {
+      if (canvasRef.current) drawToCanvas(canvasRef.current, redact(source, toRedactRegions(regions), redactOptions));
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [source, regions, mode, strength, shape]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Delete' && e.key !== 'Backspace') return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      e.preventDefault();
+      removeRegion(selectedId);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleImageUpload = async (files: File[]) => {
+    if (files.length === 0) return;
+    const file = files[0];
+    setError(null);
+    setNotice(null);
+    try {
+      setSource(await decodeImage(file));
+      setImageFile(file);
+      history.reset(DEFAULT_STATE);
+      setSelectedId(null);
+    } catch (err) {
+      console.error(err);
+      setError('Could not load this image. Please try a different file.');
+    }
+  };
+
+  const handleDetect = async () => {
+    if (!source) return;
+    setIsDetecting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const faces = await detectFaces(source, { padding: padding / 100 });
+      if (faces.length === 0) {
+        setNotice('No faces were found. Drag on the image to cover them by hand.');
+        return;
+      }
+      update({ regions: [...regions, ...faces.map((rect) => ({ ...rect, id: createId() }))] }, `Detect ${faces.length} face${faces.length === 1 ? '' : 's'}`);
+      setNotice(`Found ${faces.length} face${faces.length === 1 ? '' : 's'}. Check the result and add boxes for any that were missed.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Face detection failed.');
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const addRegion = (rect: Rect) => {
+    const region = { ...rect, id: createId() };
+    update({ regions: [...regions, region] }, 'Add region');
+    setSelectedId(region.id);
+  };
+
+  const moveRegion = (id: string, rect: Rect) => {
+    update({ regions: regions.map((region) => (region.id === id ? { ...rect, id } : region)) }, 'Move region');
+  };
+
+  const removeRegion = (id: string) => {
+    update({ regions: regions.filter((region) => region.id !== id) }, 'Remove region');
+    setSelectedId(null);
+  };
+
+  const handleDownload = async () => {
+    if (!source || !imageFile) return;
+    setIsProcessing(true);
+    try {
+      const result = redact(source, toRedactRegions(regions), redactOptions);
+      const blob = await encodeImage(result, { format: mimeTypeToFormat(imageFile.type), quality: 0.92 });
+      downloadImage(blob, `blurred_${imageFile.name}`);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to export the image.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleReset = () => {
+    setImageFile(null);
+    setSource(null);
+    setSelectedId(null);
+    setError(null);
+    setNotice(null);
+    history.reset(DEFAULT_STATE);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      <div className="lg:col-span-4 space-y-6">
+        <div className="bg-zinc-900 rounded-lg p-6 space-y-6 border border-zinc-800">
+          <h3 className="text-lg font-semibold text-white">Find Faces</h3>
+          {canDetect ? (
+            <>
+              <div>
+                <label htmlFor="padding-slider" className="flex justify-between text-sm font-medium text-gray-300 mb-2">
+                  <span>Box Padding</span>
+                  <span className="font-mono text-[#1DB954]">{padding}%</span>
+                </label>
+                <input type="range" id="padding-slider" min="0" max="60" step="5" value={padding} onChange={(e) => setPadding(parseInt(e.target.value, 10))} className="w-full range-slider" disabled={!source} />
+              </div>
+              <Button onClick={handleDetect} isLoading={isDetecting} icon={<MagnifyingGlassIcon />} disabled={!source}>
+                Detect Faces
+              </Button>
+            </>
+          ) : (
+            <p className="text-sm text-gray-400">
+              Automatic face detection isn't available in this browser. Drag on the image to draw a box over each face.
+            </p>
+          )}
+          <p className="text-xs text-gray-500">Everything runs on your device. Your photo is never uploaded.</p>
+        </div>
+
+        <div className="bg-zinc-900 rounded-lg p-6 space-y-6 border border-zinc-800">
+          <h3 className="text-lg font-semibold text-white">Effect</h3>
+          <div className="flex rounded-lg overflow-hidden bg-zinc-800">
+            {(Object.keys(MODE_LABELS) as RedactMode[]).map((value) => (
+              <button
+                key={value}
+                className={`flex-1 py-2 px-3 text-sm font-medium transition-colors ${
+                  mode === value ? 'bg-[#1DB954] text-black' : 'text-gray-300 hover:bg-zinc-700'
+                } disabled:opacity-50`}
+                onClick={() => update({ mode: value }, MODE_LABELS[value])}
+                disabled={!source}
+              >
+                {MODE_LABELS[value]}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label htmlFor="strength-slider" className="flex justify-between text-sm font-medium text-gray-300 mb-2">
+              <span>Strength</span>
+              <span className="font-mono text-[#1DB954]">{mode === 'fill' ? '—' : strength}</span>
+            </label>
+            <input type="range" id="strength-slider" min="1" max="100" step="1" value={strength} onChange={(e) => update({ strength: parseInt(e.target.value, 10) }, 'Strength', 'strength')} className="w-full range-slider" disabled={!source || mode === 'fill'} />
+          </div>
+
+          <div>
+            <label htmlFor="shape-select" className="block text-sm font-medium text-gray-300 mb-2">Shape</label>
+            <select id="shape-select" value={shape} onChange={(e) => update({ shape: e.target.value as RedactShape }, e.target.value === 'ellipse' ? 'Ellipse' : 'Rectangle')} className="custom-input" disabled={!source}>
+              <option value="ellipse">Ellipse</option>
+              <option value="rect">Rectangle</option>
+            </select>
+          </div>
+
+          <div className="flex items-center pt-4 border-t border-zinc-800">
+            <input id="show-outlines" type="checkbox" checked={showOutlines} onChange={(e) => setShowOutlines(e.target.checked)} className="h-4 w-4 rounded border-zinc-600 bg-zinc-700 text-[#1DB954] focus:ring-[#1DB954]" disabled={!source} />
+            <label htmlFor="show-outlines" className="ml-3 block text-sm font-medium text-gray-300">Show Region Outlines</label>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-400">{regions.length} region{regions.length === 1 ? '' : 's'}</span>
+            <button
+              onClick={() => { update({ regions: [] }, 'Clear regions'); setSelectedId(null); }}
+              disabled={regions.length === 0}
+              className="flex items-center gap-2 text-sm text-gray-400 hover:text-red-400 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <TrashIcon /> Clear All
+            </button>
+          </div>
+        </div>
+
+        {source && <HistoryPanel history={history} />}
+
+        <div className="flex flex-col gap-4">
+          <Button onClick={handleDownload} isLoading={isProcessing} variant="secondary" disabled={!source || regions.length === 0} icon={<ArrowDownTrayIcon />}>
+            Download Image
+          </Button>
+          <p className="text-xs text-gray-500 -mt-2">Metadata such as GPS location is removed from the download.</p>
+          <Button onClick={handleReset} variant="outline" icon={<ArrowUturnLeftIcon />} disabled={!imageFile}>
+            Start Over
+          </Button>
+        </div>
+      </div>
+
+      <div className="lg:col-span-8 space-y-4">
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/20 text-red-300 p-4 rounded-lg text-sm">{error}</div>
+        )}
+        {notice && !error && (
+          <div className="bg-zinc-800 border border-zinc-700 text-gray-300 p-4 rounded-lg text-sm">{notice}</div>
+        )}
+        <div className="bg-zinc-900 p-4 rounded-lg border border-zinc-800 sticky top-24">
+          <div className="bg-black/50 p-2 rounded-lg flex items-center justify-center min-h-[40vh] overflow-hidden">
+            {!source ? (
+              <ImageUploader onFileSelect={handleImageUpload} multiple={false} accept="image/*" />
+            ) : (
+              <div className="relative inline-block">
+                <canvas ref={canvasRef} className="block max-w-full max-h-[70vh] rounded-md" />
+                <RegionOverlay
+                  imageWidth={source.width}
+                  imageHeight={source.height}
+                  regions={regions}
+                  selectedId={selectedId}
+                  onSelect={setSelectedId}
+                  onAdd={addRegion}
+                  onMove={moveRegion}
+                  onRemove={removeRegion}
+                  ellipse={shape === 'ellipse'}
+                  showOutlines={showOutlines}
+                />
+              </div>
+            )}
+          </div>
+          {source && <p className="text-xs text-gray-500 mt-3 text-center">Drag to draw a box, drag a box to move it, select one and press Delete to remove it.</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BlurFace;
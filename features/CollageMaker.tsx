@@ -1,12 +1,15 @@
 
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback } from 'react';
 import { ImageUploader } from '../components/ImageUploader';
 import { Button } from '../components/Button';
-import { downloadImage, loadImageAsDataURLAndDimensions } from '../utils/imageUtils';
+import { downloadImage, getImageDimensions } from '../utils/imageUtils';
+import { useBlobUrl, useObjectUrls } from '../hooks/useObjectUrls';
+import { useDragReorder } from '../hooks/useDragReorder';
 import { ArrowDownTrayIcon, ArrowUturnLeftIcon, CollageIcon, XMarkIcon, PlusIcon } from '../components/icons';
 import type { FileWithPreview } from '../types';
 import { ColorPicker } from '../components/ColorPicker'; // Import new ColorPicker
+import { collage, decodeImage, encodeImage, parseHexColor } from '../core';
 
 const MAX_IMAGES = 10;
 const DEFAULT_COLS = 2;
@@ -19,7 +22,9 @@ type BorderTemplate = 'none' | 'grid' | 'rounded';
 
 const CollageMaker: React.FC = () => {
   const [imageFiles, setImageFiles] = useState<FileWithPreview[]>([]);
-  const [collageUrl, setCollageUrl] = useState<string | null>(null);
+  const [collageBlob, setCollageBlob] = useState<Blob | null>(null);
+  const collageUrl = useBlobUrl(collageBlob);
+  const objectUrls = useObjectUrls();
   const [cols, setCols] = useState(DEFAULT_COLS);
   const [rows, setRows] = useState(DEFAULT_ROWS);
   const [borderWidth, setBorderWidth] = useState(DEFAULT_BORDER_WIDTH);
@@ -27,21 +32,12 @@ const CollageMaker: React.FC = () => {
   const [borderTemplate, setBorderTemplate] = useState<BorderTemplate>(DEFAULT_BORDER_TEMPLATE);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
 
-  // For drag and drop reordering
-  const dragItem = useRef<number | null>(null);
-  const dragOverItem = useRef<number | null>(null);
-
-  useEffect(() => {
-    // Revoke old object URLs when component unmounts or imageFiles change
-    return () => {
-      imageFiles.forEach(file => URL.revokeObjectURL(file.preview));
-      if (collageUrl) {
-        URL.revokeObjectURL(collageUrl);
-      }
-    };
-  }, [imageFiles, collageUrl]);
+  const handleReorder = useCallback((reordered: FileWithPreview[]) => {
+    setImageFiles(reordered);
+    setCollageBlob(null); // Clear generated collage on reorder
+  }, []);
+  const { containerProps, itemProps, draggingIndex, dragOverIndex } = useDragReorder(imageFiles, handleReorder);
 
   const handleImagesUpload = async (files: File[]) => {
     setError(null);
@@ -54,76 +50,36 @@ const CollageMaker: React.FC = () => {
     const newFilesWithPreviews: FileWithPreview[] = [];
     for (const file of files) {
       try {
-        const { dataUrl, width, height } = await loadImageAsDataURLAndDimensions(file);
+        const { width, height, orientation } = await getImageDimensions(file);
         newFilesWithPreviews.push(Object.assign(file, {
-          preview: dataUrl,
-          id: URL.createObjectURL(file), // Use blob URL as unique ID for preview
+          preview: objectUrls.create(file),
+          id: `${file.name}-${file.lastModified}-${Math.random()}`,
           width,
           height,
+          orientation,
         }));
       } catch (e: any) {
         setError(e.message || `Failed to load image preview or dimensions for ${file.name}.`);
       }
     }
     setImageFiles(prev => [...prev, ...newFilesWithPreviews]);
-    setCollageUrl(null); // Clear previous collage on new uploads
+    setCollageBlob(null); // Clear previous collage on new uploads
     setIsProcessing(false);
   };
 
   const handleRemoveImage = (idToRemove: string) => {
+    objectUrls.revoke(imageFiles.find(file => file.id === idToRemove)?.preview);
     setImageFiles(prev => {
       const updatedFiles = prev.filter(file => file.id !== idToRemove);
       if (prev.length !== updatedFiles.length) {
         // Only clear collage if an image was actually removed
-        setCollageUrl(null);
+        setCollageBlob(null);
       }
       return updatedFiles;
     });
     setError(null);
   };
 
-  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, index: number) => {
-    dragItem.current = index;
-    e.dataTransfer.effectAllowed = "move";
-    e.dataTransfer.setData("text/plain", index.toString());
-  };
-
-  const handleDragEnter = (e: React.DragEvent<HTMLDivElement>, index: number) => {
-    dragOverItem.current = index;
-  };
-
-  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
-    // No visual feedback on leave, handled by handleDragEnd
-  };
-
-  const handleDragEnd = (e: React.DragEvent<HTMLDivElement>) => {
-    // Clean up any lingering drag-over styles - not strictly needed with simple swap
-  };
-
-  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    const draggedIndex = dragItem.current;
-    const droppedIndex = dragOverItem.current;
-
-    if (draggedIndex === null || droppedIndex === null || draggedIndex === droppedIndex) {
-      return;
-    }
-
-    const newImageFiles = [...imageFiles];
-    const [reorderedItem] = newImageFiles.splice(draggedIndex, 1);
-    newImageFiles.splice(droppedIndex, 0, reorderedItem);
-
-    setImageFiles(newImageFiles);
-    dragItem.current = null;
-    dragOverItem.current = null;
-    setCollageUrl(null); // Clear generated collage on reorder
-  };
-
-  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    e.dataTransfer.dropEffect = "move";
-  };
-  
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
         handleImagesUpload(Array.from(e.target.files));
@@ -147,84 +103,20 @@ const CollageMaker: React.FC = () => {
 
     setIsProcessing(true);
     setError(null);
-    setCollageUrl(null);
+    setCollageBlob(null);
 
     try {
-      const canvas = canvasRef.current;
-      if (!canvas) throw new Error('Canvas element not found.');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) throw new Error('Failed to get 2D rendering context.');
-
-      const effectiveBorderWidth = borderTemplate === 'none' ? 0 : borderWidth;
-      const TARGET_CELL_SIZE = 500;
-      const cellWidth = TARGET_CELL_SIZE;
-      const cellHeight = TARGET_CELL_SIZE;
-      
-      // Dynamically calculate the number of rows needed to display all images
-      const renderRows = Math.ceil(imageFiles.length / cols);
-
-      canvas.width = cols * cellWidth + (cols + 1) * effectiveBorderWidth;
-      canvas.height = renderRows * cellHeight + (renderRows + 1) * effectiveBorderWidth;
-
-      ctx.fillStyle = borderColor;
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-      let imageIndex = 0;
-      for (let r = 0; r < renderRows; r++) {
-        for (let c = 0; c < cols; c++) {
-          if (imageIndex >= imageFiles.length) break;
-
-          const file = imageFiles[imageIndex];
-          const img = new Image();
-          img.src = file.preview;
-
-          await new Promise<void>((resolve, reject) => {
-            img.onload = () => resolve();
-            img.onerror = reject;
-          });
-
-          const dx = effectiveBorderWidth + c * (cellWidth + effectiveBorderWidth);
-          const dy = effectiveBorderWidth + r * (cellHeight + effectiveBorderWidth);
-
-          ctx.save();
-          
-          if (borderTemplate === 'rounded') {
-            const cornerRadius = Math.min(cellWidth, cellHeight) * 0.1; // 10% of smallest dimension
-            ctx.beginPath();
-            ctx.moveTo(dx + cornerRadius, dy);
-            ctx.lineTo(dx + cellWidth - cornerRadius, dy);
-            ctx.quadraticCurveTo(dx + cellWidth, dy, dx + cellWidth, dy + cornerRadius);
-            ctx.lineTo(dx + cellWidth, dy + cellHeight - cornerRadius);
-            ctx.quadraticCurveTo(dx + cellWidth, dy + cellHeight, dx + cellWidth - cornerRadius, dy + cellHeight);
-            ctx.lineTo(dx + cornerRadius, dy + cellHeight);
-            ctx.quadraticCurveTo(dx, dy + cellHeight, dx, dy + cellHeight - cornerRadius);
-            ctx.lineTo(dx, dy + cornerRadius);
-            ctx.quadraticCurveTo(dx, dy, dx + cornerRadius, dy);
-            ctx.closePath();
-            ctx.clip();
-          }
-
-          const cellAspectRatio = cellWidth / cellHeight;
-          const imgAspectRatio = img.naturalWidth / img.naturalHeight;
-          
-          let sx = 0, sy = 0, sWidth = img.naturalWidth, sHeight = img.naturalHeight;
-
-          if (imgAspectRatio > cellAspectRatio) {
-            sWidth = img.naturalHeight * cellAspectRatio;
-            sx = (img.naturalWidth - sWidth) / 2;
-          } else {
-            sHeight = img.naturalWidth / cellAspectRatio;
-            sy = (img.naturalHeight - sHeight) / 2;
-          }
+      const background = parseHexColor(borderColor);
+      if (!background) throw new Error('Invalid border color format.');
 
-          ctx.drawImage(img, sx, sy, sWidth, sHeight, dx, dy, cellWidth, cellHeight);
-          ctx.restore();
-          imageIndex++;
-        }
-        if (imageIndex >= imageFiles.length) break;
+      const loadedImages = [];
+      for (const file of imageFiles) {
+        loadedImages.push(await decodeImage(file));
       }
 
-      setCollageUrl(canvas.toDataURL('image/jpeg', 0.9));
+      // Rows are added as needed to fit every image into the chosen number of columns
+      const result = collage(loadedImages, { cols, border: borderTemplate, borderWidth, borderColor: background });
+      setCollageBlob(await encodeImage(result, { format: 'jpeg', quality: 0.9 }));
     } catch (e: any) {
       console.error('Error generating collage:', e);
       setError(e.message || 'Failed to generate collage. Ensure all images are valid.');
@@ -234,14 +126,15 @@ const CollageMaker: React.FC = () => {
   }, [imageFiles, rows, cols, borderWidth, borderColor, borderTemplate]);
 
   const handleDownloadCollage = () => {
-    if (collageUrl) {
-      downloadImage(collageUrl, 'image_collage.jpeg');
+    if (collageBlob) {
+      downloadImage(collageBlob, 'image_collage.jpeg');
     }
   };
 
   const handleReset = () => {
+    objectUrls.revokeAll();
     setImageFiles([]);
-    setCollageUrl(null);
+    setCollageBlob(null);
     setCols(DEFAULT_COLS);
     setRows(DEFAULT_ROWS);
     setBorderWidth(DEFAULT_BORDER_WIDTH);
@@ -395,20 +288,15 @@ const CollageMaker: React.FC = () => {
               </p>
               <div
                 className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-4 p-2 bg-gray-900/50 rounded-lg mb-6"
-                onDrop={handleDrop}
-                onDragOver={handleDragOver}
+                {...containerProps}
               >
                 {imageFiles.map((file, index) => (
                   <div
                     key={file.id}
-                    draggable
-                    onDragStart={(e) => handleDragStart(e, index)}
-                    onDragEnter={(e) => handleDragEnter(e, index)}
-                    onDragLeave={handleDragLeave}
-                    onDragEnd={handleDragEnd}
+                    {...itemProps(index)}
                     className={`relative group aspect-square w-full overflow-hidden rounded-lg border-2 border-gray-700 transition-all duration-200 
-                                  ${dragItem.current === index ? 'opacity-50 border-teal-500' : ''}
-                                  ${dragOverItem.current === index && dragItem.current !== index ? 'border-teal-400' : ''}`}
+                                  ${draggingIndex === index ? 'opacity-50 border-teal-500' : ''}
+                                  ${dragOverIndex === index && draggingIndex !== index ? 'border-teal-400' : ''}`}
                   >
                     <img
                       src={file.preview}
@@ -468,7 +356,6 @@ const CollageMaker: React.FC = () => {
                   Click "Generate Collage" to see a preview.
                 </div>
               )}
-              <canvas ref={canvasRef} className="hidden" />
             </>
           )}
         </div>
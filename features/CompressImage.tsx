@@ -1,41 +1,49 @@
 import React, { useState, useCallback } from 'react';
 import { ImageUploader } from '../components/ImageUploader';
 import { Button } from '../components/Button';
-import { downloadZip, dataURLToBlob, loadImageAsDataURLAndDimensions } from '../utils/imageUtils';
-import { ArrowDownTrayIcon, ArrowUturnLeftIcon, CompressIcon, XMarkIcon, PlusIcon } from '../components/icons';
+import { BatchItemStatus } from '../components/BatchItemStatus';
+import { MetadataPolicySelect } from '../components/MetadataPolicySelect';
+import { downloadZip } from '../utils/imageUtils';
+import { useImageBatch } from '../hooks/useImageBatch';
+import { useObjectUrls } from '../hooks/useObjectUrls';
+import { ArrowDownTrayIcon, ArrowUturnLeftIcon, CompressIcon, XMarkIcon, PlusIcon, StopIcon } from '../components/icons';
 import type { FileWithPreview } from '../types';
+import type { MetadataPolicy } from '../core';
+import { useQueryState } from '../contexts/RouterContext';
 
 type TargetFormat = 'jpeg' | 'webp' | 'png';
+type CompressionMode = 'quality' | 'targetSize';
 
 interface CompressedResult {
   id: string;
   originalFilename: string;
-  dataUrl: string;
+  blob: Blob;
   originalSize: number;
   compressedSize: number;
+  quality?: number; // Chosen quality, absent for PNG
+  width: number;
+  height: number;
+  metTarget: boolean; // Always true in quality mode
+  targetSizeKb?: number; // The target the run aimed for, absent in quality mode
 }
 
 const CompressImage: React.FC = () => {
   const [imageFiles, setImageFiles] = useState<FileWithPreview[]>([]);
   const [compressedResults, setCompressedResults] = useState<CompressedResult[]>([]);
-  const [quality, setQuality] = useState(0.8);
-  const [targetFormat, setTargetFormat] = useState<TargetFormat>('jpeg');
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [quality, setQuality] = useQueryState('quality', 0.8);
+  const [targetFormat, setTargetFormat] = useQueryState<TargetFormat>('format', 'jpeg', { allowed: ['jpeg', 'webp', 'png'] });
+  const [mode, setMode] = useQueryState<CompressionMode>('mode', 'quality', { allowed: ['quality', 'targetSize'] });
+  const [targetSizeKb, setTargetSizeKb] = useQueryState('target', 200); // In KB
+  const [allowDownscale, setAllowDownscale] = useQueryState('downscale', true);
+  const [metadataPolicy, setMetadataPolicy] = useState<MetadataPolicy>('copyright');
+  const { run, cancel, reset: resetBatch, items: batchItems, isProcessing, progress, failedCount } = useImageBatch();
+  const objectUrls = useObjectUrls();
 
-  const handleImageUpload = async (files: File[]) => {
-    const newFiles: FileWithPreview[] = [];
-    for (const file of files) {
-      try {
-        const { dataUrl } = await loadImageAsDataURLAndDimensions(file);
-        newFiles.push(Object.assign(file, {
-          preview: dataUrl,
-          id: `${file.name}-${file.lastModified}-${Math.random()}`,
-        }));
-      } catch (error) {
-        console.error("Failed to load image preview:", error);
-      }
-    }
+  const handleImageUpload = (files: File[]) => {
+    const newFiles: FileWithPreview[] = files.map(file => Object.assign(file, {
+      preview: objectUrls.create(file),
+      id: `${file.name}-${file.lastModified}-${Math.random()}`,
+    }));
     setImageFiles(prev => [...prev, ...newFiles]);
     setCompressedResults([]);
   };
@@ -43,51 +51,46 @@ const CompressImage: React.FC = () => {
   const performCompression = useCallback(async () => {
     if (imageFiles.length === 0) return;
 
-    setIsProcessing(true);
     setCompressedResults([]);
-    setProgress(0);
+    // Kept with the results, so the summary still names the target this run used after the input changes
+    const runTargetSizeKb = mode === 'targetSize' ? targetSizeKb : undefined;
 
-    const results: CompressedResult[] = [];
-    for (let i = 0; i < imageFiles.length; i++) {
-        const file = imageFiles[i];
-        const img = new Image();
-        img.src = file.preview;
-        
-        await new Promise(resolve => { img.onload = resolve; });
+    const batchResults = await run(imageFiles.map(file => ({
+        id: file.id,
+        file,
+        format: targetFormat,
+        quality,
+        targetSize: runTargetSizeKb !== undefined ? { maxBytes: runTargetSizeKb * 1024, allowDownscale } : undefined,
+        metadata: metadataPolicy,
+    })));
 
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) continue;
-        
-        canvas.width = img.naturalWidth;
-        canvas.height = img.naturalHeight;
-        ctx.drawImage(img, 0, 0);
-        
-        const mimeType = `image/${targetFormat}`;
-        const dataUrl = canvas.toDataURL(mimeType, quality);
-        const blob = dataURLToBlob(dataUrl);
-        
+    const results: CompressedResult[] = [];
+    for (const result of batchResults) {
+        const file = imageFiles.find(f => f.id === result.id);
+        if (!file) continue;
         results.push({
             id: file.id,
             originalFilename: file.name,
-            dataUrl,
+            blob: result.blob,
             originalSize: file.size,
-            compressedSize: blob.size,
+            compressedSize: result.blob.size,
+            quality: result.quality,
+            width: result.width,
+            height: result.height,
+            metTarget: result.metTarget ?? true,
+            targetSizeKb: runTargetSizeKb,
         });
-        
-        setProgress(((i + 1) / imageFiles.length) * 100);
     }
 
     setCompressedResults(results);
-    setIsProcessing(false);
-  }, [imageFiles, quality, targetFormat]);
+  }, [imageFiles, quality, targetFormat, mode, targetSizeKb, allowDownscale, metadataPolicy, run]);
   
   const handleDownload = async () => {
     if (compressedResults.length === 0) return;
     const filesToZip = compressedResults.map(result => {
         const originalName = result.originalFilename.substring(0, result.originalFilename.lastIndexOf('.'));
         return {
-            dataUrl: result.dataUrl,
+            blob: result.blob,
             filename: `compressed_${originalName}.${targetFormat}`
         };
     });
@@ -95,19 +98,22 @@ const CompressImage: React.FC = () => {
   };
   
   const handleRemoveImage = (idToRemove: string) => {
+    objectUrls.revoke(imageFiles.find(file => file.id === idToRemove)?.preview);
     setImageFiles(prev => prev.filter(file => file.id !== idToRemove));
     setCompressedResults([]);
   };
 
   const handleReset = () => {
+      resetBatch();
+      objectUrls.revokeAll();
       setImageFiles([]);
       setCompressedResults([]);
-      setIsProcessing(false);
-      setProgress(0);
   };
   
   const totalOriginalSize = compressedResults.reduce((acc, r) => acc + r.originalSize, 0);
   const totalCompressedSize = compressedResults.reduce((acc, r) => acc + r.compressedSize, 0);
+  const overTargetResults = compressedResults.filter(r => !r.metTarget);
+  const resultsById = new Map<string, CompressedResult>(compressedResults.map((r: CompressedResult) => [r.id, r]));
   
   const formatBytes = (bytes: number, decimals = 2) => {
     if (bytes === 0) return '0 Bytes';
@@ -138,9 +144,58 @@ const CompressImage: React.FC = () => {
               </select>
               <p className="text-xs text-gray-500 mt-1">{targetFormat === 'png' ? 'PNG is lossless but larger. For max compression, use JPG or WEBP.' : 'JPG and WEBP offer better compression.'}</p>
           </div>
+          <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Mode</label>
+              <div className="flex rounded-lg overflow-hidden bg-zinc-800">
+                  <button
+                      className={`flex-1 py-2 px-3 text-sm font-medium transition-colors ${mode === 'quality' ? 'bg-[#1DB954] text-black' : 'text-gray-300 hover:bg-zinc-700'} disabled:opacity-50`}
+                      onClick={() => setMode('quality')}
+                      disabled={imageFiles.length === 0}
+                  >
+                      Fixed Quality
+                  </button>
+                  <button
+                      className={`flex-1 py-2 px-3 text-sm font-medium transition-colors ${mode === 'targetSize' ? 'bg-[#1DB954] text-black' : 'text-gray-300 hover:bg-zinc-700'} disabled:opacity-50`}
+                      onClick={() => setMode('targetSize')}
+                      disabled={imageFiles.length === 0}
+                  >
+                      Target Size
+                  </button>
+              </div>
+          </div>
+          {mode === 'targetSize' && (
+              <div className="space-y-3">
+                  <div>
+                      <label htmlFor="target-size-input" className="block text-sm font-medium text-gray-300 mb-2">Max File Size (KB)</label>
+                      <input
+                          type="number"
+                          id="target-size-input"
+                          min="1"
+                          value={targetSizeKb}
+                          onChange={(e) => setTargetSizeKb(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                          className="custom-input"
+                          disabled={imageFiles.length === 0}
+                      />
+                  </div>
+                  <div className="flex items-center">
+                      <input
+                          id="allow-downscale"
+                          type="checkbox"
+                          checked={allowDownscale}
+                          onChange={(e) => setAllowDownscale(e.target.checked)}
+                          className="h-4 w-4 rounded border-zinc-600 bg-zinc-700 text-[#1DB954] focus:ring-[#1DB954]"
+                          disabled={imageFiles.length === 0}
+                      />
+                      <label htmlFor="allow-downscale" className="ml-3 block text-sm font-medium text-gray-300">Downscale if quality alone isn't enough</label>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                      {targetFormat === 'png' ? 'PNG has no quality setting, so only downscaling can reduce its size.' : 'The highest quality up to the slider value that fits the budget is used.'}
+                  </p>
+              </div>
+          )}
           <div>
               <label htmlFor="quality-slider" className="flex justify-between text-sm font-medium text-gray-300 mb-2">
-                  <span>Quality / Effort</span>
+                  <span>{mode === 'targetSize' ? 'Max Quality' : 'Quality / Effort'}</span>
                   <span className="font-mono text-[#1DB954] text-lg">{Math.round(quality * 100)}</span>
               </label>
               <input 
@@ -156,6 +211,7 @@ const CompressImage: React.FC = () => {
                   disabled={imageFiles.length === 0}
               />
           </div>
+          <MetadataPolicySelect value={metadataPolicy} onChange={setMetadataPolicy} format={targetFormat} disabled={imageFiles.length === 0} />
           {compressedResults.length > 0 && (
               <div className="text-sm text-gray-400 space-y-1 pt-4 border-t border-zinc-800">
                   <p>Total Original Size: <span className="font-semibold text-gray-200">{formatBytes(totalOriginalSize)}</span></p>
@@ -163,11 +219,22 @@ const CompressImage: React.FC = () => {
                   <p>Total Reduction: <span className={`font-semibold ${totalOriginalSize > totalCompressedSize ? 'text-green-400' : 'text-red-400'}`}>{(((totalOriginalSize - totalCompressedSize) / totalOriginalSize) * 100).toFixed(1)}%</span></p>
               </div>
           )}
+            {overTargetResults.length > 0 && (
+                <p className="text-sm text-yellow-400">{overTargetResults.length} file(s) could not be brought under {overTargetResults[0].targetSizeKb} KB. The smallest version found is used.</p>
+            )}
+            {!isProcessing && failedCount > 0 && (
+                <p className="text-sm text-red-400">{failedCount} file(s) could not be compressed.</p>
+            )}
         </div>
         <div className="flex flex-col gap-4">
             <Button onClick={performCompression} isLoading={isProcessing} icon={<CompressIcon />} disabled={imageFiles.length === 0}>
                 {isProcessing ? `Compressing... (${Math.round(progress)}%)` : `Compress All (${imageFiles.length})`}
             </Button>
+            {isProcessing && (
+                <Button onClick={cancel} variant="outline" icon={<StopIcon />}>
+                    Cancel
+                </Button>
+            )}
             <Button onClick={handleDownload} variant="secondary" disabled={compressedResults.length === 0} icon={<ArrowDownTrayIcon />}>
                 Download All as ZIP
             </Button>
@@ -191,17 +258,30 @@ const CompressImage: React.FC = () => {
                         </div>
                     )}
                     <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4 p-2 min-h-[40vh] bg-black/50 rounded-lg max-h-[70vh] overflow-y-auto">
-                       {imageFiles.map((file, index) => (
+                       {imageFiles.map((file, index) => {
+                           const result = resultsById.get(file.id);
+                           return (
                            <div key={file.id} className="relative group aspect-square w-full overflow-hidden rounded-lg border-2 border-zinc-800">
                                <img src={file.preview} alt={file.name} className="object-cover w-full h-full" loading="lazy"/>
                                <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
                                    <span className="text-white text-xs text-center p-1 truncate">{file.name}</span>
                                </div>
+                               {result && (
+                                   <div
+                                       className={`absolute inset-x-0 bottom-0 text-[10px] p-1 text-center truncate ${result.metTarget ? 'bg-black/70 text-gray-200' : 'bg-yellow-500/80 text-black'}`}
+                                       title={result.metTarget ? undefined : 'Could not meet the target size'}
+                                   >
+                                       {formatBytes(result.compressedSize)} · {result.width}×{result.height}
+                                       {result.quality !== undefined && ` · q${Math.round(result.quality * 100)}`}
+                                   </div>
+                               )}
+                               <BatchItemStatus state={batchItems[file.id]} />
                                <button onClick={() => handleRemoveImage(file.id)} className="absolute top-1 right-1 p-1 bg-red-600/70 text-white rounded-full hover:bg-red-700 transition-colors opacity-0 group-hover:opacity-100">
                                    <XMarkIcon className="w-4 h-4" />
                                </button>
                            </div>
-                       ))}
+                           );
+                       })}
                         <label htmlFor="add-more-files-input" className="group flex flex-col items-center justify-center text-center p-2 aspect-square rounded-lg border-2 border-dashed border-zinc-700 bg-zinc-800/50 text-gray-400 transition-colors hover:border-[#1DB954] hover:text-[#1DB954] cursor-pointer">
                             <PlusIcon className="w-8 h-8" />
                             <span className="mt-2 text-sm font-semibold">Add More</span>
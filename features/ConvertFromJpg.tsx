@@ -1,17 +1,23 @@
 import React, { useState, useCallback } from 'react';
 import { ImageUploader } from '../components/ImageUploader';
 import { Button } from '../components/Button';
-import { downloadZip, dataURLToBlob, loadImageAsDataURLAndDimensions } from '../utils/imageUtils';
-import { ArrowDownTrayIcon, ArrowUturnLeftIcon, XMarkIcon, PlusIcon } from '../components/icons';
+import { BatchItemStatus } from '../components/BatchItemStatus';
+import { ConvertFormatSettings } from '../components/ConvertFormatSettings';
+import { CONVERT_FORMATS } from '../components/ConvertFormatSettings';
+import type { ConvertFormat } from '../components/ConvertFormatSettings';
+import { downloadZip } from '../utils/imageUtils';
+import { useImageBatch } from '../hooks/useImageBatch';
+import { useObjectUrls } from '../hooks/useObjectUrls';
+import { ArrowDownTrayIcon, ArrowUturnLeftIcon, XMarkIcon, PlusIcon, StopIcon } from '../components/icons';
 import { ConvertToJpgIcon } from '../components/icons'; // Re-using icon for conversion
 import type { FileWithPreview } from '../types';
-
-type TargetFormat = 'png' | 'webp' | 'gif';
+import { useQueryState } from '../contexts/RouterContext';
 
 interface ConvertedResult {
   id: string;
   originalFilename: string;
-  dataUrl: string;
+  blob: Blob;
+  url: string; // Object URL for the thumbnail
   originalSize: number;
   convertedSize: number;
 }
@@ -20,88 +26,64 @@ interface ConvertedResult {
 const ConvertFromJpg: React.FC = () => {
   const [imageFiles, setImageFiles] = useState<FileWithPreview[]>([]);
   const [convertedResults, setConvertedResults] = useState<ConvertedResult[]>([]);
-  const [targetFormat, setTargetFormat] = useState<TargetFormat>('png');
-  const [quality, setQuality] = useState(0.92); // For WEBP output
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [targetFormat, setTargetFormat] = useQueryState<ConvertFormat>('format', 'png', { allowed: CONVERT_FORMATS });
+  const [quality, setQuality] = useQueryState('quality', 0.92); // For WEBP output
+  const [dither, setDither] = useQueryState('dither', true); // For GIF output
+  const { run, cancel, reset: resetBatch, items: batchItems, isProcessing, progress, failedCount } = useImageBatch();
+  const objectUrls = useObjectUrls();
 
-  const handleImageUpload = async (files: File[]) => {
-    const newFiles: FileWithPreview[] = [];
-    for (const file of files) {
-      try {
-        const { dataUrl } = await loadImageAsDataURLAndDimensions(file);
-        newFiles.push(Object.assign(file, {
-          preview: dataUrl,
-          id: `${file.name}-${file.lastModified}-${Math.random()}`,
-        }));
-      } catch (error) {
-        console.error("Failed to load image preview:", error);
-      }
-    }
+  const clearResults = useCallback(() => {
+    setConvertedResults(prev => {
+      prev.forEach(result => objectUrls.revoke(result.url));
+      return [];
+    });
+  }, [objectUrls]);
+
+  const handleImageUpload = (files: File[]) => {
+    const newFiles: FileWithPreview[] = files.map(file => Object.assign(file, {
+      preview: objectUrls.create(file),
+      id: `${file.name}-${file.lastModified}-${Math.random()}`,
+    }));
     setImageFiles(prev => [...prev, ...newFiles]);
-    setConvertedResults([]);
+    clearResults();
   };
   
   const performConversion = useCallback(async () => {
     if (imageFiles.length === 0) return;
     
-    setIsProcessing(true);
-    setConvertedResults([]);
-    setProgress(0);
-    
-    const results: ConvertedResult[] = [];
-    for(let i = 0; i < imageFiles.length; i++) {
-        const file = imageFiles[i];
-        const img = new Image();
-        img.src = file.preview;
-        await new Promise(resolve => { img.onload = resolve; });
+    clearResults();
 
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) continue;
-        
-        canvas.width = img.naturalWidth;
-        canvas.height = img.naturalHeight;
-        ctx.drawImage(img, 0, 0);
-        
-        let mimeType: string;
-        let outputQuality: number | undefined = undefined;
-
-        switch (targetFormat) {
-            case 'png': mimeType = 'image/png'; break;
-            case 'webp': mimeType = 'image/webp'; outputQuality = quality; break;
-            case 'gif': mimeType = 'image/png'; break; // Fallback to PNG
-            default: mimeType = 'image/png';
-        }
-        
-        if (targetFormat === 'gif') {
-            alert('GIF conversion is basic (static image only) and will be saved as PNG.');
-        }
-        
-        const dataUrl = canvas.toDataURL(mimeType, outputQuality);
-        const blob = dataURLToBlob(dataUrl);
+    const batchResults = await run(imageFiles.map(file => ({
+        id: file.id,
+        file,
+        format: targetFormat,
+        quality: targetFormat === 'webp' ? quality : undefined,
+        dither: targetFormat === 'gif' ? dither : undefined,
+    })));
 
+    const results: ConvertedResult[] = [];
+    for (const result of batchResults) {
+        const file = imageFiles.find(f => f.id === result.id);
+        if (!file) continue;
         results.push({
             id: file.id,
             originalFilename: file.name,
-            dataUrl,
+            blob: result.blob,
+            url: objectUrls.create(result.blob),
             originalSize: file.size,
-            convertedSize: blob.size,
+            convertedSize: result.blob.size,
         });
-
-        setProgress(((i + 1) / imageFiles.length) * 100);
     }
-    
+
     setConvertedResults(results);
-    setIsProcessing(false);
-  }, [imageFiles, targetFormat, quality]);
+  }, [imageFiles, targetFormat, quality, dither, run, clearResults, objectUrls]);
 
   const handleDownload = async () => {
     if (convertedResults.length === 0) return;
     const filesToZip = convertedResults.map(result => {
         const originalName = result.originalFilename.substring(0, result.originalFilename.lastIndexOf('.'));
         return {
-            dataUrl: result.dataUrl,
+            blob: result.blob,
             filename: `${originalName}.${targetFormat}`
         };
     });
@@ -109,17 +91,19 @@ const ConvertFromJpg: React.FC = () => {
   };
   
   const handleRemoveImage = (idToRemove: string) => {
+    objectUrls.revoke(imageFiles.find(file => file.id === idToRemove)?.preview);
     setImageFiles(prev => prev.filter(file => file.id !== idToRemove));
-    setConvertedResults([]);
+    clearResults();
   };
 
   const handleReset = () => {
+      resetBatch();
+      objectUrls.revokeAll();
       setImageFiles([]);
-      setConvertedResults([]);
+      clearResults();
       setTargetFormat('png');
       setQuality(0.92);
-      setIsProcessing(false);
-      setProgress(0);
+      setDither(true);
   }
   
   const formatBytes = (bytes: number, decimals = 2) => {
@@ -145,36 +129,15 @@ const ConvertFromJpg: React.FC = () => {
       <div className="lg:col-span-4 space-y-6">
         <div className="bg-zinc-900 rounded-lg p-6 space-y-6 border border-zinc-800">
           <h3 className="text-lg font-semibold text-white">Conversion Settings</h3>
-            <div>
-              <label htmlFor="format-select" className="block text-sm font-medium text-gray-300 mb-2">Output Format</label>
-              <select id="format-select" value={targetFormat} onChange={e => setTargetFormat(e.target.value as TargetFormat)} className="custom-input" disabled={imageFiles.length === 0}>
-                  <option value="png">PNG</option>
-                  <option value="webp">WEBP</option>
-                  <option value="gif">GIF (Static)</option>
-              </select>
-              <p className="text-xs text-gray-500 mt-1">Convert JPG to transparent PNG, efficient WEBP, or basic static GIF.</p>
-          </div>
-
-          {targetFormat === 'webp' && (
-              <div>
-                  <label htmlFor="quality-slider" className="flex justify-between text-sm font-medium text-gray-300 mb-2">
-                      <span>WEBP Quality</span>
-                      <span className="font-mono text-[#1DB954] text-lg">{Math.round(quality * 100)}</span>
-                  </label>
-                  <input 
-                      type="range" 
-                      id="quality-slider"
-                      min="0.1" 
-                      max="1" 
-                      step="0.01"
-                      value={quality} 
-                      onChange={(e) => setQuality(parseFloat(e.target.value))}
-                      className="w-full range-slider"
-                      aria-label="WEBP Quality"
-                      disabled={imageFiles.length === 0}
-                  />
-              </div>
-          )}
+          <ConvertFormatSettings
+              format={targetFormat}
+              onFormatChange={setTargetFormat}
+              quality={quality}
+              onQualityChange={setQuality}
+              dither={dither}
+              onDitherChange={setDither}
+              disabled={imageFiles.length === 0}
+          />
           
           {convertedResults.length > 0 && (
               <div className="text-sm text-gray-400 space-y-1 pt-4 border-t border-zinc-800">
@@ -182,12 +145,20 @@ const ConvertFromJpg: React.FC = () => {
                   <p>Total Converted Size: <span className="font-semibold text-gray-200">{formatBytes(totalConvertedSize)}</span></p>
               </div>
           )}
+          {!isProcessing && failedCount > 0 && (
+              <p className="text-sm text-red-400">{failedCount} file(s) could not be converted.</p>
+          )}
         </div>
       
         <div className="flex flex-col gap-4">
             <Button onClick={performConversion} isLoading={isProcessing} icon={<ConvertToJpgIcon />} disabled={imageFiles.length === 0}>
                 {isProcessing ? `Converting... (${Math.round(progress)}%)` : `Convert All (${imageFiles.length})`}
             </Button>
+            {isProcessing && (
+                <Button onClick={cancel} variant="outline" icon={<StopIcon />}>
+                    Cancel
+                </Button>
+            )}
             <Button onClick={handleDownload} variant="secondary" disabled={convertedResults.length === 0} icon={<ArrowDownTrayIcon />}>
                 Download All as ZIP
             </Button>
@@ -213,10 +184,11 @@ const ConvertFromJpg: React.FC = () => {
                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4 p-2 min-h-[40vh] bg-black/50 rounded-lg max-h-[70vh] overflow-y-auto">
                       {imageFiles.map((file) => (
                           <div key={file.id} className="relative group aspect-square w-full overflow-hidden rounded-lg border-2 border-zinc-800">
-                              <img src={convertedResults.find(r => r.id === file.id)?.dataUrl || file.preview} alt={file.name} className="object-cover w-full h-full" loading="lazy"/>
+                              <img src={convertedResults.find(r => r.id === file.id)?.url || file.preview} alt={file.name} className="object-cover w-full h-full" loading="lazy"/>
                               <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
                                   <span className="text-white text-xs text-center p-1 truncate">{file.name}</span>
                               </div>
+                              <BatchItemStatus state={batchItems[file.id]} />
                               <button onClick={() => handleRemoveImage(file.id)} className="absolute top-1 right-1 p-1 bg-red-600/70 text-white rounded-full hover:bg-red-700 transition-colors opacity-0 group-hover:opacity-100">
                                   <XMarkIcon className="w-4 h-4" />
                               </button>
@@ -1,14 +1,19 @@
 import React, { useState, useCallback } from 'react';
 import { ImageUploader } from '../components/ImageUploader';
 import { Button } from '../components/Button';
-import { downloadZip, loadImageAsDataURLAndDimensions, dataURLToBlob } from '../utils/imageUtils';
-import { ArrowDownTrayIcon, ArrowUturnLeftIcon, ConvertToJpgIcon, XMarkIcon, PlusIcon } from '../components/icons';
+import { BatchItemStatus } from '../components/BatchItemStatus';
+import { downloadZip } from '../utils/imageUtils';
+import { useImageBatch } from '../hooks/useImageBatch';
+import { useObjectUrls } from '../hooks/useObjectUrls';
+import { ArrowDownTrayIcon, ArrowUturnLeftIcon, ConvertToJpgIcon, XMarkIcon, PlusIcon, StopIcon } from '../components/icons';
 import type { FileWithPreview } from '../types';
+import { useQueryState } from '../contexts/RouterContext';
 
 interface ConvertedResult {
   id: string;
   originalFilename: string;
-  dataUrl: string;
+  blob: Blob;
+  url: string; // Object URL for the thumbnail
   originalSize: number;
   convertedSize: number;
 }
@@ -16,73 +21,61 @@ interface ConvertedResult {
 const ConvertToJpg: React.FC = () => {
   const [imageFiles, setImageFiles] = useState<FileWithPreview[]>([]);
   const [convertedResults, setConvertedResults] = useState<ConvertedResult[]>([]);
-  const [quality, setQuality] = useState(0.92);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [quality, setQuality] = useQueryState('quality', 0.92);
+  const { run, cancel, reset: resetBatch, items: batchItems, isProcessing, progress, failedCount } = useImageBatch();
+  const objectUrls = useObjectUrls();
 
-  const handleImageUpload = async (files: File[]) => {
-    const newFiles: FileWithPreview[] = [];
-    for (const file of files) {
-      try {
-        const { dataUrl } = await loadImageAsDataURLAndDimensions(file);
-        newFiles.push(Object.assign(file, {
-          preview: dataUrl,
-          id: `${file.name}-${file.lastModified}-${Math.random()}`,
-        }));
-      } catch (error) {
-        console.error("Failed to load image preview:", error);
-      }
-    }
+  const clearResults = useCallback(() => {
+    setConvertedResults(prev => {
+      prev.forEach(result => objectUrls.revoke(result.url));
+      return [];
+    });
+  }, [objectUrls]);
+
+  const handleImageUpload = (files: File[]) => {
+    const newFiles: FileWithPreview[] = files.map(file => Object.assign(file, {
+      preview: objectUrls.create(file),
+      id: `${file.name}-${file.lastModified}-${Math.random()}`,
+    }));
     setImageFiles(prev => [...prev, ...newFiles]);
-    setConvertedResults([]);
+    clearResults();
   };
   
   const performConversion = useCallback(async () => {
     if (imageFiles.length === 0) return;
     
-    setIsProcessing(true);
-    setConvertedResults([]);
-    setProgress(0);
-    
-    const results: ConvertedResult[] = [];
-    for (let i = 0; i < imageFiles.length; i++) {
-      const file = imageFiles[i];
-      const img = new Image();
-      img.src = file.preview;
-      await new Promise(resolve => { img.onload = resolve; });
+    clearResults();
 
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) continue;
-      
-      canvas.width = img.naturalWidth;
-      canvas.height = img.naturalHeight;
-      ctx.drawImage(img, 0, 0);
-      const mimeType = 'image/jpeg';
-      const dataUrl = canvas.toDataURL(mimeType, quality);
-      const blob = dataURLToBlob(dataUrl);
+    const batchResults = await run(imageFiles.map(file => ({
+      id: file.id,
+      file,
+      format: 'jpeg',
+      quality,
+    })));
 
+    const results: ConvertedResult[] = [];
+    for (const result of batchResults) {
+      const file = imageFiles.find(f => f.id === result.id);
+      if (!file) continue;
       results.push({
         id: file.id,
         originalFilename: file.name,
-        dataUrl,
+        blob: result.blob,
+        url: objectUrls.create(result.blob),
         originalSize: file.size,
-        convertedSize: blob.size,
+        convertedSize: result.blob.size,
       });
-
-      setProgress(((i + 1) / imageFiles.length) * 100);
     }
-    
+
     setConvertedResults(results);
-    setIsProcessing(false);
-  }, [imageFiles, quality]);
+  }, [imageFiles, quality, run, clearResults, objectUrls]);
 
   const handleDownload = async () => {
     if (convertedResults.length === 0) return;
     const filesToZip = convertedResults.map(result => {
       const originalName = result.originalFilename.substring(0, result.originalFilename.lastIndexOf('.'));
       return {
-          dataUrl: result.dataUrl,
+          blob: result.blob,
           filename: `${originalName}.jpg`
       };
     });
@@ -90,15 +83,16 @@ const ConvertToJpg: React.FC = () => {
   };
   
   const handleRemoveImage = (idToRemove: string) => {
+    objectUrls.revoke(imageFiles.find(file => file.id === idToRemove)?.preview);
     setImageFiles(prev => prev.filter(file => file.id !== idToRemove));
-    setConvertedResults([]);
+    clearResults();
   };
   
   const handleReset = () => {
+      resetBatch();
+      objectUrls.revokeAll();
       setImageFiles([]);
-      setConvertedResults([]);
-      setIsProcessing(false);
-      setProgress(0);
+      clearResults();
   }
   
   const formatBytes = (bytes: number, decimals = 2) => {
@@ -149,12 +143,20 @@ const ConvertToJpg: React.FC = () => {
                     <p>Reduction: <span className="font-semibold text-green-400">{(((totalOriginalSize - totalConvertedSize) / totalOriginalSize) * 100).toFixed(1)}%</span></p>
                 </div>
             )}
+            {!isProcessing && failedCount > 0 && (
+                <p className="text-sm text-red-400">{failedCount} file(s) could not be converted.</p>
+            )}
         </div>
         
         <div className="flex flex-col gap-4">
           <Button onClick={performConversion} isLoading={isProcessing} icon={<ConvertToJpgIcon />} disabled={imageFiles.length === 0}>
             {isProcessing ? `Converting... (${Math.round(progress)}%)` : `Convert All to JPG (${imageFiles.length})`}
           </Button>
+          {isProcessing && (
+            <Button onClick={cancel} variant="outline" icon={<StopIcon />}>
+              Cancel
+            </Button>
+          )}
           <Button onClick={handleDownload} variant="secondary" disabled={convertedResults.length === 0} icon={<ArrowDownTrayIcon />}>
             Download All as ZIP
           </Button>
@@ -180,10 +182,11 @@ const ConvertToJpg: React.FC = () => {
                     <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4 p-2 min-h-[40vh] bg-black/50 rounded-lg max-h-[70vh] overflow-y-auto">
                        {imageFiles.map((file) => (
                            <div key={file.id} className="relative group aspect-square w-full overflow-hidden rounded-lg border-2 border-zinc-800">
-                               <img src={convertedResults.find(r => r.id === file.id)?.dataUrl || file.preview} alt={file.name} className="object-cover w-full h-full" loading="lazy"/>
+                               <img src={convertedResults.find(r => r.id === file.id)?.url || file.preview} alt={file.name} className="object-cover w-full h-full" loading="lazy"/>
                                <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
                                    <span className="text-white text-xs text-center p-1 truncate">{file.name}</span>
                                </div>
+                               <BatchItemStatus state={batchItems[file.id]} />
                                <button onClick={() => handleRemoveImage(file.id)} className="absolute top-1 right-1 p-1 bg-red-600/70 text-white rounded-full hover:bg-red-700 transition-colors opacity-0 group-hover:opacity-100">
                                    <XMarkIcon className="w-4 h-4" />
                                </button>
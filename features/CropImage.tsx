@@ -2,8 +2,15 @@ import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { ImageUploader } from '../components/ImageUploader';
 import { Button } from '../components/Button';
 import { downloadImage } from '../utils/imageUtils';
+import { crop as cropPixels, decodeImageWithMetadata, embedMetadata, encodeImage, mimeTypeToFormat } from '../core';
+import { useBlobUrl } from '../hooks/useObjectUrls';
+import { useHistory } from '../hooks/useHistory';
+import { useUndoShortcuts } from '../hooks/useUndoShortcuts';
+import { MetadataPolicySelect } from '../components/MetadataPolicySelect';
+import { HistoryPanel } from '../components/HistoryPanel';
+import type { ImageMetadata, MetadataPolicy, PixelBuffer } from '../core';
 import { ArrowDownTrayIcon, ArrowUturnLeftIcon, XMarkIcon } from '../components/icons';
-import ReactCrop, { Crop, PixelCrop, makeAspectCrop, centerCrop } from 'react-image-crop';
+import ReactCrop, { Crop, PercentCrop, areCropsEqual, makeAspectCrop, centerCrop, convertToPixelCrop } from 'react-image-crop';
 
 // Simple debounce hook for better performance on crop updates
 function useDebounce<T>(value: T, delay: number): T {
@@ -22,18 +29,33 @@ function useDebounce<T>(value: T, delay: number): T {
   return debouncedValue;
 }
 
+// What undo/redo steps through. The crop is stored in percent so it doesn't depend on the display size.
+interface CropState {
+  crop?: PercentCrop;
+  aspectRatio?: number;
+}
+
+const EMPTY_CROP: CropState = {};
+
 const CropImage: React.FC = () => {
   const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-  const [croppedImageUrl, setCroppedImageUrl] = useState<string | null>(null);
+  const imageUrl = useBlobUrl(imageFile);
+  const [croppedBlob, setCroppedBlob] = useState<Blob | null>(null);
+  const croppedImageUrl = useBlobUrl(croppedBlob);
   const imgRef = useRef<HTMLImageElement>(null);
-  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [metadataPolicy, setMetadataPolicy] = useState<MetadataPolicy>('copyright');
+  // Decoded once per upload (and metadata choice) so crop updates only copy pixels
+  const [source, setSource] = useState<{ pixels: PixelBuffer; metadata: ImageMetadata | null } | null>(null);
 
-  const [crop, setCrop] = useState<Crop>();
-  const [completedCrop, setCompletedCrop] = useState<PixelCrop>();
-  const [aspectRatio, setAspectRatio] = useState<number | undefined>(undefined);
+  const history = useHistory<CropState>(EMPTY_CROP);
+  const { crop: completedCrop, aspectRatio } = history.state;
+  // The selection while it's being dragged; committed to history when the drag ends
+  const [dragCrop, setDragCrop] = useState<Crop | null>(null);
+  const crop = dragCrop ?? completedCrop;
   const [croppedPixelDimensions, setCroppedPixelDimensions] = useState<{ width: number; height: number } | null>(null);
 
+  useUndoShortcuts(history, !!imageFile);
+
   // Debounce the completedCrop state to avoid excessive re-rendering during dragging
   const debouncedCompletedCrop = useDebounce(completedCrop, 200);
 
@@ -41,15 +63,25 @@ const CropImage: React.FC = () => {
     if (files.length > 0) {
       const file = files[0];
       setImageFile(file);
-      setImageUrl(URL.createObjectURL(file));
-      setCroppedImageUrl(null);
-      setCrop(undefined); // Clear crop when new image is uploaded
-      setCompletedCrop(undefined);
-      setAspectRatio(undefined); // Reset aspect ratio
+      setCroppedBlob(null);
+      history.reset(EMPTY_CROP); // Clear crop and aspect ratio when new image is uploaded
+      setDragCrop(null);
       setCroppedPixelDimensions(null);
     }
   };
 
+  useEffect(() => {
+    if (!imageFile) {
+      setSource(null);
+      return;
+    }
+    let isCurrent = true;
+    decodeImageWithMetadata(imageFile, mimeTypeToFormat(imageFile.type), metadataPolicy)
+      .then(decoded => { if (isCurrent) setSource(decoded); })
+      .catch(error => console.error('Failed to decode image:', error));
+    return () => { isCurrent = false; };
+  }, [imageFile, metadataPolicy]);
+
   const onImageLoad = useCallback((e: React.SyntheticEvent<HTMLImageElement>) => {
     const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
     const initialCrop = centerCrop(
@@ -65,90 +97,60 @@ const CropImage: React.FC = () => {
       width,
       height,
     );
-    setCrop(initialCrop);
-    setCompletedCrop(initialCrop as PixelCrop); // Immediately set completed crop on load
-  }, [aspectRatio]);
+    // The initial selection is the starting point of the history
+    history.reset({ crop: initialCrop, aspectRatio });
+  }, [aspectRatio, history.reset]);
 
-  // Effect to draw the cropped image onto a canvas when debouncedCompletedCrop changes
+  // Effect to re-crop the image when debouncedCompletedCrop changes
   useEffect(() => {
     if (
       debouncedCompletedCrop?.width &&
       debouncedCompletedCrop?.height &&
-      imgRef.current &&
-      previewCanvasRef.current
+      source
     ) {
-      const image = imgRef.current;
-      const canvas = previewCanvasRef.current;
-      const ctx = canvas.getContext('2d');
-
-      if (!ctx) {
-        throw new Error('No 2d context');
-      }
+      // The crop is in percent; map it onto the decoded (upright) image size
+      const cropped = cropPixels(source.pixels, convertToPixelCrop(debouncedCompletedCrop, source.pixels.width, source.pixels.height));
 
-      const scaleX = image.naturalWidth / image.width;
-      const scaleY = image.naturalHeight / image.height;
-      const pixelRatio = window.devicePixelRatio;
+      setCroppedPixelDimensions({ width: cropped.width, height: cropped.height });
 
-      canvas.width = Math.floor(debouncedCompletedCrop.width * scaleX * pixelRatio);
-      canvas.height = Math.floor(debouncedCompletedCrop.height * scaleY * pixelRatio);
-
-      ctx.scale(pixelRatio, pixelRatio);
-      ctx.imageSmoothingQuality = 'high';
-
-      const cropX = debouncedCompletedCrop.x * scaleX;
-      const cropY = debouncedCompletedCrop.y * scaleY;
-
-      ctx.drawImage(
-        image,
-        cropX,
-        cropY,
-        debouncedCompletedCrop.width * scaleX,
-        debouncedCompletedCrop.height * scaleY,
-        0,
-        0,
-        debouncedCompletedCrop.width * scaleX,
-        debouncedCompletedCrop.height * scaleY,
-      );
-
-      setCroppedImageUrl(canvas.toDataURL(imageFile?.type || 'image/png'));
-      setCroppedPixelDimensions({
-        width: Math.floor(debouncedCompletedCrop.width * scaleX),
-        height: Math.floor(debouncedCompletedCrop.height * scaleY),
-      });
+      // Encoding is async; ignore results from a crop that has since changed
+      let isCurrent = true;
+      const size = { width: cropped.width, height: cropped.height };
+      encodeImage(cropped, { format: mimeTypeToFormat(imageFile?.type || 'image/png') })
+        .then(blob => (source.metadata ? embedMetadata(blob, source.metadata, size) : blob))
+        .then(blob => { if (isCurrent) setCroppedBlob(blob); })
+        .catch(error => console.error('Failed to encode cropped image:', error));
+      return () => { isCurrent = false; };
     } else {
-      setCroppedImageUrl(null); // Clear cropped URL if crop is invalid or not complete
+      setCroppedBlob(null); // Clear cropped result if crop is invalid or not complete
       setCroppedPixelDimensions(null);
     }
-  }, [debouncedCompletedCrop, imageFile]);
+  }, [debouncedCompletedCrop, imageFile, source]);
 
   const handleDownload = () => {
-    if (!croppedImageUrl || !imageFile) return;
+    if (!croppedBlob || !imageFile) return;
     const filename = `cropped_${imageFile.name}`;
-    downloadImage(croppedImageUrl, filename);
+    downloadImage(croppedBlob, filename);
   };
 
   const handleReset = () => {
     setImageFile(null);
-    setImageUrl(null);
-    setCroppedImageUrl(null);
-    setCrop(undefined);
-    setCompletedCrop(undefined);
-    setAspectRatio(undefined);
+    setCroppedBlob(null);
+    history.reset(EMPTY_CROP);
+    setDragCrop(null);
     setCroppedPixelDimensions(null);
   };
 
+  // The result is cleared by the crop effect once the selection is gone
   const handleClearCrop = () => {
-    setCrop(undefined);
-    setCompletedCrop(undefined);
-    setCroppedImageUrl(null); // Clear the result as well
-    setCroppedPixelDimensions(null);
+    history.push({ aspectRatio }, 'Clear crop');
   };
 
-  const handleAspectRatioButtonClick = (newAspect: number | undefined) => {
-    setAspectRatio(newAspect);
+  const handleAspectRatioButtonClick = (newAspect: number | undefined, label: string) => {
     if (imgRef.current) {
-      setCrop(
-        centerCrop(
+      history.push({
+        aspectRatio: newAspect,
+        crop: centerCrop(
           makeAspectCrop(
             {
               unit: '%',
@@ -162,7 +164,9 @@ const CropImage: React.FC = () => {
           imgRef.current.naturalWidth,
           imgRef.current.naturalHeight,
         ),
-      );
+      }, `Aspect ratio ${label}`);
+    } else {
+      history.push({ ...history.state, aspectRatio: newAspect }, `Aspect ratio ${label}`);
     }
   };
 
@@ -188,7 +192,7 @@ const CropImage: React.FC = () => {
               <Button
                 key={ar.label}
                 variant={aspectRatio === ar.value ? 'primary' : 'secondary'}
-                onClick={() => handleAspectRatioButtonClick(ar.value)}
+                onClick={() => handleAspectRatioButtonClick(ar.value, ar.label)}
                 disabled={!imageFile}
                 className="px-4 py-2 !rounded-md"
               >
@@ -198,6 +202,8 @@ const CropImage: React.FC = () => {
           </div>
         </div>
 
+        <MetadataPolicySelect value={metadataPolicy} onChange={setMetadataPolicy} disabled={!imageFile} />
+
         {/* Real-time Dimensions Display */}
         {completedCrop && croppedPixelDimensions && (
           <div className="pt-4 border-t border-zinc-800">
@@ -209,6 +215,8 @@ const CropImage: React.FC = () => {
         )}
       </div>
 
+      {imageFile && <HistoryPanel history={history} />}
+
       {/* Action Buttons */}
       <div className="flex flex-col gap-4">
         <div className="flex flex-col sm:flex-row gap-4">
@@ -244,8 +252,14 @@ const CropImage: React.FC = () => {
           ) : (
             <ReactCrop 
                 crop={crop} 
-                onChange={(_, percentCrop) => setCrop(percentCrop)} 
-                onComplete={(c) => setCompletedCrop(c)} 
+                onChange={(_, percentCrop) => setDragCrop(percentCrop)} 
+                onComplete={(_, percentCrop) => {
+                  setDragCrop(null);
+                  // A click without a drag also completes; don't record it as a step
+                  if (!completedCrop || !areCropsEqual(percentCrop, completedCrop)) {
+                    history.push({ crop: percentCrop, aspectRatio }, 'Adjust crop');
+                  }
+                }} 
                 aspect={aspectRatio}
                 minWidth={10}
                 minHeight={10}
@@ -260,12 +274,6 @@ const CropImage: React.FC = () => {
                 />
             </ReactCrop>
           )}
-          <canvas
-              ref={previewCanvasRef}
-              style={{
-                  display: 'none', // Hidden canvas for actual cropping
-              }}
-          />
         </div>
       </div>
 
@@ -27,6 +27,18 @@ const toolDescriptions: Record<string, React.ReactNode> = {
             <p>The tool aligns the images edge-to-edge to create a seamless final picture.</p>
         </div>
     ),
+    'GIF Maker': (
+         <div className="space-y-2">
+            <p>Turn a series of images into an animated GIF, entirely in your browser.</p>
+            <ul className="list-disc list-inside text-gray-400 space-y-1 pl-2">
+                <li>Upload your frames and drag and drop them into the right order.</li>
+                <li>Set a delay for every frame, or one delay for all of them.</li>
+                <li>Choose how many times the animation plays, or let it loop forever.</li>
+                <li>Set the output width. Frames with a different shape are fitted onto a background color.</li>
+            </ul>
+            <p>GIFs are limited to 256 colors. Dithering smooths out gradients, but makes the file larger.</p>
+        </div>
+    ),
     'AI Meme Generator': (
         <div className="space-y-2">
             <p>Instantly create funny memes with the power of AI. Simply upload an image, and our AI will suggest hilarious captions for you.</p>
@@ -35,16 +47,35 @@ const toolDescriptions: Record<string, React.ReactNode> = {
                 <li>Click "Generate with AI" to get a clever top and bottom text suggestion.</li>
                 <li>Manually edit the text to perfect your joke. The text uses the classic "Impact" font with a white fill and black stroke for maximum meme-ability.</li>
                 <li>Download your creation and share it with the world!</li>
+                <li>Step back through text changes with <strong>Ctrl+Z</strong> / <strong>Ctrl+Shift+Z</strong> or the History list.</li>
             </ul>
         </div>
     ),
     'AI Text Generator': (
         <div className="space-y-2">
-            <p>A versatile writing assistant powered by the Gemini AI. Generate creative and useful text for any purpose.</p>
+            <p>A versatile writing assistant powered by the AI provider of your choice. Generate creative and useful text for any purpose.</p>
              <ul className="list-disc list-inside text-gray-400 space-y-1 pl-2">
                 <li>Write a prompt describing what you want the AI to write (e.g., "a short poem about the moon," "three marketing slogans for a coffee shop").</li>
-                <li>The AI will generate a text-based response based on your prompt.</li>
+                <li>The response streams in as it is written. Press <strong>Stop</strong> to end it early; the text so far is kept.</li>
+                <li>Send follow-up messages to refine the answer. Each chat remembers the earlier messages.</li>
+                <li>Chats are saved in your browser and listed on the left. Reopen, delete or export any of them as Markdown.</li>
+                <li>Pick a <strong>template</strong> for prompts you reuse, such as alt text, product descriptions or social captions. Fill in its fields and the prompt is written for you; the template's system instruction and temperature apply to the new chat.</li>
+                <li>Create your own templates with <strong>{'{{variable}}'}</strong> placeholders, or duplicate a built-in one. Use <strong>Export</strong> and <strong>Import</strong> to share them as a JSON file.</li>
                 <li>This tool is perfect for brainstorming ideas, overcoming writer's block, or quickly generating content.</li>
+                <li>Google Gemini is used by default. Switch to OpenAI, Anthropic or Qwen, and pick a model, in "API Key Settings" with your own key.</li>
+                <li>To work offline, choose <strong>Local (OpenAI-compatible)</strong> and enter the address of your own Ollama, llama.cpp or LM Studio server. Nothing is sent to a cloud service; this also applies to Meme Generator captions and the HTML to Image description.</li>
+            </ul>
+        </div>
+    ),
+    'AI Alt Text Generator': (
+        <div className="space-y-2">
+            <p>Write alt text, a short caption and keywords for many images at once, using the AI provider chosen in "API Key Settings".</p>
+            <ul className="list-disc list-inside text-gray-400 space-y-1 pl-2">
+                <li>Upload your images and, optionally, describe where they are used (e.g., "product photos for a furniture shop"). The context can also ask for another language.</li>
+                <li>Set <strong>Requests per Minute</strong> below your key's quota. Requests that still hit the rate limit are retried after a pause.</li>
+                <li>Review and edit every text before exporting. Alt text longer than 125 characters is highlighted.</li>
+                <li>Images that failed are described again the next time you run the tool.</li>
+                <li>Export everything as CSV or JSON, or download the images with the text embedded. The alt text or caption becomes the EXIF and XMP description, the alt text is stored in the IPTC alt text field, and the keywords in XMP. Only JPG and PNG files can hold it.</li>
             </ul>
         </div>
     ),
@@ -79,6 +110,7 @@ const toolDescriptions: Record<string, React.ReactNode> = {
             <ul className="list-disc list-inside text-gray-400 space-y-1 pl-2">
                 <li>Rotate images in 90-degree increments with the "Rotate Left" and "Rotate Right" buttons.</li>
                 <li>Use the slider for fine-grained control to rotate your image to any angle between 0 and 359 degrees.</li>
+                <li>Undo angle changes and applied rotations with <strong>Ctrl+Z</strong>, redo with <strong>Ctrl+Shift+Z</strong>, or pick a step in the History list.</li>
             </ul>
             <p>The canvas automatically adjusts its size to ensure no part of your rotated image is cropped.</p>
         </div>
@@ -90,9 +122,22 @@ const toolDescriptions: Record<string, React.ReactNode> = {
                 <li><strong>Freeform Cropping:</strong> Drag the handles to select any rectangular area you want.</li>
                 <li><strong>Fixed Aspect Ratios:</strong> Choose from common ratios like 1:1 (square), 16:9 (widescreen), 4:3, and their portrait equivalents. This is great for social media posts.</li>
                 <li><strong>Live Preview:</strong> See a preview of your cropped result in real-time as you adjust the selection.</li>
+                <li><strong>Undo & Redo:</strong> Step back through selections with Ctrl+Z and Ctrl+Shift+Z, or jump to any step in the History list.</li>
             </ul>
         </div>
     ),
+    'View / Edit Metadata': (
+         <div className="space-y-2">
+            <p>See what is stored inside your photos besides the picture itself, and change or remove it.</p>
+            <ul className="list-disc list-inside text-gray-400 space-y-1 pl-2">
+                <li>Upload JPG or PNG images to inspect their EXIF fields, GPS location, XMP, IPTC and ICC color profile.</li>
+                <li>Edit text fields such as the artist or copyright, or remove single fields and blocks.</li>
+                <li>Use <strong>Remove GPS from All</strong> or <strong>Strip All Metadata</strong> to clean a whole batch at once.</li>
+                <li>Download the edited image, or all of them as a ZIP file.</li>
+            </ul>
+            <p>Only the metadata is rewritten. The image data is copied byte for byte, so there is no loss in quality.</p>
+        </div>
+    ),
     'Compress Image': (
          <div className="space-y-2">
             <p>Reduce the file size of your images for faster web loading and easier sharing, with support for bulk processing.</p>
@@ -119,44 +164,74 @@ const toolDescriptions: Record<string, React.ReactNode> = {
             <p>Convert your JPG images into other formats. This is useful when you need transparency (PNG) or modern web optimization (WEBP). This tool also supports bulk processing.</p>
             <ul className="list-disc list-inside text-gray-400 space-y-1 pl-2">
                 <li>Upload multiple JPG files.</li>
-                <li>Choose an output format: <strong>PNG</strong> (for transparency), <strong>WEBP</strong> (for modern web use), or static <strong>GIF</strong>.</li>
-                <li>For WEBP, you can adjust the quality slider to manage file size.</li>
+                <li>Choose an output format: <strong>PNG</strong> (for transparency), <strong>WEBP</strong> (for modern web use), or <strong>GIF</strong> (256 colors).</li>
+                <li>For WEBP, you can adjust the quality slider to manage file size. For GIF, you can turn dithering on or off.</li>
                 <li>Download all your converted images in a single ZIP file.</li>
             </ul>
         </div>
     ),
     'Remove Background': (
         <div className="space-y-2">
-            <p>Automatically remove the background from an image using a powerful AI model. This tool is perfect for creating profile pictures, product photos, or graphic design elements.</p>
+            <p>Remove the background from an image, either on your device or with a powerful AI model. This tool is perfect for creating profile pictures, product photos, or graphic design elements.</p>
             <ul className="list-disc list-inside text-gray-400 space-y-1 pl-2">
                 <li>Upload an image with a clear subject (e.g., a person, car, or object).</li>
-                <li>The AI will detect the foreground and erase the background, leaving a transparent result.</li>
+                <li><strong>On-device</strong> works offline: paint <strong>Keep</strong> strokes over the subject and <strong>Remove</strong> strokes over the background, then adjust the tolerance and edge softness. It works best when the background's colors differ from the subject's.</li>
+                <li><strong>AI (RapidAPI)</strong> detects the foreground automatically and erases the background.</li>
                 <li>Use the interactive slider to compare the original and the result.</li>
-                <li>Download the final image as a transparent PNG file.</li>
+                <li>Click <strong>Refine Edges</strong> to fix the cutout: restore or erase parts of it with a brush, choke or expand the edge, feather it, and preview it over a color or image.</li>
+                <li>Click <strong>Replace Background</strong> to place the subject on a solid color, a gradient, a blurred copy of the original or your own image. Scale and drag the subject into place and add a drop shadow; the result is exported at the original resolution.</li>
+                <li>Download the final image as a transparent PNG file, or composited onto the background you chose.</li>
             </ul>
-             <p><strong>Note:</strong> This feature relies on an external API. You can use the default shared key or add your own personal key in "API Key Settings" for higher usage limits.</p>
+             <p><strong>Note:</strong> The AI method relies on an external API. You can use the default shared key or add your own personal key in "API Key Settings" for higher usage limits.</p>
         </div>
     ),
     'Upscale Image': (
         <div className="space-y-2">
-            <p>Increase the resolution of your images using AI. This tool intelligently adds detail to make your photos look larger and clearer, which also has a sharpening effect.</p>
+            <p>Increase the resolution of your images 2x or 4x, on your device or with AI.</p>
              <ul className="list-disc list-inside text-gray-400 space-y-1 pl-2">
-                <li>Upload a low-resolution or small image.</li>
-                <li>The AI model will analyze the image and upscale it, enhancing details and clarity.</li>
+                <li>Upload a low-resolution or small image and pick a method.</li>
+                <li><strong>Lanczos3</strong> and <strong>Bicubic</strong> run offline and suit photos. Lanczos3 is sharper; Bicubic is smoother and never adds halos.</li>
+                <li><strong>Pixel Art (Scale2x)</strong> keeps hard pixel edges and smooths diagonals, for sprites, icons and flat-color graphics. Raise the color tolerance if the image has compression noise.</li>
+                <li><strong>AI (RapidAPI)</strong> adds detail with an AI model, which also has a sharpening effect.</li>
                 <li>Use the interactive slider to compare the original and the upscaled version side-by-side.</li>
             </ul>
-            <p><strong>Note:</strong> This feature relies on an external API. You can use the default shared key or add your own personal key in "API Key Settings" for higher usage limits.</p>
+            <p><strong>Note:</strong> The AI method relies on an external API. You can use the default shared key or add your own personal key in "API Key Settings" for higher usage limits.</p>
         </div>
     ),
     'Sharpen Image': (
         <div className="space-y-2">
-            <p>Enhance the clarity and detail of your photos using an AI model. This tool is a specialized form of upscaling that focuses on making edges and textures crisper.</p>
+            <p>Bring out detail and crisp up soft photos, on your device with a live preview, or with an AI model.</p>
+             <ul className="list-disc list-inside text-gray-400 space-y-1 pl-2">
+                <li>Upload a blurry or soft-focus image and pick a method.</li>
+                <li><strong>Unsharp Mask</strong> boosts contrast along edges. <strong>Amount</strong> sets the strength, <strong>Radius</strong> how wide the edges are, and <strong>Threshold</strong> leaves low-contrast detail such as noise and skin alone.</li>
+                <li><strong>High Pass</strong> overlays the image's fine detail onto itself for crisp edges with unchanged flat tones.</li>
+                <li><strong>Smart Sharpen</strong> sharpens brightness only along real edges. Raise <strong>Noise Protection</strong> to keep flat areas like sky untouched.</li>
+                <li><strong>AI (RapidAPI)</strong> enhances detail with an AI model, which also upscales the image.</li>
+                <li>Use the interactive "before and after" slider to compare. Local results are exported at full resolution.</li>
+            </ul>
+            <p><strong>Note:</strong> The AI method relies on an external API. You can use the default shared key or add your own personal key in "API Key Settings" for higher usage limits.</p>
+        </div>
+    ),
+    'Blur Faces': (
+        <div className="space-y-2">
+            <p>Hide faces and other sensitive areas before sharing a photo. Everything runs in your browser, so the image is never uploaded.</p>
              <ul className="list-disc list-inside text-gray-400 space-y-1 pl-2">
-                <li>Upload a blurry or soft-focus image.</li>
-                <li>The AI analyzes the image and intelligently sharpens details without adding significant noise.</li>
-                <li>Use the interactive "before and after" slider to see the dramatic improvement in real-time.</li>
+                <li>Click <strong>Detect Faces</strong> to find faces automatically. This uses the browser's built-in face detector, which is available in Chrome on Android, macOS and ChromeOS.</li>
+                <li>Drag on the image to cover any face by hand, drag a box to move it, or select one and press <strong>Delete</strong> to remove it.</li>
+                <li>Choose <strong>Blur</strong>, <strong>Pixelate</strong> or <strong>Black Out</strong>, and adjust the strength and shape.</li>
+                <li>The downloaded image has its metadata removed, including any GPS location.</li>
+            </ul>
+        </div>
+    ),
+    'Redact': (
+        <div className="space-y-2">
+            <p>Hide license plates, email addresses, ID numbers and other details in screenshots, photos and PDFs. Redaction happens in your browser and the covered pixels are replaced in the exported file, so they can't be recovered from it.</p>
+             <ul className="list-disc list-inside text-gray-400 space-y-1 pl-2">
+                <li>Use <strong>Boxes</strong> to drag rectangles over areas, or the <strong>Brush</strong> to paint over them freehand.</li>
+                <li>Choose <strong>Solid Fill</strong>, <strong>Blur</strong> or <strong>Pixelate</strong>. Solid Fill is the safest choice for text.</li>
+                <li>For PDFs, <strong>Find Text</strong> searches the document for words, email addresses, phone numbers or long numbers and redacts the matches you select.</li>
+                <li>Redacted PDFs are flattened: each page becomes an image, so the original text layer and metadata are not included.</li>
             </ul>
-            <p><strong>Note:</strong> This feature relies on an external API. You can use the default shared key or add your own personal key in "API Key Settings" for higher usage limits.</p>
         </div>
     ),
     'Watermark Image': (
@@ -167,6 +242,7 @@ const toolDescriptions: Record<string, React.ReactNode> = {
                 <li>Customize text, color, size, opacity, and position.</li>
                 <li>Upload your own logo (a transparent PNG is recommended) to use as an image watermark.</li>
                 <li>Enable the <strong>tiling</strong> option to repeat the watermark across the entire image for maximum protection.</li>
+                <li>Every setting change can be undone with <strong>Ctrl+Z</strong> and redone with <strong>Ctrl+Shift+Z</strong>; the History list shows each step.</li>
             </ul>
         </div>
     ),
@@ -191,6 +267,19 @@ const toolDescriptions: Record<string, React.ReactNode> = {
             </ul>
         </div>
     ),
+    'Photo Editor': (
+        <div className="space-y-2">
+            <p>A layer-based editor for tone, color and touch-up work. Every change is kept as its own layer, so nothing is baked into the photo until you export.</p>
+             <ul className="list-disc list-inside text-gray-400 space-y-1 pl-2">
+                <li><strong>Adjustment</strong> layers control exposure, contrast, saturation, temperature, levels and a tone curve.</li>
+                <li><strong>Crop</strong>, <strong>Rotate</strong> and <strong>Text Watermark</strong> layers work like the standalone tools, but can be edited, hidden or reordered later.</li>
+                <li>Paint with the <strong>Brush</strong> on paint or image layers; the <strong>Eraser</strong> removes paint or makes image pixels transparent.</li>
+                <li>Add extra images as layers, then position and scale them with the Move tool.</li>
+                <li>Undo and redo with <strong>Ctrl+Z</strong> and <strong>Ctrl+Shift+Z</strong>, or jump to any step in the History panel.</li>
+                <li>Export the flattened result at full resolution as PNG, WEBP or GIF.</li>
+            </ul>
+        </div>
+    ),
     'HTML to Image': (
         <div className="space-y-2">
             <p>A unique, two-step AI tool that converts HTML code into a visual representation. It does not render the HTML directly, but interprets it creatively.</p>
@@ -224,6 +313,28 @@ const toolDescriptions: Record<string, React.ReactNode> = {
             </ul>
         </div>
     ),
+    'Extract Animation Frames': (
+         <div className="space-y-2">
+            <p>Pull the individual frames out of an animated GIF, APNG or animated WEBP file.</p>
+            <ul className="list-disc list-inside text-gray-400 space-y-1 pl-2">
+                <li>Each frame is shown as it appears in the animation, with every frame's timing.</li>
+                <li>Click frames to select them, or type a range such as <strong>1-10,15</strong>.</li>
+                <li>Download all or only the selected frames as PNG, JPG or WEBP in a ZIP file.</li>
+            </ul>
+            <p>Animated WEBP needs a browser that supports the ImageDecoder API, such as Chrome or Edge.</p>
+        </div>
+    ),
+    'Workflow Builder': (
+         <div className="space-y-2">
+            <p>Chain several edits into one workflow and run it over a whole batch of images.</p>
+            <ul className="list-disc list-inside text-gray-400 space-y-1 pl-2">
+                <li>Add <strong>Resize</strong>, <strong>Rotate</strong>, <strong>Text Watermark</strong> and <strong>Convert / Compress</strong> steps, then reorder or remove them.</li>
+                <li>Steps run in order on every image. The image is only encoded once, at the end, using the last Convert step (or the original format).</li>
+                <li>Save a workflow under a name to reuse it later. Saved workflows stay in this browser.</li>
+                <li>Download all the processed images as a ZIP file.</li>
+            </ul>
+        </div>
+    ),
     'Image Splitter': (
         <div className="space-y-2">
             <p>Divide a single image into multiple smaller pieces or tiles. This is ideal for creating grid posts for social media (like Instagram), preparing assets for game development, or simply breaking up a large image.</p>
@@ -0,0 +1,328 @@
+import React, { useState, useCallback, useRef } from 'react';
+import { ImageUploader } from '../components/ImageUploader';
+import { Button } from '../components/Button';
+import { downloadZip } from '../utils/imageUtils';
+import { parsePageRange } from '../utils/pageRange';
+import { useBlobUrl, useObjectUrls } from '../hooks/useObjectUrls';
+import { ArrowDownTrayIcon, ArrowUturnLeftIcon, CheckIcon } from '../components/icons';
+import { createPixelBuffer, decodeAnimation, drawPixelBuffer, encodeImage, fitWithin, formatToExtension, resize } from '../core';
+import type { DecodedAnimation, PixelBuffer } from '../core';
+
+type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+interface FrameThumbnail {
+  frameNum: number; // 1-based, as used in the frame range
+  url: string;
+}
+
+const THUMBNAIL_SIZE = 200;
+const WHITE = { r: 255, g: 255, b: 255, a: 255 };
+
+// JPEG has no alpha, so transparent areas are flattened onto white instead of turning black
+const flatten = (pixels: PixelBuffer): PixelBuffer => {
+  const output = createPixelBuffer(pixels.width, pixels.height, WHITE);
+  drawPixelBuffer(output, pixels, 0, 0);
+  return output;
+};
+
+const FrameExtractor: React.FC = () => {
+  const [file, setFile] = useState<File | null>(null);
+  const fileUrl = useBlobUrl(file);
+  const [animation, setAnimation] = useState<DecodedAnimation | null>(null);
+  const [thumbnails, setThumbnails] = useState<FrameThumbnail[]>([]);
+  const [selectedFrames, setSelectedFrames] = useState<Set<number>>(new Set());
+  const [frameRange, setFrameRange] = useState('all'); // e.g., "all", "1-10", "1-10,15"
+  const [imageFormat, setImageFormat] = useState<ExportFormat>('png');
+  const [imageQuality, setImageQuality] = useState(0.92); // For JPEG/WEBP
+  const [isLoading, setIsLoading] = useState(false); // For exporting
+  const [fileLoading, setFileLoading] = useState(false); // For decoding the upload
+  const [error, setError] = useState<string | null>(null);
+  const objectUrls = useObjectUrls();
+  const loadIdRef = useRef(0); // Ignores a decode that finishes after a newer upload or reset
+
+  const handleFileUpload = async (files: File[]) => {
+    if (files.length === 0) return;
+    const uploaded = files[0];
+    const loadId = ++loadIdRef.current;
+
+    objectUrls.revokeAll();
+    setFile(uploaded);
+    setAnimation(null);
+    setThumbnails([]);
+    setSelectedFrames(new Set());
+    setError(null);
+    setFileLoading(true);
+
+    try {
+      const decoded = await decodeAnimation(uploaded);
+      const newThumbnails: FrameThumbnail[] = [];
+      for (const [index, frame] of decoded.frames.entries()) {
+        if (loadId !== loadIdRef.current) return;
+        const size = fitWithin(frame.pixels.width, frame.pixels.height, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+        const thumbnail = await encodeImage(resize(frame.pixels, { ...size, method: 'bilinear' }), { format: 'png' });
+        newThumbnails.push({ frameNum: index + 1, url: objectUrls.create(thumbnail) });
+      }
+      if (loadId !== loadIdRef.current) return;
+      setAnimation(decoded);
+      setThumbnails(newThumbnails);
+      setSelectedFrames(new Set(newThumbnails.map(thumb => thumb.frameNum)));
+    } catch (e: any) {
+      if (loadId !== loadIdRef.current) return;
+      console.error('Error decoding animation:', e);
+      setError(e.message || 'Failed to read the frames. The file might be corrupted or in an unsupported format.');
+      setFile(null);
+    } finally {
+      if (loadId === loadIdRef.current) setFileLoading(false);
+    }
+  };
+
+  const exportFrames = useCallback(async (frameNums: number[], zipSuffix: string) => {
+    if (!animation || !file || frameNums.length === 0) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const baseName = file.name.replace(/\.[^.]+$/, '') || 'animation';
+      const digits = String(animation.frames.length).length;
+      const files = [];
+      for (const frameNum of frameNums) {
+        const { pixels } = animation.frames[frameNum - 1];
+        const blob = await encodeImage(imageFormat === 'jpeg' ? flatten(pixels) : pixels, { format: imageFormat, quality: imageQuality });
+        files.push({ blob, filename: `${baseName}_frame_${String(frameNum).padStart(digits, '0')}.${formatToExtension(imageFormat)}` });
+      }
+      await downloadZip(files, `${baseName}_${zipSuffix}.zip`);
+    } catch (e: any) {
+      console.error('Error exporting frames:', e);
+      setError(e.message || 'Failed to create ZIP file for download.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [animation, file, imageFormat, imageQuality]);
+
+  const handleDownloadAll = useCallback(() => {
+    exportFrames(thumbnails.map(thumb => thumb.frameNum), 'frames');
+  }, [exportFrames, thumbnails]);
+
+  const handleDownloadSelected = useCallback(() => {
+    if (selectedFrames.size === 0) {
+      setError('Please select frames to download.');
+      return;
+    }
+    exportFrames(Array.from<number>(selectedFrames).sort((a, b) => a - b), 'selected_frames');
+  }, [exportFrames, selectedFrames]);
+
+  const handleApplyRange = useCallback(() => {
+    if (!animation) return;
+    try {
+      setSelectedFrames(new Set(parsePageRange(frameRange, animation.frames.length, 'frame')));
+      setError(null);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  }, [animation, frameRange]);
+
+  const handleToggleFrameSelection = useCallback((frameNum: number) => {
+    setSelectedFrames(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(frameNum)) {
+        newSet.delete(frameNum);
+      } else {
+        newSet.add(frameNum);
+      }
+      return newSet;
+    });
+  }, []);
+
+  const handleToggleSelectAll = useCallback(() => {
+    if (selectedFrames.size === thumbnails.length && thumbnails.length > 0) {
+      setSelectedFrames(new Set()); // Deselect all
+    } else {
+      setSelectedFrames(new Set(thumbnails.map(thumb => thumb.frameNum))); // Select all
+    }
+  }, [selectedFrames, thumbnails]);
+
+  const handleReset = () => {
+    loadIdRef.current++;
+    objectUrls.revokeAll();
+    setFile(null);
+    setAnimation(null);
+    setThumbnails([]);
+    setSelectedFrames(new Set());
+    setFrameRange('all');
+    setImageFormat('png');
+    setImageQuality(0.92);
+    setIsLoading(false);
+    setFileLoading(false);
+    setError(null);
+  };
+
+  const totalDuration = animation ? animation.frames.reduce((sum, frame) => sum + frame.delay, 0) : 0;
+  const isSettingsDisabled = !animation || fileLoading || isLoading;
+  const showQualitySlider = imageFormat === 'jpeg' || imageFormat === 'webp';
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      <div className="lg:col-span-4 space-y-6">
+        <div className="bg-zinc-900 rounded-lg p-6 space-y-6 border border-zinc-800">
+          <h3 className="text-lg font-semibold text-white">Export Settings</h3>
+
+          <div>
+            <label htmlFor="frame-range" className="block text-sm font-medium text-gray-300 mb-2">Frame Range</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                id="frame-range"
+                value={frameRange}
+                onChange={(e) => setFrameRange(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleApplyRange(); }}
+                className="custom-input"
+                placeholder="e.g., all, 1-10, 1-10,15"
+                disabled={isSettingsDisabled}
+              />
+              <Button onClick={handleApplyRange} variant="outline" disabled={isSettingsDisabled}>
+                Select
+              </Button>
+            </div>
+            {animation && <p className="text-xs text-gray-500 mt-1">Total {animation.frames.length} frames. (Use numbers between 1 and {animation.frames.length})</p>}
+          </div>
+
+          <div>
+            <label htmlFor="frame-format" className="block text-sm font-medium text-gray-300 mb-2">Image Format</label>
+            <select
+              id="frame-format"
+              className="custom-input"
+              value={imageFormat}
+              onChange={(e) => setImageFormat(e.target.value as ExportFormat)}
+              disabled={isSettingsDisabled}
+            >
+              <option value="png">PNG</option>
+              <option value="jpeg">JPG</option>
+              <option value="webp">WEBP</option>
+            </select>
+            {imageFormat === 'jpeg' && <p className="text-xs text-gray-500 mt-1">Transparent areas are filled with white.</p>}
+          </div>
+
+          {showQualitySlider && (
+            <div>
+              <label htmlFor="frame-quality-slider" className="flex justify-between text-sm font-medium text-gray-300 mb-2">
+                <span>Image Quality</span>
+                <span className="font-mono text-[#1DB954] text-lg">{Math.round(imageQuality * 100)}%</span>
+              </label>
+              <input
+                type="range"
+                id="frame-quality-slider"
+                min="0.1"
+                max="1"
+                step="0.01"
+                value={imageQuality}
+                onChange={(e) => setImageQuality(parseFloat(e.target.value))}
+                className="w-full range-slider"
+                aria-label="Image Quality"
+                disabled={isSettingsDisabled}
+              />
+            </div>
+          )}
+
+          {animation && (
+            <div className="text-sm text-gray-400 space-y-1 pt-4 border-t border-zinc-800">
+              <p>Dimensions: <span className="font-semibold text-gray-200">{animation.width} x {animation.height}px</span></p>
+              <p>Duration: <span className="font-semibold text-gray-200">{(totalDuration / 1000).toFixed(2)}s</span></p>
+              <p>Loops: <span className="font-semibold text-gray-200">{animation.loopCount === 0 ? 'Forever' : animation.loopCount}</span></p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-4">
+          <Button onClick={handleDownloadAll} isLoading={isLoading} icon={<ArrowDownTrayIcon />} disabled={isSettingsDisabled}>
+            Download All ({thumbnails.length})
+          </Button>
+          <Button onClick={handleDownloadSelected} variant="secondary" icon={<ArrowDownTrayIcon />} disabled={isSettingsDisabled || selectedFrames.size === 0}>
+            Download Selected ({selectedFrames.size})
+          </Button>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-300">
+            <p className="font-semibold">Error:</p>
+            <p>{error}</p>
+          </div>
+        )}
+
+        <Button onClick={handleReset} variant="outline" icon={<ArrowUturnLeftIcon />} disabled={!file && thumbnails.length === 0}>
+          Start Over
+        </Button>
+      </div>
+
+      <div className="lg:col-span-8">
+        <div className="bg-zinc-900 p-4 rounded-lg border border-zinc-800 sticky top-24">
+          <h3 className="text-lg font-semibold text-white mb-4 px-2">Animation & Frames</h3>
+          {!file ? (
+            <div className="bg-black/50 p-2 rounded-lg flex items-center justify-center min-h-[40vh]">
+              <ImageUploader
+                onFileSelect={handleFileUpload}
+                title="Upload an animated image"
+                description="GIF, APNG or animated WEBP"
+                accept="image/gif,image/png,image/apng,image/webp"
+                multiple={false}
+                disabled={fileLoading || isLoading}
+              />
+            </div>
+          ) : (
+            <>
+              {fileUrl && (
+                <div className="bg-black/50 p-2 rounded-lg flex items-center justify-center mb-4">
+                  <img src={fileUrl} alt="Original animation" className="max-w-full max-h-[30vh] object-contain rounded-md" />
+                </div>
+              )}
+
+              {fileLoading && (
+                <div className="bg-black/50 p-2 rounded-lg flex flex-col items-center justify-center min-h-[10rem]">
+                  <svg className="animate-spin h-8 w-8 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                  <p className="text-gray-400 mt-2">Reading frames...</p>
+                </div>
+              )}
+
+              {thumbnails.length > 0 && (
+                <>
+                  <div className="flex justify-between items-center mb-4 px-2">
+                    <span className="text-sm text-gray-400">Click frames to select them</span>
+                    <Button onClick={handleToggleSelectAll} variant="secondary" className="px-3 py-1.5 text-xs">
+                      {selectedFrames.size === thumbnails.length ? 'Deselect All' : 'Select All'}
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3 p-2 bg-black/50 rounded-lg max-h-[60vh] overflow-y-auto">
+                    {thumbnails.map((thumb) => (
+                      <div
+                        key={thumb.frameNum}
+                        className={`relative group aspect-square w-full overflow-hidden rounded-lg border-2 transition-all duration-200 cursor-pointer bg-zinc-800
+                                    ${selectedFrames.has(thumb.frameNum) ? 'border-[#1DB954] ring-2 ring-[#1DB954]/50' : 'border-zinc-800 hover:border-[#1DB954]/70'}`}
+                        onClick={() => handleToggleFrameSelection(thumb.frameNum)}
+                      >
+                        <img src={thumb.url} alt={`Frame ${thumb.frameNum}`} className="object-contain w-full h-full" loading="lazy" />
+                        <span className="absolute bottom-1 left-1 px-1.5 py-0.5 rounded bg-black/70 text-xs text-white font-mono">
+                          {thumb.frameNum} · {animation?.frames[thumb.frameNum - 1].delay}ms
+                        </span>
+                        <div className="absolute top-2 right-2">
+                          {selectedFrames.has(thumb.frameNum) ? (
+                            <CheckIcon className="w-5 h-5 text-[#1DB954] bg-black/70 rounded-full p-0.5" />
+                          ) : (
+                            <div className="w-5 h-5 bg-black/50 border-2 border-gray-400 rounded-full opacity-0 group-hover:opacity-100" />
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FrameExtractor;
@@ -0,0 +1,359 @@
+import React, { useState, useCallback } from 'react';
+import { ImageUploader } from '../components/ImageUploader';
+import { Button } from '../components/Button';
+import { ColorPicker } from '../components/ColorPicker';
+import { downloadImage, getImageDimensions } from '../utils/imageUtils';
+import { useBlobUrl, useObjectUrls } from '../hooks/useObjectUrls';
+import { useDragReorder } from '../hooks/useDragReorder';
+import { ArrowDownTrayIcon, ArrowUturnLeftIcon, GifIcon, XMarkIcon, PlusIcon } from '../components/icons';
+import type { FileWithPreview } from '../types';
+import { contain, decodeImage, encodeGif, parseHexColor } from '../core';
+import type { GifFrame } from '../core';
+
+const MAX_FRAMES = 100;
+const DEFAULT_DELAY_MS = 500;
+const DEFAULT_MAX_WIDTH = 480;
+const MAX_WIDTH = 1920;
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+
+// The first frame sets the aspect ratio; other frames are letterboxed onto it
+const getOutputSize = (frames: FileWithPreview[], width: number) => {
+  const first = frames[0];
+  if (!first?.width || !first?.height) return null;
+  return { width, height: Math.max(1, Math.round((width * first.height) / first.width)) };
+};
+
+const GifMaker: React.FC = () => {
+  const [frames, setFrames] = useState<FileWithPreview[]>([]);
+  const [delays, setDelays] = useState<Record<string, number>>({}); // Per-frame delay in ms, by frame id
+  const [defaultDelay, setDefaultDelay] = useState(DEFAULT_DELAY_MS);
+  const [playCount, setPlayCount] = useState(0); // 0 loops forever
+  const [width, setWidth] = useState(DEFAULT_MAX_WIDTH);
+  const [backgroundColor, setBackgroundColor] = useState('#000000');
+  const [dither, setDither] = useState(true);
+  const [gifBlob, setGifBlob] = useState<Blob | null>(null);
+  const gifUrl = useBlobUrl(gifBlob);
+  const objectUrls = useObjectUrls();
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReorder = useCallback((reordered: FileWithPreview[]) => {
+    setFrames(reordered);
+    setGifBlob(null);
+  }, []);
+  const { containerProps, itemProps, draggingIndex, dragOverIndex } = useDragReorder(frames, handleReorder);
+
+  const outputSize = getOutputSize(frames, width);
+
+  const handleImagesUpload = async (files: File[]) => {
+    setError(null);
+    if (frames.length + files.length > MAX_FRAMES) {
+      setError(`A GIF can have up to ${MAX_FRAMES} frames. Please remove some frames or add fewer files.`);
+      return;
+    }
+
+    setIsProcessing(true);
+    const newFrames: FileWithPreview[] = [];
+    for (const file of files) {
+      try {
+        const { width: frameWidth, height, orientation } = await getImageDimensions(file);
+        newFrames.push(Object.assign(file, {
+          preview: objectUrls.create(file),
+          id: `${file.name}-${file.lastModified}-${Math.random()}`,
+          width: frameWidth,
+          height,
+          orientation,
+        }));
+      } catch (e: any) {
+        setError(e.message || `Failed to load image preview or dimensions for ${file.name}.`);
+      }
+    }
+    if (frames.length === 0 && newFrames[0]?.width) {
+      setWidth(Math.min(newFrames[0].width, DEFAULT_MAX_WIDTH));
+    }
+    setFrames(prev => [...prev, ...newFrames]);
+    setGifBlob(null);
+    setIsProcessing(false);
+  };
+
+  const handleRemoveFrame = (idToRemove: string) => {
+    objectUrls.revoke(frames.find(frame => frame.id === idToRemove)?.preview);
+    setFrames(prev => prev.filter(frame => frame.id !== idToRemove));
+    setDelays(prev => {
+      const { [idToRemove]: _removed, ...rest } = prev;
+      return rest;
+    });
+    setGifBlob(null);
+  };
+
+  const handleDelayChange = (id: string, value: number) => {
+    setDelays(prev => ({ ...prev, [id]: value }));
+    setGifBlob(null);
+  };
+
+  const handleApplyDelayToAll = () => {
+    setDelays({});
+    setGifBlob(null);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      handleImagesUpload(Array.from(e.target.files));
+    }
+  };
+
+  const generateGif = useCallback(async () => {
+    const outputSize = getOutputSize(frames, width);
+    if (!outputSize) return;
+
+    setIsProcessing(true);
+    setError(null);
+    setGifBlob(null);
+
+    try {
+      const background = parseHexColor(backgroundColor);
+      if (!background) throw new Error('Invalid background color format.');
+
+      const gifFrames: GifFrame[] = [];
+      for (const frame of frames) {
+        const pixels = await decodeImage(frame);
+        gifFrames.push({
+          pixels: contain(pixels, outputSize.width, outputSize.height, background),
+          delay: delays[frame.id] ?? defaultDelay,
+        });
+      }
+
+      // GIF counts repeats after the first play; a single play has no loop extension
+      const repeat = playCount === 0 ? 0 : playCount === 1 ? -1 : playCount - 1;
+      const bytes = encodeGif(gifFrames, { repeat, dither });
+      setGifBlob(new Blob([bytes], { type: 'image/gif' }));
+    } catch (e: any) {
+      console.error('Error creating GIF:', e);
+      setError(e.message || 'Failed to create the GIF. Ensure all images are valid.');
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [frames, width, backgroundColor, delays, defaultDelay, playCount, dither]);
+
+  const handleDownload = () => {
+    if (gifBlob) {
+      downloadImage(gifBlob, 'animation.gif');
+    }
+  };
+
+  const handleReset = () => {
+    objectUrls.revokeAll();
+    setFrames([]);
+    setDelays({});
+    setDefaultDelay(DEFAULT_DELAY_MS);
+    setPlayCount(0);
+    setWidth(DEFAULT_MAX_WIDTH);
+    setBackgroundColor('#000000');
+    setDither(true);
+    setGifBlob(null);
+    setIsProcessing(false);
+    setError(null);
+  };
+
+  const totalDuration = frames.reduce((sum, frame) => sum + (delays[frame.id] ?? defaultDelay), 0);
+  const isDisabled = frames.length === 0 || isProcessing;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      <div className="lg:col-span-4 space-y-6">
+        <div className="bg-zinc-900 rounded-lg p-6 space-y-6 border border-zinc-800">
+          <h3 className="text-lg font-semibold text-white">GIF Settings</h3>
+
+          <div>
+            <label htmlFor="gif-default-delay" className="block text-sm font-medium text-gray-300 mb-2">Frame Delay (ms)</label>
+            <div className="flex gap-2">
+              <input
+                id="gif-default-delay"
+                type="number"
+                min="20"
+                step="10"
+                value={defaultDelay}
+                onChange={(e) => { setDefaultDelay(Math.max(20, parseInt(e.target.value, 10) || 20)); setGifBlob(null); }}
+                className="custom-input"
+                disabled={isDisabled}
+              />
+              <Button onClick={handleApplyDelayToAll} variant="outline" disabled={isDisabled || Object.keys(delays).length === 0}>
+                Apply to All
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Used for frames without their own delay. Total duration: {(totalDuration / 1000).toFixed(1)}s</p>
+          </div>
+
+          <div>
+            <label htmlFor="gif-play-count" className="block text-sm font-medium text-gray-300 mb-2">Play Count</label>
+            <input
+              id="gif-play-count"
+              type="number"
+              min="0"
+              value={playCount}
+              onChange={(e) => { setPlayCount(Math.max(0, parseInt(e.target.value, 10) || 0)); setGifBlob(null); }}
+              className="custom-input"
+              disabled={isDisabled}
+            />
+            <p className="text-xs text-gray-500 mt-1">{playCount === 0 ? 'Loops forever.' : `Plays ${playCount} time(s), then stops on the last frame.`}</p>
+          </div>
+
+          <div>
+            <label htmlFor="gif-width" className="block text-sm font-medium text-gray-300 mb-2">Width (px)</label>
+            <input
+              id="gif-width"
+              type="number"
+              min="16"
+              max={MAX_WIDTH}
+              value={width}
+              onChange={(e) => { setWidth(Math.max(16, Math.min(MAX_WIDTH, parseInt(e.target.value, 10) || 16))); setGifBlob(null); }}
+              className="custom-input"
+              disabled={isDisabled}
+            />
+            {outputSize && (
+              <p className="text-xs text-gray-500 mt-1">Output: {outputSize.width} x {outputSize.height}px, following the first frame's aspect ratio.</p>
+            )}
+          </div>
+
+          <ColorPicker
+            label="Background Color"
+            color={backgroundColor}
+            onChange={(color: string) => { setBackgroundColor(color); setGifBlob(null); }}
+            disabled={isDisabled}
+          />
+
+          <div>
+            <div className="flex items-center">
+              <input
+                id="gif-dither"
+                type="checkbox"
+                checked={dither}
+                onChange={(e) => { setDither(e.target.checked); setGifBlob(null); }}
+                className="h-4 w-4 rounded border-zinc-600 bg-zinc-700 text-[#1DB954] focus:ring-[#1DB954]"
+                disabled={isDisabled}
+              />
+              <label htmlFor="gif-dither" className="ml-3 block text-sm font-medium text-gray-300">Dither colors</label>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">GIF is limited to 256 colors. Dithering smooths gradients at the cost of a larger file.</p>
+          </div>
+
+          <div className="flex flex-col gap-4 pt-4 border-t border-zinc-800">
+            <Button onClick={generateGif} isLoading={isProcessing} icon={<GifIcon />} disabled={isDisabled}>
+              Create GIF
+            </Button>
+            <Button onClick={handleDownload} variant="secondary" disabled={!gifUrl || isProcessing} icon={<ArrowDownTrayIcon />}>
+              Download GIF
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-300">
+            <p className="font-semibold">Error:</p>
+            <p>{error}</p>
+          </div>
+        )}
+
+        <Button onClick={handleReset} variant="outline" icon={<ArrowUturnLeftIcon />} disabled={frames.length === 0}>
+          Start Over
+        </Button>
+      </div>
+
+      <div className="lg:col-span-8">
+        <div className="bg-zinc-900 p-4 rounded-lg border border-zinc-800 sticky top-24">
+          <h3 className="text-lg font-semibold text-white mb-4 px-2">Frames & Preview</h3>
+          {!frames.length ? (
+            <div className="bg-black/50 p-2 rounded-lg flex items-center justify-center min-h-[40vh]">
+              <ImageUploader
+                onFileSelect={handleImagesUpload}
+                title="Upload the frames of your GIF"
+                description="Select multiple files or drag & drop here"
+                accept="image/*"
+                multiple={true}
+                disabled={isProcessing}
+              />
+            </div>
+          ) : (
+            <>
+              <p className="text-gray-400 text-sm mb-3 px-2">
+                Frames ({frames.length}/{MAX_FRAMES}). Drag & drop to reorder.
+              </p>
+              <div
+                className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-4 p-2 bg-black/50 rounded-lg mb-6"
+                {...containerProps}
+              >
+                {frames.map((frame, index) => (
+                  <div key={frame.id} className="space-y-1">
+                    <div
+                      {...itemProps(index)}
+                      className={`relative group aspect-square w-full overflow-hidden rounded-lg border-2 border-zinc-800 transition-all duration-200
+                                    ${draggingIndex === index ? 'opacity-50 border-[#1DB954]' : ''}
+                                    ${dragOverIndex === index && draggingIndex !== index ? 'border-[#1DB954]' : ''}`}
+                    >
+                      <img src={frame.preview} alt={`Frame ${index + 1}`} className="object-cover w-full h-full" loading="lazy" />
+                      <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+                        <span className="text-white text-xl font-bold">{index + 1}</span>
+                      </div>
+                      <button
+                        onClick={() => handleRemoveFrame(frame.id)}
+                        className="absolute top-2 right-2 p-1 bg-red-600/70 text-white rounded-full hover:bg-red-700 transition-colors opacity-0 group-hover:opacity-100"
+                        aria-label={`Remove frame ${index + 1}`}
+                      >
+                        <XMarkIcon className="w-5 h-5" />
+                      </button>
+                    </div>
+                    <input
+                      type="number"
+                      min="20"
+                      step="10"
+                      value={delays[frame.id] ?? defaultDelay}
+                      onChange={(e) => handleDelayChange(frame.id, Math.max(20, parseInt(e.target.value, 10) || 20))}
+                      className="custom-input text-xs py-1"
+                      aria-label={`Delay for frame ${index + 1} in milliseconds`}
+                      title="Delay (ms)"
+                      disabled={isProcessing}
+                    />
+                  </div>
+                ))}
+                {frames.length < MAX_FRAMES && (
+                  <label
+                    htmlFor="add-more-frames-input"
+                    className="group flex flex-col items-center justify-center text-center p-2 aspect-square rounded-lg border-2 border-dashed border-zinc-700 bg-zinc-800/50 text-gray-400 transition-colors hover:border-[#1DB954] hover:text-[#1DB954] cursor-pointer"
+                    title="Add more frames"
+                  >
+                    <PlusIcon className="w-8 h-8" />
+                    <span className="mt-2 text-sm font-semibold">Add More</span>
+                    <input id="add-more-frames-input" type="file" className="sr-only" accept="image/*" multiple onChange={handleFileChange} disabled={isProcessing} />
+                  </label>
+                )}
+              </div>
+
+              {isProcessing ? (
+                <div className="bg-black/50 p-2 rounded-lg flex flex-col items-center justify-center min-h-[20vh]">
+                  <svg className="animate-spin h-8 w-8 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                  <p className="text-gray-400 mt-4">Creating GIF...</p>
+                </div>
+              ) : gifUrl && gifBlob ? (
+                <div className="bg-black/50 p-2 rounded-lg flex flex-col items-center justify-center min-h-[40vh] gap-2">
+                  <img src={gifUrl} alt="Animated GIF preview" className="max-w-full max-h-[70vh] object-contain rounded-md" />
+                  <p className="text-xs text-gray-400">{formatBytes(gifBlob.size)}</p>
+                </div>
+              ) : (
+                <div className="bg-black/50 p-2 rounded-lg flex items-center justify-center min-h-[40vh] text-gray-400">
+                  Click "Create GIF" to see a preview.
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GifMaker;
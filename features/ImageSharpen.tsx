@@ -1,67 +1,170 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { ImageUploader } from '../components/ImageUploader';
 import { Button } from '../components/Button';
 import { downloadImage } from '../utils/imageUtils';
 import { upscaleImageWithAI } from '../services/backgroundRemovalService';
+import { decodeImage, encodeImage, encodeImageToDataURL, fitWithin, formatToExtension, mimeTypeToFormat, resize, sharpen } from '../core';
+import type { PixelBuffer, SharpenMethod } from '../core';
+import { useBlobUrl } from '../hooks/useObjectUrls';
 import { SharpenIcon, ArrowDownTrayIcon, ArrowUturnLeftIcon } from '../components/icons';
 import { ImageComparator } from '../components/ImageComparator';
 
+type Method = SharpenMethod | 'ai';
+
+const METHODS: { id: Method; name: string; description: string }[] = [
+  { id: 'unsharp', name: 'Unsharp Mask', description: 'The classic. Boosts contrast along edges; the threshold leaves fine noise and skin texture alone.' },
+  { id: 'high-pass', name: 'High Pass', description: 'Overlays the image\'s fine detail onto itself. Crisp edges while flat tones stay put.' },
+  { id: 'smart', name: 'Smart Sharpen', description: 'Sharpens only brightness along real edges, so flat areas gain no noise and edges no color fringes.' },
+  { id: 'ai', name: 'AI (RapidAPI)', description: 'Enhances detail with an AI model, which also upscales. Needs a network connection.' },
+];
+
+interface SharpenSettings {
+  amount: number; // %
+  radius: number;
+  threshold: number;
+  edgeThreshold: number;
+}
+
+const DEFAULT_SETTINGS: SharpenSettings = { amount: 100, radius: 1.5, threshold: 4, edgeThreshold: 12 };
+
+const PREVIEW_MAX_SIZE = 1200;
+
+const Slider: React.FC<{ id: string; label: string; value: number; min: number; max: number; step?: number; display: string; onChange: (value: number) => void; disabled?: boolean }> = ({ id, label, value, min, max, step = 1, display, onChange, disabled }) => (
+  <div>
+    <label htmlFor={id} className="flex justify-between text-sm font-medium text-gray-300 mb-2">
+      <span>{label}</span>
+      <span className="font-mono text-[#1DB954]">{display}</span>
+    </label>
+    <input type="range" id={id} min={min} max={max} step={step} value={value} onChange={(e) => onChange(parseFloat(e.target.value))} className="w-full range-slider" disabled={disabled} />
+  </div>
+);
+
 const ImageSharpen: React.FC = () => {
   const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-  const [upscaledUrl, setUpscaledUrl] = useState<string | null>(null);
+  const imageUrl = useBlobUrl(imageFile);
+  const [pixels, setPixels] = useState<PixelBuffer | null>(null);
+  const [preview, setPreview] = useState<{ pixels: PixelBuffer; url: string; scale: number } | null>(null);
+  const [sharpenedPreviewUrl, setSharpenedPreviewUrl] = useState<string | null>(null);
+  const [aiBlob, setAiBlob] = useState<Blob | null>(null);
+  const aiUrl = useBlobUrl(aiBlob);
+  const [method, setMethod] = useState<Method>('unsharp');
+  const [settings, setSettings] = useState<SharpenSettings>(DEFAULT_SETTINGS);
   const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [tileProgress, setTileProgress] = useState<{ completed: number; total: number } | null>(null);
   const [viewMode, setViewMode] = useState<'single' | 'side-by-side'>('single');
 
+  const isLocal = method !== 'ai';
+
+  useEffect(() => {
+    if (!imageFile) {
+      setPixels(null);
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    decodeImage(imageFile).then((decoded) => {
+      if (cancelled) return;
+      const size = fitWithin(decoded.width, decoded.height, PREVIEW_MAX_SIZE, PREVIEW_MAX_SIZE);
+      const previewPixels = size.width < decoded.width ? resize(decoded, { ...size, method: 'bicubic' }) : decoded;
+      setPixels(decoded);
+      setPreview({ pixels: previewPixels, url: encodeImageToDataURL(previewPixels, 'image/png'), scale: previewPixels.width / decoded.width });
+    }).catch(() => {
+      if (!cancelled) setError('Could not load the image.');
+    });
+    return () => { cancelled = true; };
+  }, [imageFile]);
+
+  // Live preview, debounced so slider drags stay responsive
+  useEffect(() => {
+    if (!preview || method === 'ai') return;
+    const timeout = setTimeout(() => {
+      const result = sharpen(preview.pixels, { method, ...settings, amount: settings.amount / 100 }, preview.scale);
+      setSharpenedPreviewUrl(encodeImageToDataURL(result, 'image/png'));
+    }, 150);
+    return () => clearTimeout(timeout);
+  }, [preview, method, settings]);
+
   const handleImageUpload = (files: File[]) => {
     if (files.length > 0) {
-      const file = files[0];
-      setImageFile(file);
-      setImageUrl(URL.createObjectURL(file));
-      setUpscaledUrl(null);
+      setImageFile(files[0]);
+      setSharpenedPreviewUrl(null);
+      setAiBlob(null);
+      setError(null);
       setViewMode('single');
     }
   };
-  
-  const applyAIUpscale = async () => {
+
+  const updateSetting = (patch: Partial<SharpenSettings>) => setSettings((prev: SharpenSettings) => ({ ...prev, ...patch }));
+
+  const applyAISharpen = async () => {
     if (!imageFile) return;
     setIsLoading(true);
-    setUpscaledUrl(null);
+    setAiBlob(null);
+    setError(null);
     try {
-        const resultUrl = await upscaleImageWithAI(imageFile);
-        setUpscaledUrl(resultUrl);
-    } catch (error: any) {
-        alert(error.message || "An unknown error occurred with AI Upscaler.");
+        const resultBlob = await upscaleImageWithAI(imageFile, {
+            onProgress: (completed, total) => setTileProgress({ completed, total }),
+        });
+        setAiBlob(resultBlob);
+    } catch (err: any) {
+        setError(err.message || "An unknown error occurred with AI Image Sharpening.");
     } finally {
         setIsLoading(false);
+        setTileProgress(null);
     }
   };
 
-  const handleDownload = () => {
-    if (!upscaledUrl || !imageFile) return;
-    const filename = `upscaled_${imageFile.name}`;
-    downloadImage(upscaledUrl, filename);
+  const handleDownload = async () => {
+    if (!imageFile) return;
+    const baseName = imageFile.name.substring(0, imageFile.name.lastIndexOf('.')) || imageFile.name;
+    if (!isLocal) {
+      if (aiBlob) downloadImage(aiBlob, `sharpened_${baseName}.${formatToExtension(mimeTypeToFormat(aiBlob.type))}`);
+      return;
+    }
+    if (!pixels) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const result = sharpen(pixels, { method, ...settings, amount: settings.amount / 100 });
+      const format = mimeTypeToFormat(imageFile.type);
+      downloadImage(await encodeImage(result, { format, quality: 0.92 }), `sharpened_${baseName}.${formatToExtension(format)}`);
+    } catch (err: any) {
+      console.error('Error exporting sharpened image:', err);
+      setError(err.message || 'Failed to export the image.');
+    } finally {
+      setIsExporting(false);
+    }
   };
-  
+
   const handleReset = () => {
     setImageFile(null);
-    setImageUrl(null);
-    setUpscaledUrl(null);
-  }
+    setSharpenedPreviewUrl(null);
+    setAiBlob(null);
+    setError(null);
+  };
+
+  const beforeUrl = isLocal ? preview?.url ?? null : imageUrl;
+  const sharpenedUrl = isLocal ? sharpenedPreviewUrl : aiUrl;
+  const selectedMethod = METHODS.find((m) => m.id === method) ?? METHODS[0];
 
   const AIInfoBox = () => (
     <div className="p-4 bg-black/70 text-gray-400 border border-zinc-800 rounded-lg text-sm">
         <p><span className="font-semibold text-[#1DB954]">Note:</span> This AI tool enhances resolution and details, effectively sharpening your image.</p>
-        <p className="mt-2">Images over 1000x1000 may be downscaled to meet API limits.</p>
+        <p className="mt-2">Images over 1000x1000 are processed in tiles, which takes a few requests.</p>
     </div>
   );
 
   const LoadingSpinner = () => (
-      <div className="absolute inset-0 flex items-center justify-center bg-black/50 rounded-lg">
+      <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-black/50 rounded-lg">
           <svg className="animate-spin h-8 w-8 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
           </svg>
+          {tileProgress && tileProgress.total > 1 && (
+              <p className="text-sm text-white">{tileProgress.completed} of {tileProgress.total} tiles upscaled</p>
+          )}
       </div>
   );
 
@@ -69,15 +172,51 @@ const ImageSharpen: React.FC = () => {
     <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
       <div className="lg:col-span-4 space-y-6">
         <div className="bg-zinc-900 p-6 rounded-lg border border-zinc-800 space-y-6">
-            <h3 className="text-lg font-semibold text-white">AI Image Sharpen</h3>
-            <AIInfoBox />
+            <h3 className="text-lg font-semibold text-white">Image Sharpen</h3>
+            <div>
+              <label htmlFor="sharpen-method" className="block text-sm font-medium text-gray-300 mb-2">Method</label>
+              <select
+                id="sharpen-method"
+                value={method}
+                onChange={(e) => setMethod(e.target.value as Method)}
+                className="custom-input"
+                disabled={isLoading || isExporting}
+              >
+                {METHODS.map((m) => <option key={m.id} value={m.id}>{m.name}</option>)}
+              </select>
+              <p className="text-xs text-gray-500 mt-2">{selectedMethod.description}</p>
+            </div>
+
+            {isLocal ? (
+              <>
+                <Slider id="sharpen-amount" label="Amount" value={settings.amount} min={0} max={300} step={5} display={`${settings.amount}%`} onChange={(amount) => updateSetting({ amount })} disabled={!imageFile} />
+                <Slider id="sharpen-radius" label="Radius" value={settings.radius} min={0.3} max={10} step={0.1} display={`${settings.radius.toFixed(1)}px`} onChange={(radius) => updateSetting({ radius })} disabled={!imageFile} />
+                {method === 'unsharp' && (
+                  <Slider id="sharpen-threshold" label="Threshold" value={settings.threshold} min={0} max={50} display={`${settings.threshold}`} onChange={(threshold) => updateSetting({ threshold })} disabled={!imageFile} />
+                )}
+                {method === 'smart' && (
+                  <Slider id="sharpen-edge-threshold" label="Noise Protection" value={settings.edgeThreshold} min={0} max={60} display={`${settings.edgeThreshold}`} onChange={(edgeThreshold) => updateSetting({ edgeThreshold })} disabled={!imageFile} />
+                )}
+                <button onClick={() => setSettings(DEFAULT_SETTINGS)} className="text-sm text-gray-400 hover:text-white transition-colors" disabled={!imageFile}>
+                  Reset to defaults
+                </button>
+              </>
+            ) : (
+              <AIInfoBox />
+            )}
+
             <div className="flex flex-col gap-4 pt-4 border-t border-zinc-800">
-                <Button icon={<SharpenIcon />} onClick={applyAIUpscale} isLoading={isLoading} disabled={!imageFile}>Sharpen with AI</Button>
-                <Button icon={<ArrowDownTrayIcon />} onClick={handleDownload} variant="secondary" disabled={!upscaledUrl}>
+                {!isLocal && (
+                  <Button icon={<SharpenIcon />} onClick={applyAISharpen} isLoading={isLoading} disabled={!imageFile}>Sharpen with AI</Button>
+                )}
+                <Button icon={<ArrowDownTrayIcon />} onClick={handleDownload} isLoading={isExporting} variant="secondary" disabled={!sharpenedUrl}>
                     Download
                 </Button>
             </div>
         </div>
+        {error && (
+          <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-300 text-sm">{error}</div>
+        )}
           <Button icon={<ArrowUturnLeftIcon />} onClick={handleReset} variant="outline" disabled={!imageFile}>
             Start Over
         </Button>
@@ -95,30 +234,33 @@ const ImageSharpen: React.FC = () => {
                     <button onClick={() => setViewMode('single')} className={`px-4 py-1.5 text-sm font-medium rounded-full transition-colors ${viewMode === 'single' ? 'bg-[#1DB954] text-black' : 'text-gray-300 hover:bg-zinc-700'}`}>
                       Result
                     </button>
-                    <button onClick={() => setViewMode('side-by-side')} disabled={!upscaledUrl} className={`px-4 py-1.5 text-sm font-medium rounded-full transition-colors ${viewMode === 'side-by-side' ? 'bg-[#1DB954] text-black' : 'text-gray-300 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed'}`}>
+                    <button onClick={() => setViewMode('side-by-side')} disabled={!sharpenedUrl} className={`px-4 py-1.5 text-sm font-medium rounded-full transition-colors ${viewMode === 'side-by-side' ? 'bg-[#1DB954] text-black' : 'text-gray-300 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed'}`}>
                       Compare
                     </button>
                   </div>
                 </div>
-                {viewMode === 'single' ? (
+                {viewMode === 'single' || !sharpenedUrl ? (
                     <div className="bg-black/50 p-2 rounded-lg flex items-center justify-center min-h-[40vh] relative">
                       {isLoading && <LoadingSpinner />}
-                      <img src={upscaledUrl ?? imageUrl ?? ''} alt="Preview" className="max-w-full object-contain rounded-md" loading="lazy" />
+                      <img src={sharpenedUrl ?? imageUrl ?? ''} alt="Preview" className="max-w-full object-contain rounded-md" loading="lazy" />
                     </div>
                 ) : (
                   <div className="bg-black/50 p-2 rounded-lg flex items-center justify-center min-h-[40vh] relative">
                     {isLoading && <LoadingSpinner />}
-                    {!isLoading && upscaledUrl && imageUrl && (
-                      <ImageComparator 
-                        beforeSrc={imageUrl} 
-                        afterSrc={upscaledUrl}
+                    {!isLoading && beforeUrl && (
+                      <ImageComparator
+                        beforeSrc={beforeUrl}
+                        afterSrc={sharpenedUrl}
                         beforeLabel='Original'
                         afterLabel='Sharpened'
                       />
                     )}
                   </div>
                 )}
-                {upscaledUrl && !isLoading && (
+                {isLocal && preview && preview.scale < 1 && (
+                    <p className="text-xs text-gray-500 mt-3 text-center">Previewing at reduced size. The download is sharpened at full resolution.</p>
+                )}
+                {!isLocal && aiUrl && !isLoading && (
                     <div className="mt-4 p-3 bg-green-500/10 border border-green-500/20 rounded-lg text-center">
                         <p className="font-medium text-sm text-green-300">Sharpening applied successfully!</p>
                     </div>
@@ -1,14 +1,16 @@
 
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { ImageUploader } from '../components/ImageUploader';
 import { Button } from '../components/Button';
 import { downloadZip } from '../utils/imageUtils';
+import { decodeImage, encodeImage, formatToExtension, mimeTypeToFormat, split } from '../core';
 import { ArrowDownTrayIcon, ArrowUturnLeftIcon, GridIcon, CheckIcon, XMarkIcon } from '../components/icons';
 
 interface SplitImage {
   id: string; // Unique ID for selection/keying
-  dataUrl: string;
+  blob: Blob;
+  url: string; // Object URL, revoked when the split images are replaced
   filename: string;
   row: number; // 0-based row index
   col: number; // 0-based column index
@@ -28,13 +30,11 @@ const ImageSplitter: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const canvasRef = useRef<HTMLCanvasElement>(null); // Hidden canvas for splitting logic
-
   // Revoke object URLs when splitImages change or component unmounts
   useEffect(() => {
     const imagesToRevoke = splitImages; 
     return () => {
-      imagesToRevoke.forEach(img => URL.revokeObjectURL(img.dataUrl));
+      imagesToRevoke.forEach(img => URL.revokeObjectURL(img.url));
     };
   }, [splitImages]);
 
@@ -66,7 +66,7 @@ const ImageSplitter: React.FC = () => {
     }
   };
 
-  const handleSplitImage = useCallback(() => {
+  const handleSplitImage = useCallback(async () => {
     if (!imageUrl || !imageFile) {
       setError('Please upload an image first.');
       return;
@@ -97,80 +97,31 @@ const ImageSplitter: React.FC = () => {
     setSplitImages([]); // Clear previous split images
     setSelectedImages(new Set());
 
-    const img = new Image();
-    img.src = imageUrl;
-    img.onload = () => {
-      const canvas = canvasRef.current;
-      if (!canvas) {
-        setError('Canvas element not found.');
-        setIsLoading(false);
-        return;
-      }
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        setError('Failed to get canvas 2D context.');
-        setIsLoading(false);
-        return;
-      }
-
-      const imgWidth = img.naturalWidth;
-      const imgHeight = img.naturalHeight;
-      const fileExtension = imageFile.type.split('/')[1] || 'png'; // Default to png if type is unknown
+    try {
+      const pixels = await decodeImage(imageFile); // Upright, matching the preview
+      const format = mimeTypeToFormat(imageFile.type); // Unsupported types are written as PNG
+      const fileExtension = formatToExtension(format);
 
+      // Remainder pixels are distributed to the first rows/columns by split()
       const newSplitImages: SplitImage[] = [];
-      
-      // Calculate base slice dimensions and remainders
-      const baseSliceWidth = Math.floor(imgWidth / effectiveCols);
-      const remainderWidth = imgWidth % effectiveCols;
-
-      const baseSliceHeight = Math.floor(imgHeight / effectiveRows);
-      const remainderHeight = imgHeight % effectiveRows;
-
-      let currentY = 0;
-      for (let r = 0; r < effectiveRows; r++) {
-        // Distribute remainder height to the first 'remainderHeight' rows
-        const sliceHeight = baseSliceHeight + (r < remainderHeight ? 1 : 0);
-        let currentX = 0;
-        for (let c = 0; c < effectiveCols; c++) {
-          // Distribute remainder width to the first 'remainderWidth' columns in each row
-          const sliceWidth = baseSliceWidth + (c < remainderWidth ? 1 : 0);
-
-          canvas.width = sliceWidth;
-          canvas.height = sliceHeight;
-
-          ctx.clearRect(0, 0, canvas.width, canvas.height);
-          ctx.drawImage(
-            img,
-            currentX,     // Source X
-            currentY,     // Source Y
-            sliceWidth,   // Source Width
-            sliceHeight,  // Source Height
-            0,            // Destination X
-            0,            // Destination Y
-            sliceWidth,   // Destination Width
-            sliceHeight   // Destination Height
-          );
-
-          const dataUrl = canvas.toDataURL(imageFile.type);
-          newSplitImages.push({
-            id: `R${r + 1}C${c + 1}-${Date.now()}`,
-            dataUrl,
-            filename: `${imageFile.name.split('.')[0]}_R${r + 1}C${c + 1}.${fileExtension}`,
-            row: r,
-            col: c,
-          });
-          currentX += sliceWidth;
-        }
-        currentY += sliceHeight;
+      for (const { row: r, col: c, image } of split(pixels, { rows: effectiveRows, cols: effectiveCols })) {
+        const blob = await encodeImage(image, { format });
+        newSplitImages.push({
+          id: `R${r + 1}C${c + 1}-${Date.now()}`,
+          blob,
+          url: URL.createObjectURL(blob),
+          filename: `${imageFile.name.split('.')[0]}_R${r + 1}C${c + 1}.${fileExtension}`,
+          row: r,
+          col: c,
+        });
       }
 
       setSplitImages(newSplitImages);
-      setIsLoading(false);
-    };
-    img.onerror = () => {
+    } catch (e) {
       setError('Failed to load image for splitting.');
+    } finally {
       setIsLoading(false);
-    };
+    }
   }, [imageUrl, imageFile, rows, cols, splitMethod]);
 
   const handleDownloadAll = useCallback(() => {
@@ -434,7 +385,7 @@ const ImageSplitter: React.FC = () => {
                                     ${selectedImages.has(img.id) ? 'border-teal-400 ring-2 ring-teal-400' : 'border-gray-700 hover:border-teal-500/70'}`}
                         onClick={() => handleToggleImageSelection(img.id)}
                       >
-                        <img src={img.dataUrl} alt={img.filename} className="object-cover w-full h-full" loading="lazy" />
+                        <img src={img.url} alt={img.filename} className="object-cover w-full h-full" loading="lazy" />
                         <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
                           <span className="text-white text-lg font-bold">
                             R{img.row + 1}C{img.col + 1}
@@ -456,7 +407,6 @@ const ImageSplitter: React.FC = () => {
               )}
             </>
           )}
-          <canvas ref={canvasRef} style={{ display: 'none' }} />
         </div>
       </div>
     </div>
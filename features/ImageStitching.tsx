@@ -1,31 +1,27 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback } from 'react';
 import { ImageUploader } from '../components/ImageUploader';
 import { Button } from '../components/Button';
-import { downloadImage, loadImageAsDataURLAndDimensions } from '../utils/imageUtils';
+import { downloadImage, getImageDimensions } from '../utils/imageUtils';
+import { useBlobUrl, useObjectUrls } from '../hooks/useObjectUrls';
+import { useDragReorder } from '../hooks/useDragReorder';
 import { ArrowDownTrayIcon, ArrowUturnLeftIcon, StitchIcon, XMarkIcon, PlusIcon } from '../components/icons';
 import type { FileWithPreview } from '../types';
+import { decodeImage, encodeImage, parseHexColor, stitch } from '../core';
 
 const ImageStitching: React.FC = () => {
   const [imageFiles, setImageFiles] = useState<FileWithPreview[]>([]);
-  const [stitchedImageUrl, setStitchedImageUrl] = useState<string | null>(null);
+  const [stitchedBlob, setStitchedBlob] = useState<Blob | null>(null);
+  const stitchedImageUrl = useBlobUrl(stitchedBlob);
+  const objectUrls = useObjectUrls();
   const [direction, setDirection] = useState<'horizontal' | 'vertical'>('horizontal');
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
 
-  // For drag and drop reordering
-  const dragItem = useRef<number | null>(null);
-  const dragOverItem = useRef<number | null>(null);
-
-  useEffect(() => {
-    // Revoke old object URLs when component unmounts or imageFiles change
-    return () => {
-      imageFiles.forEach(file => URL.revokeObjectURL(file.preview));
-      if (stitchedImageUrl) {
-        URL.revokeObjectURL(stitchedImageUrl);
-      }
-    };
-  }, [imageFiles, stitchedImageUrl]);
+  const handleReorder = useCallback((reordered: FileWithPreview[]) => {
+    setImageFiles(reordered);
+    setStitchedBlob(null); // Clear generated stitched image on reorder
+  }, []);
+  const { containerProps, itemProps, draggingIndex, dragOverIndex } = useDragReorder(imageFiles, handleReorder);
 
   const handleImagesUpload = async (files: File[]) => {
     setError(null);
@@ -33,76 +29,36 @@ const ImageStitching: React.FC = () => {
     const newFilesWithPreviews: FileWithPreview[] = [];
     for (const file of files) {
       try {
-        const { dataUrl, width, height } = await loadImageAsDataURLAndDimensions(file);
+        const { width, height, orientation } = await getImageDimensions(file);
         newFilesWithPreviews.push(Object.assign(file, {
-          preview: dataUrl,
-          id: URL.createObjectURL(file), // Use blob URL as unique ID for preview
+          preview: objectUrls.create(file),
+          id: `${file.name}-${file.lastModified}-${Math.random()}`,
           width,
           height,
+          orientation,
         }));
       } catch (e: any) {
         setError(e.message || `Failed to load image preview or dimensions for ${file.name}.`);
       }
     }
     setImageFiles(prev => [...prev, ...newFilesWithPreviews]);
-    setStitchedImageUrl(null); // Clear previous stitched image on new uploads
+    setStitchedBlob(null); // Clear previous stitched image on new uploads
     setIsProcessing(false);
   };
 
   const handleRemoveImage = (idToRemove: string) => {
+    objectUrls.revoke(imageFiles.find(file => file.id === idToRemove)?.preview);
     setImageFiles(prev => {
       const updatedFiles = prev.filter(file => file.id !== idToRemove);
       if (prev.length !== updatedFiles.length) {
         // Only clear stitched image if an image was actually removed
-        setStitchedImageUrl(null);
+        setStitchedBlob(null);
       }
       return updatedFiles;
     });
     setError(null);
   };
 
-  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, index: number) => {
-    dragItem.current = index;
-    e.dataTransfer.effectAllowed = "move";
-    e.dataTransfer.setData("text/plain", index.toString());
-  };
-
-  const handleDragEnter = (e: React.DragEvent<HTMLDivElement>, index: number) => {
-    dragOverItem.current = index;
-  };
-
-  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
-    // No visual feedback on leave, handled by handleDragEnd
-  };
-
-  const handleDragEnd = (e: React.DragEvent<HTMLDivElement>) => {
-    // Clean up any lingering drag-over styles - not strictly needed with simple swap
-  };
-
-  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    const draggedIndex = dragItem.current;
-    const droppedIndex = dragOverItem.current;
-
-    if (draggedIndex === null || droppedIndex === null || draggedIndex === droppedIndex) {
-      return;
-    }
-
-    const newImageFiles = [...imageFiles];
-    const [reorderedItem] = newImageFiles.splice(draggedIndex, 1);
-    newImageFiles.splice(droppedIndex, 0, reorderedItem);
-
-    setImageFiles(newImageFiles);
-    dragItem.current = null;
-    dragOverItem.current = null;
-    setStitchedImageUrl(null); // Clear generated stitched image on reorder
-  };
-
-  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    e.dataTransfer.dropEffect = "move";
-  };
-  
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
         handleImagesUpload(Array.from(e.target.files));
@@ -118,66 +74,17 @@ const ImageStitching: React.FC = () => {
 
     setIsProcessing(true);
     setError(null);
-    setStitchedImageUrl(null);
+    setStitchedBlob(null);
 
     try {
-      const canvas = canvasRef.current;
-      if (!canvas) {
-        throw new Error('Canvas element not found.');
-      }
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        throw new Error('Failed to get 2D rendering context.');
-      }
-
-      const loadedImages: HTMLImageElement[] = [];
+      const loadedImages = [];
       for (const file of imageFiles) {
-        const img = new Image();
-        img.src = file.preview;
-        await new Promise((resolve, reject) => {
-          img.onload = resolve;
-          img.onerror = reject;
-        });
-        loadedImages.push(img);
-      }
-
-      let totalWidth = 0;
-      let totalHeight = 0;
-      let maxWidth = 0;
-      let maxHeight = 0;
-
-      // Calculate dimensions for the stitched canvas
-      if (direction === 'horizontal') {
-        maxHeight = Math.max(...loadedImages.map(img => img.naturalHeight));
-        totalWidth = loadedImages.reduce((sum, img) => sum + img.naturalWidth, 0);
-        canvas.width = totalWidth;
-        canvas.height = maxHeight;
-      } else { // vertical
-        maxWidth = Math.max(...loadedImages.map(img => img.naturalWidth));
-        totalHeight = loadedImages.reduce((sum, img) => sum + img.naturalHeight, 0);
-        canvas.width = maxWidth;
-        canvas.height = totalHeight;
-      }
-
-      ctx.fillStyle = '#111827'; // Tailwind gray-900 for background
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-      let currentX = 0;
-      let currentY = 0;
-
-      for (const img of loadedImages) {
-        if (direction === 'horizontal') {
-          // Align by top, center vertically if needed (not implemented here for simplicity, just draw)
-          ctx.drawImage(img, currentX, 0, img.naturalWidth, img.naturalHeight);
-          currentX += img.naturalWidth;
-        } else { // vertical
-          // Align by left, center horizontally if needed (not implemented here for simplicity, just draw)
-          ctx.drawImage(img, 0, currentY, img.naturalWidth, img.naturalHeight);
-          currentY += img.naturalHeight;
-        }
+        loadedImages.push(await decodeImage(file));
       }
 
-      setStitchedImageUrl(canvas.toDataURL('image/jpeg', 0.9)); // Output as JPG with good quality
+      // Images are top/left aligned over a Tailwind gray-900 background
+      const stitched = stitch(loadedImages, { direction, background: parseHexColor('#111827')! });
+      setStitchedBlob(await encodeImage(stitched, { format: 'jpeg', quality: 0.9 })); // Output as JPG with good quality
     } catch (e: any) {
       console.error('Error stitching images:', e);
       setError(e.message || 'Failed to stitch images. Ensure all images are valid.');
@@ -187,14 +94,15 @@ const ImageStitching: React.FC = () => {
   }, [imageFiles, direction]);
 
   const handleDownloadStitchedImage = () => {
-    if (stitchedImageUrl) {
-      downloadImage(stitchedImageUrl, 'stitched_image.jpeg');
+    if (stitchedBlob) {
+      downloadImage(stitchedBlob, 'stitched_image.jpeg');
     }
   };
 
   const handleReset = () => {
+    objectUrls.revokeAll();
     setImageFiles([]);
-    setStitchedImageUrl(null);
+    setStitchedBlob(null);
     setDirection('horizontal');
     setIsProcessing(false);
     setError(null);
@@ -216,7 +124,7 @@ const ImageStitching: React.FC = () => {
                 className={`flex-1 py-2 px-3 text-sm font-medium transition-colors ${
                   direction === 'horizontal' ? 'bg-teal-500 text-white' : 'text-gray-300 hover:bg-gray-600'
                 } disabled:opacity-50`}
-                onClick={() => { setDirection('horizontal'); setStitchedImageUrl(null); }}
+                onClick={() => { setDirection('horizontal'); setStitchedBlob(null); }}
                 disabled={imageFiles.length < 2 || isProcessing}
               >
                 Horizontal
@@ -225,7 +133,7 @@ const ImageStitching: React.FC = () => {
                 className={`flex-1 py-2 px-3 text-sm font-medium transition-colors ${
                   direction === 'vertical' ? 'bg-teal-500 text-white' : 'text-gray-300 hover:bg-gray-600'
                 } disabled:opacity-50`}
-                onClick={() => { setDirection('vertical'); setStitchedImageUrl(null); }}
+                onClick={() => { setDirection('vertical'); setStitchedBlob(null); }}
                 disabled={imageFiles.length < 2 || isProcessing}
               >
                 Vertical
@@ -276,20 +184,15 @@ const ImageStitching: React.FC = () => {
               </p>
               <div
                 className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-4 p-2 bg-gray-900/50 rounded-lg mb-6"
-                onDrop={handleDrop}
-                onDragOver={handleDragOver}
+                {...containerProps}
               >
                 {imageFiles.map((file, index) => (
                   <div
                     key={file.id}
-                    draggable
-                    onDragStart={(e) => handleDragStart(e, index)}
-                    onDragEnter={(e) => handleDragEnter(e, index)}
-                    onDragLeave={handleDragLeave}
-                    onDragEnd={handleDragEnd}
+                    {...itemProps(index)}
                     className={`relative group aspect-square w-full overflow-hidden rounded-lg border-2 border-gray-700 transition-all duration-200 
-                                  ${dragItem.current === index ? 'opacity-50 border-teal-500' : ''}
-                                  ${dragOverItem.current === index && dragItem.current !== index ? 'border-teal-400' : ''}`}
+                                  ${draggingIndex === index ? 'opacity-50 border-teal-500' : ''}
+                                  ${dragOverIndex === index && draggingIndex !== index ? 'border-teal-400' : ''}`}
                   >
                     <img
                       src={file.preview}
@@ -349,7 +252,6 @@ const ImageStitching: React.FC = () => {
                   Click "Stitch Images" to see a preview.
                 </div>
               )}
-              <canvas ref={canvasRef} className="hidden" />
             </>
           )}
         </div>
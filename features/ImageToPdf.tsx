@@ -1,29 +1,14 @@
 
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import { ImageUploader } from '../components/ImageUploader';
 import { Button } from '../components/Button';
-import { downloadImage, loadImageAsDataURLAndDimensions } from '../utils/imageUtils'; // Changed to loadImageAsDataURLAndDimensions
+import { downloadBlob, getImageDimensions, loadImageForPdf } from '../utils/imageUtils';
+import { useObjectUrls } from '../hooks/useObjectUrls';
 import { ArrowDownTrayIcon, ArrowUturnLeftIcon, PdfIcon, XMarkIcon, PlusIcon } from '../components/icons';
 import { jsPDF } from 'jspdf';
 import type { FileWithPreview } from '../types'; // Import FileWithPreview
 
-// Helper to load image as Data URL
-const loadImageAsDataURL = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      if (typeof reader.result === 'string') {
-        resolve(reader.result);
-      } else {
-        reject(new Error('Failed to read file as data URL.'));
-      }
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
-};
-
 // Removed ImageFileWithPreview interface as it's now in types.ts
 
 const ImageToPdf: React.FC = () => {
@@ -32,37 +17,30 @@ const ImageToPdf: React.FC = () => {
   const [orientation, setOrientation] = useState<'portrait' | 'landscape'>('portrait');
   const [margin, setMargin] = useState(10); // in mm
   const [upscaleSmallerImages, setUpscaleSmallerImages] = useState(false); // New state for upscaling
-  const [pdfBlobUrl, setPdfBlobUrl] = useState<string | null>(null);
+  const [pdfBlob, setPdfBlob] = useState<Blob | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // For drag and drop reordering
   const dragItem = useRef<number | null>(null);
   const dragOverItem = useRef<number | null>(null);
-
-  // Revoke old blob URLs when component unmounts or pdfBlobUrl changes
-  useEffect(() => {
-    return () => {
-      if (pdfBlobUrl) {
-        URL.revokeObjectURL(pdfBlobUrl);
-      }
-      imageFiles.forEach(file => URL.revokeObjectURL(file.preview));
-    };
-  }, [pdfBlobUrl, imageFiles]);
+  const objectUrls = useObjectUrls();
 
   const handleImagesUpload = async (files: File[]) => {
     setError(null);
-    setPdfBlobUrl(null);
+    setPdfBlob(null);
     setIsProcessing(true); // Indicate processing for new uploads
     const newFilesWithPreviews: FileWithPreview[] = [];
     for (const file of files) {
       try {
-        const { dataUrl, width, height } = await loadImageAsDataURLAndDimensions(file); // Use utility
+        // Only the size is read here; the image bytes go to jsPDF when the PDF is generated
+        const { width, height, orientation } = await getImageDimensions(file);
         newFilesWithPreviews.push(Object.assign(file, {
-          preview: dataUrl,
-          id: URL.createObjectURL(file), // Use blob URL as unique ID for preview
+          preview: objectUrls.create(file),
+          id: `${file.name}-${file.lastModified}-${Math.random()}`,
           width,
           height,
+          orientation,
         }));
       } catch (e: any) {
         setError(e.message || `Failed to load image preview or dimensions for ${file.name}.`);
@@ -73,8 +51,9 @@ const ImageToPdf: React.FC = () => {
   };
 
   const handleRemoveImage = (idToRemove: string) => {
+    objectUrls.revoke(imageFiles.find(file => file.id === idToRemove)?.preview);
     setImageFiles(prev => prev.filter(file => file.id !== idToRemove));
-    setPdfBlobUrl(null);
+    setPdfBlob(null);
     setError(null);
   };
 
@@ -125,7 +104,7 @@ const ImageToPdf: React.FC = () => {
     setImageFiles(newImageFiles);
     dragItem.current = null;
     dragOverItem.current = null;
-    setPdfBlobUrl(null); // Clear generated PDF on reorder
+    setPdfBlob(null); // Clear generated PDF on reorder
     // Clean up drag-over styles for the dropped item
     if (e.currentTarget) {
         e.currentTarget.classList.remove('border-teal-400');
@@ -152,7 +131,7 @@ const ImageToPdf: React.FC = () => {
 
     setIsProcessing(true);
     setError(null);
-    setPdfBlobUrl(null);
+    setPdfBlob(null);
 
     try {
       const doc = new jsPDF({
@@ -161,126 +140,59 @@ const ImageToPdf: React.FC = () => {
         format: pageSize,
       });
 
-      let imagesToProcess = [...imageFiles]; // Create a mutable copy
-
+      // Target size for images that get upscaled to match the largest one, if the option is on
+      let largestWidth = 0;
+      let largestHeight = 0;
       if (upscaleSmallerImages && imageFiles.length > 1) {
-        let largestWidth = 0;
-        let largestHeight = 0;
-
-        // Find the maximum natural width and height among all images
+        // Find the maximum width and height among all images
         for (const file of imageFiles) {
           if (file.width && file.width > largestWidth) largestWidth = file.width;
           if (file.height && file.height > largestHeight) largestHeight = file.height;
         }
-
-        const upscaledImagesPromises = imagesToProcess.map(file => {
-          return new Promise<FileWithPreview>((resolve) => {
-            if (file.width && file.height && (file.width < largestWidth || file.height < largestHeight)) {
-              // Only upscale if the image is actually smaller in at least one dimension than the largest found
-              const img = new Image();
-              img.src = file.preview;
-              img.onload = () => {
-                const canvas = document.createElement('canvas');
-                const ctx = canvas.getContext('2d');
-                if (!ctx) { resolve(file); return; }
-
-                const aspectRatio = img.naturalWidth / img.naturalHeight;
-                let newWidth = largestWidth;
-                let newHeight = largestHeight;
-
-                // Calculate dimensions to fit within largestWidth x largestHeight while maintaining aspect ratio
-                if (aspectRatio > (largestWidth / largestHeight)) {
-                  // Image is relatively wider, fit by target width
-                  newHeight = largestWidth / aspectRatio;
-                } else {
-                  // Image is relatively taller, fit by target height
-                  newWidth = largestHeight * aspectRatio;
-                }
-
-                canvas.width = newWidth;
-                canvas.height = newHeight;
-                ctx.drawImage(img, 0, 0, newWidth, newHeight);
-                const upscaledPreview = canvas.toDataURL(file.type);
-                resolve({ ...file, preview: upscaledPreview, width: newWidth, height: newHeight });
-              };
-              img.onerror = () => {
-                console.warn(`Failed to upscale image: ${file.name}`);
-                resolve(file); // Resolve with original file on error
-              };
-            } else {
-              resolve(file); // No upscaling needed or applied
-            }
-          });
-        });
-        imagesToProcess = await Promise.all(upscaledImagesPromises);
       }
 
+      const pageWidth = doc.internal.pageSize.getWidth();
+      const pageHeight = doc.internal.pageSize.getHeight();
+      const effectivePageWidth = pageWidth - 2 * margin;
+      const effectivePageHeight = pageHeight - 2 * margin;
+      const pageAspectRatio = effectivePageWidth / effectivePageHeight;
 
-      const addImageToPdf = (imgData: string) => {
-        return new Promise((resolve) => {
-          const img = new Image();
-          img.src = imgData;
-          img.onload = () => {
-            const pageWidth = doc.internal.pageSize.getWidth();
-            const pageHeight = doc.internal.pageSize.getHeight();
-
-            const imgWidth = img.width;
-            const imgHeight = img.height;
-
-            const marginX = margin;
-            const marginY = margin;
-
-            const effectivePageWidth = pageWidth - 2 * marginX;
-            const effectivePageHeight = pageHeight - 2 * marginY;
-
-            const imgAspectRatio = imgWidth / imgHeight;
-            const pageAspectRatio = effectivePageWidth / effectivePageHeight;
-
-            let finalImgWidth = effectivePageWidth;
-            let finalImgHeight = effectivePageHeight;
-
-            if (imgAspectRatio > pageAspectRatio) {
-              // Image is wider than page aspect ratio, fit by width
-              finalImgHeight = effectivePageWidth / imgAspectRatio;
-            } else {
-              // Image is taller than page aspect ratio, fit by height
-              finalImgWidth = effectivePageHeight * imgAspectRatio;
-            }
-            
-            // If image is larger than effective page, scale it down.
-            if (finalImgWidth > effectivePageWidth) {
-                finalImgWidth = effectivePageWidth;
-                finalImgHeight = effectivePageWidth / imgAspectRatio;
-            }
-            if (finalImgHeight > effectivePageHeight) {
-                finalImgHeight = effectivePageHeight;
-                finalImgWidth = effectivePageHeight * imgAspectRatio;
-            }
-
-            const x = marginX + (effectivePageWidth - finalImgWidth) / 2;
-            const y = marginY + (effectivePageHeight - finalImgHeight) / 2;
-            
-            doc.addImage(imgData, 'JPEG', x, y, finalImgWidth, finalImgHeight);
-            resolve(null); // Resolve with null as no value is needed
-          };
-          img.onerror = () => {
-            console.error('Failed to load image for PDF:', imgData);
-            resolve(null); // Resolve to allow other images to process
-          };
-        });
-      };
-
-      for (let i = 0; i < imagesToProcess.length; i++) {
-        const file = imagesToProcess[i];
+      for (let i = 0; i < imageFiles.length; i++) {
+        const file = imageFiles[i];
         if (i > 0) {
           doc.addPage();
         }
-        await addImageToPdf(file.preview);
+        if (!file.width || !file.height) continue;
+
+        // Fit within largestWidth x largestHeight while maintaining aspect ratio; only ever scales up
+        const upscale = largestWidth > 0 ? Math.min(largestWidth / file.width, largestHeight / file.height) : 1;
+        const size = upscale > 1 ? { width: Math.round(file.width * upscale), height: Math.round(file.height * upscale) } : undefined;
+
+        const image = await loadImageForPdf(file, size).catch(e => {
+          console.error(`Failed to load image for PDF: ${file.name}`, e);
+          return null;
+        });
+        if (!image) continue; // Leave the page blank so the others still come through
+
+        const imgAspectRatio = file.width / file.height;
+        let finalImgWidth = effectivePageWidth;
+        let finalImgHeight = effectivePageHeight;
+
+        if (imgAspectRatio > pageAspectRatio) {
+          // Image is wider than page aspect ratio, fit by width
+          finalImgHeight = effectivePageWidth / imgAspectRatio;
+        } else {
+          // Image is taller than page aspect ratio, fit by height
+          finalImgWidth = effectivePageHeight * imgAspectRatio;
+        }
+
+        const x = margin + (effectivePageWidth - finalImgWidth) / 2;
+        const y = margin + (effectivePageHeight - finalImgHeight) / 2;
+
+        doc.addImage(image.data, image.format, x, y, finalImgWidth, finalImgHeight);
       }
 
-      const pdfBlob = doc.output('blob');
-      const url = URL.createObjectURL(pdfBlob);
-      setPdfBlobUrl(url);
+      setPdfBlob(doc.output('blob'));
     } catch (e: any) {
       console.error('Error generating PDF:', e);
       setError(e.message || 'Failed to generate PDF. Ensure all images are valid.');
@@ -290,18 +202,19 @@ const ImageToPdf: React.FC = () => {
   }, [imageFiles, pageSize, orientation, margin, upscaleSmallerImages]);
 
   const handleDownloadPdf = () => {
-    if (pdfBlobUrl) {
-      downloadImage(pdfBlobUrl, 'images_to_pdf.pdf');
+    if (pdfBlob) {
+      downloadBlob(pdfBlob, 'images_to_pdf.pdf');
     }
   };
 
   const handleReset = () => {
+    objectUrls.revokeAll();
     setImageFiles([]);
     setPageSize('A4');
     setOrientation('portrait');
     setMargin(10);
     setUpscaleSmallerImages(false); // Reset upscale option
-    setPdfBlobUrl(null);
+    setPdfBlob(null);
     setIsProcessing(false);
     setError(null);
   };
@@ -408,7 +321,7 @@ const ImageToPdf: React.FC = () => {
           <Button onClick={generatePdf} isLoading={isProcessing} icon={<PdfIcon />} disabled={imageFiles.length === 0}>
             Generate PDF
           </Button>
-          <Button onClick={handleDownloadPdf} variant="secondary" disabled={!pdfBlobUrl} icon={<ArrowDownTrayIcon />}>
+          <Button onClick={handleDownloadPdf} variant="secondary" disabled={!pdfBlob} icon={<ArrowDownTrayIcon />}>
             Download PDF
           </Button>
         </div>
@@ -497,7 +410,7 @@ const ImageToPdf: React.FC = () => {
               <p>{error}</p>
             </div>
           )}
-          {pdfBlobUrl && !isProcessing && (
+          {pdfBlob && !isProcessing && (
             <div className="mt-4 p-3 bg-teal-500/10 border border-teal-500/20 rounded-lg text-center">
               <p className="font-medium text-sm text-teal-300">PDF generated successfully! Download now.</p>
             </div>
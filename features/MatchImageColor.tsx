@@ -1,7 +1,8 @@
 import React, { useState, useCallback, useRef } from 'react';
 import { ImageUploader } from '../components/ImageUploader';
 import { Button } from '../components/Button';
-import { downloadImage, fileToDataURL } from '../utils/imageUtils';
+import { downloadImage, canvasToBlob } from '../utils/imageUtils';
+import { useBlobUrl, useObjectUrls } from '../hooks/useObjectUrls';
 import { ArrowDownTrayIcon, ArrowUturnLeftIcon, SparklesIcon, XMarkIcon } from '../components/icons';
 import type { FileWithPreview } from '../types';
 
@@ -119,7 +120,9 @@ const calculateStats = (pixels: LabColor[]) => {
 const MatchImageColor: React.FC = () => {
     const [sourceFile, setSourceFile] = useState<FileWithPreview | null>(null);
     const [targetFile, setTargetFile] = useState<FileWithPreview | null>(null);
-    const [resultUrl, setResultUrl] = useState<string | null>(null);
+    const [resultBlob, setResultBlob] = useState<Blob | null>(null);
+    const resultUrl = useBlobUrl(resultBlob);
+    const objectUrls = useObjectUrls();
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -128,12 +131,12 @@ const MatchImageColor: React.FC = () => {
         if (files.length > 0) {
             const file = files[0];
             try {
-                const dataUrl = await fileToDataURL(file);
+                objectUrls.revoke(sourceFile?.preview);
                 setSourceFile(Object.assign(file, {
-                    preview: dataUrl,
+                    preview: objectUrls.create(file),
                     id: `${file.name}-${file.lastModified}-source`,
                 }));
-                setResultUrl(null);
+                setResultBlob(null);
                 setError(null);
             } catch (err) {
                 setError('Failed to load source image.');
@@ -145,12 +148,12 @@ const MatchImageColor: React.FC = () => {
         if (files.length > 0) {
             const file = files[0];
             try {
-                const dataUrl = await fileToDataURL(file);
+                objectUrls.revoke(targetFile?.preview);
                 setTargetFile(Object.assign(file, {
-                    preview: dataUrl,
+                    preview: objectUrls.create(file),
                     id: `${file.name}-${file.lastModified}-target`,
                 }));
-                setResultUrl(null);
+                setResultBlob(null);
                 setError(null);
             } catch (err) {
                 setError('Failed to load target image.');
@@ -166,7 +169,7 @@ const MatchImageColor: React.FC = () => {
 
         setIsLoading(true);
         setError(null);
-        setResultUrl(null);
+        setResultBlob(null);
 
         try {
             const canvas = canvasRef.current;
@@ -213,7 +216,7 @@ const MatchImageColor: React.FC = () => {
             }
             
             ctx.putImageData(targetImageData, 0, 0);
-            setResultUrl(canvas.toDataURL('image/png'));
+            setResultBlob(await canvasToBlob(canvas, 'image/png'));
         } catch (e: any) {
             setError(e.message || 'An error occurred during color matching.');
             console.error(e);
@@ -223,25 +226,28 @@ const MatchImageColor: React.FC = () => {
     }, [sourceFile, targetFile]);
     
     const handleDownload = () => {
-        if (!resultUrl || !targetFile) return;
-        downloadImage(resultUrl, `color-matched_${targetFile.name}`);
+        if (!resultBlob || !targetFile) return;
+        downloadImage(resultBlob, `color-matched_${targetFile.name}`);
     };
     
     const handleReset = () => {
+        objectUrls.revokeAll();
         setSourceFile(null);
         setTargetFile(null);
-        setResultUrl(null);
+        setResultBlob(null);
         setIsLoading(false);
         setError(null);
     };
 
     const handleRemoveSource = () => {
+        objectUrls.revoke(sourceFile?.preview);
         setSourceFile(null);
-        setResultUrl(null);
+        setResultBlob(null);
     };
     const handleRemoveTarget = () => {
+        objectUrls.revoke(targetFile?.preview);
         setTargetFile(null);
-        setResultUrl(null);
+        setResultBlob(null);
     };
     
     const ImagePreviewBox: React.FC<{
@@ -1,24 +1,36 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { ImageUploader } from '../components/ImageUploader';
 import { Button } from '../components/Button';
-import { fileToBase64, downloadImage } from '../utils/imageUtils';
+import { fileToBase64, downloadImage, canvasToBlob } from '../utils/imageUtils';
+import { useBlobUrl } from '../hooks/useObjectUrls';
+import { useHistory } from '../hooks/useHistory';
+import { useUndoShortcuts } from '../hooks/useUndoShortcuts';
+import { HistoryPanel } from '../components/HistoryPanel';
 import { generateMemeCaption } from '../services';
 import { AIIcon, ArrowDownTrayIcon, ArrowUturnLeftIcon } from '../components/icons';
 
+interface MemeText {
+  topText: string;
+  bottomText: string;
+}
+
+const DEFAULT_TEXT: MemeText = { topText: 'Top Text', bottomText: 'Bottom Text' };
 
 const MemeGenerator: React.FC = () => {
   const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-  const [topText, setTopText] = useState('Top Text');
-  const [bottomText, setBottomText] = useState('Bottom Text');
-  const [memeDataUrl, setMemeDataUrl] = useState<string | null>(null);
+  const imageUrl = useBlobUrl(imageFile);
+  const history = useHistory<MemeText>(DEFAULT_TEXT);
+  const { topText, bottomText } = history.state;
+  const [memeBlob, setMemeBlob] = useState<Blob | null>(null);
+  const memeUrl = useBlobUrl(memeBlob);
   const [isLoading, setIsLoading] = useState(false);
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
+  useUndoShortcuts(history, !!imageFile);
+
   const handleImageUpload = (files: File[]) => {
     if (files.length > 0) {
       setImageFile(files[0]);
-      setImageUrl(URL.createObjectURL(files[0]));
     }
   };
 
@@ -29,7 +41,7 @@ const MemeGenerator: React.FC = () => {
 
     const img = new Image();
     img.src = imageUrl;
-    img.onload = () => {
+    img.onload = async () => {
       canvas.width = img.naturalWidth;
       canvas.height = img.naturalHeight;
 
@@ -52,7 +64,7 @@ const MemeGenerator: React.FC = () => {
       ctx.strokeText(bottomText.toUpperCase(), canvas.width / 2, bottomY);
       ctx.fillText(bottomText.toUpperCase(), canvas.width / 2, bottomY);
       
-      setMemeDataUrl(canvas.toDataURL('image/jpeg'));
+      setMemeBlob(await canvasToBlob(canvas, 'image/jpeg', 0.92));
     };
   }, [imageUrl, topText, bottomText]);
 
@@ -68,8 +80,7 @@ const MemeGenerator: React.FC = () => {
     try {
       const base64Image = await fileToBase64(imageFile);
       const caption = await generateMemeCaption({ base64Image, mimeType: imageFile.type });
-      setTopText(caption.topText);
-      setBottomText(caption.bottomText);
+      history.push({ topText: caption.topText, bottomText: caption.bottomText }, 'AI caption');
     } catch (error: any) {
       console.error(error);
       alert(error.message || 'Failed to generate caption.');
@@ -79,17 +90,15 @@ const MemeGenerator: React.FC = () => {
   };
 
   const handleDownload = () => {
-    if(!memeDataUrl || !imageFile) return;
+    if(!memeBlob || !imageFile) return;
     const filename = `meme_${imageFile.name.split('.')[0]}.jpg`;
-    downloadImage(memeDataUrl, filename);
+    downloadImage(memeBlob, filename);
   };
 
   const handleReset = () => {
     setImageFile(null);
-    setImageUrl(null);
-    setMemeDataUrl(null);
-    setTopText('Top Text');
-    setBottomText('Bottom Text');
+    setMemeBlob(null);
+    history.reset(DEFAULT_TEXT);
   }
 
   const LoadingSpinner = () => (
@@ -109,22 +118,23 @@ const MemeGenerator: React.FC = () => {
             <div className="space-y-4">
               <div>
                 <label htmlFor="top-text" className="block text-sm font-medium text-gray-300 mb-2">Top Text</label>
-                <input type="text" id="top-text" value={topText} onChange={(e) => setTopText(e.target.value)} className="custom-input" disabled={!imageFile}/>
+                <input type="text" id="top-text" value={topText} onChange={(e) => history.push({ topText: e.target.value, bottomText }, 'Edit top text', 'top-text')} className="custom-input" disabled={!imageFile}/>
               </div>
               <div>
                 <label htmlFor="bottom-text" className="block text-sm font-medium text-gray-300 mb-2">Bottom Text</label>
-                <input type="text" id="bottom-text" value={bottomText} onChange={(e) => setBottomText(e.target.value)} className="custom-input" disabled={!imageFile}/>
+                <input type="text" id="bottom-text" value={bottomText} onChange={(e) => history.push({ topText, bottomText: e.target.value }, 'Edit bottom text', 'bottom-text')} className="custom-input" disabled={!imageFile}/>
               </div>
             </div>
             <div className="flex flex-col gap-4 pt-4 border-t border-zinc-800">
                 <Button icon={<AIIcon />} onClick={handleGenerateCaption} isLoading={isLoading} disabled={!imageFile}>
                     Generate with AI
                 </Button>
-                <Button icon={<ArrowDownTrayIcon />} onClick={handleDownload} variant="secondary" disabled={!memeDataUrl}>
+                <Button icon={<ArrowDownTrayIcon />} onClick={handleDownload} variant="secondary" disabled={!memeUrl}>
                     Download Meme
                 </Button>
             </div>
         </div>
+        {imageFile && <HistoryPanel history={history} />}
          <Button icon={<ArrowUturnLeftIcon />} onClick={handleReset} variant="outline" disabled={!imageFile}>
             Start Over
         </Button>
@@ -137,8 +147,8 @@ const MemeGenerator: React.FC = () => {
                 ) : (
                   <>
                     {isLoading && <LoadingSpinner />}
-                    {memeDataUrl ? (
-                        <img src={memeDataUrl} alt="Meme preview" className="max-w-full object-contain rounded-md" loading="lazy" />
+                    {memeUrl ? (
+                        <img src={memeUrl} alt="Meme preview" className="max-w-full object-contain rounded-md" loading="lazy" />
                     ) : (
                         <div className="w-full h-full bg-zinc-800 flex items-center justify-center rounded-md">
                             <p className="text-gray-400">Loading Preview...</p>
@@ -0,0 +1,329 @@
+import React, { useState, useCallback } from 'react';
+import { ImageUploader } from '../components/ImageUploader';
+import { Button } from '../components/Button';
+import { downloadImage, downloadZip } from '../utils/imageUtils';
+import { useObjectUrls } from '../hooks/useObjectUrls';
+import {
+  detectContainer,
+  formatExifValue,
+  getExifTagName,
+  hasMetadata,
+  isTextEntry,
+  readMetadata,
+  removeExifEntries,
+  setExifText,
+  writeMetadata,
+} from '../core';
+import type { ExifEntry, ExifIfd, ImageMetadata, MetadataContainer } from '../core';
+import { ArrowDownTrayIcon, ArrowUturnLeftIcon, PlusIcon, XMarkIcon } from '../components/icons';
+import type { FileWithPreview } from '../types';
+
+interface MetadataItem {
+  file: FileWithPreview;
+  container: MetadataContainer | null; // null: a format whose metadata can't be read or written here
+  metadata: ImageMetadata;
+  edited: boolean;
+}
+
+const IFD_LABELS: Record<ExifIfd, string> = {
+  ifd0: 'Image',
+  exif: 'Camera',
+  gps: 'GPS Location',
+  interop: 'Interoperability',
+};
+
+const hasGps = (metadata: ImageMetadata) => Boolean(metadata.exif?.entries.some(entry => entry.ifd === 'gps'));
+
+const MetadataEditor: React.FC = () => {
+  const [items, setItems] = useState<MetadataItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const objectUrls = useObjectUrls();
+
+  const handleImageUpload = async (files: File[]) => {
+    setIsLoading(true);
+    setError(null);
+    const newItems: MetadataItem[] = [];
+    for (const file of files) {
+      try {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        newItems.push({
+          file: Object.assign(file, {
+            preview: objectUrls.create(file),
+            id: `${file.name}-${file.lastModified}-${Math.random()}`,
+          }),
+          container: detectContainer(bytes),
+          metadata: await readMetadata(bytes),
+          edited: false,
+        });
+      } catch (e: any) {
+        setError(e.message || `Failed to read metadata from ${file.name}.`);
+      }
+    }
+    setItems(prev => [...prev, ...newItems]);
+    setSelectedId(prev => prev ?? newItems[0]?.file.id ?? null);
+    setIsLoading(false);
+  };
+
+  const updateMetadata = useCallback((id: string, update: (metadata: ImageMetadata) => ImageMetadata) => {
+    setItems(prev => prev.map(item => (item.file.id === id ? { ...item, metadata: update(item.metadata), edited: true } : item)));
+  }, []);
+
+  const handleRemoveEntry = (id: string, target: ExifEntry) => {
+    updateMetadata(id, metadata => ({
+      ...metadata,
+      exif: metadata.exif && removeExifEntries(metadata.exif, entry => entry.ifd === target.ifd && entry.tag === target.tag),
+    }));
+  };
+
+  const handleEditEntry = (id: string, target: ExifEntry, text: string) => {
+    updateMetadata(id, metadata => ({
+      ...metadata,
+      exif: metadata.exif && setExifText(metadata.exif, target.ifd, target.tag, text),
+    }));
+  };
+
+  const handleRemoveGpsFromAll = () => {
+    setItems(prev => prev.map(item => (
+      hasGps(item.metadata)
+        ? { ...item, metadata: { ...item.metadata, exif: removeExifEntries(item.metadata.exif!, entry => entry.ifd === 'gps') }, edited: true }
+        : item
+    )));
+  };
+
+  const handleStripAll = () => {
+    setItems(prev => prev.map(item => (hasMetadata(item.metadata) ? { ...item, metadata: {}, edited: true } : item)));
+  };
+
+  const handleRemoveFile = (id: string) => {
+    const remaining = items.filter(item => item.file.id !== id);
+    objectUrls.revoke(items.find(item => item.file.id === id)?.file.preview);
+    setItems(remaining);
+    if (selectedId === id) setSelectedId(remaining[0]?.file.id ?? null);
+  };
+
+  const handleDownload = async () => {
+    const writable = items.filter(item => item.container);
+    if (writable.length === 0) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      // Only the metadata blocks are rewritten; the image data is copied byte for byte
+      const files = await Promise.all(writable.map(async item => ({
+        blob: new Blob([await writeMetadata(new Uint8Array(await item.file.arrayBuffer()), item.metadata)], { type: item.file.type }),
+        filename: item.file.name,
+      })));
+      if (files.length === 1) {
+        downloadImage(files[0].blob, files[0].filename);
+      } else {
+        await downloadZip(files, 'images_with_edited_metadata.zip');
+      }
+    } catch (e: any) {
+      setError(e.message || 'Failed to write metadata.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = () => {
+    objectUrls.revokeAll();
+    setItems([]);
+    setSelectedId(null);
+    setError(null);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      handleImageUpload(Array.from(e.target.files));
+    }
+  };
+
+  const selected = items.find(item => item.file.id === selectedId) ?? null;
+  const gpsCount = items.filter(item => hasGps(item.metadata)).length;
+  const editedCount = items.filter(item => item.edited).length;
+
+  const renderExifGroup = (item: MetadataItem, ifd: ExifIfd) => {
+    const exif = item.metadata.exif;
+    const entries = exif?.entries.filter(entry => entry.ifd === ifd).sort((a, b) => a.tag - b.tag) ?? [];
+    if (!exif || entries.length === 0) return null;
+    return (
+      <div key={ifd}>
+        <h4 className="text-sm font-semibold text-gray-300 mb-2">{IFD_LABELS[ifd]}</h4>
+        <div className="divide-y divide-zinc-800 border border-zinc-800 rounded-lg">
+          {entries.map(entry => (
+            <div key={`${item.file.id}-${entry.ifd}-${entry.tag}`} className="flex items-center gap-3 px-3 py-2 text-sm">
+              <span className="w-44 shrink-0 text-gray-400 truncate" title={getExifTagName(entry.ifd, entry.tag)}>{getExifTagName(entry.ifd, entry.tag)}</span>
+              {isTextEntry(entry) ? (
+                <input
+                  type="text"
+                  defaultValue={formatExifValue(entry, exif.littleEndian)}
+                  onBlur={(e) => {
+                    if (e.target.value !== formatExifValue(entry, exif.littleEndian)) handleEditEntry(item.file.id, entry, e.target.value);
+                  }}
+                  className="custom-input !py-1 flex-1 min-w-0"
+                  aria-label={getExifTagName(entry.ifd, entry.tag)}
+                />
+              ) : (
+                <span className="flex-1 min-w-0 font-mono text-gray-200 truncate">{formatExifValue(entry, exif.littleEndian)}</span>
+              )}
+              <button
+                onClick={() => handleRemoveEntry(item.file.id, entry)}
+                className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                title="Remove field"
+              >
+                <XMarkIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      <div className="lg:col-span-4 space-y-6">
+        <div className="bg-zinc-900 rounded-lg p-6 space-y-6 border border-zinc-800">
+          <h3 className="text-lg font-semibold text-white">Files</h3>
+          {items.length === 0 ? (
+            <p className="text-sm text-gray-500">Upload JPG or PNG images to inspect their EXIF, XMP and ICC metadata.</p>
+          ) : (
+            <div className="space-y-2 max-h-[40vh] overflow-y-auto">
+              {items.map(item => (
+                <div
+                  key={item.file.id}
+                  onClick={() => setSelectedId(item.file.id)}
+                  className={`flex items-center gap-3 p-2 rounded-lg border cursor-pointer transition-colors ${item.file.id === selectedId ? 'border-[#1DB954] bg-zinc-800' : 'border-zinc-800 hover:bg-zinc-800/50'}`}
+                >
+                  <img src={item.file.preview} alt={item.file.name} className="w-10 h-10 object-cover rounded" loading="lazy" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-200 truncate">{item.file.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {!item.container ? 'Unsupported format' : hasGps(item.metadata) ? 'Has GPS location' : hasMetadata(item.metadata) ? 'Has metadata' : 'No metadata'}
+                      {item.edited && ' · edited'}
+                    </p>
+                  </div>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleRemoveFile(item.file.id); }}
+                    className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                    title="Remove file"
+                  >
+                    <XMarkIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <label htmlFor="add-more-metadata-files" className="flex items-center justify-center gap-2 p-2 rounded-lg border-2 border-dashed border-zinc-700 text-sm text-gray-400 hover:border-[#1DB954] hover:text-[#1DB954] cursor-pointer transition-colors">
+                <PlusIcon className="w-4 h-4" /> Add More
+                <input id="add-more-metadata-files" type="file" className="sr-only" accept="image/jpeg,image/png" multiple onChange={handleFileChange} />
+              </label>
+            </div>
+          )}
+          {items.length > 0 && (
+            <div className="space-y-3 pt-4 border-t border-zinc-800">
+              <Button onClick={handleRemoveGpsFromAll} variant="secondary" disabled={gpsCount === 0} className="w-full">
+                Remove GPS from All ({gpsCount})
+              </Button>
+              <Button onClick={handleStripAll} variant="secondary" className="w-full">
+                Strip All Metadata
+              </Button>
+            </div>
+          )}
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 text-red-400 text-sm p-3 rounded-lg">{error}</div>
+          )}
+        </div>
+        <div className="flex flex-col gap-4">
+          <Button onClick={handleDownload} isLoading={isLoading} icon={<ArrowDownTrayIcon />} disabled={items.length === 0}>
+            {items.length > 1 ? 'Download All as ZIP' : 'Download Image'}
+            {editedCount > 0 && ` (${editedCount} edited)`}
+          </Button>
+        </div>
+        <Button onClick={handleReset} variant="outline" icon={<ArrowUturnLeftIcon />} disabled={items.length === 0}>
+          Start Over
+        </Button>
+      </div>
+      <div className="lg:col-span-8">
+        <div className="bg-zinc-900 p-4 rounded-lg border border-zinc-800 sticky top-24">
+          {!selected ? (
+            <div className="bg-black/50 p-2 rounded-lg flex items-center justify-center min-h-[40vh]">
+              <ImageUploader onFileSelect={handleImageUpload} multiple={true} accept="image/jpeg,image/png" title="Upload images to inspect" description="JPG, PNG" />
+            </div>
+          ) : (
+            <div className="space-y-6 max-h-[80vh] overflow-y-auto p-2">
+              <h3 className="text-lg font-semibold text-white truncate">{selected.file.name}</h3>
+              {!selected.container && (
+                <p className="text-sm text-gray-400">Metadata can only be read and edited for JPG and PNG files.</p>
+              )}
+              {selected.container && !hasMetadata(selected.metadata) && (
+                <p className="text-sm text-gray-400">This image has no EXIF, XMP, ICC or text metadata.</p>
+              )}
+              {(['ifd0', 'exif', 'gps', 'interop'] as ExifIfd[]).map(ifd => renderExifGroup(selected, ifd))}
+              {selected.metadata.icc && (
+                <div className="flex items-center justify-between text-sm border border-zinc-800 rounded-lg px-3 py-2">
+                  <span className="text-gray-300">ICC color profile ({(selected.metadata.icc.length / 1024).toFixed(1)} KB)</span>
+                  <button
+                    onClick={() => updateMetadata(selected.file.id, metadata => ({ ...metadata, icc: undefined }))}
+                    className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                    title="Remove color profile"
+                  >
+                    <XMarkIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+              {selected.metadata.iptc && (
+                <div className="flex items-center justify-between text-sm border border-zinc-800 rounded-lg px-3 py-2">
+                  <span className="text-gray-300">IPTC / Photoshop block ({(selected.metadata.iptc.length / 1024).toFixed(1)} KB)</span>
+                  <button
+                    onClick={() => updateMetadata(selected.file.id, metadata => ({ ...metadata, iptc: undefined }))}
+                    className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                    title="Remove IPTC block"
+                  >
+                    <XMarkIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+              {selected.metadata.text && selected.metadata.text.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-300 mb-2">Text</h4>
+                  <div className="divide-y divide-zinc-800 border border-zinc-800 rounded-lg">
+                    {selected.metadata.text.map((entry, index) => (
+                      <div key={`${entry.keyword}-${index}`} className="flex items-center gap-3 px-3 py-2 text-sm">
+                        <span className="w-44 shrink-0 text-gray-400 truncate">{entry.keyword}</span>
+                        <span className="flex-1 min-w-0 text-gray-200 truncate" title={entry.text}>{entry.text}</span>
+                        <button
+                          onClick={() => updateMetadata(selected.file.id, metadata => ({ ...metadata, text: metadata.text?.filter((_, i) => i !== index) }))}
+                          className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                          title="Remove field"
+                        >
+                          <XMarkIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {selected.metadata.xmp && (
+                <details className="border border-zinc-800 rounded-lg">
+                  <summary className="flex items-center justify-between px-3 py-2 text-sm text-gray-300 cursor-pointer">
+                    <span>XMP packet ({selected.metadata.xmp.length.toLocaleString()} characters)</span>
+                    <button
+                      onClick={(e) => { e.preventDefault(); updateMetadata(selected.file.id, metadata => ({ ...metadata, xmp: undefined })); }}
+                      className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                      title="Remove XMP"
+                    >
+                      <XMarkIcon className="w-4 h-4" />
+                    </button>
+                  </summary>
+                  <pre className="text-xs text-gray-400 p-3 overflow-x-auto max-h-64 whitespace-pre-wrap break-all">{selected.metadata.xmp}</pre>
+                </details>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MetadataEditor;
@@ -4,19 +4,16 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { ImageUploader } from '../components/ImageUploader';
 import { Button } from '../components/Button';
-import { downloadImage } from '../utils/imageUtils';
+import { canvasToBlob, downloadZip } from '../utils/imageUtils';
+import { useBlobUrl } from '../hooks/useObjectUrls';
+import { parsePageRange } from '../utils/pageRange';
+import { pdfjsLib } from '../utils/pdf';
 import { ArrowDownTrayIcon, ArrowUturnLeftIcon, PdfIcon, CheckIcon, XMarkIcon } from '../components/icons';
 
-// PDF.js worker setup
-import * as pdfjsLib from 'pdfjs-dist/build/pdf';
-import JSZip from 'jszip';
-
-// Fix: Directly set the workerSrc to the CDN URL from the import map.
-pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://aistudiocdn.com/pdfjs-dist@^4.4.168/build/pdf.worker.min.mjs';
-
 interface GeneratedImage {
   pageNum: number;
-  dataUrl: string;
+  blob: Blob;
+  url: string;
   id: string; // Unique ID for selection
 }
 
@@ -25,7 +22,8 @@ const PdfToImage: React.FC = () => {
   const [pdfUrl, setPdfUrl] = useState<string | null>(null);
   const [pdfDocument, setPdfDocument] = useState<pdfjsLib.PDFDocumentProxy | null>(null); // State to hold the PDF document object
   const [numPages, setNumPages] = useState<number | null>(null);
-  const [pdfFirstPagePreviewUrl, setPdfFirstPagePreviewUrl] = useState<string | null>(null); // New state for first page preview
+  const [pdfFirstPagePreview, setPdfFirstPagePreview] = useState<Blob | null>(null);
+  const pdfFirstPagePreviewUrl = useBlobUrl(pdfFirstPagePreview);
   const [currentPageRange, setCurrentPageRange] = useState('all'); // e.g., "all", "1-5", "3,7,9"
   const [dpi, setDpi] = useState(150);
   const [imageFormat, setImageFormat] = useState<'jpeg' | 'png' | 'webp'>('png');
@@ -53,18 +51,15 @@ const PdfToImage: React.FC = () => {
       URL.revokeObjectURL(pdfUrl);
       setPdfUrl(null); // Explicitly clear state
     }
-    if (pdfFirstPagePreviewUrl && pdfFirstPagePreviewUrl.startsWith('blob:')) {
-      URL.revokeObjectURL(pdfFirstPagePreviewUrl);
-      setPdfFirstPagePreviewUrl(null); // Explicitly clear state
-    }
+    setPdfFirstPagePreview(null); // useBlobUrl revokes its URL
     // Note: generatedImages URLs are revoked in a separate useEffect below
-  }, [pdfDocument, pdfUrl, pdfFirstPagePreviewUrl]); // Depend on relevant states
+  }, [pdfDocument, pdfUrl]); // Depend on relevant states
 
   // Effect for cleaning up generated image URLs (only generatedImages)
   useEffect(() => {
     const imagesToRevoke = [...generatedImages]; // Capture current images
     return () => {
-      imagesToRevoke.forEach(img => URL.revokeObjectURL(img.dataUrl));
+      imagesToRevoke.forEach(img => URL.revokeObjectURL(img.url));
     };
   }, [generatedImages]);
 
@@ -75,47 +70,9 @@ const PdfToImage: React.FC = () => {
       if (pdfUrl) {
         URL.revokeObjectURL(pdfUrl);
       }
-      if (pdfFirstPagePreviewUrl && pdfFirstPagePreviewUrl.startsWith('blob:')) {
-        URL.revokeObjectURL(pdfFirstPagePreviewUrl);
-      }
     };
-  }, [pdfUrl, pdfFirstPagePreviewUrl]);
-
+  }, [pdfUrl]);
 
-  const parsePageRange = useCallback((rangeInput: string, totalPages: number): number[] => {
-    const pages: Set<number> = new Set();
-    const input = rangeInput.toLowerCase().trim();
-
-    if (input === 'all' || input === '') {
-      for (let i = 1; i <= totalPages; i++) {
-        pages.add(i);
-      }
-    } else {
-      const parts = input.split(',').map(s => s.trim()).filter(Boolean);
-      for (const part of parts) {
-        if (part.includes('-')) {
-          const [startStr, endStr] = part.split('-').map(s => s.trim());
-          const start = parseInt(startStr, 10);
-          const end = parseInt(endStr, 10);
-          if (!isNaN(start) && !isNaN(end) && start >= 1 && end <= totalPages && start <= end) {
-            for (let i = start; i <= end; i++) {
-              pages.add(i);
-            }
-          } else {
-            throw new Error(`Invalid range: "${part}". Please use valid numbers within 1-${totalPages}.`);
-          }
-        } else {
-          const pageNum = parseInt(part, 10);
-          if (!isNaN(pageNum) && pageNum >= 1 && pageNum <= totalPages) {
-            pages.add(pageNum);
-          } else {
-            throw new Error(`Invalid page number: "${part}". Please use valid numbers within 1-${totalPages}.`);
-          }
-        }
-      }
-    }
-    return Array.from(pages).sort((a, b) => a - b);
-  }, []);
 
   const handlePdfUpload = async (files: File[]) => {
     if (files.length === 0) return;
@@ -155,7 +112,7 @@ const PdfToImage: React.FC = () => {
         tempCanvas.width = viewport.width;
         tempCanvas.height = viewport.height;
         await firstPage.render({ canvasContext: tempCtx, viewport: viewport }).promise;
-        setPdfFirstPagePreviewUrl(tempCanvas.toDataURL('image/png')); // Use PNG for transparent backgrounds
+        setPdfFirstPagePreview(await canvasToBlob(tempCanvas, 'image/png')); // Use PNG for transparent backgrounds
       }
 
       setPdfLoading(false);
@@ -226,30 +183,12 @@ const PdfToImage: React.FC = () => {
         };
         await page.render(renderContext).promise;
 
-        let dataUrl: string;
-        let mimeType: string;
-
-        switch (imageFormat) {
-          case 'jpeg':
-            mimeType = 'image/jpeg';
-            dataUrl = canvas.toDataURL(mimeType, imageQuality);
-            break;
-          case 'png':
-            mimeType = 'image/png';
-            dataUrl = canvas.toDataURL(mimeType); // PNG doesn't use quality param
-            break;
-          case 'webp':
-            mimeType = 'image/webp';
-            dataUrl = canvas.toDataURL(mimeType, imageQuality);
-            break;
-          default:
-            mimeType = 'image/png';
-            dataUrl = canvas.toDataURL(mimeType);
-        }
+        const blob = await canvasToBlob(canvas, `image/${imageFormat}`, imageQuality); // PNG ignores the quality param
 
         newGeneratedImages.push({
           pageNum,
-          dataUrl,
+          blob,
+          url: URL.createObjectURL(blob),
           id: `page-${pageNum}-${Date.now()}`, // Unique ID for key/selection
         });
       }
@@ -267,7 +206,7 @@ const PdfToImage: React.FC = () => {
       setIsLoading(false);
       abortControllerRef.current = null; // Clear controller when finished or aborted
     }
-  }, [pdfFile, pdfDocument, numPages, currentPageRange, dpi, imageFormat, imageQuality, parsePageRange]);
+  }, [pdfFile, pdfDocument, numPages, currentPageRange, dpi, imageFormat, imageQuality]);
 
   const handleDownloadAll = useCallback(async () => {
     if (generatedImages.length === 0) {
@@ -277,17 +216,11 @@ const PdfToImage: React.FC = () => {
 
     setIsLoading(true);
     try {
-      const zip = new JSZip();
-      for (const img of generatedImages) {
-        const base64Data = img.dataUrl.split(',')[1];
-        const filename = `${pdfFile?.name.replace('.pdf', '') || 'pdf'}_page_${img.pageNum}.${imageFormat}`;
-        zip.file(filename, base64Data, { base64: true });
-      }
-
-      const content = await zip.generateAsync({ type: 'blob' });
-      const zipBlobUrl = URL.createObjectURL(content);
-      downloadImage(zipBlobUrl, `${pdfFile?.name.replace('.pdf', '') || 'pdf'}_images.zip`);
-      URL.revokeObjectURL(zipBlobUrl);
+      const files = generatedImages.map(img => ({
+        blob: img.blob,
+        filename: `${pdfFile?.name.replace('.pdf', '') || 'pdf'}_page_${img.pageNum}.${imageFormat}`,
+      }));
+      await downloadZip(files, `${pdfFile?.name.replace('.pdf', '') || 'pdf'}_images.zip`);
     } catch (e: any) {
       setError(e.message || 'Failed to create ZIP file for download.');
     } finally {
@@ -303,20 +236,13 @@ const PdfToImage: React.FC = () => {
 
     setIsLoading(true);
     try {
-      const zip = new JSZip();
-      for (const imgId of selectedImages) {
-        const img = generatedImages.find(g => g.id === imgId);
-        if (img) {
-          const base64Data = img.dataUrl.split(',')[1];
-          const filename = `${pdfFile?.name.replace('.pdf', '') || 'pdf'}_page_${img.pageNum}.${imageFormat}`;
-          zip.file(filename, base64Data, { base64: true });
-        }
-      }
-
-      const content = await zip.generateAsync({ type: 'blob' });
-      const zipBlobUrl = URL.createObjectURL(content);
-      downloadImage(zipBlobUrl, `${pdfFile?.name.replace('.pdf', '') || 'pdf'}_selected_images.zip`);
-      URL.revokeObjectURL(zipBlobUrl);
+      const files = generatedImages
+        .filter(img => selectedImages.has(img.id))
+        .map(img => ({
+          blob: img.blob,
+          filename: `${pdfFile?.name.replace('.pdf', '') || 'pdf'}_page_${img.pageNum}.${imageFormat}`,
+        }));
+      await downloadZip(files, `${pdfFile?.name.replace('.pdf', '') || 'pdf'}_selected_images.zip`);
     } catch (e: any) {
       setError(e.message || 'Failed to create ZIP file for selected images.');
     } finally {
@@ -546,7 +472,7 @@ const PdfToImage: React.FC = () => {
                                   ${selectedImages.has(img.id) ? 'border-teal-400 ring-2 ring-teal-400/50' : 'border-gray-700 hover:border-teal-500/70'}`}
                       onClick={() => handleToggleImageSelection(img.id)}
                     >
-                      <img src={img.dataUrl} alt={`Page ${img.pageNum}`} className="object-cover w-full h-full" loading="lazy" />
+                      <img src={img.url} alt={`Page ${img.pageNum}`} className="object-cover w-full h-full" loading="lazy" />
                       <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
                         <span className="text-white text-lg font-bold">Page {img.pageNum}</span>
                       </div>
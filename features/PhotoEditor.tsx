@@ -0,0 +1,446 @@
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { ImageUploader } from '../components/ImageUploader';
+import { Button } from '../components/Button';
+import { ConvertFormatSettings } from '../components/ConvertFormatSettings';
+import type { ConvertFormat } from '../components/ConvertFormatSettings';
+import { EditorSidebar } from '../components/editor/EditorSidebar';
+import type { AddableLayerType } from '../components/editor/EditorSidebar';
+import { EditorToolbar } from '../components/editor/EditorToolbar';
+import type { BrushSettings, EditorTool } from '../components/editor/EditorToolbar';
+import { useHistory } from '../hooks/useHistory';
+import { useUndoShortcuts } from '../hooks/useUndoShortcuts';
+import { downloadImage } from '../utils/imageUtils';
+import {
+  createDocument,
+  createImageLayer,
+  createLayer,
+  insertLayer,
+  layerCanvasSizes,
+  moveLayer,
+  removeLayer,
+  renderDocument,
+  toImageLayerPoint,
+  toLayerCanvasPoint,
+  updateLayer,
+} from '../utils/photoEditor';
+import type { EditorDocument, EditorLayer } from '../utils/photoEditor';
+import { decodeImage, drawToCanvas, encodeImage, formatToExtension } from '../core';
+import type { BrushStroke, PixelBuffer, Point } from '../core';
+import { ArrowDownTrayIcon, ArrowUturnLeftIcon } from '../components/icons';
+
+const PREVIEW_MAX_SIZE = 1600; // Longest side of the on-screen render; export always uses full resolution
+const HISTORY_LIMIT = 50;
+
+const DEFAULT_BRUSH: BrushSettings = { color: '#ff0000', size: 40, hardness: 0.8, opacity: 1 };
+
+const createSourceId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+const isRasterLayer = (layer: EditorLayer | undefined) => layer?.type === 'image' || layer?.type === 'paint';
+
+interface ActiveStroke {
+  imagePoints: Point[]; // Final image coordinates, mapped onto the layer on commit
+  previewPoints: Point[]; // Preview canvas coordinates, for the live overlay
+}
+
+interface ActiveMove {
+  layerId: string;
+  start: Point; // On the layer's canvas
+  origin: Point; // Layer position when the drag started
+  mergeKey: string;
+}
+
+const PhotoEditor: React.FC = () => {
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [sources, setSources] = useState<Map<string, PixelBuffer>>(() => new Map());
+  const history = useHistory<EditorDocument | null>(null, 'Open', { limit: HISTORY_LIMIT });
+  const { state: doc, canUndo, canRedo, push, undo, redo, reset } = history;
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [tool, setTool] = useState<EditorTool>('brush');
+  const [brush, setBrush] = useState<BrushSettings>(DEFAULT_BRUSH);
+  const [format, setFormat] = useState<ConvertFormat>('png');
+  const [quality, setQuality] = useState(0.92); // For WEBP output
+  const [dither, setDither] = useState(true); // For GIF output
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const strokeRef = useRef<ActiveStroke | null>(null);
+  const moveRef = useRef<ActiveMove | null>(null);
+
+  const editorDoc = doc as EditorDocument | null;
+  const previewScale = useMemo(() => {
+    if (!editorDoc) return 1;
+    return Math.min(1, PREVIEW_MAX_SIZE / Math.max(editorDoc.width, editorDoc.height));
+  }, [editorDoc]);
+  const outputSize = useMemo(() => {
+    if (!editorDoc) return null;
+    const sizes = layerCanvasSizes(editorDoc);
+    return sizes[sizes.length - 1];
+  }, [editorDoc]);
+  const selectedIndex = editorDoc ? editorDoc.layers.findIndex(layer => layer.id === selectedLayerId) : -1;
+  const selectedLayer = editorDoc && selectedIndex >= 0 ? editorDoc.layers[selectedIndex] : undefined;
+
+  // Re-render the preview whenever the document changes, at most once per frame
+  useEffect(() => {
+    if (!editorDoc) return;
+    const handle = requestAnimationFrame(() => {
+      const canvas = canvasRef.current;
+      const overlay = overlayRef.current;
+      if (!canvas || !overlay) return;
+      try {
+        const pixels = renderDocument(editorDoc, id => sources.get(id), previewScale);
+        drawToCanvas(canvas, pixels);
+        overlay.width = pixels.width;
+        overlay.height = pixels.height;
+      } catch (err) {
+        console.error('Failed to render the document', err);
+        setError('Failed to render the image. Try hiding or removing the last layer.');
+      }
+    });
+    return () => cancelAnimationFrame(handle);
+  }, [editorDoc, sources, previewScale]);
+
+  useUndoShortcuts(history, !!doc);
+
+  const handleImageUpload = async (files: File[]) => {
+    if (files.length === 0) return;
+    const file = files[0];
+    setIsLoading(true);
+    setError(null);
+    try {
+      const pixels = await decodeImage(file);
+      const sourceId = createSourceId();
+      const base = createImageLayer(sourceId, 'Background');
+      setSources(new Map([[sourceId, pixels]]));
+      reset(createDocument(base, pixels.width, pixels.height));
+      setSelectedLayerId(base.id);
+      setImageFile(file);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to load the image. Please try a different file.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // New layers go directly above the selected one, so they apply to what the user is looking at
+  const insertIndex = editorDoc ? (selectedIndex >= 0 ? selectedIndex + 1 : editorDoc.layers.length) : 0;
+
+  const handleAddLayer = (type: AddableLayerType) => {
+    if (!editorDoc) return;
+    const canvas = layerCanvasSizes(editorDoc)[insertIndex];
+    const layer = createLayer(type, canvas);
+    push(insertLayer(editorDoc, layer, insertIndex), `Add ${layer.name.toLowerCase()} layer`);
+    setSelectedLayerId(layer.id);
+  };
+
+  const handleAddImage = async (file: File) => {
+    if (!editorDoc) return;
+    setError(null);
+    try {
+      const pixels = await decodeImage(file);
+      const canvas = layerCanvasSizes(editorDoc)[insertIndex];
+      // Fit the new image inside the canvas and center it
+      const scale = Math.min(100, (canvas.width / pixels.width) * 100, (canvas.height / pixels.height) * 100);
+      const layer = createImageLayer(createSourceId(), file.name, {
+        scale,
+        x: Math.round((canvas.width - (pixels.width * scale) / 100) / 2),
+        y: Math.round((canvas.height - (pixels.height * scale) / 100) / 2),
+      });
+      setSources((prev: Map<string, PixelBuffer>) => new Map(prev).set(layer.sourceId, pixels));
+      push(insertLayer(editorDoc, layer, insertIndex), 'Add image layer');
+      setSelectedLayerId(layer.id);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to load the image layer.');
+    }
+  };
+
+  const handleChangeLayer = (id: string, patch: Partial<EditorLayer>, label: string, mergeKey?: string) => {
+    if (!editorDoc) return;
+    push(updateLayer(editorDoc, id, patch), label, mergeKey);
+  };
+
+  const handleRemoveLayer = (id: string) => {
+    if (!editorDoc || editorDoc.layers.length <= 1) return;
+    const index = editorDoc.layers.findIndex(layer => layer.id === id);
+    const next = removeLayer(editorDoc, id);
+    push(next, 'Delete layer');
+    if (id === selectedLayerId) {
+      setSelectedLayerId(next.layers[Math.max(0, index - 1)]?.id ?? null);
+    }
+  };
+
+  const handleMoveLayer = (id: string, offset: number) => {
+    if (!editorDoc) return;
+    push(moveLayer(editorDoc, id, offset), offset > 0 ? 'Move layer up' : 'Move layer down');
+  };
+
+  // --- Pointer interaction on the preview ---
+
+  const toPoints = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const preview = {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+    return { preview, image: { x: preview.x / previewScale, y: preview.y / previewScale } };
+  };
+
+  const drawLiveStroke = () => {
+    const overlay = overlayRef.current;
+    const stroke = strokeRef.current;
+    const ctx = overlay?.getContext('2d');
+    if (!overlay || !ctx) return;
+    ctx.clearRect(0, 0, overlay.width, overlay.height);
+    if (!stroke || stroke.previewPoints.length === 0) return;
+    ctx.save();
+    ctx.globalAlpha = brush.opacity;
+    ctx.strokeStyle = tool === 'eraser' ? 'rgba(255, 255, 255, 0.6)' : brush.color;
+    ctx.fillStyle = ctx.strokeStyle;
+    ctx.lineWidth = Math.max(1, brush.size * previewScale);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    const [first, ...rest] = stroke.previewPoints;
+    ctx.beginPath();
+    if (rest.length === 0) {
+      ctx.arc(first.x, first.y, ctx.lineWidth / 2, 0, Math.PI * 2);
+      ctx.fill();
+    } else {
+      ctx.moveTo(first.x, first.y);
+      rest.forEach(p => ctx.lineTo(p.x, p.y));
+      ctx.stroke();
+    }
+    ctx.restore();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!editorDoc || e.button !== 0) return;
+    const { preview, image } = toPoints(e);
+
+    if (tool === 'move') {
+      if (selectedLayer?.type !== 'image') {
+        setError('Select an image layer to move it.');
+        return;
+      }
+      moveRef.current = {
+        layerId: selectedLayer.id,
+        start: toLayerCanvasPoint(editorDoc, selectedIndex, image),
+        origin: { x: selectedLayer.x, y: selectedLayer.y },
+        mergeKey: `move-${Date.now()}`,
+      };
+    } else {
+      if (tool === 'eraser' && !isRasterLayer(selectedLayer)) {
+        setError('Select an image or paint layer to erase from.');
+        return;
+      }
+      strokeRef.current = { imagePoints: [image], previewPoints: [preview] };
+      drawLiveStroke();
+    }
+    setError(null);
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!editorDoc) return;
+    const { preview, image } = toPoints(e);
+    const move = moveRef.current;
+    if (move) {
+      const index = editorDoc.layers.findIndex(layer => layer.id === move.layerId);
+      if (index < 0) return;
+      const current = toLayerCanvasPoint(editorDoc, index, image);
+      push(updateLayer(editorDoc, move.layerId, {
+        x: Math.round(move.origin.x + current.x - move.start.x),
+        y: Math.round(move.origin.y + current.y - move.start.y),
+      }), 'Move layer', move.mergeKey);
+      return;
+    }
+    const stroke = strokeRef.current;
+    if (stroke) {
+      stroke.imagePoints.push(image);
+      stroke.previewPoints.push(preview);
+      drawLiveStroke();
+    }
+  };
+
+  const commitStroke = useCallback((stroke: ActiveStroke) => {
+    if (!editorDoc) return;
+    let target = editorDoc;
+    let layerId = selectedLayerId;
+    // Painting on a non-raster layer starts a new paint layer above it
+    if (!isRasterLayer(selectedLayer)) {
+      const paint = createLayer('paint', layerCanvasSizes(editorDoc)[insertIndex]);
+      target = insertLayer(editorDoc, paint, insertIndex);
+      layerId = paint.id;
+      setSelectedLayerId(paint.id);
+    }
+    const index = target.layers.findIndex(layer => layer.id === layerId);
+    const layer = target.layers[index];
+    if (!layer || (layer.type !== 'image' && layer.type !== 'paint')) return;
+
+    let points = stroke.imagePoints.map(p => toLayerCanvasPoint(target, index, p));
+    let size = brush.size;
+    if (layer.type === 'image') {
+      points = points.map(p => toImageLayerPoint(layer, p));
+      size = brush.size / (layer.scale / 100);
+    }
+    const newStroke: BrushStroke = {
+      mode: tool === 'eraser' ? 'erase' : 'paint',
+      color: brush.color,
+      size,
+      hardness: brush.hardness,
+      opacity: brush.opacity,
+      points,
+    };
+    push(updateLayer(target, layer.id, { strokes: [...layer.strokes, newStroke] }), tool === 'eraser' ? 'Eraser' : 'Brush stroke');
+  }, [editorDoc, selectedLayerId, selectedLayer, insertIndex, brush, tool, push]);
+
+  const handlePointerUp = () => {
+    moveRef.current = null;
+    const stroke = strokeRef.current;
+    strokeRef.current = null;
+    if (stroke) commitStroke(stroke);
+    drawLiveStroke();
+  };
+
+  // --- Export ---
+
+  const handleExport = async () => {
+    if (!editorDoc || !imageFile) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const pixels = renderDocument(editorDoc, id => sources.get(id), 1);
+      const blob = await encodeImage(pixels, { format, quality, dither });
+      const baseName = imageFile.name.substring(0, imageFile.name.lastIndexOf('.')) || imageFile.name;
+      downloadImage(blob, `${baseName}_edited.${formatToExtension(format)}`);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to export the image.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleReset = () => {
+    setImageFile(null);
+    setSources(new Map());
+    reset(null);
+    setSelectedLayerId(null);
+    setTool('brush');
+    setBrush(DEFAULT_BRUSH);
+    setFormat('png');
+    setQuality(0.92);
+    setDither(true);
+    setError(null);
+  };
+
+  const cursor = tool === 'move' ? 'cursor-move' : 'cursor-crosshair';
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      <div className="lg:col-span-4 space-y-6">
+        {editorDoc ? (
+          <EditorSidebar
+            doc={editorDoc}
+            selectedLayerId={selectedLayerId}
+            onSelectLayer={setSelectedLayerId}
+            onChangeLayer={handleChangeLayer}
+            onAddLayer={handleAddLayer}
+            onAddImage={handleAddImage}
+            onRemoveLayer={handleRemoveLayer}
+            onMoveLayer={handleMoveLayer}
+            history={history}
+            disabled={isExporting}
+          />
+        ) : (
+          <div className="bg-zinc-900 rounded-lg p-6 space-y-4 border border-zinc-800">
+            <h3 className="text-lg font-semibold text-white">Photo Editor</h3>
+            <p className="text-sm text-gray-400">
+              Upload a photo to start. Adjustments, crops, rotations, watermarks and brush work are kept as separate layers you can tweak, reorder or hide at any time.
+            </p>
+          </div>
+        )}
+
+        <div className="bg-zinc-900 rounded-lg p-6 space-y-6 border border-zinc-800">
+          <h3 className="text-lg font-semibold text-white">Export</h3>
+          <ConvertFormatSettings
+            format={format}
+            onFormatChange={setFormat}
+            quality={quality}
+            onQualityChange={setQuality}
+            dither={dither}
+            onDitherChange={setDither}
+            description="The flattened image is exported at full resolution."
+            disabled={!editorDoc}
+          />
+          {outputSize && (
+            <p className="text-sm text-gray-400">Output size: <span className="font-semibold text-gray-200">{outputSize.width} × {outputSize.height}px</span></p>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-4">
+          <Button onClick={handleExport} isLoading={isExporting} icon={<ArrowDownTrayIcon />} disabled={!editorDoc}>
+            Download Image
+          </Button>
+          <Button onClick={handleReset} variant="outline" icon={<ArrowUturnLeftIcon />} disabled={!editorDoc}>
+            Start Over
+          </Button>
+        </div>
+      </div>
+
+      <div className="lg:col-span-8 space-y-4">
+        {editorDoc && (
+          <EditorToolbar
+            tool={tool}
+            onToolChange={setTool}
+            brush={brush}
+            onBrushChange={setBrush}
+            canUndo={canUndo}
+            canRedo={canRedo}
+            onUndo={undo}
+            onRedo={redo}
+            disabled={isExporting}
+          />
+        )}
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/20 text-red-400 text-sm rounded-lg p-3">{error}</div>
+        )}
+        <div className="bg-zinc-900 p-4 rounded-lg border border-zinc-800">
+          <div className="bg-black/50 p-2 rounded-lg flex items-center justify-center min-h-[40vh] overflow-hidden">
+            {!editorDoc ? (
+              isLoading ? (
+                <div className="flex items-center gap-3 text-gray-400">
+                  <svg className="animate-spin h-5 w-5 text-[#1DB954]" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                  Loading image...
+                </div>
+              ) : (
+                <ImageUploader onFileSelect={handleImageUpload} multiple={false} accept="image/*" />
+              )
+            ) : (
+              <div className="relative inline-block max-w-full" style={{ backgroundImage: 'repeating-conic-gradient(#27272a 0% 25%, #18181b 0% 50%)', backgroundSize: '16px 16px' }}>
+                <canvas ref={canvasRef} className="block max-w-full max-h-[70vh]" />
+                <canvas
+                  ref={overlayRef}
+                  className={`absolute inset-0 w-full h-full touch-none ${cursor}`}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerUp}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoEditor;
@@ -0,0 +1,475 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ImageUploader } from '../components/ImageUploader';
+import { Button } from '../components/Button';
+import { ColorPicker } from '../components/ColorPicker';
+import { HistoryPanel } from '../components/HistoryPanel';
+import { RegionOverlay } from '../components/RegionOverlay';
+import { StrokeOverlay } from '../components/StrokeOverlay';
+import { downloadImage } from '../utils/imageUtils';
+import { findPdfText, loadPdf, pdfjsLib, rasterPagesToPdf, renderPdfPage } from '../utils/pdf';
+import type { PdfTextMatch, RasterPage } from '../utils/pdf';
+import { brushRegion, decodeImage, drawToCanvas, encodeImage, mimeTypeToFormat, parseHexColor, redact } from '../core';
+import type { Point, Rect, RedactMode, RedactRegion } from '../core';
+import { useHistory } from '../hooks/useHistory';
+import { useUndoShortcuts } from '../hooks/useUndoShortcuts';
+import {
+  ArrowDownTrayIcon,
+  ArrowUturnLeftIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  MagnifyingGlassIcon,
+  PaintBrushIcon,
+  TrashIcon,
+  VectorSquareIcon,
+} from '../components/icons';
+
+type RedactMark =
+  | { id: string; page: number; kind: 'rect'; x: number; y: number; width: number; height: number }
+  | { id: string; page: number; kind: 'stroke'; points: Point[]; size: number };
+
+interface RedactState {
+  marks: RedactMark[];
+  mode: RedactMode;
+  strength: number;
+  color: string;
+}
+
+type RedactTool = 'rect' | 'brush';
+
+const DEFAULT_STATE: RedactState = {
+  marks: [],
+  mode: 'fill',
+  strength: 60,
+  color: '#000000',
+};
+
+const MODE_LABELS: Record<RedactMode, string> = {
+  fill: 'Solid Fill',
+  blur: 'Blur',
+  pixelate: 'Pixelate',
+};
+
+// PDF pages are rasterized once at this resolution; marks are stored in its pixels
+const PDF_RENDER_DPI = 150;
+
+const SEARCH_PRESETS: Record<string, { label: string; pattern: string }> = {
+  email: { label: 'Email addresses', pattern: '[\\w.+-]+@[\\w-]+(\\.[\\w-]+)+' },
+  phone: { label: 'Phone numbers', pattern: '\\+?\\d[\\d\\s().-]{7,}\\d' },
+  number: { label: 'Long numbers (IDs, cards, accounts)', pattern: '\\d[\\d\\s-]{6,}\\d' },
+};
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Masks for brush strokes are only built once per stroke
+const strokeRegions = new WeakMap<RedactMark, RedactRegion | null>();
+
+const toRedactRegion = (mark: RedactMark, page: RasterPage): RedactRegion | null => {
+  if (mark.kind === 'rect') return { x: mark.x, y: mark.y, width: mark.width, height: mark.height, shape: 'rect' };
+  if (!strokeRegions.has(mark)) {
+    strokeRegions.set(mark, brushRegion(mark.points, mark.size, page.pixels.width, page.pixels.height));
+  }
+  return strokeRegions.get(mark) ?? null;
+};
+
+const RedactImage: React.FC = () => {
+  const [file, setFile] = useState<File | null>(null);
+  const [pages, setPages] = useState<RasterPage[]>([]);
+  const [pdf, setPdf] = useState<pdfjsLib.PDFDocumentProxy | null>(null); // Kept for text search
+  const [pageIndex, setPageIndex] = useState(0);
+  const [tool, setTool] = useState<RedactTool>('rect');
+  const [brushSize, setBrushSize] = useState(24);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loadingMessage, setLoadingMessage] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Text search (PDFs only)
+  const [searchPreset, setSearchPreset] = useState('custom');
+  const [query, setQuery] = useState('');
+  const [useRegex, setUseRegex] = useState(false);
+  const [matchCase, setMatchCase] = useState(false);
+  const [matches, setMatches] = useState<PdfTextMatch[] | null>(null);
+  const [selectedMatches, setSelectedMatches] = useState<Set<number>>(new Set());
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Marks and effect settings, with undo/redo
+  const history = useHistory<RedactState>(DEFAULT_STATE);
+  const { marks, mode, strength, color } = history.state;
+
+  const update = (patch: Partial<RedactState>, label: string, mergeKey?: string) => {
+    history.push({ ...history.state, ...patch }, label, mergeKey);
+  };
+
+  useUndoShortcuts(history, pages.length > 0);
+
+  const page = pages[pageIndex] as RasterPage | undefined;
+  const isPdf = pdf !== null;
+  const redactOptions = { mode, strength, color: parseHexColor(color) ?? undefined };
+
+  const regionsForPage = (index: number): RedactRegion[] =>
+    marks
+      .filter((mark) => mark.page === index)
+      .map((mark) => toRedactRegion(mark, pages[index]))
+      .filter((region): region is RedactRegion => region !== null);
+
+  // The preview is the exact output of the current page
+  useEffect(() => {
+    if (!page || !canvasRef.current) return;
+    const frame = requestAnimationFrame(() => {
+      if (canvasRef.current) drawToCanvas(canvasRef.current, redact(page.pixels, regionsForPage(pageIndex), redactOptions));
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [page, pageIndex, marks, mode, strength, color]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Delete' && e.key !== 'Backspace') return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      e.preventDefault();
+      removeMark(selectedId);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  useEffect(() => () => {
+    pdf?.destroy();
+  }, [pdf]);
+
+  const handleFileUpload = async (files: File[]) => {
+    if (files.length === 0) return;
+    const selected = files[0];
+    setError(null);
+    setMatches(null);
+    setSelectedId(null);
+    setPageIndex(0);
+    history.reset(DEFAULT_STATE);
+
+    try {
+      if (selected.type === 'application/pdf') {
+        setLoadingMessage('Loading PDF...');
+        const doc = await loadPdf(selected);
+        const rendered: RasterPage[] = [];
+        for (let pageNum = 1; pageNum <= doc.numPages; pageNum++) {
+          setLoadingMessage(`Rendering page ${pageNum} of ${doc.numPages}...`);
+          rendered.push(await renderPdfPage(doc, pageNum, PDF_RENDER_DPI / 72));
+        }
+        setPdf(doc);
+        setPages(rendered);
+      } else {
+        setLoadingMessage('Loading image...');
+        const pixels = await decodeImage(selected);
+        setPdf(null);
+        setPages([{ pixels, widthPt: pixels.width, heightPt: pixels.height }]);
+      }
+      setFile(selected);
+    } catch (err: any) {
+      console.error('Error loading file for redaction:', err);
+      setError(err.message || 'Failed to load the file. It might be corrupted or password-protected.');
+    } finally {
+      setLoadingMessage(null);
+    }
+  };
+
+  const addRect = (rect: Rect) => {
+    const mark: RedactMark = { ...rect, id: createId(), page: pageIndex, kind: 'rect' };
+    update({ marks: [...marks, mark] }, 'Add box');
+    setSelectedId(mark.id);
+  };
+
+  const moveRect = (id: string, rect: Rect) => {
+    update({ marks: marks.map((mark) => (mark.id === id && mark.kind === 'rect' ? { ...mark, ...rect } : mark)) }, 'Move box');
+  };
+
+  const addStroke = (points: Point[]) => {
+    update({ marks: [...marks, { id: createId(), page: pageIndex, kind: 'stroke', points, size: brushSize }] }, 'Brush stroke');
+  };
+
+  const removeMark = (id: string) => {
+    update({ marks: marks.filter((mark) => mark.id !== id) }, 'Remove box');
+    setSelectedId(null);
+  };
+
+  const buildPattern = (): RegExp | null => {
+    const source = searchPreset !== 'custom' ? SEARCH_PRESETS[searchPreset].pattern : useRegex ? query : escapeRegExp(query);
+    if (!source.trim()) return null;
+    return new RegExp(source, matchCase || searchPreset !== 'custom' ? 'g' : 'gi');
+  };
+
+  const handleSearch = async () => {
+    if (!pdf) return;
+    setError(null);
+    let pattern: RegExp | null;
+    try {
+      pattern = buildPattern();
+    } catch {
+      setError('The search is not a valid regular expression.');
+      return;
+    }
+    if (!pattern) return;
+
+    setIsSearching(true);
+    try {
+      const found: PdfTextMatch[] = [];
+      for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+        found.push(...(await findPdfText(pdf, pageNum, pattern, PDF_RENDER_DPI / 72)));
+      }
+      setMatches(found);
+      setSelectedMatches(new Set(found.map((_, index) => index)));
+    } catch (err: any) {
+      console.error('Error searching PDF text:', err);
+      setError(err.message || 'Failed to search the PDF text.');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleToggleMatch = (index: number) => {
+    setSelectedMatches((prev: Set<number>) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const handleRedactMatches = () => {
+    if (!matches) return;
+    const selected = matches.filter((_, index) => selectedMatches.has(index));
+    const added = selected.flatMap(({ pageNum, rects }) =>
+      rects.map((rect): RedactMark => ({ ...rect, id: createId(), page: pageNum - 1, kind: 'rect' })));
+    if (added.length === 0) return;
+    update({ marks: [...marks, ...added] }, `Redact ${selected.length} text match${selected.length === 1 ? '' : 'es'}`);
+    setMatches(null);
+  };
+
+  const handleDownload = async () => {
+    if (!file || pages.length === 0) return;
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const baseName = file.name.replace(/\.[^.]+$/, '');
+      if (isPdf) {
+        const redacted = pages.map((p, index) => ({ ...p, pixels: redact(p.pixels, regionsForPage(index), redactOptions) }));
+        downloadImage(rasterPagesToPdf(redacted), `${baseName}_redacted.pdf`);
+      } else {
+        const result = redact(pages[0].pixels, regionsForPage(0), redactOptions);
+        downloadImage(await encodeImage(result, { format: mimeTypeToFormat(file.type), quality: 0.92 }), `redacted_${file.name}`);
+      }
+    } catch (err: any) {
+      console.error('Error exporting redacted file:', err);
+      setError(err.message || 'Failed to export the redacted file.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleReset = () => {
+    setFile(null);
+    setPages([]);
+    setPdf(null);
+    setPageIndex(0);
+    setSelectedId(null);
+    setMatches(null);
+    setError(null);
+    history.reset(DEFAULT_STATE);
+  };
+
+  const pageMarks = marks.filter((mark) => mark.page === pageIndex);
+  const pageRects = pageMarks.flatMap((mark) => (mark.kind === 'rect' ? [mark] : []));
+  const toolClass = (active: boolean) =>
+    `flex-1 flex items-center justify-center py-2 px-3 text-sm font-medium transition-colors ${
+      active ? 'bg-[#1DB954] text-black' : 'text-gray-300 hover:bg-zinc-700'
+    } disabled:opacity-50`;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      <div className="lg:col-span-4 space-y-6">
+        <div className="bg-zinc-900 rounded-lg p-6 space-y-6 border border-zinc-800">
+          <h3 className="text-lg font-semibold text-white">Redaction Settings</h3>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Tool</label>
+            <div className="flex rounded-lg overflow-hidden bg-zinc-800">
+              <button className={toolClass(tool === 'rect')} onClick={() => setTool('rect')} disabled={!page}>
+                <VectorSquareIcon /> <span className="ml-2">Boxes</span>
+              </button>
+              <button className={toolClass(tool === 'brush')} onClick={() => { setTool('brush'); setSelectedId(null); }} disabled={!page}>
+                <PaintBrushIcon /> <span className="ml-2">Brush</span>
+              </button>
+            </div>
+          </div>
+
+          {tool === 'brush' && (
+            <div>
+              <label htmlFor="brush-size-slider" className="flex justify-between text-sm font-medium text-gray-300 mb-2">
+                <span>Brush Size</span>
+                <span className="font-mono text-[#1DB954]">{brushSize}px</span>
+              </label>
+              <input type="range" id="brush-size-slider" min="4" max="200" step="2" value={brushSize} onChange={(e) => setBrushSize(parseInt(e.target.value, 10))} className="w-full range-slider" disabled={!page} />
+            </div>
+          )}
+
+          <div className="space-y-2 pt-4 border-t border-zinc-800">
+            <label className="block text-sm font-medium text-gray-300 mb-2">Effect</label>
+            <div className="flex rounded-lg overflow-hidden bg-zinc-800">
+              {(Object.keys(MODE_LABELS) as RedactMode[]).map((value) => (
+                <button key={value} className={toolClass(mode === value)} onClick={() => update({ mode: value }, MODE_LABELS[value])} disabled={!page}>
+                  {MODE_LABELS[value]}
+                </button>
+              ))}
+            </div>
+            {mode !== 'fill' && (
+              <p className="text-xs text-yellow-400/80">Blurred or pixelated text can sometimes be recovered. Use Solid Fill for anything truly sensitive.</p>
+            )}
+          </div>
+
+          {mode === 'fill' ? (
+            <ColorPicker label="Fill Color" color={color} onChange={(newColor) => update({ color: newColor }, 'Fill color', 'color')} disabled={!page} />
+          ) : (
+            <div>
+              <label htmlFor="redact-strength-slider" className="flex justify-between text-sm font-medium text-gray-300 mb-2">
+                <span>Strength</span>
+                <span className="font-mono text-[#1DB954]">{strength}</span>
+              </label>
+              <input type="range" id="redact-strength-slider" min="1" max="100" step="1" value={strength} onChange={(e) => update({ strength: parseInt(e.target.value, 10) }, 'Strength', 'strength')} className="w-full range-slider" disabled={!page} />
+            </div>
+          )}
+
+          <div className="flex items-center justify-between pt-4 border-t border-zinc-800">
+            <span className="text-sm text-gray-400">{pageMarks.length} mark{pageMarks.length === 1 ? '' : 's'} on this page</span>
+            <button
+              onClick={() => { update({ marks: marks.filter((mark) => mark.page !== pageIndex) }, 'Clear page'); setSelectedId(null); }}
+              disabled={pageMarks.length === 0}
+              className="flex items-center gap-2 text-sm text-gray-400 hover:text-red-400 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <TrashIcon /> Clear Page
+            </button>
+          </div>
+        </div>
+
+        {isPdf && (
+          <div className="bg-zinc-900 rounded-lg p-6 space-y-4 border border-zinc-800">
+            <h3 className="text-lg font-semibold text-white">Find Text</h3>
+            <select id="search-preset" value={searchPreset} onChange={(e) => setSearchPreset(e.target.value)} className="custom-input">
+              <option value="custom">Custom search</option>
+              {Object.entries(SEARCH_PRESETS).map(([key, preset]) => (
+                <option key={key} value={key}>{preset.label}</option>
+              ))}
+            </select>
+            {searchPreset === 'custom' && (
+              <>
+                <input type="text" value={query} onChange={(e) => setQuery(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleSearch()} className="custom-input" placeholder="Name, account number..." />
+                <div className="flex gap-6">
+                  <label className="flex items-center text-sm text-gray-300">
+                    <input type="checkbox" checked={matchCase} onChange={(e) => setMatchCase(e.target.checked)} className="h-4 w-4 rounded border-zinc-600 bg-zinc-700 text-[#1DB954] focus:ring-[#1DB954]" />
+                    <span className="ml-2">Match case</span>
+                  </label>
+                  <label className="flex items-center text-sm text-gray-300">
+                    <input type="checkbox" checked={useRegex} onChange={(e) => setUseRegex(e.target.checked)} className="h-4 w-4 rounded border-zinc-600 bg-zinc-700 text-[#1DB954] focus:ring-[#1DB954]" />
+                    <span className="ml-2">Regular expression</span>
+                  </label>
+                </div>
+              </>
+            )}
+            <Button onClick={handleSearch} isLoading={isSearching} variant="secondary" icon={<MagnifyingGlassIcon />} disabled={searchPreset === 'custom' && !query.trim()}>
+              Find Matches
+            </Button>
+
+            {matches && (
+              matches.length === 0 ? (
+                <p className="text-sm text-gray-400">No matches. Scanned pages have no text layer; mark them by hand instead.</p>
+              ) : (
+                <>
+                  <div className="max-h-60 overflow-y-auto space-y-1 pr-1">
+                    {matches.map((match, index) => (
+                      <label key={index} className="flex items-center gap-2 text-sm text-gray-300 bg-zinc-800 rounded-md px-3 py-2 cursor-pointer">
+                        <input type="checkbox" checked={selectedMatches.has(index)} onChange={() => handleToggleMatch(index)} className="h-4 w-4 rounded border-zinc-600 bg-zinc-700 text-[#1DB954] focus:ring-[#1DB954]" />
+                        <span className="text-xs text-gray-500 shrink-0">p.{match.pageNum}</span>
+                        <span className="truncate font-mono" onClick={() => setPageIndex(match.pageNum - 1)}>{match.text}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <Button onClick={handleRedactMatches} disabled={selectedMatches.size === 0}>
+                    Redact {selectedMatches.size} Match{selectedMatches.size === 1 ? '' : 'es'}
+                  </Button>
+                </>
+              )
+            )}
+          </div>
+        )}
+
+        {page && <HistoryPanel history={history} />}
+
+        <div className="flex flex-col gap-4">
+          <Button onClick={handleDownload} isLoading={isProcessing} variant="secondary" disabled={!page || marks.length === 0} icon={<ArrowDownTrayIcon />}>
+            {isPdf ? 'Download Redacted PDF' : 'Download Redacted Image'}
+          </Button>
+          <p className="text-xs text-gray-500 -mt-2">
+            {isPdf
+              ? 'Every page is flattened to an image, so the hidden text, metadata and other content are removed from the file.'
+              : 'The redacted pixels are replaced in the exported file, and metadata such as GPS location is removed.'}
+          </p>
+          <Button onClick={handleReset} variant="outline" icon={<ArrowUturnLeftIcon />} disabled={!file}>
+            Start Over
+          </Button>
+        </div>
+      </div>
+
+      <div className="lg:col-span-8 space-y-4">
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/20 text-red-300 p-4 rounded-lg text-sm">{error}</div>
+        )}
+        <div className="bg-zinc-900 p-4 rounded-lg border border-zinc-800 sticky top-24">
+          {pages.length > 1 && (
+            <div className="flex items-center justify-between mb-4 px-2">
+              <button onClick={() => { setPageIndex(pageIndex - 1); setSelectedId(null); }} disabled={pageIndex === 0} className="p-2 rounded-md bg-zinc-800 text-gray-300 hover:bg-zinc-700 disabled:opacity-40" aria-label="Previous page">
+                <ChevronLeftIcon />
+              </button>
+              <span className="text-sm text-gray-400">Page {pageIndex + 1} of {pages.length}</span>
+              <button onClick={() => { setPageIndex(pageIndex + 1); setSelectedId(null); }} disabled={pageIndex === pages.length - 1} className="p-2 rounded-md bg-zinc-800 text-gray-300 hover:bg-zinc-700 disabled:opacity-40" aria-label="Next page">
+                <ChevronRightIcon />
+              </button>
+            </div>
+          )}
+          <div className="bg-black/50 p-2 rounded-lg flex items-center justify-center min-h-[40vh] overflow-hidden">
+            {loadingMessage ? (
+              <p className="text-gray-400">{loadingMessage}</p>
+            ) : !page ? (
+              <ImageUploader onFileSelect={handleFileUpload} title="Upload an image or PDF" description="PNG, JPG, WEBP or PDF" multiple={false} accept="image/*,application/pdf" />
+            ) : (
+              <div className="relative inline-block">
+                <canvas ref={canvasRef} className="block max-w-full max-h-[70vh] rounded-md" />
+                {tool === 'rect' ? (
+                  <RegionOverlay
+                    imageWidth={page.pixels.width}
+                    imageHeight={page.pixels.height}
+                    regions={pageRects}
+                    selectedId={selectedId}
+                    onSelect={setSelectedId}
+                    onAdd={addRect}
+                    onMove={moveRect}
+                    onRemove={removeMark}
+                  />
+                ) : (
+                  <StrokeOverlay imageWidth={page.pixels.width} imageHeight={page.pixels.height} brushSize={brushSize} onStroke={addStroke} />
+                )}
+              </div>
+            )}
+          </div>
+          {page && (
+            <p className="text-xs text-gray-500 mt-3 text-center">
+              {tool === 'rect' ? 'Drag to draw a box, drag a box to move it, select one and press Delete to remove it.' : 'Paint over anything you want to hide. Undo removes the last stroke.'}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RedactImage;
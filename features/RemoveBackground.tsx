@@ -1,78 +1,220 @@
 import React, { useState, useEffect } from 'react';
 import { ImageUploader } from '../components/ImageUploader';
 import { Button } from '../components/Button';
+import { HistoryPanel } from '../components/HistoryPanel';
+import { StrokeOverlay } from '../components/StrokeOverlay';
+import { RefinementEditor } from '../components/editor/RefinementEditor';
+import { BackgroundReplacer } from '../components/editor/BackgroundReplacer';
 import { downloadImage } from '../utils/imageUtils';
-import { removeBackgroundWithAI } from '../services/backgroundRemovalService';
-import { RemoveBgIcon, ArrowDownTrayIcon, ArrowUturnLeftIcon, AIIcon } from '../components/icons';
+import { BACKGROUND_REMOVERS } from '../services/backgroundRemovalService';
+import type { BackgroundRemover } from '../services/backgroundRemovalService';
+import { getImageSize } from '../core';
+import type { Point } from '../core';
+import { useBlobUrl } from '../hooks/useObjectUrls';
+import { useHistory } from '../hooks/useHistory';
+import { useUndoShortcuts } from '../hooks/useUndoShortcuts';
+import { RemoveBgIcon, ArrowDownTrayIcon, ArrowUturnLeftIcon, PaintBrushIcon, EraserIcon, TrashIcon, PhotoEditorIcon, PhotoIcon } from '../components/icons';
 import { ImageComparator } from '../components/ImageComparator';
 
+type HintKind = 'foreground' | 'background';
+
+interface HintStroke {
+    kind: HintKind;
+    points: Point[];
+    size: number;
+}
+
+const HINT_COLORS: Record<HintKind, string> = {
+    foreground: '#1DB954',
+    background: '#ef4444',
+};
+
 const RemoveBackground: React.FC = () => {
     const [imageFile, setImageFile] = useState<File | null>(null);
-    const [imageUrl, setImageUrl] = useState<string | null>(null);
-    const [resultUrl, setResultUrl] = useState<string | null>(null);
+    const imageUrl = useBlobUrl(imageFile);
+    const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+    const [resultBlob, setResultBlob] = useState<Blob | null>(null);
+    const resultUrl = useBlobUrl(resultBlob);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [editor, setEditor] = useState<'refine' | 'replace' | null>(null);
+
+    // On-device remover settings
+    const [remover, setRemover] = useState<BackgroundRemover>(BACKGROUND_REMOVERS[0]);
+    const [hintKind, setHintKind] = useState<HintKind>('foreground');
+    const [brushSize, setBrushSize] = useState(30);
+    const [tolerance, setTolerance] = useState(50);
+    const [feather, setFeather] = useState(1);
+    const strokes = useHistory<HintStroke[]>([]);
+
+    useUndoShortcuts(strokes, remover.usesHints && !!imageFile && !resultBlob && !editor);
 
     useEffect(() => {
-        return () => {
-            if (resultUrl && resultUrl.startsWith('blob:')) {
-                URL.revokeObjectURL(resultUrl);
-            }
-        };
-    }, [resultUrl]);
+        if (!imageFile) {
+            setImageSize(null);
+            return;
+        }
+        let cancelled = false;
+        getImageSize(imageFile).then(({ width, height }) => {
+            if (!cancelled) setImageSize({ width, height });
+        });
+        return () => { cancelled = true; };
+    }, [imageFile]);
 
     const handleImageUpload = (files: File[]) => {
         if (files.length > 0) {
             const file = files[0];
             setImageFile(file);
-            setImageUrl(URL.createObjectURL(file));
-            setResultUrl(null);
+            setResultBlob(null);
             setError(null);
+            strokes.reset([]);
         }
     };
 
     const handleRemoveBackground = async () => {
         if (!imageFile) return;
         setIsLoading(true);
-        setResultUrl(null);
+        setResultBlob(null);
         setError(null);
         try {
-            const result = await removeBackgroundWithAI(imageFile);
-            setResultUrl(result);
+            const byKind = (kind: HintKind) => strokes.state.filter((stroke) => stroke.kind === kind);
+            const result = await remover.remove({
+                file: imageFile,
+                foreground: byKind('foreground'),
+                background: byKind('background'),
+                tolerance,
+                feather,
+            });
+            setResultBlob(result);
         } catch (error: any) {
             setError(error.message || "An unknown error occurred while removing the background.");
         } finally {
             setIsLoading(false);
         }
     };
-    
+
+    const handleAddStroke = (points: Point[]) => {
+        strokes.push([...strokes.state, { kind: hintKind, points, size: brushSize }], hintKind === 'foreground' ? 'Mark subject' : 'Mark background');
+    };
+
     const handleDownload = () => {
-        if (!resultUrl || !imageFile) return;
+        if (!resultBlob || !imageFile) return;
         const originalName = imageFile.name.substring(0, imageFile.name.lastIndexOf('.'));
         const filename = `bg-removed_${originalName}.png`;
-        downloadImage(resultUrl, filename);
+        downloadImage(resultBlob, filename);
     };
 
     const handleReset = () => {
         setImageFile(null);
-        setImageUrl(null);
-        setResultUrl(null);
+        setResultBlob(null);
         setError(null);
+        setEditor(null);
+        strokes.reset([]);
     };
-    
+
+    if (editor === 'refine' && imageFile && resultBlob) {
+        return (
+            <RefinementEditor
+                original={imageFile}
+                cutout={resultBlob}
+                onApply={(refined) => {
+                    setResultBlob(refined);
+                    setEditor(null);
+                }}
+                onCancel={() => setEditor(null)}
+            />
+        );
+    }
+
+    if (editor === 'replace' && imageFile && resultBlob) {
+        return <BackgroundReplacer original={imageFile} cutout={resultBlob} onClose={() => setEditor(null)} />;
+    }
+
     const AIInfoBox = () => (
         <div className="p-4 bg-black/70 text-gray-400 border border-zinc-800 rounded-lg text-sm">
             <p><span className="font-semibold text-[#1DB954]">Powered by AI:</span> This tool uses an API for high-quality results. Set your own key in settings for higher usage limits.</p>
         </div>
     );
 
+    const hintButtonClass = (kind: HintKind) =>
+        `flex-1 flex items-center justify-center py-2 px-3 text-sm font-medium transition-colors ${
+            hintKind === kind ? 'bg-[#1DB954] text-black' : 'text-gray-300 hover:bg-zinc-700'
+        } disabled:opacity-50`;
+
+    const isMarking = remover.usesHints && !resultUrl;
+
     return (
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
             <div className="lg:col-span-4 space-y-6">
                 <div className="bg-zinc-900 p-6 rounded-lg border border-zinc-800 space-y-6">
                     <h3 className="text-lg font-semibold text-white">Background Removal</h3>
-                      <AIInfoBox />
-                    <p className="text-sm text-gray-400">The AI will automatically detect the subject and remove the background, providing a transparent PNG.</p>
+                    <div>
+                        <label htmlFor="remover-select" className="block text-sm font-medium text-gray-300 mb-2">Method</label>
+                        <select
+                            id="remover-select"
+                            value={remover.id}
+                            onChange={(e) => {
+                                setRemover(BACKGROUND_REMOVERS.find((r) => r.id === e.target.value) ?? BACKGROUND_REMOVERS[0]);
+                                setResultBlob(null);
+                            }}
+                            className="custom-input"
+                            disabled={isLoading}
+                        >
+                            {BACKGROUND_REMOVERS.map((r) => (
+                                <option key={r.id} value={r.id}>{r.name}</option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-gray-500 mt-2">{remover.description}</p>
+                    </div>
+                    {remover.requiresNetwork && <AIInfoBox />}
+
+                    {remover.usesHints ? (
+                        <div className="space-y-6 pt-4 border-t border-zinc-800">
+                            <p className="text-sm text-gray-400">
+                                Paint a few strokes over the subject to keep and the background to remove. Without background marks, the image border is treated as background.
+                            </p>
+                            <div className="flex rounded-lg overflow-hidden bg-zinc-800">
+                                <button className={hintButtonClass('foreground')} onClick={() => setHintKind('foreground')} disabled={!imageFile}>
+                                    <PaintBrushIcon /> <span className="ml-2">Keep</span>
+                                </button>
+                                <button className={hintButtonClass('background')} onClick={() => setHintKind('background')} disabled={!imageFile}>
+                                    <EraserIcon /> <span className="ml-2">Remove</span>
+                                </button>
+                            </div>
+                            <div>
+                                <label htmlFor="hint-brush-size" className="flex justify-between text-sm font-medium text-gray-300 mb-2">
+                                    <span>Brush Size</span>
+                                    <span className="font-mono text-[#1DB954]">{brushSize}px</span>
+                                </label>
+                                <input type="range" id="hint-brush-size" min="4" max="200" step="2" value={brushSize} onChange={(e) => setBrushSize(parseInt(e.target.value, 10))} className="w-full range-slider" disabled={!imageFile} />
+                            </div>
+                            <div>
+                                <label htmlFor="tolerance-slider" className="flex justify-between text-sm font-medium text-gray-300 mb-2">
+                                    <span>Tolerance</span>
+                                    <span className="font-mono text-[#1DB954]">{tolerance}</span>
+                                </label>
+                                <input type="range" id="tolerance-slider" min="0" max="100" step="1" value={tolerance} onChange={(e) => setTolerance(parseInt(e.target.value, 10))} className="w-full range-slider" disabled={!imageFile} />
+                                <p className="text-xs text-gray-500 mt-1">Higher values remove more colors that are close to the background.</p>
+                            </div>
+                            <div>
+                                <label htmlFor="feather-slider" className="flex justify-between text-sm font-medium text-gray-300 mb-2">
+                                    <span>Edge Softness</span>
+                                    <span className="font-mono text-[#1DB954]">{feather}px</span>
+                                </label>
+                                <input type="range" id="feather-slider" min="0" max="10" step="0.5" value={feather} onChange={(e) => setFeather(parseFloat(e.target.value))} className="w-full range-slider" disabled={!imageFile} />
+                            </div>
+                            <button
+                                onClick={() => strokes.push([], 'Clear marks')}
+                                disabled={strokes.state.length === 0 || !!resultUrl}
+                                className="flex items-center gap-2 text-sm text-gray-400 hover:text-red-400 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                            >
+                                <TrashIcon /> Clear Marks
+                            </button>
+                        </div>
+                    ) : (
+                        <p className="text-sm text-gray-400">The AI will automatically detect the subject and remove the background, providing a transparent PNG.</p>
+                    )}
+
                       <div className="flex flex-col gap-4 pt-4 border-t border-zinc-800">
                         <Button icon={<RemoveBgIcon />} onClick={handleRemoveBackground} isLoading={isLoading} disabled={!imageFile}>
                             {isLoading ? 'Processing...' : 'Remove Background'}
@@ -80,16 +222,29 @@ const RemoveBackground: React.FC = () => {
                         <Button icon={<ArrowDownTrayIcon />} onClick={handleDownload} variant="secondary" disabled={!resultUrl}>
                             Download Result
                         </Button>
+                        <Button icon={<PhotoEditorIcon />} onClick={() => setEditor('refine')} variant="outline" disabled={!resultUrl}>
+                            Refine Edges
+                        </Button>
+                        <Button icon={<PhotoIcon />} onClick={() => setEditor('replace')} variant="outline" disabled={!resultUrl}>
+                            Replace Background
+                        </Button>
+                        {resultUrl && remover.usesHints && (
+                            <Button onClick={() => setResultBlob(null)} variant="outline" icon={<PaintBrushIcon />}>
+                                Refine Marks
+                            </Button>
+                        )}
                     </div>
                 </div>
-                
+
+                {isMarking && imageFile && <HistoryPanel history={strokes} />}
+
                 {error && (
                     <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-300">
                         <p className="font-semibold">An error occurred</p>
                         <p className="text-sm mt-1">{error}</p>
                     </div>
                 )}
-                
+
                 <Button icon={<ArrowUturnLeftIcon />} onClick={handleReset} variant="outline" disabled={!imageFile}>
                     Start Over
                 </Button>
@@ -116,8 +271,8 @@ const RemoveBackground: React.FC = () => {
                             )}
                             {!isLoading && resultUrl && imageUrl && (
                                 <div className="w-full checkerboard-bg rounded-lg">
-                                    <ImageComparator 
-                                        beforeSrc={imageUrl} 
+                                    <ImageComparator
+                                        beforeSrc={imageUrl}
                                         afterSrc={resultUrl}
                                         beforeLabel='Original'
                                         afterLabel='Result'
@@ -125,7 +280,19 @@ const RemoveBackground: React.FC = () => {
                                 </div>
                             )}
                             {!isLoading && !resultUrl && imageUrl && (
-                                <img src={imageUrl} alt="Original" className="max-w-full object-contain rounded-md"/>
+                                <div className="relative inline-block">
+                                    <img src={imageUrl} alt="Original" className="block max-w-full max-h-[70vh] object-contain rounded-md"/>
+                                    {isMarking && imageSize && (
+                                        <StrokeOverlay
+                                            imageWidth={imageSize.width}
+                                            imageHeight={imageSize.height}
+                                            brushSize={brushSize}
+                                            color={HINT_COLORS[hintKind]}
+                                            strokes={strokes.state.map((stroke) => ({ ...stroke, color: HINT_COLORS[stroke.kind] }))}
+                                            onStroke={handleAddStroke}
+                                        />
+                                    )}
+                                </div>
                             )}
                         </div>
                     )}
@@ -135,4 +302,4 @@ const RemoveBackground: React.FC = () => {
     );
 };
 
-export default RemoveBackground;
\ No newline at end of file
+export default RemoveBackground;
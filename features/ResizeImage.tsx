@@ -1,9 +1,17 @@
 import React, { useState, useCallback, useMemo } from 'react';
 import { ImageUploader } from '../components/ImageUploader';
 import { Button } from '../components/Button';
-import { downloadZip, loadImageAsDataURLAndDimensions } from '../utils/imageUtils';
-import { ArrowDownTrayIcon, ArrowUturnLeftIcon, ResizeIcon, XMarkIcon, PlusIcon, ChevronUpIcon, ChevronDownIcon } from '../components/icons';
+import { BatchItemStatus } from '../components/BatchItemStatus';
+import { MetadataPolicySelect } from '../components/MetadataPolicySelect';
+import { downloadZip, getImageDimensions } from '../utils/imageUtils';
+import { mimeTypeToFormat } from '../core';
+import type { MetadataPolicy } from '../core';
+import { useImageBatch } from '../hooks/useImageBatch';
+import { useObjectUrls } from '../hooks/useObjectUrls';
+import type { BatchJob } from '../utils/imageBatch';
+import { ArrowDownTrayIcon, ArrowUturnLeftIcon, ResizeIcon, XMarkIcon, PlusIcon, ChevronUpIcon, ChevronDownIcon, StopIcon } from '../components/icons';
 import type { FileWithPreview } from '../types';
+import { useQueryState } from '../contexts/RouterContext';
 
 interface ResizeSettings {
     id: string;
@@ -13,20 +21,71 @@ interface ResizeSettings {
     keepAspectRatio: boolean;
 }
 
+// Global sizing: a set width or height (0 = auto) wins over the percentage
+interface GlobalSize {
+    percentage: number;
+    width: number;
+    height: number;
+    keepAspectRatio: boolean;
+}
+
+const settingsFromGlobal = (id: string, original: { width: number; height: number }, global: GlobalSize): ResizeSettings => {
+    const { width, height, keepAspectRatio } = global;
+    if ((!width && !height) || !original.width || !original.height) {
+        return {
+            id,
+            percentage: global.percentage,
+            width: Math.round(original.width * (global.percentage / 100)),
+            height: Math.round(original.height * (global.percentage / 100)),
+            keepAspectRatio,
+        };
+    }
+    let newWidth = width || original.width;
+    let newHeight = height || original.height;
+    if (keepAspectRatio) {
+        // With both sides given, fit inside the box; with one, the other follows
+        const scale = width && height
+            ? Math.min(width / original.width, height / original.height)
+            : width ? width / original.width : height / original.height;
+        newWidth = Math.round(original.width * scale);
+        newHeight = Math.round(original.height * scale);
+    }
+    return {
+        id,
+        percentage: Math.round((newWidth / original.width) * 100),
+        width: Math.max(1, newWidth),
+        height: Math.max(1, newHeight),
+        keepAspectRatio,
+    };
+};
+
 interface ResizedResult {
     id: string;
     originalFilename: string;
-    dataUrl: string;
+    blob: Blob;
+    url: string; // Object URL for the preview
 }
 
 export const ResizeImage: React.FC = () => {
     const [imageFiles, setImageFiles] = useState<FileWithPreview[]>([]);
     const [resizeSettings, setResizeSettings] = useState<ResizeSettings[]>([]);
     const [resizedResults, setResizedResults] = useState<ResizedResult[]>([]);
-    const [globalPercentage, setGlobalPercentage] = useState(100);
-    const [isProcessing, setIsProcessing] = useState(false);
-    const [progress, setProgress] = useState(0);
+    const [globalPercentage, setGlobalPercentage] = useQueryState('scale', 100); // Shareable via ?scale=
+    const [globalWidth, setGlobalWidth] = useQueryState('w', 0); // 0 = auto
+    const [globalHeight, setGlobalHeight] = useQueryState('h', 0);
+    const [globalKeepAspectRatio, setGlobalKeepAspectRatio] = useQueryState('keep', true);
+    const globalSize: GlobalSize = { percentage: globalPercentage, width: globalWidth, height: globalHeight, keepAspectRatio: globalKeepAspectRatio };
+    const { run, cancel, reset: resetBatch, items: batchItems, isProcessing, progress, failedCount } = useImageBatch();
+    const objectUrls = useObjectUrls();
+
+    const clearResults = useCallback(() => {
+        setResizedResults(prev => {
+            prev.forEach(result => objectUrls.revoke(result.url));
+            return [];
+        });
+    }, [objectUrls]);
     const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+    const [metadataPolicy, setMetadataPolicy] = useState<MetadataPolicy>('copyright');
 
     const originalDimensionsMap = useMemo(() => {
         return imageFiles.reduce((acc, file) => {
@@ -41,10 +100,10 @@ export const ResizeImage: React.FC = () => {
 
         for (const file of files) {
             try {
-                const { dataUrl, width, height } = await loadImageAsDataURLAndDimensions(file);
+                const { width, height } = await getImageDimensions(file);
                 const id = `${file.name}-${file.lastModified}-${Math.random()}`;
                 newFiles.push(Object.assign(file, {
-                    preview: dataUrl,
+                    preview: objectUrls.create(file),
                     id,
                     width,
                     height,
@@ -54,17 +113,14 @@ export const ResizeImage: React.FC = () => {
             }
         }
 
-        const newSettings = newFiles.map(file => ({
-            id: file.id,
-            percentage: 100,
-            width: file.width || 0,
-            height: file.height || 0,
-            keepAspectRatio: true,
-        }));
+        // New images start at the global size, so a shared ?scale= or ?w=&h= link applies straight away
+        const newSettings = newFiles.map(file =>
+            settingsFromGlobal(file.id, { width: file.width || 0, height: file.height || 0 }, globalSize)
+        );
 
         setImageFiles(prev => [...prev, ...newFiles]);
         setResizeSettings(prev => [...prev, ...newSettings]);
-        setResizedResults([]);
+        clearResults();
     };
 
     const handleApplyToAll = () => {
@@ -72,9 +128,7 @@ export const ResizeImage: React.FC = () => {
             prevSettings.map(setting => {
                 const original = originalDimensionsMap[setting.id];
                 if (!original) return setting;
-                const newWidth = Math.round(original.width * (globalPercentage / 100));
-                const newHeight = Math.round(original.height * (globalPercentage / 100));
-                return { ...setting, percentage: globalPercentage, width: newWidth, height: newHeight };
+                return settingsFromGlobal(setting.id, original, globalSize);
             })
         );
     };
@@ -113,47 +167,43 @@ export const ResizeImage: React.FC = () => {
     const performResize = useCallback(async () => {
         if (imageFiles.length === 0) return;
 
-        setIsProcessing(true);
-        setResizedResults([]);
-        setProgress(0);
-        
-        const results: ResizedResult[] = [];
-        for (let i = 0; i < imageFiles.length; i++) {
-            const file = imageFiles[i];
+        clearResults();
+
+        const jobs: BatchJob[] = [];
+        for (const file of imageFiles) {
             const settings = resizeSettings.find(s => s.id === file.id);
             if (!settings) continue;
+            jobs.push({
+                id: file.id,
+                file,
+                format: mimeTypeToFormat(file.type), // Keep the original format where the encoder supports it
+                resize: { width: settings.width, height: settings.height },
+                metadata: metadataPolicy,
+            });
+        }
 
-            const img = new Image();
-            img.src = file.preview;
-            await new Promise(resolve => { img.onload = resolve; });
-
-            const canvas = document.createElement('canvas');
-            const ctx = canvas.getContext('2d');
-            if (!ctx) continue;
+        const batchResults = await run(jobs);
 
-            canvas.width = settings.width;
-            canvas.height = settings.height;
-            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-            const dataUrl = canvas.toDataURL(file.type);
-            
+        const results: ResizedResult[] = [];
+        for (const result of batchResults) {
+            const file = imageFiles.find(f => f.id === result.id);
+            if (!file) continue;
             results.push({
                 id: file.id,
                 originalFilename: file.name,
-                dataUrl,
+                blob: result.blob,
+                url: objectUrls.create(result.blob),
             });
-
-            setProgress(((i + 1) / imageFiles.length) * 100);
         }
-        
+
         setResizedResults(results);
-        setIsProcessing(false);
-    }, [imageFiles, resizeSettings]);
+    }, [imageFiles, resizeSettings, metadataPolicy, run, clearResults, objectUrls]);
 
     const handleDownload = async () => {
         if (resizedResults.length === 0) return;
         const filesToZip = resizedResults.map(result => {
             return {
-                dataUrl: result.dataUrl,
+                blob: result.blob,
                 filename: `resized_${result.originalFilename}`
             };
         });
@@ -161,6 +211,8 @@ export const ResizeImage: React.FC = () => {
     };
 
     const handleRemoveImage = (idToRemove: string) => {
+        objectUrls.revoke(imageFiles.find(file => file.id === idToRemove)?.preview);
+        objectUrls.revoke(resizedResults.find(result => result.id === idToRemove)?.url);
         setImageFiles(prev => prev.filter(file => file.id !== idToRemove));
         setResizeSettings(prev => prev.filter(setting => setting.id !== idToRemove));
         setResizedResults(prev => prev.filter(result => result.id !== idToRemove));
@@ -172,12 +224,15 @@ export const ResizeImage: React.FC = () => {
     };
 
     const handleReset = () => {
+        resetBatch();
+        objectUrls.revokeAll();
         setImageFiles([]);
         setResizeSettings([]);
         setResizedResults([]);
-        setIsProcessing(false);
-        setProgress(0);
         setGlobalPercentage(100);
+        setGlobalWidth(0);
+        setGlobalHeight(0);
+        setGlobalKeepAspectRatio(true);
         setExpandedIds(new Set());
     };
     
@@ -225,17 +280,40 @@ export const ResizeImage: React.FC = () => {
                             value={globalPercentage}
                             onChange={(e) => setGlobalPercentage(parseInt(e.target.value, 10))}
                             className="w-full range-slider"
-                            disabled={imageFiles.length === 0}
+                            disabled={imageFiles.length === 0 || globalWidth > 0 || globalHeight > 0}
                         />
                     </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="global-width" className="block text-sm font-medium text-gray-300 mb-2">Width</label>
+                            <input type="number" id="global-width" min="0" placeholder="Auto" value={globalWidth || ''} onChange={(e) => setGlobalWidth(Math.max(0, parseInt(e.target.value, 10) || 0))} className="custom-input" disabled={imageFiles.length === 0}/>
+                        </div>
+                        <div>
+                            <label htmlFor="global-height" className="block text-sm font-medium text-gray-300 mb-2">Height</label>
+                            <input type="number" id="global-height" min="0" placeholder="Auto" value={globalHeight || ''} onChange={(e) => setGlobalHeight(Math.max(0, parseInt(e.target.value, 10) || 0))} className="custom-input" disabled={imageFiles.length === 0}/>
+                        </div>
+                    </div>
+                    <div className="flex items-center">
+                        <input id="global-aspect-ratio" type="checkbox" checked={globalKeepAspectRatio} onChange={(e) => setGlobalKeepAspectRatio(e.target.checked)} className="h-4 w-4 rounded border-zinc-600 bg-zinc-700 text-[#1DB954] focus:ring-[#1DB954]" disabled={imageFiles.length === 0}/>
+                        <label htmlFor="global-aspect-ratio" className="ml-3 block text-sm font-medium text-gray-300">Keep aspect ratio</label>
+                    </div>
                     <Button onClick={handleApplyToAll} variant="secondary" disabled={imageFiles.length === 0}>
                         Apply to All
                     </Button>
+                    <MetadataPolicySelect value={metadataPolicy} onChange={setMetadataPolicy} disabled={imageFiles.length === 0} />
+                    {!isProcessing && failedCount > 0 && (
+                        <p className="text-sm text-red-400">{failedCount} file(s) could not be resized.</p>
+                    )}
                 </div>
                 <div className="flex flex-col gap-4">
                     <Button onClick={performResize} isLoading={isProcessing} icon={<ResizeIcon />} disabled={imageFiles.length === 0}>
                         {isProcessing ? `Resizing... (${Math.round(progress)}%)` : `Resize All (${imageFiles.length})`}
                     </Button>
+                    {isProcessing && (
+                        <Button onClick={cancel} variant="outline" icon={<StopIcon />}>
+                            Cancel
+                        </Button>
+                    )}
                     <Button onClick={handleDownload} variant="secondary" disabled={resizedResults.length === 0} icon={<ArrowDownTrayIcon />}>
                         Download All as ZIP
                     </Button>
@@ -276,7 +354,8 @@ export const ResizeImage: React.FC = () => {
                                    return (
                                        <div key={file.id} className="bg-zinc-800/50 p-4 rounded-lg border border-zinc-700 space-y-4">
                                            <div className="relative group aspect-video w-full overflow-hidden rounded-lg bg-black">
-                                               <img src={result?.dataUrl || file.preview} alt={file.name} className="object-contain w-full h-full"/>
+                                               <img src={result?.url || file.preview} alt={file.name} className="object-contain w-full h-full"/>
+                                               <BatchItemStatus state={batchItems[file.id]} />
                                                <button onClick={() => handleRemoveImage(file.id)} className="absolute top-2 right-2 p-1 bg-red-600/70 text-white rounded-full hover:bg-red-700 transition-colors opacity-0 group-hover:opacity-100 z-10">
                                                    <XMarkIcon className="w-4 h-4" />
                                                </button>
@@ -1,81 +1,80 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { ImageUploader } from '../components/ImageUploader';
 import { Button } from '../components/Button';
 import { downloadImage } from '../utils/imageUtils';
+import { decodeImage, encodeImage, mimeTypeToFormat, rotate } from '../core';
+import { useBlobUrl } from '../hooks/useObjectUrls';
+import { useHistory } from '../hooks/useHistory';
+import { useUndoShortcuts } from '../hooks/useUndoShortcuts';
+import { HistoryPanel } from '../components/HistoryPanel';
 import { ArrowUturnLeftIcon, ArrowUturnRightIcon, RotateIcon, ArrowDownTrayIcon } from '../components/icons';
+import { useQueryState } from '../contexts/RouterContext';
+
+// Undo covers both the angle and applied results, so an unwanted "Apply" can be stepped back too
+interface RotateState {
+  rotation: number; // In degrees
+  rotatedBlob: Blob | null;
+}
+
+const INITIAL_STATE: RotateState = { rotation: 0, rotatedBlob: null };
 
 const RotateImage: React.FC = () => {
   const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-  const [rotation, setRotation] = useState(0); // in degrees
-  const [rotatedImageUrl, setRotatedImageUrl] = useState<string | null>(null);
+  const imageUrl = useBlobUrl(imageFile);
+  const [sharedRotation, setSharedRotation] = useQueryState('angle', 0);
+  const history = useHistory<RotateState>({ ...INITIAL_STATE, rotation: sharedRotation });
+  const { rotation, rotatedBlob } = history.state;
+  const rotatedImageUrl = useBlobUrl(rotatedBlob);
   const [isProcessing, setIsProcessing] = useState(false);
 
+  useUndoShortcuts(history, !!imageFile);
+
+  // The angle lives in the history so undo covers it; these keep ?angle= and the history in step both ways
+  useEffect(() => {
+    if (rotation !== sharedRotation) setSharedRotation(rotation);
+  }, [rotation]);
+
+  useEffect(() => {
+    if (sharedRotation !== rotation) history.push({ rotation: sharedRotation, rotatedBlob }, 'Set angle', 'angle');
+  }, [sharedRotation]);
+
   const handleImageUpload = (files: File[]) => {
     if (files.length > 0) {
       setImageFile(files[0]);
-      setImageUrl(URL.createObjectURL(files[0]));
-      setRotation(0);
-      setRotatedImageUrl(null);
+      // A new image keeps the angle, so one opened from a shared link is ready to apply
+      history.reset({ ...INITIAL_STATE, rotation });
     }
   };
   
-  const applyRotation = useCallback(() => {
-    if (!imageUrl) return;
+  const applyRotation = useCallback(async () => {
+    if (!imageFile) return;
     setIsProcessing(true);
 
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-        setIsProcessing(false);
-        return;
-    }
-
-    const img = new Image();
-    img.src = imageUrl;
-    img.onload = () => {
-      // Calculate new canvas dimensions based on rotation to prevent cropping
-      const radians = (rotation * Math.PI) / 180;
-      const absCos = Math.abs(Math.cos(radians));
-      const absSin = Math.abs(Math.sin(radians));
-      
-      const newWidth = Math.round(img.naturalWidth * absCos + img.naturalHeight * absSin);
-      const newHeight = Math.round(img.naturalWidth * absSin + img.naturalHeight * absCos);
-
-      canvas.width = newWidth;
-      canvas.height = newHeight;
-
-      // Translate to center of canvas
-      ctx.translate(newWidth / 2, newHeight / 2);
-      ctx.rotate(radians);
-      // Draw image so its center aligns with canvas center
-      ctx.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2);
-      
-      const dataUrl = canvas.toDataURL(imageFile?.type || 'image/png');
-      setRotatedImageUrl(dataUrl);
+    try {
+      const pixels = await decodeImage(imageFile);
+      const rotated = rotate(pixels, rotation);
+      const blob = await encodeImage(rotated, { format: mimeTypeToFormat(imageFile.type) });
+      history.push({ rotation, rotatedBlob: blob }, `Apply ${rotation}°`);
+    } catch (error) {
+      alert('Failed to load image for rotation.');
+    } finally {
       setIsProcessing(false);
-    };
-    img.onerror = () => {
-        setIsProcessing(false);
-        alert('Failed to load image for rotation.');
-    };
-  }, [imageUrl, rotation, imageFile]);
+    }
+  }, [rotation, imageFile, history.push]);
 
   const handleRotate = (degrees: number) => {
-    setRotation(prev => (prev + degrees) % 360);
+    history.push({ rotation: (((rotation + degrees) % 360) + 360) % 360, rotatedBlob }, degrees < 0 ? 'Rotate left' : 'Rotate right');
   };
 
   const handleDownload = () => {
-    if (!rotatedImageUrl || !imageFile) return;
+    if (!rotatedBlob || !imageFile) return;
     const filename = `rotated_${rotation}_${imageFile.name}`;
-    downloadImage(rotatedImageUrl, filename);
+    downloadImage(rotatedBlob, filename);
   };
 
   const handleReset = () => {
     setImageFile(null);
-    setImageUrl(null);
-    setRotation(0);
-    setRotatedImageUrl(null);
+    history.reset(INITIAL_STATE);
   };
 
   return (
@@ -94,7 +93,7 @@ const RotateImage: React.FC = () => {
                   min="0" 
                   max="359" 
                   value={rotation} 
-                  onChange={(e) => setRotation(parseInt(e.target.value, 10))}
+                  onChange={(e) => history.push({ rotation: parseInt(e.target.value, 10), rotatedBlob }, 'Set angle', 'angle')}
                   className="w-full range-slider"
                   aria-label="Rotation Angle"
                   disabled={!imageFile}
@@ -109,7 +108,9 @@ const RotateImage: React.FC = () => {
                 </Button>
             </div>
         </div>
-        
+
+        {imageFile && <HistoryPanel history={history} />}
+
         <div className="flex flex-col gap-4">
           <Button onClick={applyRotation} isLoading={isProcessing} icon={<RotateIcon />} disabled={!imageFile}>
             Apply Rotation
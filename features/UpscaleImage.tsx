@@ -1,84 +1,186 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { ImageUploader } from '../components/ImageUploader';
 import { Button } from '../components/Button';
 import { downloadImage } from '../utils/imageUtils';
 import { upscaleImageWithAI } from '../services/backgroundRemovalService';
+import { decodeImage, encodeImage, formatToExtension, getImageSize, mimeTypeToFormat, upscale } from '../core';
+import type { UpscaleMethod } from '../core';
+import { useBlobUrl } from '../hooks/useObjectUrls';
 import { UpscaleIcon, ArrowDownTrayIcon, ArrowUturnLeftIcon } from '../components/icons';
 import { ImageComparator } from '../components/ImageComparator';
 
+type Method = UpscaleMethod | 'ai';
+
+const METHODS: { id: Method; name: string; description: string }[] = [
+  { id: 'lanczos3', name: 'Lanczos3', description: 'The sharpest classic filter. Best for photos; may add faint halos along hard edges.' },
+  { id: 'bicubic', name: 'Bicubic', description: 'Smooth, natural enlargement with no halos. A safe choice for any photo.' },
+  { id: 'pixel-art', name: 'Pixel Art (Scale2x)', description: 'Keeps hard pixel edges and smooths diagonals. Best for sprites, icons and flat-color graphics.' },
+  { id: 'ai', name: 'AI (RapidAPI)', description: 'Adds detail with an AI model. Needs a network connection; large images are sent in tiles.' },
+];
+
+const FACTORS = [2, 4] as const;
+
+// Larger outputs risk running the browser out of memory or past its canvas size limit
+const MAX_OUTPUT_PIXELS = 50_000_000;
+
 const UpscaleImage: React.FC = () => {
   const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-  const [sharpenedUrl, setSharpenedUrl] = useState<string | null>(null);
+  const imageUrl = useBlobUrl(imageFile);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [upscaledBlob, setUpscaledBlob] = useState<Blob | null>(null);
+  const upscaledUrl = useBlobUrl(upscaledBlob);
   const [isLoading, setIsLoading] = useState(false);
+  const [tileProgress, setTileProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'single' | 'side-by-side'>('single');
+  const [method, setMethod] = useState<Method>('lanczos3');
+  const [factor, setFactor] = useState<2 | 4>(2);
+  const [tolerance, setTolerance] = useState(8);
+
+  useEffect(() => {
+    if (!imageFile) {
+      setImageSize(null);
+      return;
+    }
+    let cancelled = false;
+    getImageSize(imageFile).then(({ width, height }) => {
+      if (!cancelled) setImageSize({ width, height });
+    });
+    return () => { cancelled = true; };
+  }, [imageFile]);
 
   const handleImageUpload = (files: File[]) => {
     if (files.length > 0) {
-      const file = files[0];
-      setImageFile(file);
-      setImageUrl(URL.createObjectURL(file));
-      setSharpenedUrl(null);
+      setImageFile(files[0]);
+      setUpscaledBlob(null);
+      setError(null);
       setViewMode('single');
     }
   };
-  
-  const applyAISharpen = async () => {
+
+  const isLocal = method !== 'ai';
+  const fitsLimit = (f: number) => !imageSize || imageSize.width * f * imageSize.height * f <= MAX_OUTPUT_PIXELS;
+  const selectedMethod = METHODS.find((m) => m.id === method) ?? METHODS[0];
+
+  const handleUpscale = async () => {
     if (!imageFile) return;
     setIsLoading(true);
-    setSharpenedUrl(null);
+    setUpscaledBlob(null);
+    setError(null);
     try {
-        const resultUrl = await upscaleImageWithAI(imageFile);
-        setSharpenedUrl(resultUrl);
-    } catch (error: any) {
-        alert(error.message || "An unknown error occurred with AI Image Sharpening.");
+      if (method === 'ai') {
+        setUpscaledBlob(await upscaleImageWithAI(imageFile, {
+          onProgress: (completed, total) => setTileProgress({ completed, total }),
+        }));
+      } else {
+        const pixels = await decodeImage(imageFile);
+        const result = upscale(pixels, { factor, method, tolerance });
+        // Pixel art stays lossless; photos keep their original format
+        const format = method === 'pixel-art' ? 'png' : mimeTypeToFormat(imageFile.type);
+        setUpscaledBlob(await encodeImage(result, { format, quality: 0.92 }));
+      }
+    } catch (err: any) {
+      console.error('Error upscaling image:', err);
+      setError(err.message || 'An unknown error occurred while upscaling.');
     } finally {
-        setIsLoading(false);
+      setIsLoading(false);
+      setTileProgress(null);
     }
   };
 
   const handleDownload = () => {
-    if (!sharpenedUrl || !imageFile) return;
-    const filename = `sharpened_${imageFile.name}`;
-    downloadImage(sharpenedUrl, filename);
+    if (!upscaledBlob || !imageFile) return;
+    const baseName = imageFile.name.substring(0, imageFile.name.lastIndexOf('.')) || imageFile.name;
+    const extension = formatToExtension(mimeTypeToFormat(upscaledBlob.type));
+    downloadImage(upscaledBlob, `upscaled_${baseName}.${extension}`);
   };
-  
+
   const handleReset = () => {
-      setImageFile(null);
-      setImageUrl(null);
-      setSharpenedUrl(null);
-  }
-
-  const AIInfoBox = () => (
-    <div className="p-4 bg-black/70 text-gray-400 border border-zinc-800 rounded-lg text-sm">
-        <p><span className="font-semibold text-[#1DB954]">Note:</span> This tool uses an AI model to enhance image resolution and details, which includes sharpening.</p>
-        <p className="mt-2">Images larger than 1000x1000 pixels may be downscaled to meet API requirements.</p>
-    </div>
-  );
+    setImageFile(null);
+    setUpscaledBlob(null);
+    setError(null);
+  };
 
   const LoadingSpinner = () => (
-      <div className="absolute inset-0 flex items-center justify-center bg-black/50 rounded-lg">
+      <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-black/50 rounded-lg">
           <svg className="animate-spin h-8 w-8 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
           </svg>
+          {tileProgress && tileProgress.total > 1 && (
+              <p className="text-sm text-white">{tileProgress.completed} of {tileProgress.total} tiles upscaled</p>
+          )}
       </div>
   );
 
+  const toggleClass = (active: boolean) =>
+    `flex-1 py-2 px-3 text-sm font-medium transition-colors ${
+      active ? 'bg-[#1DB954] text-black' : 'text-gray-300 hover:bg-zinc-700'
+    } disabled:opacity-50 disabled:cursor-not-allowed`;
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
       <div className="lg:col-span-4 space-y-6">
         <div className="bg-zinc-900 p-6 rounded-lg border border-zinc-800 space-y-6">
-            <h3 className="text-lg font-semibold text-white">AI Image Upscaler</h3>
-            <AIInfoBox />
-              <div className="flex flex-col gap-4 pt-4 border-t border-zinc-800">
-                <Button icon={<UpscaleIcon />} onClick={applyAISharpen} isLoading={isLoading} disabled={!imageFile}>Upscale with AI</Button>
-                <Button icon={<ArrowDownTrayIcon />} onClick={handleDownload} variant="secondary" disabled={!sharpenedUrl}>
+            <h3 className="text-lg font-semibold text-white">Image Upscaler</h3>
+            <div>
+              <label htmlFor="upscale-method" className="block text-sm font-medium text-gray-300 mb-2">Method</label>
+              <select
+                id="upscale-method"
+                value={method}
+                onChange={(e) => { setMethod(e.target.value as Method); setUpscaledBlob(null); }}
+                className="custom-input"
+                disabled={isLoading}
+              >
+                {METHODS.map((m) => <option key={m.id} value={m.id}>{m.name}</option>)}
+              </select>
+              <p className="text-xs text-gray-500 mt-2">{selectedMethod.description}</p>
+            </div>
+
+            {isLocal && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Scale</label>
+                <div className="flex rounded-lg overflow-hidden bg-zinc-800">
+                  {FACTORS.map((f) => (
+                    <button key={f} className={toggleClass(factor === f)} onClick={() => setFactor(f)} disabled={isLoading || !fitsLimit(f)}>
+                      {f}x
+                    </button>
+                  ))}
+                </div>
+                {imageSize && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    {imageSize.width} × {imageSize.height} → {imageSize.width * factor} × {imageSize.height * factor}
+                  </p>
+                )}
+                {!fitsLimit(factor) && (
+                  <p className="text-xs text-red-300 mt-2">This image is too large to upscale {factor}x in the browser.</p>
+                )}
+              </div>
+            )}
+
+            {method === 'pixel-art' && (
+              <div>
+                <label htmlFor="color-tolerance" className="flex justify-between text-sm font-medium text-gray-300 mb-2">
+                  <span>Color Tolerance</span>
+                  <span className="font-mono text-[#1DB954]">{tolerance}</span>
+                </label>
+                <input type="range" id="color-tolerance" min="0" max="64" value={tolerance} onChange={(e) => setTolerance(parseInt(e.target.value, 10))} className="w-full range-slider" disabled={isLoading} />
+                <p className="text-xs text-gray-500 mt-2">Raise it for compressed or slightly noisy pixel art.</p>
+              </div>
+            )}
+
+            <div className="flex flex-col gap-4 pt-4 border-t border-zinc-800">
+                <Button icon={<UpscaleIcon />} onClick={handleUpscale} isLoading={isLoading} disabled={!imageFile || (isLocal && !fitsLimit(factor))}>
+                  {isLocal ? `Upscale ${factor}x` : 'Upscale with AI'}
+                </Button>
+                <Button icon={<ArrowDownTrayIcon />} onClick={handleDownload} variant="secondary" disabled={!upscaledUrl}>
                     Download
                 </Button>
             </div>
         </div>
+        {error && (
+          <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-300 text-sm">{error}</div>
+        )}
           <Button icon={<ArrowUturnLeftIcon />} onClick={handleReset} variant="outline" disabled={!imageFile}>
             Start Over
         </Button>
@@ -96,30 +198,30 @@ const UpscaleImage: React.FC = () => {
                   <button onClick={() => setViewMode('single')} className={`px-4 py-1.5 text-sm font-medium rounded-full transition-colors ${viewMode === 'single' ? 'bg-[#1DB954] text-black' : 'text-gray-300 hover:bg-zinc-700'}`}>
                     Result
                   </button>
-                  <button onClick={() => setViewMode('side-by-side')} disabled={!sharpenedUrl} className={`px-4 py-1.5 text-sm font-medium rounded-full transition-colors ${viewMode === 'side-by-side' ? 'bg-[#1DB954] text-black' : 'text-gray-300 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed'}`}>
+                  <button onClick={() => setViewMode('side-by-side')} disabled={!upscaledUrl} className={`px-4 py-1.5 text-sm font-medium rounded-full transition-colors ${viewMode === 'side-by-side' ? 'bg-[#1DB954] text-black' : 'text-gray-300 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed'}`}>
                     Compare
                   </button>
                 </div>
               </div>
-              {viewMode === 'single' ? (
+              {viewMode === 'single' || !upscaledUrl ? (
                   <div className="bg-black/50 p-2 rounded-lg flex items-center justify-center min-h-[40vh] relative">
                   {isLoading && <LoadingSpinner />}
-                  <img src={sharpenedUrl ?? imageUrl ?? ''} alt="Preview" className="max-w-full object-contain rounded-md" />
+                  <img src={upscaledUrl ?? imageUrl ?? ''} alt="Preview" className="max-w-full object-contain rounded-md" />
                   </div>
               ) : (
                 <div className="bg-black/50 p-2 rounded-lg flex items-center justify-center min-h-[40vh] relative">
                   {isLoading && <LoadingSpinner />}
-                  {!isLoading && sharpenedUrl && imageUrl && (
-                    <ImageComparator 
-                      beforeSrc={imageUrl} 
-                      afterSrc={sharpenedUrl}
+                  {!isLoading && imageUrl && (
+                    <ImageComparator
+                      beforeSrc={imageUrl}
+                      afterSrc={upscaledUrl}
                       beforeLabel='Original'
                       afterLabel='Upscaled'
                     />
                   )}
                 </div>
               )}
-              {sharpenedUrl && !isLoading && (
+              {upscaledUrl && !isLoading && (
                   <div className="mt-4 p-3 bg-green-500/10 border border-green-500/20 rounded-lg text-center">
                       <p className="font-medium text-sm text-green-300">Upscaling applied successfully!</p>
                   </div>
@@ -132,4 +234,4 @@ const UpscaleImage: React.FC = () => {
   );
 };
 
-export default UpscaleImage;
\ No newline at end of file
+export default UpscaleImage;
@@ -2,229 +2,132 @@ import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { ImageUploader } from '../components/ImageUploader';
 import { Button } from '../components/Button';
 import { downloadImage } from '../utils/imageUtils';
+import { decodeImage, encodeImage, mimeTypeToFormat, renderTextMark, watermark } from '../core';
+import { useBlobUrl } from '../hooks/useObjectUrls';
+import { useHistory } from '../hooks/useHistory';
+import { useUndoShortcuts } from '../hooks/useUndoShortcuts';
+import { HistoryPanel } from '../components/HistoryPanel';
+import type { PixelBuffer, WatermarkPosition } from '../core';
 import { ArrowDownTrayIcon, ArrowUturnLeftIcon, WatermarkIcon, PhotoIcon, DocumentIconNoFw } from '../components/icons';
 import { ColorPicker } from '../components/ColorPicker'; // Import the new ColorPicker
 
+interface WatermarkSettings {
+  watermarkType: 'text' | 'image';
+  text: string;
+  watermarkImageFile: File | null;
+  opacity: number;
+  size: number; // in percentage of image width
+  color: string;
+  position: WatermarkPosition;
+  isTiled: boolean;
+}
+
+const DEFAULT_SETTINGS: WatermarkSettings = {
+  watermarkType: 'text',
+  text: 'Your Watermark',
+  watermarkImageFile: null,
+  opacity: 0.5,
+  size: 5,
+  color: '#ffffff',
+  position: 'bottom-right',
+  isTiled: false,
+};
+
 const WatermarkImage: React.FC = () => {
   const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-  const [watermarkedUrl, setWatermarkedUrl] = useState<string | null>(null);
+  const imageUrl = useBlobUrl(imageFile);
+  const [watermarkedBlob, setWatermarkedBlob] = useState<Blob | null>(null);
+  const watermarkedUrl = useBlobUrl(watermarkedBlob);
   const [isProcessing, setIsProcessing] = useState(false);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-
-  // Watermark Settings
-  const [watermarkType, setWatermarkType] = useState<'text' | 'image'>('text');
-  const [text, setText] = useState('Your Watermark');
-  const [watermarkImageFile, setWatermarkImageFile] = useState<File | null>(null);
-  const [watermarkImageUrl, setWatermarkImageUrl] = useState<string | null>(null);
-  const [opacity, setOpacity] = useState(0.5);
-  const [size, setSize] = useState(5); // in percentage of image width
-  const [color, setColor] = useState('#ffffff');
-  const [position, setPosition] = useState<'bottom-right' | 'top-left' | 'center' | 'bottom-left' | 'top-right'>('bottom-right');
-  const [isTiled, setIsTiled] = useState(false); // New state for tiling
-
-  const applyWatermark = useCallback(() => {
-    if (!imageUrl) return;
-    setIsProcessing(true);
-    
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (!ctx) {
-        setIsProcessing(false);
-        return;
-    }
-
-    const img = new Image();
-    img.crossOrigin = 'anonymous';
-    img.src = imageUrl;
-    img.onload = () => {
-        canvas.width = img.naturalWidth;
-        canvas.height = img.naturalHeight;
-
-        ctx.drawImage(img, 0, 0);
-
-        ctx.globalAlpha = opacity;
-
-        if (isTiled) {
-            let tileWidth, tileHeight, stepX, stepY;
-            const paddingFactor = 0.05; // 5% padding relative to canvas width for gap
-
-            if (watermarkType === 'text') {
-                const fontSize = (canvas.width * size) / 100;
-                ctx.font = `bold ${fontSize}px Arial`;
-                ctx.fillStyle = color;
-                ctx.textAlign = 'center';
-                ctx.textBaseline = 'middle';
-                
-                // Approximate text width for tiling step calculation
-                const textMetrics = ctx.measureText(text);
-                tileWidth = textMetrics.width;
-                tileHeight = fontSize * 1.2; // A bit more than font size for vertical spacing
 
-                stepX = tileWidth + (canvas.width * paddingFactor);
-                stepY = tileHeight + (canvas.height * paddingFactor);
+  // Watermark Settings, with undo/redo
+  const history = useHistory<WatermarkSettings>(DEFAULT_SETTINGS);
+  const { watermarkType, text, watermarkImageFile, opacity, size, color, position, isTiled } = history.state;
+  const watermarkImageUrl = useBlobUrl(watermarkImageFile);
 
-                for (let y = 0; y < canvas.height + tileHeight; y += stepY) {
-                    for (let x = 0; x < canvas.width + tileWidth; x += stepX) {
-                        ctx.fillText(text, x + tileWidth / 2, y + tileHeight / 2); // Center text in its tile slot
-                    }
-                }
-            } else if (watermarkType === 'image' && watermarkImageUrl) {
-                const watermarkImg = new Image();
-                watermarkImg.crossOrigin = 'anonymous';
-                watermarkImg.src = watermarkImageUrl;
-                watermarkImg.onload = () => {
-                    tileWidth = (canvas.width * size) / 100;
-                    tileHeight = (watermarkImg.naturalHeight / watermarkImg.naturalWidth) * tileWidth;
-                    
-                    stepX = tileWidth + (canvas.width * paddingFactor);
-                    stepY = tileHeight + (canvas.height * paddingFactor);
-
-                    for (let y = 0; y < canvas.height + tileHeight; y += stepY) {
-                        for (let x = 0; x < canvas.width + tileWidth; x += stepX) {
-                            ctx.drawImage(watermarkImg, x, y, tileWidth, tileHeight);
-                        }
-                    }
-                    const dataUrl = canvas.toDataURL(imageFile?.type || 'image/png');
-                    setWatermarkedUrl(dataUrl);
-                    setIsProcessing(false);
-                };
-                watermarkImg.onerror = () => {
-                    setIsProcessing(false);
-                    alert("Failed to load watermark image.");
-                };
-                return; // Exit early as watermarkImg.onload will handle final steps
-            }
-        } else { // Single watermark placement
-            const margin = canvas.width * 0.02;
-
-            if (watermarkType === 'text') {
-                const fontSize = (canvas.width * size) / 100;
-                ctx.font = `bold ${fontSize}px Arial`;
-                ctx.fillStyle = color;
-                ctx.textAlign = 'center';
-                ctx.textBaseline = 'middle';
-
-                let x = canvas.width / 2;
-                let y = canvas.height / 2;
+  // `mergeKey` groups slider drags and typing into a single history step
+  const updateSettings = (patch: Partial<WatermarkSettings>, label: string, mergeKey?: string) => {
+    history.push({ ...history.state, ...patch }, label, mergeKey);
+  };
 
-                if (position === 'bottom-right') {
-                    ctx.textAlign = 'right';
-                    ctx.textBaseline = 'bottom';
-                    x = canvas.width - margin;
-                    y = canvas.height - margin;
-                } else if (position === 'top-left') {
-                    ctx.textAlign = 'left';
-                    ctx.textBaseline = 'top';
-                    x = margin;
-                    y = margin;
-                } else if (position === 'top-right') {
-                    ctx.textAlign = 'right';
-                    ctx.textBaseline = 'top';
-                    x = canvas.width - margin;
-                    y = margin;
-                } else if (position === 'bottom-left') {
-                    ctx.textAlign = 'left';
-                    ctx.textBaseline = 'bottom';
-                    x = margin;
-                    y = canvas.height - margin;
-                }
+  useUndoShortcuts(history, !!imageFile);
 
-                ctx.fillText(text, x, y);
-            } else if (watermarkType === 'image' && watermarkImageUrl) {
-                const watermarkImg = new Image();
-                watermarkImg.crossOrigin = 'anonymous'; // Ensure proper loading for drawing
-                watermarkImg.src = watermarkImageUrl;
-                watermarkImg.onload = () => {
-                    const watermarkWidth = (canvas.width * size) / 100;
-                    const watermarkHeight = (watermarkImg.naturalHeight / watermarkImg.naturalWidth) * watermarkWidth;
+  // Each run gets an id; a run that finishes after a newer one started is ignored
+  const runIdRef = useRef(0);
 
-                    let x = (canvas.width - watermarkWidth) / 2;
-                    let y = (canvas.height - watermarkHeight) / 2;
+  const applyWatermark = useCallback(async () => {
+    if (!imageFile) return;
+    const runId = ++runIdRef.current;
+    const isStale = () => runId !== runIdRef.current;
+    setIsProcessing(true);
 
-                    if (position === 'bottom-right') {
-                        x = canvas.width - watermarkWidth - margin;
-                        y = canvas.height - watermarkHeight - margin;
-                    } else if (position === 'top-left') {
-                        x = margin;
-                        y = margin;
-                    } else if (position === 'top-right') {
-                        x = canvas.width - watermarkWidth - margin;
-                        y = margin;
-                    } else if (position === 'bottom-left') {
-                        x = margin;
-                        y = canvas.height - watermarkHeight - margin;
-                    }
-                    
-                    ctx.drawImage(watermarkImg, x, y, watermarkWidth, watermarkHeight);
-                    const dataUrl = canvas.toDataURL(imageFile?.type || 'image/png');
-                    setWatermarkedUrl(dataUrl);
-                    setIsProcessing(false);
-                };
-                watermarkImg.onerror = () => {
-                    setIsProcessing(false);
-                    alert("Failed to load watermark image.");
-                };
-                return; // Exit early as watermarkImg.onload will handle final steps
+    try {
+        const pixels = await decodeImage(imageFile);
+        if (isStale()) return;
+        let result = pixels;
+        if (watermarkType === 'text') {
+            // Text is rendered at its final size; image marks are scaled by watermark()
+            const mark = renderTextMark(text, { fontSize: (pixels.width * size) / 100, color });
+            result = watermark(pixels, mark, { opacity, position, tiled: isTiled });
+        } else if (watermarkImageFile) {
+            let mark: PixelBuffer;
+            try {
+                mark = await decodeImage(watermarkImageFile);
+            } catch (error) {
+                if (!isStale()) alert("Failed to load watermark image.");
+                return;
             }
+            if (isStale()) return;
+            result = watermark(pixels, mark, { opacity, position, tiled: isTiled, size });
         }
-        
-        const dataUrl = canvas.toDataURL(imageFile?.type || 'image/png');
-        setWatermarkedUrl(dataUrl);
-        setIsProcessing(false);
-    };
-    img.onerror = () => {
-        setIsProcessing(false);
-        alert("Failed to load base image for watermarking.");
-    }
 
-  }, [imageUrl, watermarkType, text, watermarkImageUrl, opacity, size, color, position, isTiled, imageFile]);
+        const blob = await encodeImage(result, { format: mimeTypeToFormat(imageFile.type) });
+        if (!isStale()) setWatermarkedBlob(blob);
+    } catch (error) {
+        if (!isStale()) alert("Failed to load base image for watermarking.");
+    } finally {
+        if (!isStale()) setIsProcessing(false);
+    }
+  }, [watermarkType, text, watermarkImageFile, opacity, size, color, position, isTiled, imageFile]);
 
   useEffect(() => {
-    if (imageUrl) {
+    if (imageFile) {
         applyWatermark();
+    } else {
+        setIsProcessing(false);
     }
-  }, [imageUrl, watermarkType, text, watermarkImageUrl, opacity, size, color, position, isTiled, applyWatermark]);
+    // Settings changed or the image was removed: whatever is still running is out of date
+    return () => { runIdRef.current++; };
+  }, [imageFile, watermarkType, text, watermarkImageFile, opacity, size, color, position, isTiled, applyWatermark]);
 
   const handleImageUpload = (files: File[]) => {
     if (files.length > 0) {
         const file = files[0];
         setImageFile(file);
-        setImageUrl(URL.createObjectURL(file));
-        setWatermarkedUrl(null);
+        setWatermarkedBlob(null);
     }
   };
 
   const handleWatermarkImageUpload = (files: File[]) => {
     if (files.length > 0) {
         const file = files[0];
-        setWatermarkImageFile(file);
-        setWatermarkImageUrl(URL.createObjectURL(file));
+        updateSettings({ watermarkImageFile: file }, 'Watermark image');
     }
   };
   
   const handleDownload = () => {
-    if (!watermarkedUrl || !imageFile) return;
+    if (!watermarkedBlob || !imageFile) return;
     const filename = `watermarked_${imageFile.name}`;
-    downloadImage(watermarkedUrl, filename);
+    downloadImage(watermarkedBlob, filename);
   };
 
   const handleReset = () => {
     setImageFile(null);
-    setImageUrl(null);
-    setWatermarkedUrl(null);
-    setWatermarkType('text');
-    setText('Your Watermark');
-    setWatermarkImageFile(null);
-    setWatermarkImageUrl(null);
-    setOpacity(0.5);
-    setSize(5);
-    setColor('#ffffff');
-    setPosition('bottom-right');
-    setIsTiled(false); // Reset tiling state
+    setWatermarkedBlob(null);
+    history.reset(DEFAULT_SETTINGS);
   };
 
-  const isWatermarkReady = imageFile && (watermarkType === 'text' ? text.trim() !== '' : watermarkImageUrl !== null);
+  const isWatermarkReady = imageFile && (watermarkType === 'text' ? text.trim() !== '' : watermarkImageFile !== null);
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
@@ -240,7 +143,7 @@ const WatermarkImage: React.FC = () => {
                         className={`flex-1 flex items-center justify-center py-2 px-3 text-sm font-medium transition-colors ${
                             watermarkType === 'text' ? 'bg-[#1DB954] text-black' : 'text-gray-300 hover:bg-zinc-700'
                         } disabled:opacity-50`}
-                        onClick={() => setWatermarkType('text')}
+                        onClick={() => updateSettings({ watermarkType: 'text' }, 'Text watermark')}
                         disabled={!imageFile}
                     >
                         <DocumentIconNoFw /> <span className="ml-2">Text</span>
@@ -249,7 +152,7 @@ const WatermarkImage: React.FC = () => {
                         className={`flex-1 flex items-center justify-center py-2 px-3 text-sm font-medium transition-colors ${
                             watermarkType === 'image' ? 'bg-[#1DB954] text-black' : 'text-gray-300 hover:bg-zinc-700'
                         } disabled:opacity-50`}
-                        onClick={() => setWatermarkType('image')}
+                        onClick={() => updateSettings({ watermarkType: 'image' }, 'Image watermark')}
                         disabled={!imageFile}
                     >
                         <PhotoIcon /> <span className="ml-2">Image</span>
@@ -262,12 +165,12 @@ const WatermarkImage: React.FC = () => {
                     <>
                         <div>
                             <label htmlFor="watermark-text" className="block text-sm font-medium text-gray-300 mb-2">Watermark Text</label>
-                            <input type="text" id="watermark-text" value={text} onChange={(e) => setText(e.target.value)} className="custom-input" disabled={!imageFile}/>
+                            <input type="text" id="watermark-text" value={text} onChange={(e) => updateSettings({ text: e.target.value }, 'Edit text', 'text')} className="custom-input" disabled={!imageFile}/>
                         </div>
                         <ColorPicker
                           label="Color"
                           color={color}
-                          onChange={setColor}
+                          onChange={(newColor) => updateSettings({ color: newColor }, 'Color', 'color')}
                           disabled={!imageFile}
                         />
                     </>
@@ -286,7 +189,7 @@ const WatermarkImage: React.FC = () => {
                             <div className="relative w-full aspect-video rounded-lg overflow-hidden border border-zinc-700 bg-black/50 flex items-center justify-center">
                                 <img src={watermarkImageUrl} alt="Watermark preview" className="max-w-full max-h-full object-contain p-2" />
                                 <button
-                                    onClick={() => { setWatermarkImageFile(null); setWatermarkImageUrl(null); }}
+                                    onClick={() => updateSettings({ watermarkImageFile: null }, 'Remove watermark image')}
                                     className="absolute top-2 right-2 p-1 bg-black/50 text-white rounded-full hover:bg-black/70 transition-colors text-sm"
                                     title="Remove watermark image"
                                 >
@@ -303,7 +206,7 @@ const WatermarkImage: React.FC = () => {
                     <span>Size</span>
                     <span className="font-mono text-[#1DB954]">{size}%</span>
                 </label>
-                <input type="range" id="size-slider" min="1" max="50" step="1" value={size} onChange={(e) => setSize(parseFloat(e.target.value))} className="w-full range-slider" disabled={!imageFile}/>
+                <input type="range" id="size-slider" min="1" max="50" step="1" value={size} onChange={(e) => updateSettings({ size: parseFloat(e.target.value) }, 'Size', 'size')} className="w-full range-slider" disabled={!imageFile}/>
               </div>
 
               <div>
@@ -311,7 +214,7 @@ const WatermarkImage: React.FC = () => {
                     <span>Opacity</span>
                     <span className="font-mono text-[#1DB954]">{Math.round(opacity * 100)}%</span>
                 </label>
-                <input type="range" id="opacity-slider" min="0" max="1" step="0.05" value={opacity} onChange={(e) => setOpacity(parseFloat(e.target.value))} className="w-full range-slider" disabled={!imageFile}/>
+                <input type="range" id="opacity-slider" min="0" max="1" step="0.05" value={opacity} onChange={(e) => updateSettings({ opacity: parseFloat(e.target.value) }, 'Opacity', 'opacity')} className="w-full range-slider" disabled={!imageFile}/>
               </div>
 
               {/* New Tiling Option */}
@@ -320,7 +223,7 @@ const WatermarkImage: React.FC = () => {
                       id="tile-watermark" 
                       type="checkbox" 
                       checked={isTiled} 
-                      onChange={(e) => setIsTiled(e.target.checked)} 
+                      onChange={(e) => updateSettings({ isTiled: e.target.checked }, e.target.checked ? 'Tile watermark' : 'Single watermark')} 
                       className="h-4 w-4 rounded border-zinc-600 bg-zinc-700 text-[#1DB954] focus:ring-[#1DB954]" 
                       disabled={!imageFile}
                   />
@@ -332,7 +235,7 @@ const WatermarkImage: React.FC = () => {
                 <select 
                     id="position-select" 
                     value={position} 
-                    onChange={(e) => setPosition(e.target.value as any)} 
+                    onChange={(e) => updateSettings({ position: e.target.value as WatermarkPosition }, 'Position')} 
                     className="custom-input" 
                     disabled={!imageFile || isTiled} // Disable if tiling is active
                 >
@@ -346,7 +249,9 @@ const WatermarkImage: React.FC = () => {
             </div>
             </div>
         </div>
-        
+
+        {imageFile && <HistoryPanel history={history} />}
+
         <div className="flex flex-col gap-4">
           <Button onClick={applyWatermark} isLoading={isProcessing} icon={<WatermarkIcon />} disabled={!isWatermarkReady}>
             Apply Watermark
@@ -365,10 +270,7 @@ const WatermarkImage: React.FC = () => {
               {!imageFile ? (
                 <ImageUploader onFileSelect={handleImageUpload} multiple={false} accept="image/*" />
               ) : (
-                <>
-                  <img src={watermarkedUrl ?? imageUrl ?? ''} alt="Preview" className="max-w-full object-contain rounded-md"/>
-                  <canvas ref={canvasRef} className="hidden"></canvas>
-                </>
+                <img src={watermarkedUrl ?? imageUrl ?? ''} alt="Preview" className="max-w-full object-contain rounded-md"/>
               )}
             </div>
         </div>
@@ -0,0 +1,413 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { ImageUploader } from '../components/ImageUploader';
+import { Button } from '../components/Button';
+import { ColorPicker } from '../components/ColorPicker';
+import { downloadZip } from '../utils/imageUtils';
+import { useObjectUrls } from '../hooks/useObjectUrls';
+import { formatToExtension } from '../core';
+import type { WatermarkPosition } from '../core';
+import {
+  createStep,
+  createWorkflow,
+  describeStep,
+  loadSavedWorkflows,
+  runWorkflow,
+  saveWorkflows,
+  STEP_LABELS,
+} from '../utils/workflows';
+import type { Workflow, WorkflowStep, WorkflowStepType } from '../utils/workflows';
+import { ArrowDownTrayIcon, ArrowUturnLeftIcon, ChevronDownIcon, ChevronUpIcon, PlusIcon, WorkflowIcon, XMarkIcon } from '../components/icons';
+import type { FileWithPreview } from '../types';
+
+interface WorkflowResult {
+  id: string;
+  originalFilename: string;
+  blob: Blob;
+  url: string; // Object URL for the thumbnail
+  extension: string;
+  width: number;
+  height: number;
+}
+
+const DEFAULT_STEPS: WorkflowStep[] = [createStep('resize'), createStep('convert')];
+
+const WorkflowBuilder: React.FC = () => {
+  const [imageFiles, setImageFiles] = useState<FileWithPreview[]>([]);
+  const [results, setResults] = useState<WorkflowResult[]>([]);
+  const [steps, setSteps] = useState<WorkflowStep[]>(DEFAULT_STEPS);
+  const [workflowName, setWorkflowName] = useState('My Workflow');
+  const [savedWorkflows, setSavedWorkflows] = useState<Workflow[]>([]);
+  const [selectedWorkflowId, setSelectedWorkflowId] = useState('');
+  const [newStepType, setNewStepType] = useState<WorkflowStepType>('watermark');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const objectUrls = useObjectUrls();
+
+  const clearResults = useCallback(() => {
+    setResults(prev => {
+      prev.forEach(result => objectUrls.revoke(result.url));
+      return [];
+    });
+  }, [objectUrls]);
+
+  useEffect(() => {
+    setSavedWorkflows(loadSavedWorkflows());
+  }, []);
+
+  const handleImageUpload = (files: File[]) => {
+    const newFiles: FileWithPreview[] = files.map(file => Object.assign(file, {
+      preview: objectUrls.create(file),
+      id: `${file.name}-${file.lastModified}-${Math.random()}`,
+    }));
+    setImageFiles(prev => [...prev, ...newFiles]);
+    clearResults();
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      handleImageUpload(Array.from(e.target.files));
+    }
+  };
+
+  // --- Step editing ---
+
+  const updateStep = (id: string, changes: Partial<WorkflowStep>) => {
+    setSteps(prev => prev.map(step => (step.id === id ? { ...step, ...changes } as WorkflowStep : step)));
+    clearResults();
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    setSteps(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    clearResults();
+  };
+
+  const removeStep = (id: string) => {
+    setSteps(prev => prev.filter(step => step.id !== id));
+    clearResults();
+  };
+
+  const addStep = () => {
+    setSteps(prev => [...prev, createStep(newStepType)]);
+    clearResults();
+  };
+
+  // --- Saved workflows ---
+
+  const handleSaveWorkflow = () => {
+    const name = workflowName.trim() || 'Untitled Workflow';
+    const existing = savedWorkflows.find(w => w.id === selectedWorkflowId);
+    const workflow = existing ? { ...existing, name, steps } : createWorkflow(name, steps);
+    const updated = existing
+      ? savedWorkflows.map(w => (w.id === existing.id ? workflow : w))
+      : [...savedWorkflows, workflow];
+    setSavedWorkflows(updated);
+    saveWorkflows(updated);
+    setSelectedWorkflowId(workflow.id);
+  };
+
+  const handleLoadWorkflow = (id: string) => {
+    setSelectedWorkflowId(id);
+    const workflow = savedWorkflows.find(w => w.id === id);
+    if (!workflow) return;
+    setWorkflowName(workflow.name);
+    // Fresh step ids so edits never leak back into the saved copy
+    setSteps(workflow.steps.map(step => ({ ...step, id: createStep(step.type).id })));
+    clearResults();
+  };
+
+  const handleDeleteWorkflow = () => {
+    if (!selectedWorkflowId) return;
+    const updated = savedWorkflows.filter(w => w.id !== selectedWorkflowId);
+    setSavedWorkflows(updated);
+    saveWorkflows(updated);
+    setSelectedWorkflowId('');
+  };
+
+  // --- Running ---
+
+  const performWorkflow = useCallback(async () => {
+    if (imageFiles.length === 0 || steps.length === 0) return;
+
+    setIsProcessing(true);
+    clearResults();
+    setProgress(0);
+    setError(null);
+
+    const newResults: WorkflowResult[] = [];
+    const failed: string[] = [];
+    for (let i = 0; i < imageFiles.length; i++) {
+      const file = imageFiles[i];
+      try {
+        const output = await runWorkflow(file, file.type, steps);
+        newResults.push({
+          id: file.id,
+          originalFilename: file.name,
+          blob: output.blob,
+          url: objectUrls.create(output.blob),
+          extension: formatToExtension(output.format),
+          width: output.width,
+          height: output.height,
+        });
+      } catch (e) {
+        console.error(`Workflow failed for ${file.name}:`, e);
+        failed.push(file.name);
+      }
+      setProgress(((i + 1) / imageFiles.length) * 100);
+    }
+
+    if (failed.length > 0) {
+      setError(`Failed to process: ${failed.join(', ')}`);
+    }
+    setResults(newResults);
+    setIsProcessing(false);
+  }, [imageFiles, steps, clearResults, objectUrls]);
+
+  const handleDownload = async () => {
+    if (results.length === 0) return;
+    const filesToZip = results.map(result => {
+      const originalName = result.originalFilename.substring(0, result.originalFilename.lastIndexOf('.')) || result.originalFilename;
+      return {
+        blob: result.blob,
+        filename: `${originalName}.${result.extension}`,
+      };
+    });
+    const zipName = (workflowName.trim() || 'workflow').toLowerCase().replace(/[^a-z0-9]+/g, '_');
+    await downloadZip(filesToZip, `${zipName}.zip`);
+  };
+
+  const handleRemoveImage = (idToRemove: string) => {
+    objectUrls.revoke(imageFiles.find(file => file.id === idToRemove)?.preview);
+    objectUrls.revoke(results.find(result => result.id === idToRemove)?.url);
+    setImageFiles(prev => prev.filter(file => file.id !== idToRemove));
+    setResults(prev => prev.filter(result => result.id !== idToRemove));
+  };
+
+  const handleReset = () => {
+    objectUrls.revokeAll();
+    setImageFiles([]);
+    setResults([]);
+    setIsProcessing(false);
+    setProgress(0);
+    setError(null);
+  };
+
+  const renderStepControls = (step: WorkflowStep) => {
+    switch (step.type) {
+      case 'resize':
+        return (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor={`max-width-${step.id}`} className="block text-xs font-medium text-gray-400 mb-1">Max Width (px)</label>
+              <input type="number" id={`max-width-${step.id}`} min="0" value={step.maxWidth} onChange={(e) => updateStep(step.id, { maxWidth: Math.max(0, parseInt(e.target.value, 10) || 0) })} className="custom-input" disabled={isProcessing}/>
+            </div>
+            <div>
+              <label htmlFor={`max-height-${step.id}`} className="block text-xs font-medium text-gray-400 mb-1">Max Height (px)</label>
+              <input type="number" id={`max-height-${step.id}`} min="0" value={step.maxHeight} onChange={(e) => updateStep(step.id, { maxHeight: Math.max(0, parseInt(e.target.value, 10) || 0) })} className="custom-input" disabled={isProcessing}/>
+            </div>
+            <p className="col-span-2 text-xs text-gray-500">Fits within the box, keeping aspect ratio. 0 means no limit. Smaller images are left as-is.</p>
+          </div>
+        );
+      case 'rotate':
+        return (
+          <div>
+            <label htmlFor={`degrees-${step.id}`} className="flex justify-between text-xs font-medium text-gray-400 mb-1">
+              <span>Angle</span>
+              <span className="font-mono text-[#1DB954]">{step.degrees}°</span>
+            </label>
+            <input type="range" id={`degrees-${step.id}`} min="0" max="359" value={step.degrees} onChange={(e) => updateStep(step.id, { degrees: parseInt(e.target.value, 10) })} className="w-full range-slider" disabled={isProcessing}/>
+          </div>
+        );
+      case 'watermark':
+        return (
+          <div className="space-y-3">
+            <div>
+              <label htmlFor={`text-${step.id}`} className="block text-xs font-medium text-gray-400 mb-1">Text</label>
+              <input type="text" id={`text-${step.id}`} value={step.text} onChange={(e) => updateStep(step.id, { text: e.target.value })} className="custom-input" disabled={isProcessing}/>
+            </div>
+            <ColorPicker label="Color" color={step.color} onChange={(color) => updateStep(step.id, { color })} disabled={isProcessing} />
+            <div>
+              <label htmlFor={`size-${step.id}`} className="flex justify-between text-xs font-medium text-gray-400 mb-1">
+                <span>Size</span>
+                <span className="font-mono text-[#1DB954]">{step.size}%</span>
+              </label>
+              <input type="range" id={`size-${step.id}`} min="1" max="50" value={step.size} onChange={(e) => updateStep(step.id, { size: parseFloat(e.target.value) })} className="w-full range-slider" disabled={isProcessing}/>
+            </div>
+            <div>
+              <label htmlFor={`opacity-${step.id}`} className="flex justify-between text-xs font-medium text-gray-400 mb-1">
+                <span>Opacity</span>
+                <span className="font-mono text-[#1DB954]">{Math.round(step.opacity * 100)}%</span>
+              </label>
+              <input type="range" id={`opacity-${step.id}`} min="0" max="1" step="0.05" value={step.opacity} onChange={(e) => updateStep(step.id, { opacity: parseFloat(e.target.value) })} className="w-full range-slider" disabled={isProcessing}/>
+            </div>
+            <div className="flex items-center">
+              <input id={`tiled-${step.id}`} type="checkbox" checked={step.tiled} onChange={(e) => updateStep(step.id, { tiled: e.target.checked })} className="h-4 w-4 rounded border-zinc-600 bg-zinc-700 text-[#1DB954] focus:ring-[#1DB954]" disabled={isProcessing}/>
+              <label htmlFor={`tiled-${step.id}`} className="ml-3 block text-sm font-medium text-gray-300">Tile Watermark</label>
+            </div>
+            {!step.tiled && (
+              <select value={step.position} onChange={(e) => updateStep(step.id, { position: e.target.value as WatermarkPosition })} className="custom-input" disabled={isProcessing} aria-label="Watermark position">
+                <option value="bottom-right">Bottom Right</option>
+                <option value="bottom-left">Bottom Left</option>
+                <option value="top-right">Top Right</option>
+                <option value="top-left">Top Left</option>
+                <option value="center">Center</option>
+              </select>
+            )}
+          </div>
+        );
+      case 'convert':
+        return (
+          <div className="space-y-3">
+            <select value={step.format} onChange={(e) => updateStep(step.id, { format: e.target.value as 'jpeg' | 'png' | 'webp' })} className="custom-input" disabled={isProcessing} aria-label="Output format">
+              <option value="jpeg">JPG</option>
+              <option value="webp">WEBP</option>
+              <option value="png">PNG</option>
+            </select>
+            {step.format !== 'png' && (
+              <div>
+                <label htmlFor={`quality-${step.id}`} className="flex justify-between text-xs font-medium text-gray-400 mb-1">
+                  <span>Quality</span>
+                  <span className="font-mono text-[#1DB954]">{Math.round(step.quality * 100)}</span>
+                </label>
+                <input type="range" id={`quality-${step.id}`} min="0.1" max="1" step="0.01" value={step.quality} onChange={(e) => updateStep(step.id, { quality: parseFloat(e.target.value) })} className="w-full range-slider" disabled={isProcessing}/>
+              </div>
+            )}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      <div className="lg:col-span-4 space-y-6">
+        <div className="bg-zinc-900 rounded-lg p-6 space-y-4 border border-zinc-800">
+          <h3 className="text-lg font-semibold text-white">Saved Workflows</h3>
+          <select value={selectedWorkflowId} onChange={(e) => handleLoadWorkflow(e.target.value)} className="custom-input" disabled={isProcessing} aria-label="Saved workflows">
+            <option value="">{savedWorkflows.length === 0 ? 'No saved workflows yet' : 'Load a saved workflow...'}</option>
+            {savedWorkflows.map(workflow => (
+              <option key={workflow.id} value={workflow.id}>{workflow.name}</option>
+            ))}
+          </select>
+          <div>
+            <label htmlFor="workflow-name" className="block text-sm font-medium text-gray-300 mb-2">Workflow Name</label>
+            <input type="text" id="workflow-name" value={workflowName} onChange={(e) => setWorkflowName(e.target.value)} className="custom-input" disabled={isProcessing}/>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleSaveWorkflow} variant="secondary" disabled={isProcessing || steps.length === 0} className="flex-1">
+              {selectedWorkflowId ? 'Update' : 'Save'}
+            </Button>
+            <Button onClick={handleDeleteWorkflow} variant="outline" disabled={isProcessing || !selectedWorkflowId} className="flex-1">
+              Delete
+            </Button>
+          </div>
+        </div>
+
+        <div className="bg-zinc-900 rounded-lg p-6 space-y-4 border border-zinc-800">
+          <h3 className="text-lg font-semibold text-white">Steps</h3>
+          {steps.length === 0 && (
+            <p className="text-sm text-gray-500">Add at least one step to build your workflow.</p>
+          )}
+          <ol className="space-y-3">
+            {steps.map((step, index) => (
+              <li key={step.id} className="bg-zinc-800/50 p-4 rounded-lg border border-zinc-700 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold text-gray-100">{index + 1}. {STEP_LABELS[step.type]}</p>
+                    <p className="text-xs text-gray-500 truncate">{describeStep(step)}</p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button onClick={() => moveStep(index, -1)} disabled={isProcessing || index === 0} className="p-1 text-gray-400 hover:text-white disabled:opacity-30" aria-label="Move step up">
+                      <ChevronUpIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => moveStep(index, 1)} disabled={isProcessing || index === steps.length - 1} className="p-1 text-gray-400 hover:text-white disabled:opacity-30" aria-label="Move step down">
+                      <ChevronDownIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => removeStep(step.id)} disabled={isProcessing} className="p-1 text-gray-400 hover:text-red-400 disabled:opacity-30" aria-label="Remove step">
+                      <XMarkIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                {renderStepControls(step)}
+              </li>
+            ))}
+          </ol>
+          <div className="flex gap-2 pt-4 border-t border-zinc-800">
+            <select value={newStepType} onChange={(e) => setNewStepType(e.target.value as WorkflowStepType)} className="custom-input" disabled={isProcessing} aria-label="Step type">
+              {(Object.keys(STEP_LABELS) as WorkflowStepType[]).map(type => (
+                <option key={type} value={type}>{STEP_LABELS[type]}</option>
+              ))}
+            </select>
+            <Button onClick={addStep} variant="secondary" icon={<PlusIcon />} disabled={isProcessing} className="whitespace-nowrap">
+              Add
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-4">
+          <Button onClick={performWorkflow} isLoading={isProcessing} icon={<WorkflowIcon />} disabled={imageFiles.length === 0 || steps.length === 0}>
+            {isProcessing ? `Running... (${Math.round(progress)}%)` : `Run Workflow (${imageFiles.length})`}
+          </Button>
+          <Button onClick={handleDownload} variant="secondary" disabled={results.length === 0} icon={<ArrowDownTrayIcon />}>
+            Download All as ZIP
+          </Button>
+        </div>
+        <Button onClick={handleReset} variant="outline" icon={<ArrowUturnLeftIcon />} disabled={imageFiles.length === 0}>
+          Start Over
+        </Button>
+      </div>
+      <div className="lg:col-span-8">
+        <div className="bg-zinc-900 p-4 rounded-lg border border-zinc-800 sticky top-24">
+          <h3 className="text-lg font-semibold text-white mb-4 px-2">Image Queue</h3>
+          {imageFiles.length === 0 ? (
+            <div className="bg-black/50 p-2 rounded-lg flex items-center justify-center min-h-[40vh]">
+              <ImageUploader onFileSelect={handleImageUpload} multiple={true} accept="image/*" title="Upload images to process" description="Every image runs through the same chain of steps"/>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {isProcessing && (
+                <div className="w-full bg-zinc-700 rounded-full h-2.5">
+                  <div className="bg-[#1DB954] h-2.5 rounded-full" style={{ width: `${progress}%`, transition: 'width 0.2s ease-in-out' }}></div>
+                </div>
+              )}
+              {error && (
+                <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-300 text-sm">{error}</div>
+              )}
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4 p-2 min-h-[40vh] bg-black/50 rounded-lg max-h-[70vh] overflow-y-auto">
+                {imageFiles.map((file) => {
+                  const result = results.find(r => r.id === file.id);
+                  return (
+                    <div key={file.id} className="relative group aspect-square w-full overflow-hidden rounded-lg border-2 border-zinc-800">
+                      <img src={result?.url || file.preview} alt={file.name} className="object-cover w-full h-full" loading="lazy"/>
+                      <div className="absolute inset-0 bg-black/40 flex flex-col items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+                        <span className="text-white text-xs text-center p-1 truncate max-w-full">{file.name}</span>
+                        {result && (
+                          <span className="text-[#1DB954] text-xs font-mono">{result.width} x {result.height} · {result.extension.toUpperCase()}</span>
+                        )}
+                      </div>
+                      <button onClick={() => handleRemoveImage(file.id)} className="absolute top-1 right-1 p-1 bg-red-600/70 text-white rounded-full hover:bg-red-700 transition-colors opacity-0 group-hover:opacity-100">
+                        <XMarkIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  );
+                })}
+                <label htmlFor="add-more-files-input" className="group flex flex-col items-center justify-center text-center p-2 aspect-square rounded-lg border-2 border-dashed border-zinc-700 bg-zinc-800/50 text-gray-400 transition-colors hover:border-[#1DB954] hover:text-[#1DB954] cursor-pointer">
+                  <PlusIcon className="w-8 h-8" />
+                  <span className="mt-2 text-sm font-semibold">Add More</span>
+                  <input id="add-more-files-input" type="file" className="sr-only" accept="image/*" multiple onChange={handleFileChange} />
+                </label>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkflowBuilder;
@@ -0,0 +1,49 @@
+import React, { useRef, useCallback } from 'react';
+
+// Drag-and-drop reordering for image grids: spread `containerProps` on the grid and
+// `itemProps(index)` on each tile. The dragged item is moved to the drop position.
+export const useDragReorder = <T>(items: T[], onReorder: (items: T[]) => void) => {
+  const dragItem = useRef<number | null>(null);
+  const dragOverItem = useRef<number | null>(null);
+
+  const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const draggedIndex = dragItem.current;
+    const droppedIndex = dragOverItem.current;
+    dragItem.current = null;
+    dragOverItem.current = null;
+
+    if (draggedIndex === null || droppedIndex === null || draggedIndex === droppedIndex) {
+      return;
+    }
+
+    const reordered = [...items];
+    const [moved] = reordered.splice(draggedIndex, 1);
+    reordered.splice(droppedIndex, 0, moved);
+    onReorder(reordered);
+  }, [items, onReorder]);
+
+  const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+  }, []);
+
+  const itemProps = (index: number) => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent<HTMLDivElement>) => {
+      dragItem.current = index;
+      e.dataTransfer.effectAllowed = "move";
+      e.dataTransfer.setData("text/plain", index.toString());
+    },
+    onDragEnter: () => {
+      dragOverItem.current = index;
+    },
+  });
+
+  return {
+    containerProps: { onDrop: handleDrop, onDragOver: handleDragOver },
+    itemProps,
+    draggingIndex: dragItem.current,
+    dragOverIndex: dragOverItem.current,
+  };
+};
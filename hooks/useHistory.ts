@@ -0,0 +1,135 @@
+import { useState, useCallback } from 'react';
+
+export interface HistoryEntry<T> {
+  state: T;
+  label: string;
+}
+
+interface HistoryState<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+  mergeKey?: string; // Key of the last push, so a slider drag collapses into one entry
+  pushedAt?: number;
+}
+
+interface HistoryOptions {
+  limit?: number; // Maximum number of entries kept, the oldest are dropped first
+  maxBytes?: number; // Approximate memory the snapshots may retain, see estimateRetainedBytes
+}
+
+export interface History<T> {
+  state: T;
+  entries: HistoryEntry<T>[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  push: (state: T, label: string, mergeKey?: string) => void;
+  undo: () => void;
+  redo: () => void;
+  jumpTo: (index: number) => void;
+  reset: (state: T, label?: string) => void;
+}
+
+const DEFAULT_LIMIT = 50;
+const DEFAULT_MAX_BYTES = 256 * 1024 * 1024;
+const MERGE_WINDOW_MS = 1000;
+
+// Rough memory held by the snapshots: binary data and Blobs count by their byte size, strings
+// at two bytes per character. Objects shared between snapshots are counted once, so history
+// that reuses unchanged parts of the previous state stays cheap.
+const estimateRetainedBytes = (entries: HistoryEntry<unknown>[]): number => {
+  const seen = new Set<object>();
+  let total = 0;
+  const visit = (value: unknown) => {
+    if (typeof value === 'string') {
+      total += value.length * 2;
+      return;
+    }
+    if (typeof value !== 'object' || value === null) {
+      total += 8;
+      return;
+    }
+    if (seen.has(value)) return;
+    seen.add(value);
+    if (value instanceof Blob) {
+      total += value.size;
+    } else if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+      total += value.byteLength;
+    } else if (value instanceof Map) {
+      value.forEach((v, k) => { visit(k); visit(v); });
+    } else {
+      for (const key in value) visit((value as Record<string, unknown>)[key]);
+    }
+  };
+  entries.forEach(entry => visit(entry.state));
+  return total;
+};
+
+// Drops the oldest entries until both caps are met. The current entry is always kept.
+const trim = <T>(entries: HistoryEntry<T>[], index: number, limit: number, maxBytes: number) => {
+  let start = Math.max(0, entries.length - limit);
+  while (start < index && estimateRetainedBytes(entries.slice(start)) > maxBytes) start++;
+  return { entries: entries.slice(start), index: index - start };
+};
+
+// Undo/redo over immutable state snapshots. `push` records a new state and drops any redo
+// entries; pushes with the same `mergeKey` in quick succession replace the latest entry instead.
+export const useHistory = <T>(
+  initialState: T,
+  initialLabel = 'Open',
+  { limit = DEFAULT_LIMIT, maxBytes = DEFAULT_MAX_BYTES }: HistoryOptions = {},
+): History<T> => {
+  const [history, setHistory] = useState<HistoryState<T>>({
+    entries: [{ state: initialState, label: initialLabel }],
+    index: 0,
+  });
+
+  const push = useCallback((state: T, label: string, mergeKey?: string) => {
+    setHistory((prev: HistoryState<T>) => {
+      const now = Date.now();
+      const isLatest = prev.index === prev.entries.length - 1;
+      const recent = prev.pushedAt !== undefined && now - prev.pushedAt < MERGE_WINDOW_MS;
+      if (mergeKey && isLatest && recent && prev.mergeKey === mergeKey && prev.index > 0) {
+        const entries = [...prev.entries];
+        entries[prev.index] = { state, label };
+        return { ...prev, entries, pushedAt: now };
+      }
+      const entries = [...prev.entries.slice(0, prev.index + 1), { state, label }];
+      return { ...trim(entries, entries.length - 1, limit, maxBytes), mergeKey, pushedAt: now };
+    });
+  }, [limit, maxBytes]);
+
+  const jumpTo = useCallback((index: number) => {
+    setHistory((prev: HistoryState<T>) => {
+      const clamped = Math.max(0, Math.min(prev.entries.length - 1, index));
+      return clamped === prev.index ? prev : { entries: prev.entries, index: clamped };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((prev: HistoryState<T>) => (prev.index > 0 ? { entries: prev.entries, index: prev.index - 1 } : prev));
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((prev: HistoryState<T>) =>
+      prev.index < prev.entries.length - 1 ? { entries: prev.entries, index: prev.index + 1 } : prev);
+  }, []);
+
+  const reset = useCallback((state: T, label = 'Open') => {
+    setHistory({ entries: [{ state, label }], index: 0 });
+  }, []);
+
+  const { entries, index } = history as HistoryState<T>;
+  return {
+    state: entries[index].state,
+    entries,
+    index,
+    canUndo: index > 0,
+    canRedo: index < entries.length - 1,
+    push,
+    undo,
+    redo,
+    jumpTo,
+    reset,
+  };
+};
@@ -0,0 +1,49 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { runImageBatch } from '../utils/imageBatch';
+import type { BatchItemState, BatchJob, BatchJobResult } from '../utils/imageBatch';
+
+// Shared state for the batch tools: per-file status, overall progress and cancellation
+export const useImageBatch = (concurrency?: number) => {
+  const [items, setItems] = useState<Record<string, BatchItemState>>({});
+  const [isProcessing, setIsProcessing] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Stop any running batch when the tool unmounts
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const run = useCallback(async (jobs: BatchJob[]): Promise<BatchJobResult[]> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setItems({});
+    setIsProcessing(true);
+    try {
+      return await runImageBatch(jobs, {
+        concurrency,
+        signal: controller.signal,
+        onItemUpdate: (id, state) => setItems(prev => ({ ...prev, [id]: state })),
+      });
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsProcessing(false);
+      }
+    }
+  }, [concurrency]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    setItems({});
+  }, []);
+
+  const states: BatchItemState[] = Object.values(items);
+  const progress = states.length > 0 ? (states.reduce((acc, item) => acc + item.progress, 0) / states.length) * 100 : 0;
+  const failedCount = states.filter(item => item.status === 'error').length;
+
+  return { run, cancel, reset, items, isProcessing, progress, failedCount };
+};
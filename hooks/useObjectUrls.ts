@@ -0,0 +1,47 @@
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+
+// Tracks object URLs created by a component so they can be revoked individually,
+// all at once (e.g. on "Start Over") and automatically on unmount.
+// Previews made this way point at the original files, so no base64 copy of a large batch sits in memory.
+export const useObjectUrls = () => {
+  const urlsRef = useRef<Set<string>>(new Set());
+
+  const revokeAll = useCallback(() => {
+    urlsRef.current.forEach(url => URL.revokeObjectURL(url));
+    urlsRef.current.clear();
+  }, []);
+
+  useEffect(() => revokeAll, [revokeAll]);
+
+  const create = useCallback((blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    urlsRef.current.add(url);
+    return url;
+  }, []);
+
+  const revoke = useCallback((url: string | null | undefined) => {
+    if (url && urlsRef.current.delete(url)) {
+      URL.revokeObjectURL(url);
+    }
+  }, []);
+
+  // Stable identity, so it can be listed in hook dependencies
+  return useMemo(() => ({ create, revoke, revokeAll }), [create, revoke, revokeAll]);
+};
+
+// Object URL for a single Blob held in state. The URL is revoked when the Blob changes or the component unmounts.
+export const useBlobUrl = (blob: Blob | null | undefined): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+};
@@ -0,0 +1,127 @@
+// The interface every AI backend implements, so features can ask for text, image descriptions or
+// generated images without knowing which provider the user picked in settings.
+
+export type AIProviderId = 'gemini' | 'openai' | 'anthropic' | 'qwen' | 'local';
+
+export interface AIImageInput {
+  base64: string; // Without the data: URL prefix
+  mimeType: string;
+}
+
+// A JSON Schema (the subset every provider accepts: object, array, string, number, boolean, enum)
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+export interface TextRequest {
+  prompt: string;
+  systemInstruction?: string;
+  images?: AIImageInput[]; // For vision models: captioning, describing, reading text
+  responseSchema?: JsonSchema; // Ask for JSON matching this schema; the result is the raw JSON string
+  temperature?: number;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[]; // Oldest first, ending with the user's new message
+  systemInstruction?: string;
+  temperature?: number;
+}
+
+export interface StreamOptions {
+  onText: (delta: string) => void; // Called with each new piece of the reply as it arrives
+  signal?: AbortSignal; // Aborting stops the stream; the promise then rejects with an AbortError
+}
+
+export type AspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export interface ImageRequest {
+  prompt: string;
+  aspectRatio?: AspectRatio;
+}
+
+export interface AIProviderConfig {
+  apiKey: string;
+  model: string;
+  baseUrl?: string; // Custom endpoints only
+  visionModel?: string; // Custom endpoints only: used instead of `model` when the request has images
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  name: string;
+  models: string[]; // The first is the default; with `customEndpoint` they are only suggestions
+  requiresApiKey: boolean; // False when the key is configured at build time or optional
+  customEndpoint?: boolean; // The user supplies the base URL and model names
+  apiKeyUrl?: string;
+  supportsVision: boolean;
+  generateText: (request: TextRequest, config: AIProviderConfig) => Promise<string>;
+  // Multi-turn chat, streamed; resolves with the full reply
+  streamChat: (request: ChatRequest, config: AIProviderConfig, options: StreamOptions) => Promise<string>;
+  // Absent when the provider has no image model; returns a data: URL
+  generateImage?: (request: ImageRequest, config: AIProviderConfig) => Promise<string>;
+}
+
+// Turns a failed fetch into an Error carrying the provider's own message when it sent one
+export const providerHttpError = async (providerName: string, response: Response): Promise<Error> => {
+  let details = response.statusText;
+  try {
+    const body = await response.text();
+    try {
+      const json = JSON.parse(body);
+      details = json.error?.message || json.message || body;
+    } catch {
+      details = body || details;
+    }
+  } catch {
+    // Could not read the body, keep the status text
+  }
+  let message = `${providerName} API Error: ${response.status} - ${details}`;
+  if (response.status === 401 || response.status === 403) {
+    message += '. Check the API key in "API Key Settings".';
+  }
+  if (response.status === 429) {
+    message += '. You have hit the rate limit or quota for this key.';
+  }
+  return new Error(message);
+};
+
+// Rate limits surface differently per provider: an HTTP 429 from providerHttpError, or the Gemini SDK's
+// RESOURCE_EXHAUSTED status in the message
+export const isRateLimitError = (error: unknown): boolean => {
+  if (typeof error !== 'object' || error === null) return false;
+  if ('status' in error && error.status === 429) return true;
+  return 'message' in error && typeof error.message === 'string' && /\b429\b|RESOURCE_EXHAUSTED/.test(error.message);
+};
+
+// Reads a text/event-stream body and hands each event's data to `onData`, until the stream ends
+export const readServerSentEvents = async (response: Response, onData: (data: string) => void): Promise<void> => {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = done ? '' : events.pop() ?? '';
+    for (const event of events) {
+      const data = event
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n');
+      if (data) onData(data);
+    }
+    if (done) return;
+  }
+};
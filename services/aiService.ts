@@ -0,0 +1,167 @@
+import { geminiProvider } from './geminiService';
+import { openAIProvider } from './openai';
+import { anthropicProvider } from './anthropic';
+import { qwenProvider } from './qwen';
+import { localProvider } from './localProvider';
+import type { AIProvider, AIProviderConfig, AIProviderId, AspectRatio, ChatRequest, StreamOptions } from './aiProvider';
+import type { StoredSettings } from '../contexts/SettingsContext';
+
+export const AI_PROVIDERS: AIProvider[] = [geminiProvider, openAIProvider, anthropicProvider, qwenProvider, localProvider];
+
+export const getAIProvider = (id: AIProviderId | string | undefined): AIProvider =>
+  AI_PROVIDERS.find((provider) => provider.id === id) ?? geminiProvider;
+
+// The provider picked in "API Key Settings", read straight from storage like the RapidAPI keys so
+// services work outside React.
+export const getActiveAIProvider = (): { provider: AIProvider; config: AIProviderConfig } => {
+  let settings: StoredSettings = {};
+  try {
+    settings = JSON.parse(localStorage.getItem('image-toolbox-settings') || '{}');
+  } catch (e) {
+    console.error("Could not parse settings for the AI provider.", e);
+  }
+  const provider = getAIProvider(settings.aiProvider);
+  const apiKey = settings.aiApiKeys?.[provider.id] || '';
+  if (provider.requiresApiKey && !apiKey) {
+    throw new Error(`No API key is set for ${provider.name}. Add one in "API Key Settings".`);
+  }
+  const config: AIProviderConfig = { apiKey, model: settings.aiModels?.[provider.id] || provider.models[0] };
+  if (provider.customEndpoint) {
+    config.baseUrl = settings.localAiBaseUrl || undefined;
+    config.visionModel = settings.localAiVisionModel || undefined;
+  }
+  return { provider, config };
+};
+
+interface MemeCaptionResponse {
+  topText: string;
+  bottomText: string;
+}
+
+export const generateMemeCaption = async ({
+  base64Image,
+  mimeType,
+}: {
+  base64Image: string;
+  mimeType: string;
+}): Promise<MemeCaptionResponse> => {
+  const { provider, config } = getActiveAIProvider();
+  const text = await provider.generateText({
+    prompt: "Generate a top text and a bottom text for this meme image. Return the response as a JSON object with 'topText' and 'bottomText' properties.",
+    images: [{ base64: base64Image, mimeType }],
+    responseSchema: {
+      type: 'object',
+      properties: {
+        topText: { type: 'string' },
+        bottomText: { type: 'string' },
+      },
+      required: ['topText', 'bottomText'],
+    },
+  }, config);
+  try {
+    return JSON.parse(text.trim()) as MemeCaptionResponse;
+  } catch {
+    throw new Error(`${provider.name} returned a caption that could not be read. Try again or pick another model.`);
+  }
+};
+
+export interface ImageDescription {
+  altText: string;
+  caption: string;
+  keywords: string[];
+}
+
+// Alt text, a caption and keywords for one image, for accessibility and cataloguing.
+// `context` says where the image is used (e.g. "product photos for an outdoor gear shop, in German").
+export const describeImage = async ({
+  base64Image,
+  mimeType,
+  context,
+}: {
+  base64Image: string;
+  mimeType: string;
+  context?: string;
+}): Promise<ImageDescription> => {
+  const { provider, config } = getActiveAIProvider();
+  const text = await provider.generateText({
+    prompt: [
+      "Describe this image. Return a JSON object with:",
+      "'altText': alt text for screen readers, one sentence under 125 characters, without 'image of' or 'picture of';",
+      "'caption': a short caption of one or two sentences;",
+      "'keywords': 5 to 10 lowercase search keywords.",
+      context ? `The image is used in this context: ${context}` : '',
+    ].filter(Boolean).join('\n'),
+    images: [{ base64: base64Image, mimeType }],
+    responseSchema: {
+      type: 'object',
+      properties: {
+        altText: { type: 'string' },
+        caption: { type: 'string' },
+        keywords: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['altText', 'caption', 'keywords'],
+    },
+    temperature: 0.3,
+  }, config);
+  try {
+    const parsed = JSON.parse(text.trim());
+    return {
+      altText: String(parsed.altText ?? '').trim(),
+      caption: String(parsed.caption ?? '').trim(),
+      keywords: Array.isArray(parsed.keywords) ? parsed.keywords.map((k: unknown) => String(k).trim()).filter(Boolean) : [],
+    };
+  } catch {
+    throw new Error(`${provider.name} returned a description that could not be read. Try again or pick another model.`);
+  }
+};
+
+export const generateText = async (prompt: string): Promise<string> => {
+  const { provider, config } = getActiveAIProvider();
+  return provider.generateText({ prompt }, config);
+};
+
+// Streams a reply to a conversation from the selected provider
+export const streamChat = async (request: ChatRequest, options: StreamOptions): Promise<string> => {
+  const { provider, config } = getActiveAIProvider();
+  return provider.streamChat(request, config, options);
+};
+
+export const describeHtmlContent = async (htmlContent: string): Promise<string> => {
+  const { provider, config } = getActiveAIProvider();
+  return provider.generateText({
+    prompt: `Describe the following HTML content in a concise and clear manner, focusing on its purpose and key elements:\n\n${htmlContent}`,
+    systemInstruction: "You are an AI assistant that analyzes and describes HTML content concisely.",
+  }, config);
+};
+
+const ASPECT_RATIOS: { ratio: number; value: AspectRatio }[] = [
+  { ratio: 16 / 9, value: '16:9' },
+  { ratio: 9 / 16, value: '9:16' },
+  { ratio: 4 / 3, value: '4:3' },
+  { ratio: 3 / 4, value: '3:4' },
+  { ratio: 1, value: '1:1' },
+];
+
+// Uses the selected provider when it has an image model; the rest fall back to Gemini's, except a
+// local endpoint, which is chosen precisely so nothing is sent to a cloud service.
+// Width and height, when given, pick the closest aspect ratio the image models support.
+export const generateImageFromDescription = async (
+  description: string,
+  width?: number,
+  height?: number,
+): Promise<string> => {
+  let aspectRatio: AspectRatio = '1:1';
+  if (width && height && width > 0 && height > 0) {
+    const ratio = width / height;
+    aspectRatio = ASPECT_RATIOS.reduce((best, ar) => (Math.abs(ratio - ar.ratio) < Math.abs(ratio - best.ratio) ? ar : best)).value;
+  }
+
+  const { provider, config } = getActiveAIProvider();
+  if (provider.generateImage) {
+    return provider.generateImage({ prompt: description, aspectRatio }, config);
+  }
+  if (provider.customEndpoint) {
+    throw new Error(`${provider.name} can't generate images. Pick a cloud provider in "API Key Settings" for this step.`);
+  }
+  return geminiProvider.generateImage!({ prompt: description, aspectRatio }, { apiKey: '', model: geminiProvider.models[0] });
+};
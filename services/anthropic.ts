@@ -1 +1,99 @@
-// This file is a placeholder for a potential Anthropic service integration.
+import { providerHttpError, readServerSentEvents } from './aiProvider';
+import type { AIProvider } from './aiProvider';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const MAX_TOKENS = 4096;
+// Claude accepts 0 to 1, while templates and the other providers go up to 2
+const MAX_TEMPERATURE = 1;
+
+const clampTemperature = (temperature?: number) => (temperature === undefined ? undefined : Math.min(temperature, MAX_TEMPERATURE));
+
+const headers = (apiKey: string) => ({
+  'Content-Type': 'application/json',
+  'x-api-key': apiKey,
+  'anthropic-version': '2023-06-01',
+  // The key belongs to the user and stays in their browser, so calling from it is intended
+  'anthropic-dangerous-direct-browser-access': 'true',
+});
+
+type TextBlock = { type: 'text'; text: string };
+type ImageBlock = { type: 'image'; source: { type: 'base64'; media_type: string; data: string } };
+type ToolUseBlock = { type: 'tool_use'; name: string; input: unknown };
+
+// What a request sends, and what a response holds
+type RequestBlock = TextBlock | ImageBlock;
+type ResponseBlock = TextBlock | ToolUseBlock;
+
+// The streamed events read here; the others (message_start, ping, ...) are skipped
+type StreamEvent =
+  | { type: 'content_block_delta'; delta: { type: 'text_delta'; text: string } | { type: 'input_json_delta'; partial_json: string } }
+  | { type: 'error'; error?: { message?: string } }
+  | { type: 'message_start' | 'content_block_start' | 'content_block_stop' | 'message_delta' | 'message_stop' | 'ping' };
+
+// Claude has no JSON mode, so structured output is requested as a forced call to a tool whose input
+// schema is the response schema, and the tool input is the answer.
+const RESPONSE_TOOL = 'respond';
+
+export const anthropicProvider: AIProvider = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  models: ['claude-sonnet-4-5', 'claude-haiku-4-5', 'claude-opus-4-1'],
+  requiresApiKey: true,
+  apiKeyUrl: 'https://console.anthropic.com/settings/keys',
+  supportsVision: true,
+  generateText: async ({ prompt, systemInstruction, images, responseSchema, temperature }, { apiKey, model }) => {
+    const content: RequestBlock[] = [
+      ...(images ?? []).map(({ base64, mimeType }): ImageBlock => ({ type: 'image', source: { type: 'base64', media_type: mimeType, data: base64 } })),
+      { type: 'text', text: prompt },
+    ];
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: headers(apiKey),
+      body: JSON.stringify({
+        model,
+        max_tokens: MAX_TOKENS,
+        system: systemInstruction,
+        temperature: clampTemperature(temperature),
+        messages: [{ role: 'user', content }],
+        ...(responseSchema
+          ? {
+              tools: [{ name: RESPONSE_TOOL, description: 'Return the response.', input_schema: responseSchema }],
+              tool_choice: { type: 'tool', name: RESPONSE_TOOL },
+            }
+          : {}),
+      }),
+    });
+    if (!response.ok) {
+      throw await providerHttpError('Anthropic', response);
+    }
+    const json: { content?: ResponseBlock[] } = await response.json();
+    const blocks = json.content ?? [];
+    if (responseSchema) {
+      const toolUse = blocks.find((block): block is ToolUseBlock => block.type === 'tool_use');
+      return toolUse ? JSON.stringify(toolUse.input) : '';
+    }
+    return blocks.filter((block): block is TextBlock => block.type === 'text').map((block) => block.text).join('');
+  },
+  streamChat: async ({ messages, systemInstruction, temperature }, { apiKey, model }, { onText, signal }) => {
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: headers(apiKey),
+      body: JSON.stringify({ model, max_tokens: MAX_TOKENS, system: systemInstruction, temperature: clampTemperature(temperature), messages, stream: true }),
+      signal,
+    });
+    if (!response.ok) {
+      throw await providerHttpError('Anthropic', response);
+    }
+    let text = '';
+    await readServerSentEvents(response, (data) => {
+      const event: StreamEvent = JSON.parse(data);
+      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        text += event.delta.text;
+        onText(event.delta.text);
+      } else if (event.type === 'error') {
+        throw new Error(`Anthropic API Error: ${event.error?.message || 'The stream failed.'}`);
+      }
+    });
+    return text;
+  },
+};
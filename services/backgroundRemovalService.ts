@@ -1,3 +1,5 @@
+import { applyAlphaMask, createTileBlender, crop, decodeImage, encodeImage, mimeTypeToFormat, overlappingTiles, resize, segmentForeground } from '../core';
+import type { PixelBuffer, Rect, SegmentationStroke } from '../core';
 
 const getUpscalerApiKey = (): string => {
     const defaultKey = '196f25947emsh0201c523a966043p1a26aejsn23a6aa1c412f';
@@ -60,123 +62,203 @@ const handleApiError = async (response: Response): Promise<Error> => {
 }
 
 
-export const removeBackgroundWithAI = async (imageFile: File): Promise<string> => {
-    const apiKey = getBgRemoverApiKey();
-    if (!apiKey) {
-        throw new Error("AI Remove Image Background API Key is not set. Please add one in the API Key Settings.");
-    }
-    
-    try {
-        const formData = new FormData();
-        formData.append('file', imageFile);
+export interface BackgroundRemovalRequest {
+    file: File;
+    // Hints for removers that use them (`usesHints`), in the image's pixels
+    foreground?: SegmentationStroke[];
+    background?: SegmentationStroke[];
+    tolerance?: number;
+    feather?: number;
+}
 
-        const response = await fetch('https://ai-remove-image-background.p.rapidapi.com/', {
-            method: 'POST',
-            headers: {
-                // 'content-type' is automatically set by the browser for FormData
-                'X-RapidAPI-Key': apiKey,
-                'X-RapidAPI-Host': 'ai-remove-image-background.p.rapidapi.com',
-            },
-            body: formData,
-        });
+export interface BackgroundRemover {
+    id: string;
+    name: string;
+    description: string;
+    requiresNetwork: boolean;
+    usesHints: boolean;
+    remove: (request: BackgroundRemovalRequest) => Promise<Blob>; // PNG with a transparent background
+}
 
-        if (!response.ok) {
-            throw await handleApiError(response);
+export const rapidApiBackgroundRemover: BackgroundRemover = {
+    id: 'rapidapi',
+    name: 'AI (RapidAPI)',
+    description: 'Detects the subject automatically. The image is uploaded to the AI Remove Image Background API.',
+    requiresNetwork: true,
+    usesHints: false,
+    remove: async ({ file }) => {
+        const apiKey = getBgRemoverApiKey();
+        if (!apiKey) {
+            throw new Error("AI Remove Image Background API Key is not set. Please add one in the API Key Settings.");
         }
-        
-        const imageBlob = await response.blob();
-        if (!imageBlob.type.startsWith('image/')) {
-            const errorText = await imageBlob.text();
-            let errorMessage = "The API returned an unexpected non-image response. ";
-            try {
-                const errorJson = JSON.parse(errorText);
-                errorMessage += errorJson.message || errorJson.error || "No specific error message was provided.";
-            } catch(e) {
-                errorMessage += `Details: ${errorText}`;
+
+        try {
+            const formData = new FormData();
+            formData.append('file', file);
+
+            const response = await fetch('https://ai-remove-image-background.p.rapidapi.com/', {
+                method: 'POST',
+                headers: {
+                    // 'content-type' is automatically set by the browser for FormData
+                    'X-RapidAPI-Key': apiKey,
+                    'X-RapidAPI-Host': 'ai-remove-image-background.p.rapidapi.com',
+                },
+                body: formData,
+            });
+
+            if (!response.ok) {
+                throw await handleApiError(response);
             }
-            throw new Error(errorMessage);
-        }
-        
-        return URL.createObjectURL(imageBlob);
 
-    } catch (error) {
-        console.error("Error with AI background removal:", error);
-        if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-             throw new Error('A network error occurred. This could be a CORS issue, a problem with your network, or an ad blocker interfering. Please check your browser console for more details.');
+            const imageBlob = await response.blob();
+            if (!imageBlob.type.startsWith('image/')) {
+                const errorText = await imageBlob.text();
+                let errorMessage = "The API returned an unexpected non-image response. ";
+                try {
+                    const errorJson = JSON.parse(errorText);
+                    errorMessage += errorJson.message || errorJson.error || "No specific error message was provided.";
+                } catch(e) {
+                    errorMessage += `Details: ${errorText}`;
+                }
+                throw new Error(errorMessage);
+            }
+
+            return imageBlob;
+
+        } catch (error) {
+            console.error("Error with AI background removal:", error);
+            if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
+                 throw new Error('A network error occurred. This could be a CORS issue, a problem with your network, or an ad blocker interfering. Please check your browser console for more details.');
+            }
+            throw error;
         }
-        throw error;
-    }
+    },
 };
 
+// Runs in the browser from the strokes the user marks, no upload or key needed
+export const localBackgroundRemover: BackgroundRemover = {
+    id: 'local',
+    name: 'On-device',
+    description: 'Separates the subject by color from the areas you mark. Works offline and the image never leaves your device.',
+    requiresNetwork: false,
+    usesHints: true,
+    remove: async ({ file, foreground, background, tolerance, feather }) => {
+        const pixels = await decodeImage(file);
+        const mask = segmentForeground(pixels, { foreground, background, tolerance, feather });
+        return encodeImage(applyAlphaMask(pixels, mask), { format: 'png' });
+    },
+};
+
+export const BACKGROUND_REMOVERS: BackgroundRemover[] = [localBackgroundRemover, rapidApiBackgroundRemover];
 
-export const upscaleImageWithAI = async (imageFile: File): Promise<string> => {
-  const MAX_DIM = 1000;
-  let imageToSend: File | Blob = imageFile;
-
-  const imageUrl = URL.createObjectURL(imageFile);
-  const img = new Image();
-  
-  const resizePromise = new Promise<void>((resolve) => {
-    img.onload = () => {
-      URL.revokeObjectURL(imageUrl);
-      const { width, height } = img;
-      
-      if (width > MAX_DIM || height > MAX_DIM) {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          resolve();
-          return;
-        }
-        const aspectRatio = width / height;
-        if (width > height) {
-          canvas.width = MAX_DIM;
-          canvas.height = MAX_DIM / aspectRatio;
-        } else {
-          canvas.height = MAX_DIM;
-          canvas.width = MAX_DIM * aspectRatio;
-        }
-        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-        canvas.toBlob((blob) => {
-          if (blob) { imageToSend = blob; }
-          resolve();
-        }, imageFile.type, 0.95);
-      } else {
-        resolve();
-      }
-    };
-    img.onerror = () => { URL.revokeObjectURL(imageUrl); resolve(); }
-    img.src = imageUrl;
-  });
 
-  await resizePromise;
+// The upscaler API rejects or shrinks anything larger than this, so bigger images go up in tiles
+const UPSCALER_MAX_DIM = 1000;
+const UPSCALER_TILE_OVERLAP = 48;
+const UPSCALER_MAX_RETRIES = 4;
+// Larger results risk running the browser out of memory or past its canvas size limit
+const UPSCALER_MAX_OUTPUT_PIXELS = 50_000_000;
 
-  const formData = new FormData();
-  formData.append('image', imageToSend);
+export interface AIUpscaleOptions {
+    concurrency?: number; // Tiles in flight at once
+    onProgress?: (completed: number, total: number) => void;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// One request to the upscaler, retried with backoff while the API answers 429 (rate limited)
+const requestUpscale = async (image: Blob, apiKey: string): Promise<Blob> => {
+    for (let attempt = 0; ; attempt++) {
+        const formData = new FormData();
+        formData.append('image', image);
+        const response = await fetch('https://ai-picture-upscaler.p.rapidapi.com/upscaler/', {
+            method: 'POST',
+            headers: {
+                'x-rapidapi-host': 'ai-picture-upscaler.p.rapidapi.com',
+                'x-rapidapi-key': apiKey,
+            },
+            body: formData,
+        });
+        if (response.status === 429 && attempt < UPSCALER_MAX_RETRIES) {
+            const retryAfter = Number(response.headers.get('Retry-After'));
+            await sleep(retryAfter > 0 ? retryAfter * 1000 : 1000 * 2 ** attempt);
+            continue;
+        }
+        if (!response.ok) {
+            throw await handleApiError(response);
+        }
+        return response.blob();
+    }
+};
 
+// Upscales with the RapidAPI model. Images over the API's size limit are split into overlapping
+// tiles, upscaled `concurrency` at a time, and feather-blended back into one full-resolution image.
+export const upscaleImageWithAI = async (imageFile: File, { concurrency = 2, onProgress }: AIUpscaleOptions = {}): Promise<Blob> => {
   const apiKey = getUpscalerApiKey();
   if (!apiKey) {
       throw new Error("RapidAPI key for AI Picture Upscaler is not set. Please add a key in settings.");
   }
 
   try {
-    const response = await fetch('https://ai-picture-upscaler.p.rapidapi.com/upscaler/', {
-      method: 'POST',
-      headers: {
-        'x-rapidapi-host': 'ai-picture-upscaler.p.rapidapi.com',
-        'x-rapidapi-key': apiKey,
-      },
-      body: formData,
-    });
-    
-    if (!response.ok) {
-        throw await handleApiError(response);
+    const pixels = await decodeImage(imageFile);
+    if (pixels.width <= UPSCALER_MAX_DIM && pixels.height <= UPSCALER_MAX_DIM) {
+      onProgress?.(0, 1);
+      const result = await requestUpscale(imageFile, apiKey);
+      onProgress?.(1, 1);
+      return result;
     }
-    const imageBlob = await response.blob();
-    return URL.createObjectURL(imageBlob);
 
+    const tiles = overlappingTiles(pixels.width, pixels.height, UPSCALER_MAX_DIM, UPSCALER_TILE_OVERLAP);
+    let completed = 0;
+    onProgress?.(0, tiles.length);
+
+    const upscaleTile = async (rect: Rect): Promise<PixelBuffer> => {
+      const tile = await encodeImage(crop(pixels, rect), { format: 'png' });
+      const result = await decodeImage(await requestUpscale(tile, apiKey));
+      onProgress?.(++completed, tiles.length);
+      return result;
+    };
+
+    // The first tile tells us the model's scale factor, and whether the result will fit in memory
+    const first = await upscaleTile(tiles[0]);
+    const factor = first.width / tiles[0].width;
+    const width = Math.round(pixels.width * factor);
+    const height = Math.round(pixels.height * factor);
+    if (width * height > UPSCALER_MAX_OUTPUT_PIXELS) {
+      throw new Error(`The upscaled image (${width} × ${height}) would be too large to process in the browser. Try a smaller image.`);
+    }
+
+    const blender = createTileBlender(width, height, UPSCALER_TILE_OVERLAP * factor);
+    const addTile = (rect: Rect, image: PixelBuffer) => {
+      const scaled = { x: rect.x * factor, y: rect.y * factor, width: Math.round(rect.width * factor), height: Math.round(rect.height * factor) };
+      const fitted = image.width === scaled.width && image.height === scaled.height
+        ? image
+        : resize(image, { width: scaled.width, height: scaled.height, method: 'bicubic' });
+      blender.add(scaled, fitted);
+    };
+    addTile(tiles[0], first);
+
+    const pending = tiles.slice(1);
+    let failed = false;
+    const worker = async () => {
+      // Once one tile fails the whole upscale has, so stop spending requests on the rest
+      for (let rect = pending.shift(); rect && !failed; rect = pending.shift()) {
+        try {
+          addTile(rect, await upscaleTile(rect));
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, pending.length)) }, worker));
+
+    return encodeImage(blender.result(), { format: mimeTypeToFormat(imageFile.type), quality: 0.95 });
   } catch (error) {
       console.error("Error with AI Picture Upscaler:", error);
+      if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
+          throw new Error('A network error occurred. This could be a CORS issue, a problem with your network, or an ad blocker interfering. Please check your browser console for more details.');
+      }
       throw error;
   }
 };
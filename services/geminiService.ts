@@ -1,10 +1,12 @@
-import { GoogleGenAI, GenerateContentResponse, Type, Modality } from "@google/genai";
-import { fileToBase64 } from "../utils/imageUtils";
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import type { AIProvider } from "./aiProvider";
 
 // Initialize the GoogleGenAI client with the API key from environment variables.
 // The API key must be obtained exclusively from process.env.API_KEY.
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
+const IMAGE_MODEL = 'imagen-4.0-generate-001';
+
 // Handle API errors consistently.
 const handleGeminiApiError = (error: any): Error => {
   console.error("Gemini API Error:", error);
@@ -13,126 +15,67 @@ const handleGeminiApiError = (error: any): Error => {
   return new Error(`Gemini API Error: ${message}`);
 };
 
-interface MemeCaptionResponse {
-  topText: string;
-  bottomText: string;
-}
-
-export const generateMemeCaption = async ({
-  base64Image,
-  mimeType,
-}: {
-  base64Image: string;
-  mimeType: string;
-}): Promise<MemeCaptionResponse> => {
-  try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: "gemini-2.5-flash-image",
-      contents: {
-        parts: [
-          { text: "Generate a top text and a bottom text for this meme image. Return the response as a JSON object with 'topText' and 'bottomText' properties." },
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Image,
-            },
-          },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            topText: { type: Type.STRING },
-            bottomText: { type: Type.STRING },
-          },
-          required: ["topText", "bottomText"],
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  models: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'],
+  requiresApiKey: false,
+  supportsVision: true,
+  generateText: async ({ prompt, systemInstruction, images, responseSchema, temperature }, { model }) => {
+    try {
+      const response: GenerateContentResponse = await ai.models.generateContent({
+        model,
+        contents: images?.length
+          ? { parts: [{ text: prompt }, ...images.map(({ base64, mimeType }) => ({ inlineData: { mimeType, data: base64 } }))] }
+          : prompt,
+        config: {
+          systemInstruction,
+          temperature,
+          ...(responseSchema ? { responseMimeType: "application/json", responseJsonSchema: responseSchema } : {}),
         },
-      },
-    });
-
-    const jsonStr = response.text.trim();
-    return JSON.parse(jsonStr) as MemeCaptionResponse;
-  } catch (error) {
-    throw handleGeminiApiError(error);
-  }
-};
-
-export const generateText = async (prompt: string): Promise<string> => {
-  try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: "gemini-2.5-flash", // Using 'gemini-2.5-flash' for basic text tasks
-      contents: prompt,
-    });
-    return response.text;
-  } catch (error) {
-    throw handleGeminiApiError(error);
-  }
-};
-
-export const describeHtmlContent = async (htmlContent: string): Promise<string> => {
-  try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Describe the following HTML content in a concise and clear manner, focusing on its purpose and key elements:\n\n${htmlContent}`,
-      config: {
-        systemInstruction: "You are an AI assistant that analyzes and describes HTML content concisely.",
-      },
-    });
-    return response.text;
-  } catch (error) {
-    throw handleGeminiApiError(error);
-  }
-};
-
-// FIX: Updated generateImageFromDescription to accept optional width and height,
-// and to calculate the closest supported aspectRatio for the image generation model.
-export const generateImageFromDescription = async (
-  description: string,
-  width?: number, // Optional width
-  height?: number, // Optional height
-): Promise<string> => {
-  try {
-    let aspectRatio: '1:1' | '3:4' | '4:3' | '9:16' | '16:9' | undefined = '1:1'; // Default to 1:1
-
-    if (width && height && width > 0 && height > 0) {
-      const ratio = width / height;
-      const aspectRatios = [
-        { ratio: 16 / 9, value: '16:9' },
-        { ratio: 9 / 16, value: '9:16' },
-        { ratio: 4 / 3, value: '4:3' },
-        { ratio: 3 / 4, value: '3:4' },
-        { ratio: 1 / 1, value: '1:1' },
-      ];
-
-      // Find the closest aspect ratio
-      let minDiff = Infinity;
-      let closestRatio = '1:1';
-
-      for (const ar of aspectRatios) {
-        const diff = Math.abs(ratio - ar.ratio);
-        if (diff < minDiff) {
-          minDiff = diff;
-          closestRatio = ar.value;
+      });
+      return response.text ?? '';
+    } catch (error) {
+      throw handleGeminiApiError(error);
+    }
+  },
+  streamChat: async ({ messages, systemInstruction, temperature }, { model }, { onText, signal }) => {
+    try {
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: messages.map(({ role, content }) => ({ role: role === 'assistant' ? 'model' : 'user', parts: [{ text: content }] })),
+        config: { systemInstruction, temperature, abortSignal: signal },
+      });
+      let text = '';
+      for await (const chunk of stream) {
+        if (chunk.text) {
+          text += chunk.text;
+          onText(chunk.text);
         }
       }
-      aspectRatio = closestRatio as typeof aspectRatio;
+      return text;
+    } catch (error: any) {
+      // Aborting is the user's choice, not an API failure
+      if (signal?.aborted) throw error;
+      throw handleGeminiApiError(error);
     }
-
-    const response = await ai.models.generateImages({
-      model: 'imagen-4.0-generate-001', // Using 'imagen-4.0-generate-001' for high-quality image generation
-      prompt: description,
-      config: {
-        numberOfImages: 1,
-        outputMimeType: 'image/jpeg',
-        aspectRatio: aspectRatio, // Use the calculated aspect ratio
-      },
-    });
-
-    const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-    return `data:image/jpeg;base64,${base64ImageBytes}`;
-  } catch (error) {
-    throw handleGeminiApiError(error);
-  }
-};
\ No newline at end of file
+  },
+  generateImage: async ({ prompt, aspectRatio = '1:1' }) => {
+    try {
+      const response = await ai.models.generateImages({
+        model: IMAGE_MODEL,
+        prompt,
+        config: {
+          numberOfImages: 1,
+          outputMimeType: 'image/jpeg',
+          aspectRatio,
+        },
+      });
+      const base64ImageBytes = response.generatedImages?.[0]?.image?.imageBytes;
+      if (!base64ImageBytes) throw new Error("No image was returned.");
+      return `data:image/jpeg;base64,${base64ImageBytes}`;
+    } catch (error) {
+      throw handleGeminiApiError(error);
+    }
+  },
+};
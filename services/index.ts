@@ -1,2 +1,6 @@
-// Re-exporting functions from the geminiService module.
-export { generateMemeCaption, generateText, describeHtmlContent, generateImageFromDescription } from './geminiService';
\ No newline at end of file
+// Re-exporting the AI functions, which route to the provider selected in settings.
+export { generateMemeCaption, describeImage, generateText, streamChat, describeHtmlContent, generateImageFromDescription, AI_PROVIDERS, getAIProvider } from './aiService';
+export { DEFAULT_LOCAL_BASE_URL } from './localProvider';
+export { isRateLimitError } from './aiProvider';
+export type { AIProvider, AIProviderId, ChatMessage } from './aiProvider';
+export type { ImageDescription } from './aiService';
@@ -0,0 +1,38 @@
+import { openAICompatibleChat, openAICompatibleChatStream } from './openai';
+import type { AIProvider } from './aiProvider';
+
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+const endpointUrl = (baseUrl?: string) => (baseUrl || DEFAULT_LOCAL_BASE_URL).replace(/\/+$/, '');
+
+// A server that isn't running, or that rejects the page's origin, fails as a bare TypeError
+const explainUnreachable = async <T>(url: string, request: Promise<T>): Promise<T> => {
+  try {
+    return await request;
+  } catch (error) {
+    if (error instanceof TypeError) {
+      throw new Error(`Could not reach ${url}. Check that the server is running and allows requests from this page (for Ollama, set OLLAMA_ORIGINS).`);
+    }
+    throw error;
+  }
+};
+
+// Any server that speaks the OpenAI Chat Completions API: Ollama, llama.cpp server, LM Studio, vLLM...
+// Requests never leave the machine (or network) the server runs on, and the key is optional.
+export const localProvider: AIProvider = {
+  id: 'local',
+  name: 'Local (OpenAI-compatible)',
+  models: ['llama3.2', 'qwen2.5', 'gemma3', 'mistral'],
+  requiresApiKey: false,
+  customEndpoint: true,
+  supportsVision: true,
+  generateText: (request, { apiKey, model, baseUrl, visionModel }) => {
+    const url = endpointUrl(baseUrl);
+    const useVision = !!request.images?.length && !!visionModel;
+    return explainUnreachable(url, openAICompatibleChat('Local endpoint', url, request, { apiKey, model: useVision ? visionModel! : model }));
+  },
+  streamChat: (request, { apiKey, model, baseUrl }, options) => {
+    const url = endpointUrl(baseUrl);
+    return explainUnreachable(url, openAICompatibleChatStream('Local endpoint', url, request, { apiKey, model }, options));
+  },
+};
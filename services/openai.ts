@@ -1 +1,130 @@
-// This file is a placeholder for a potential OpenAI service integration.
+import { providerHttpError, readServerSentEvents } from './aiProvider';
+import type { AIProvider, AIProviderConfig, AspectRatio, ChatRequest, StreamOptions, TextRequest } from './aiProvider';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const IMAGE_MODEL = 'gpt-image-1';
+
+// gpt-image-1 only renders these sizes, so other aspect ratios use the closest one
+const IMAGE_SIZES: Record<AspectRatio, string> = {
+  '1:1': '1024x1024',
+  '3:4': '1024x1536',
+  '9:16': '1024x1536',
+  '4:3': '1536x1024',
+  '16:9': '1536x1024',
+};
+
+// Chat Completions request, shared by every service that speaks the OpenAI wire format.
+// Services without `json_schema` support (`strictSchema: false`) get JSON mode plus the schema in the
+// system prompt instead.
+export const openAICompatibleChat = async (
+  providerName: string,
+  baseUrl: string,
+  { prompt, systemInstruction, images, responseSchema, temperature }: TextRequest,
+  { apiKey, model }: AIProviderConfig,
+  { strictSchema = true }: { strictSchema?: boolean } = {},
+): Promise<string> => {
+  if (responseSchema && !strictSchema) {
+    const schemaInstruction = `Respond only with a JSON value matching this JSON Schema:\n${JSON.stringify(responseSchema)}`;
+    systemInstruction = systemInstruction ? `${systemInstruction}\n\n${schemaInstruction}` : schemaInstruction;
+  }
+  const responseFormat = !responseSchema
+    ? undefined
+    : strictSchema
+      ? { type: 'json_schema', json_schema: { name: 'response', schema: responseSchema } }
+      : { type: 'json_object' };
+
+  const content = images?.length
+    ? [
+        { type: 'text', text: prompt },
+        ...images.map(({ base64, mimeType }) => ({ type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64}` } })),
+      ]
+    : prompt;
+  const messages = [
+    ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+    { role: 'user', content },
+  ];
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model,
+      messages,
+      temperature,
+      response_format: responseFormat,
+    }),
+  });
+  if (!response.ok) {
+    throw await providerHttpError(providerName, response);
+  }
+  const json = await response.json();
+  return json.choices?.[0]?.message?.content ?? '';
+};
+
+// Streaming Chat Completions, for the same services
+export const openAICompatibleChatStream = async (
+  providerName: string,
+  baseUrl: string,
+  { messages, systemInstruction, temperature }: ChatRequest,
+  { apiKey, model }: AIProviderConfig,
+  { onText, signal }: StreamOptions,
+): Promise<string> => {
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model,
+      messages: [...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []), ...messages],
+      temperature,
+      stream: true,
+    }),
+    signal,
+  });
+  if (!response.ok) {
+    throw await providerHttpError(providerName, response);
+  }
+  let text = '';
+  await readServerSentEvents(response, (data) => {
+    if (data === '[DONE]') return;
+    const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      onText(delta);
+    }
+  });
+  return text;
+};
+
+export const openAIProvider: AIProvider = {
+  id: 'openai',
+  name: 'OpenAI',
+  models: ['gpt-4.1-mini', 'gpt-4.1', 'gpt-4o', 'gpt-4o-mini'],
+  requiresApiKey: true,
+  apiKeyUrl: 'https://platform.openai.com/api-keys',
+  supportsVision: true,
+  generateText: (request, config) => openAICompatibleChat('OpenAI', OPENAI_BASE_URL, request, config),
+  streamChat: (request, config, options) => openAICompatibleChatStream('OpenAI', OPENAI_BASE_URL, request, config, options),
+  generateImage: async ({ prompt, aspectRatio = '1:1' }, { apiKey }) => {
+    const response = await fetch(`${OPENAI_BASE_URL}/images/generations`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({ model: IMAGE_MODEL, prompt, size: IMAGE_SIZES[aspectRatio], n: 1 }),
+    });
+    if (!response.ok) {
+      throw await providerHttpError('OpenAI', response);
+    }
+    const json = await response.json();
+    const base64 = json.data?.[0]?.b64_json;
+    if (!base64) throw new Error('OpenAI API Error: No image was returned.');
+    return `data:image/png;base64,${base64}`;
+  },
+};
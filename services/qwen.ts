@@ -1 +1,17 @@
-// This file is a placeholder for a potential Qwen service integration.
+import { openAICompatibleChat, openAICompatibleChatStream } from './openai';
+import type { AIProvider } from './aiProvider';
+
+// Alibaba Cloud Model Studio (DashScope), through its OpenAI-compatible endpoint
+const QWEN_BASE_URL = 'https://dashscope-intl.aliyuncs.com/compatible-mode/v1';
+
+export const qwenProvider: AIProvider = {
+  id: 'qwen',
+  name: 'Qwen',
+  models: ['qwen-plus', 'qwen-max', 'qwen-turbo', 'qwen-vl-max', 'qwen-vl-plus'],
+  requiresApiKey: true,
+  apiKeyUrl: 'https://modelstudio.console.alibabacloud.com/',
+  // Only the qwen-vl models accept images
+  supportsVision: true,
+  generateText: (request, config) => openAICompatibleChat('Qwen', QWEN_BASE_URL, request, config, { strictSchema: false }),
+  streamChat: (request, config, options) => openAICompatibleChatStream('Qwen', QWEN_BASE_URL, request, config, options),
+};
@@ -2,6 +2,7 @@ import type React from 'react';
 
 export interface Tool {
   name: string;
+  slug: string; // Stable URL identifier, used for deep links (#/<slug>)
   icon: React.ReactNode;
   component: React.FC;
   description: string;
@@ -11,6 +12,7 @@ export interface Tool {
 export interface FileWithPreview extends File {
   preview: string;
   id: string;
-  width?: number; // Store natural width
-  height?: number; // Store natural height
+  width?: number; // Displayed width, after EXIF orientation
+  height?: number; // Displayed height, after EXIF orientation
+  orientation?: number; // EXIF orientation stored in the original file (1 = upright)
 }
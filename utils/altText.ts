@@ -0,0 +1,146 @@
+import { decodeImage, detectContainer, EXIF_TAGS, encodeImage, fitWithin, readMetadata, resize, setExifText, setXmpDescription, writeMetadata } from '../core';
+import { describeImage, isRateLimitError } from '../services';
+import type { ImageDescription } from '../services';
+import { fileToBase64 } from './imageUtils';
+import type { BatchItemState } from './imageBatch';
+
+// Vision models see a few hundred pixels at most, so large photos are scaled down before upload
+const VISION_MAX_DIM = 1024;
+const MAX_RETRIES = 4;
+const RETRY_BASE_DELAY_MS = 5000;
+
+export interface DescribeJob {
+  id: string;
+  file: Blob;
+}
+
+export interface DescribeBatchOptions {
+  context?: string;
+  concurrency?: number;
+  requestsPerMinute?: number; // Spaces out request starts to stay under the provider's quota
+  signal?: AbortSignal;
+  onItemUpdate?: (id: string, state: BatchItemState) => void;
+  onResult?: (id: string, description: ImageDescription) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Hands out request slots at most `requestsPerMinute` apart, in the order they were asked for
+const createRateLimiter = (requestsPerMinute: number) => {
+  const interval = 60000 / Math.max(1, requestsPerMinute);
+  let nextSlot = 0;
+  return (signal?: AbortSignal) => {
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot);
+    nextSlot = slot + interval;
+    return sleep(slot - now, signal);
+  };
+};
+
+const prepareForVision = async (file: Blob): Promise<{ base64Image: string; mimeType: string }> => {
+  const pixels = await decodeImage(file);
+  const target = fitWithin(pixels.width, pixels.height, VISION_MAX_DIM, VISION_MAX_DIM);
+  const scaled = target.width < pixels.width || target.height < pixels.height ? resize(pixels, { ...target, method: 'bicubic' }) : pixels;
+  return { base64Image: await fileToBase64(await encodeImage(scaled, { format: 'jpeg', quality: 0.85 })), mimeType: 'image/jpeg' };
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Describes each image with the selected AI provider, `concurrency` at a time. Rate-limit errors are
+// retried with exponential backoff; other failures mark the item and the batch moves on.
+// Aborting cancels queued items; requests already sent still report their result.
+export const runDescribeBatch = async (jobs: DescribeJob[], options: DescribeBatchOptions = {}): Promise<void> => {
+  const { context, signal, onItemUpdate, onResult } = options;
+  const concurrency = Math.max(1, Math.min(options.concurrency ?? 2, jobs.length));
+  const waitForSlot = createRateLimiter(options.requestsPerMinute ?? 10);
+  const pending = [...jobs];
+
+  jobs.forEach(job => onItemUpdate?.(job.id, { status: 'queued', progress: 0 }));
+
+  const describe = async (job: DescribeJob) => {
+    onItemUpdate?.(job.id, { status: 'processing', progress: 0.1 });
+    const image = await prepareForVision(job.file);
+    for (let attempt = 0; ; attempt++) {
+      await waitForSlot(signal);
+      onItemUpdate?.(job.id, { status: 'processing', progress: 0.5 });
+      try {
+        return await describeImage({ ...image, context });
+      } catch (error) {
+        if (!isRateLimitError(error) || attempt >= MAX_RETRIES) throw error;
+        onItemUpdate?.(job.id, { status: 'queued', progress: 0.3 });
+        await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt, signal);
+      }
+    }
+  };
+
+  const worker = async () => {
+    for (let job = pending.shift(); job; job = pending.shift()) {
+      if (signal?.aborted) {
+        onItemUpdate?.(job.id, { status: 'cancelled', progress: 0 });
+        continue;
+      }
+      try {
+        onResult?.(job.id, await describe(job));
+        onItemUpdate?.(job.id, { status: 'done', progress: 1 });
+      } catch (error) {
+        onItemUpdate?.(job.id, signal?.aborted ? { status: 'cancelled', progress: 0 } : { status: 'error', progress: 0, error: errorMessage(error) });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, worker));
+};
+
+// --- Export ---
+
+export interface DescribedImage extends ImageDescription {
+  filename: string;
+}
+
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// With a byte order mark, so spreadsheet apps read the file as UTF-8
+export const descriptionsToCsv = (rows: DescribedImage[]): string =>
+  '\uFEFF' + [
+    ['filename', 'alt_text', 'caption', 'keywords'],
+    ...rows.map(row => [row.filename, row.altText, row.caption, row.keywords.join('; ')]),
+  ].map(fields => fields.map(csvField).join(',')).join('\r\n');
+
+export const descriptionsToJson = (rows: DescribedImage[]): string =>
+  JSON.stringify(rows.map(({ filename, altText, caption, keywords }) => ({ filename, altText, caption, keywords })), null, 2);
+
+// --- Embedding ---
+
+// Writes the description into the file's EXIF ImageDescription and XMP, keeping all other metadata.
+// `descriptionField` picks which text becomes the description; the alt text always goes into IPTC's
+// alt text field. Resolves with null for formats that can't carry metadata here (only JPEG and PNG can).
+export const embedDescription = async (
+  file: Blob,
+  description: ImageDescription,
+  descriptionField: 'altText' | 'caption',
+): Promise<Blob | null> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!detectContainer(bytes)) return null;
+
+  const metadata = await readMetadata(bytes);
+  const text = description[descriptionField];
+  const exif = metadata.exif ?? { littleEndian: false, entries: [] };
+  const updated = {
+    ...metadata,
+    exif: text ? setExifText(exif, 'ifd0', EXIF_TAGS.ImageDescription, text) : metadata.exif,
+    xmp: setXmpDescription(metadata.xmp, { description: text, altText: description.altText, keywords: description.keywords }),
+  };
+  return new Blob([await writeMetadata(bytes, updated)], { type: file.type });
+};
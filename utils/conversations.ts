@@ -0,0 +1,76 @@
+import type { ChatMessage } from '../services';
+
+export interface Conversation {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  // Set from a prompt template when the chat starts, and kept for its follow-ups
+  systemInstruction?: string;
+  temperature?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// IndexedDB rather than localStorage: long chats outgrow its few megabytes quickly
+const DB_NAME = 'image-toolbox';
+const DB_VERSION = 1;
+const STORE = 'conversations';
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE)) {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs one request in its own transaction and resolves once that transaction has committed
+const runInStore = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = operation(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Most recently updated first
+export const listConversations = async (): Promise<Conversation[]> => {
+  const conversations = await runInStore<Conversation[]>('readonly', store => store.getAll());
+  return conversations.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveConversation = async (conversation: Conversation): Promise<void> => {
+  await runInStore('readwrite', store => store.put(conversation));
+};
+
+export const deleteConversation = async (id: string): Promise<void> => {
+  await runInStore('readwrite', store => store.delete(id));
+};
+
+// A short title from the first message, on one line
+export const titleFromPrompt = (prompt: string, maxLength = 60): string => {
+  const line = prompt.trim().replace(/\s+/g, ' ');
+  return line.length > maxLength ? `${line.slice(0, maxLength - 1).trimEnd()}…` : line || 'New chat';
+};
+
+export const conversationToMarkdown = (conversation: Conversation): string => {
+  const lines = [`# ${conversation.title}`, '', `_${new Date(conversation.createdAt).toLocaleString()}_`, ''];
+  if (conversation.systemInstruction) {
+    lines.push(`> **System instruction:** ${conversation.systemInstruction.trim().replace(/\n+/g, ' ')}`, '');
+  }
+  for (const message of conversation.messages) {
+    lines.push(message.role === 'user' ? '## You' : '## Assistant', '', message.content.trim(), '');
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,27 @@
+import { decodeImage, extractAlphaMask, fitWithin, resize, resizeAlphaMask } from '../core';
+import type { AlphaMask, PixelBuffer } from '../core';
+
+export interface LoadedCutout {
+  original: PixelBuffer;
+  mask: AlphaMask; // At the original's size
+  previewOriginal: PixelBuffer;
+  previewMask: AlphaMask;
+  scale: number; // Preview size over original size
+}
+
+// Pairs a background remover's result with the original photo. Only the result's alpha channel is
+// used, so edits and exports always work from the original's full-resolution pixels, even when a
+// remote remover returned a smaller image.
+export const loadCutout = async (original: Blob, cutout: Blob, previewMaxSize: number): Promise<LoadedCutout> => {
+  const [pixels, result] = await Promise.all([decodeImage(original), decodeImage(cutout)]);
+  const mask = resizeAlphaMask(extractAlphaMask(result), pixels.width, pixels.height);
+  const size = fitWithin(pixels.width, pixels.height, previewMaxSize, previewMaxSize);
+  const previewOriginal = size.width < pixels.width ? resize(pixels, { ...size, method: 'bilinear' }) : pixels;
+  return {
+    original: pixels,
+    mask,
+    previewOriginal,
+    previewMask: resizeAlphaMask(mask, previewOriginal.width, previewOriginal.height),
+    scale: previewOriginal.width / pixels.width,
+  };
+};
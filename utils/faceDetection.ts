@@ -0,0 +1,65 @@
+import { fitWithin, resize } from '../core';
+import type { PixelBuffer, Rect } from '../core';
+
+// The Shape Detection API's FaceDetector runs entirely on-device. It ships in Chrome on
+// Android, macOS and ChromeOS (elsewhere behind chrome://flags/#enable-experimental-web-platform-features)
+// and isn't part of lib.dom, so the small part we use is typed here.
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+}
+
+interface FaceDetectorInstance {
+  detect(image: ImageBitmapSource): Promise<DetectedFace[]>;
+}
+
+type FaceDetectorConstructor = new (options?: { maxDetectedFaces?: number; fastMode?: boolean }) => FaceDetectorInstance;
+
+export interface FaceDetectionOptions {
+  maxFaces?: number;
+  padding?: number; // Fraction of the box size added on every side, detector boxes are tight around the features
+}
+
+// Detection is no more accurate on huge photos, only slower
+const MAX_DETECTION_SIZE = 1920;
+
+const getFaceDetector = (): FaceDetectorConstructor | undefined =>
+  (globalThis as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+
+export const isFaceDetectionSupported = (): boolean => getFaceDetector() !== undefined;
+
+export const detectFaces = async (pixels: PixelBuffer, { maxFaces = 50, padding = 0.2 }: FaceDetectionOptions = {}): Promise<Rect[]> => {
+  const Detector = getFaceDetector();
+  if (!Detector) {
+    throw new Error('Automatic face detection is not available in this browser. Draw boxes over the faces instead.');
+  }
+
+  const target = fitWithin(pixels.width, pixels.height, MAX_DETECTION_SIZE, MAX_DETECTION_SIZE);
+  const scaled = target.width < pixels.width ? resize(pixels, { ...target, method: 'bilinear' }) : pixels;
+  const scale = pixels.width / scaled.width;
+  const imageData = scaled instanceof ImageData ? scaled : new ImageData(new Uint8ClampedArray(scaled.data), scaled.width, scaled.height);
+  const bitmap = await createImageBitmap(imageData);
+
+  let faces: DetectedFace[];
+  try {
+    faces = await new Detector({ maxDetectedFaces: maxFaces, fastMode: false }).detect(bitmap);
+  } catch (error) {
+    // Some platforms expose the constructor without a working backend
+    console.error('Face detection failed', error);
+    throw new Error('Face detection is not supported on this device. Draw boxes over the faces instead.');
+  } finally {
+    bitmap.close();
+  }
+
+  return faces.map(({ boundingBox: box }) => {
+    const padX = box.width * padding;
+    const padY = box.height * padding;
+    const x = Math.max(0, (box.x - padX) * scale);
+    const y = Math.max(0, (box.y - padY) * scale);
+    return {
+      x,
+      y,
+      width: Math.min(pixels.width, (box.x + box.width + padX) * scale) - x,
+      height: Math.min(pixels.height, (box.y + box.height + padY) * scale) - y,
+    };
+  });
+};
@@ -0,0 +1,280 @@
+import { decodeImageWithMetadata, embedMetadata, encodeImage, resize } from '../core';
+import type { EncodeOptions, ImageMetadata, MetadataPolicy, OutputFormat, PixelBuffer } from '../core';
+
+// --- Batch job definitions ---
+
+export interface BatchJob {
+  id: string;
+  file: Blob;
+  format: OutputFormat;
+  quality?: number; // 0.0 to 1.0, ignored for PNG and GIF
+  dither?: boolean; // GIF only
+  resize?: { width: number; height: number };
+  // Search for the highest quality (and, if allowed, the largest size) that encodes within maxBytes.
+  // `quality` then acts as the upper bound of the search.
+  targetSize?: { maxBytes: number; allowDownscale: boolean };
+  metadata?: MetadataPolicy; // Defaults to 'strip'
+}
+
+export interface BatchJobResult {
+  id: string;
+  blob: Blob;
+  width: number;
+  height: number;
+  quality?: number; // The quality used for the encoded blob, when the format has one
+  metTarget?: boolean; // Only set for targetSize jobs
+}
+
+export type BatchItemStatus = 'queued' | 'processing' | 'done' | 'error' | 'cancelled';
+
+export interface BatchItemState {
+  status: BatchItemStatus;
+  progress: number; // 0 to 1
+  error?: string;
+}
+
+// Messages exchanged with workers/imageBatch.worker.ts
+export type BatchWorkerRequest = { type: 'run'; job: BatchJob };
+export type BatchWorkerResponse =
+  | { type: 'progress'; id: string; progress: number }
+  | { type: 'done'; result: BatchJobResult }
+  | { type: 'error'; id: string; message: string };
+
+// --- Target file size search ---
+
+const MIN_TARGET_QUALITY = 0.1;
+const QUALITY_SEARCH_STEPS = 7; // Narrows the quality range to under 1%
+const MAX_DOWNSCALE_ATTEMPTS = 8;
+const MIN_TARGET_DIMENSION = 16;
+
+interface EncodedCandidate {
+  blob: Blob;
+  width: number;
+  height: number;
+  quality?: number;
+}
+
+// PNG and GIF are lossless, so there is no quality to trade
+const hasQuality = (format: OutputFormat) => format !== 'png' && format !== 'gif';
+
+// Encodes and embeds the kept metadata, so size checks include it
+const encodeCandidate = async (pixels: PixelBuffer, encoding: EncodeOptions, metadata: ImageMetadata | null): Promise<EncodedCandidate> => {
+  const size = { width: pixels.width, height: pixels.height };
+  let blob = await encodeImage(pixels, encoding);
+  if (metadata) blob = await embedMetadata(blob, metadata, size);
+  return { blob, ...size, quality: encoding.quality };
+};
+
+// Binary-searches the highest quality whose encoding fits maxBytes. Returns the smallest
+// encoding tried when even the lowest quality is too large.
+const encodeWithinBytes = async (
+  pixels: PixelBuffer,
+  encoding: Omit<EncodeOptions, 'quality'>,
+  maxQuality: number,
+  maxBytes: number,
+  metadata: ImageMetadata | null,
+): Promise<EncodedCandidate> => {
+  const encode = (quality?: number) => encodeCandidate(pixels, { ...encoding, quality }, metadata);
+
+  if (!hasQuality(encoding.format)) return encode();
+
+  const best = await encode(maxQuality);
+  if (best.blob.size <= maxBytes) return best;
+
+  const floor = await encode(MIN_TARGET_QUALITY);
+  if (floor.blob.size > maxBytes) return floor;
+
+  let fits = floor;
+  let low = MIN_TARGET_QUALITY;
+  let high = maxQuality;
+  for (let step = 0; step < QUALITY_SEARCH_STEPS; step++) {
+    const quality = Math.round(((low + high) / 2) * 100) / 100;
+    if (quality <= low || quality >= high) break;
+    const candidate = await encode(quality);
+    if (candidate.blob.size <= maxBytes) {
+      fits = candidate;
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+  return fits;
+};
+
+const encodeToTargetSize = async (
+  pixels: PixelBuffer,
+  job: BatchJob & { targetSize: NonNullable<BatchJob['targetSize']> },
+  metadata: ImageMetadata | null,
+  onProgress: (progress: number) => void,
+): Promise<BatchJobResult> => {
+  const { maxBytes, allowDownscale } = job.targetSize;
+  const maxQuality = job.quality ?? 0.92;
+  const encoding = { format: job.format, dither: job.dither };
+
+  let candidate = await encodeWithinBytes(pixels, encoding, maxQuality, maxBytes, metadata);
+  let attempts = 0;
+  while (candidate.blob.size > maxBytes && allowDownscale && attempts < MAX_DOWNSCALE_ATTEMPTS) {
+    // File size scales roughly with pixel count; undershoot a little so fewer rounds are needed
+    const scale = Math.min(0.9, Math.sqrt(maxBytes / candidate.blob.size) * 0.95);
+    const width = Math.round(candidate.width * scale);
+    const height = Math.round(candidate.height * scale);
+    if (width < MIN_TARGET_DIMENSION || height < MIN_TARGET_DIMENSION) break;
+
+    attempts++;
+    onProgress(0.5 + (attempts / MAX_DOWNSCALE_ATTEMPTS) * 0.5);
+    const scaled = resize(pixels, { width, height, method: 'bicubic' });
+    candidate = await encodeWithinBytes(scaled, encoding, maxQuality, maxBytes, metadata);
+  }
+
+  return { id: job.id, ...candidate, metTarget: candidate.blob.size <= maxBytes };
+};
+
+// Decode -> (resize) -> encode. Runs inside a worker, or on the main thread as a fallback.
+export const processBatchJob = async (job: BatchJob, onProgress: (progress: number) => void): Promise<BatchJobResult> => {
+  const { pixels, metadata } = await decodeImageWithMetadata(job.file, job.format, job.metadata ?? 'strip');
+  onProgress(0.4);
+
+  let output = pixels;
+  if (job.resize && (job.resize.width !== pixels.width || job.resize.height !== pixels.height)) {
+    output = resize(pixels, { ...job.resize, method: 'bicubic' });
+  }
+  onProgress(0.5);
+
+  if (job.targetSize) {
+    return encodeToTargetSize(output, { ...job, targetSize: job.targetSize }, metadata, onProgress);
+  }
+
+  const quality = hasQuality(job.format) ? job.quality : undefined;
+  return { id: job.id, ...(await encodeCandidate(output, { format: job.format, quality, dither: job.dither }, metadata)) };
+};
+
+// --- Worker pool ---
+
+export const DEFAULT_BATCH_CONCURRENCY = Math.max(1, Math.min(4, (typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2) - 1));
+
+export interface RunBatchOptions {
+  concurrency?: number;
+  signal?: AbortSignal;
+  onItemUpdate?: (id: string, state: BatchItemState) => void;
+}
+
+const supportsWorkers = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+const createWorker = () => new Worker(new URL('../workers/imageBatch.worker.ts', import.meta.url), { type: 'module' });
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Processes jobs with at most `concurrency` running at once. Resolves with the results that completed;
+// aborting terminates running workers and marks every unfinished job as cancelled.
+export const runImageBatch = (jobs: BatchJob[], options: RunBatchOptions = {}): Promise<BatchJobResult[]> => {
+  const { signal, onItemUpdate } = options;
+  const useWorkers = supportsWorkers();
+  // Without workers everything shares the main thread, so running in parallel gains nothing
+  const concurrency = useWorkers ? Math.max(1, Math.min(options.concurrency ?? DEFAULT_BATCH_CONCURRENCY, jobs.length)) : 1;
+
+  const results: BatchJobResult[] = [];
+  const pending = [...jobs];
+  const unfinished = new Set(jobs.map(job => job.id));
+  const workers: Worker[] = [];
+
+  jobs.forEach(job => onItemUpdate?.(job.id, { status: 'queued', progress: 0 }));
+
+  return new Promise(resolve => {
+    let settled = false;
+    let running = 0;
+
+    const finish = () => {
+      if (settled) return;
+      settled = true;
+      workers.forEach(worker => worker.terminate());
+      signal?.removeEventListener('abort', handleAbort);
+      // Keep the caller's ordering, not completion order
+      const order = new Map(jobs.map((job, index) => [job.id, index]));
+      resolve(results.sort((a, b) => order.get(a.id)! - order.get(b.id)!));
+    };
+
+    const complete = (id: string, outcome: { result: BatchJobResult } | { error: string }) => {
+      if (settled || !unfinished.delete(id)) return;
+      if ('result' in outcome) {
+        results.push(outcome.result);
+        onItemUpdate?.(id, { status: 'done', progress: 1 });
+      } else {
+        onItemUpdate?.(id, { status: 'error', progress: 1, error: outcome.error });
+      }
+    };
+
+    function handleAbort() {
+      unfinished.forEach(id => onItemUpdate?.(id, { status: 'cancelled', progress: 0 }));
+      unfinished.clear();
+      finish();
+    }
+
+    if (signal?.aborted) {
+      handleAbort();
+      return;
+    }
+    signal?.addEventListener('abort', handleAbort);
+
+    const runOnMainThread = async () => {
+      for (let job = pending.shift(); job && !settled; job = pending.shift()) {
+        const id = job.id;
+        onItemUpdate?.(id, { status: 'processing', progress: 0 });
+        try {
+          const result = await processBatchJob(job, progress => {
+            if (!settled) onItemUpdate?.(id, { status: 'processing', progress });
+          });
+          complete(id, { result });
+        } catch (error) {
+          complete(id, { error: errorMessage(error) });
+        }
+      }
+      finish();
+    };
+
+    const dispatch = (worker: Worker) => {
+      const job = pending.shift();
+      if (!job) {
+        if (running === 0) finish();
+        return;
+      }
+      running++;
+      onItemUpdate?.(job.id, { status: 'processing', progress: 0 });
+
+      worker.onmessage = (event: MessageEvent<BatchWorkerResponse>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          if (!settled) onItemUpdate?.(message.id, { status: 'processing', progress: message.progress });
+          return;
+        }
+        if (message.type === 'done') {
+          complete(message.result.id, { result: message.result });
+        } else {
+          complete(message.id, { error: message.message });
+        }
+        running--;
+        dispatch(worker);
+      };
+      worker.onerror = (event) => {
+        event.preventDefault();
+        complete(job.id, { error: event.message || 'Worker failed to process the image.' });
+        running--;
+        dispatch(worker);
+      };
+      const request: BatchWorkerRequest = { type: 'run', job };
+      worker.postMessage(request);
+    };
+
+    if (jobs.length === 0) {
+      finish();
+    } else if (!useWorkers) {
+      runOnMainThread();
+    } else {
+      for (let i = 0; i < concurrency; i++) {
+        const worker = createWorker();
+        workers.push(worker);
+        dispatch(worker);
+      }
+    }
+  });
+};
@@ -1,6 +1,5 @@
-
-
-export const fileToBase64 = (file: File): Promise<string> => {
+import { decodeImageWithOrientation, encodeImage, getImageSize, readOrientation, resize } from '../core';
+export const fileToBase64 = (file: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
@@ -17,91 +16,68 @@ export const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
-export const fileToDataURL = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      if (typeof reader.result === 'string') {
-        resolve(reader.result);
-      } else {
-        reject(new Error("Failed to read file as Data URL."));
-      }
-    };
-    reader.onerror = (error) => reject(error);
-  });
-};
+// Reads an image's displayed size straight from the Blob, without a base64 round-trip.
+// Width and height are after EXIF orientation; `orientation` is the value stored in the file.
+export const getImageDimensions = (blob: Blob): Promise<{ width: number; height: number; orientation: number }> => getImageSize(blob);
 
-export const loadImageAsDataURLAndDimensions = (file: File): Promise<{ dataUrl: string; width: number; height: number; }> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      if (typeof reader.result === 'string') {
-        const img = new Image();
-        img.src = reader.result;
-        img.onload = () => {
-          resolve({
-            dataUrl: reader.result as string,
-            width: img.naturalWidth,
-            height: img.naturalHeight,
-          });
-        };
-        img.onerror = (error) => reject(error);
-      } else {
-        reject(new Error('Failed to read file as data URL.'));
-      }
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+// Bytes for embedding in documents (jsPDF), which ignore EXIF orientation and only read JPEG and PNG:
+// upright JPEGs and PNGs are passed through as-is, anything else (or a resized copy) is re-encoded upright.
+export const loadImageForPdf = async (file: File, size?: { width: number; height: number }): Promise<{ data: Uint8Array; format: 'JPEG' | 'PNG' }> => {
+  const format = file.type === 'image/jpeg' ? 'jpeg' : 'png';
+  if (!size && (file.type === 'image/jpeg' || file.type === 'image/png') && (await readOrientation(file)) === 1) {
+    return { data: new Uint8Array(await file.arrayBuffer()), format: format === 'jpeg' ? 'JPEG' : 'PNG' };
+  }
+  const { pixels } = await decodeImageWithOrientation(file);
+  const blob = await encodeImage(size ? resize(pixels, { ...size, method: 'bicubic' }) : pixels, { format, quality: 0.92 });
+  return { data: new Uint8Array(await blob.arrayBuffer()), format: format === 'jpeg' ? 'JPEG' : 'PNG' };
 };
 
 
-export const downloadImage = (dataUrl: string, filename: string) => {
+const triggerDownload = (href: string, filename: string) => {
     const link = document.createElement('a');
-    link.href = dataUrl;
+    link.href = href;
     link.download = filename;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
-    // Revoke the object URL to free up memory, if it's a blob URL
-    if (dataUrl.startsWith('blob:')) {
-      URL.revokeObjectURL(dataUrl);
-    }
-}
+};
 
-export const dataURLToBlob = (dataURL: string): Blob => {
-    const arr = dataURL.split(',');
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch) {
-        throw new Error("Invalid data URL");
-    }
-    const mime = mimeMatch[1];
-    const bstr = atob(arr[1]);
-    let n = bstr.length;
-    const u8arr = new Uint8Array(n);
-    while (n--) {
-        u8arr[n] = bstr.charCodeAt(n);
+// Accepts a data URL, an object URL or a Blob. URLs are left alone: object URLs belong
+// to whoever created them (see useObjectUrls) and may still be on screen.
+export const downloadImage = (source: string | Blob, filename: string) => {
+    if (typeof source === 'string') {
+      triggerDownload(source, filename);
+      return;
     }
-    return new Blob([u8arr], { type: mime });
-}
+    downloadBlob(source, filename);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    triggerDownload(url, filename);
+    // Give the browser a moment to start the download before releasing the URL
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to encode canvas.'))),
+      mimeType,
+      mimeType === 'image/png' ? undefined : quality,
+    );
+  });
+};
 
-export const downloadZip = async (files: Array<{ dataUrl: string, filename: string }>, zipFilename: string) => {
+export const downloadZip = async (files: Array<{ blob: Blob, filename: string }>, zipFilename: string) => {
   // Dynamically import JSZip
   const JSZip = (await import('jszip')).default;
   const zip = new JSZip();
 
   files.forEach(file => {
-      const base64Data = file.dataUrl.split(',')[1];
-      zip.file(file.filename, base64Data, { base64: true });
+      zip.file(file.filename, file.blob);
   });
 
   const content = await zip.generateAsync({ type: 'blob' });
-  const link = document.createElement('a');
-  link.href = URL.createObjectURL(content);
-  link.download = zipFilename;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(link.href);
-};
\ No newline at end of file
+  downloadBlob(content, zipFilename);
+};
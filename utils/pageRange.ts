@@ -0,0 +1,36 @@
+// Parses ranges like "all", "1-5" or "3,7,9" into sorted, 1-based numbers.
+// `itemName` only changes the error messages ("page", "frame", ...).
+export const parsePageRange = (rangeInput: string, totalPages: number, itemName = 'page'): number[] => {
+  const pages: Set<number> = new Set();
+  const input = rangeInput.toLowerCase().trim();
+
+  if (input === 'all' || input === '') {
+    for (let i = 1; i <= totalPages; i++) {
+      pages.add(i);
+    }
+  } else {
+    const parts = input.split(',').map(s => s.trim()).filter(Boolean);
+    for (const part of parts) {
+      if (part.includes('-')) {
+        const [startStr, endStr] = part.split('-').map(s => s.trim());
+        const start = parseInt(startStr, 10);
+        const end = parseInt(endStr, 10);
+        if (!isNaN(start) && !isNaN(end) && start >= 1 && end <= totalPages && start <= end) {
+          for (let i = start; i <= end; i++) {
+            pages.add(i);
+          }
+        } else {
+          throw new Error(`Invalid range: "${part}". Please use valid numbers within 1-${totalPages}.`);
+        }
+      } else {
+        const pageNum = parseInt(part, 10);
+        if (!isNaN(pageNum) && pageNum >= 1 && pageNum <= totalPages) {
+          pages.add(pageNum);
+        } else {
+          throw new Error(`Invalid ${itemName} number: "${part}". Please use valid numbers within 1-${totalPages}.`);
+        }
+      }
+    }
+  }
+  return Array.from(pages).sort((a, b) => a - b);
+};
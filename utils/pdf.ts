@@ -0,0 +1,179 @@
+import { jsPDF } from 'jspdf';
+import { encodeImageToDataURL } from '../core';
+import type { PixelBuffer, Rect } from '../core';
+
+// PDF.js worker setup
+import * as pdfjsLib from 'pdfjs-dist/build/pdf';
+
+// Fix: Directly set the workerSrc to the CDN URL from the import map.
+pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://aistudiocdn.com/pdfjs-dist@^4.4.168/build/pdf.worker.min.mjs';
+
+export { pdfjsLib };
+
+export interface PdfTextMatch {
+  pageNum: number;
+  text: string;
+  rects: Rect[]; // One per text run the match covers, in the pixels of a page rendered at the same scale
+}
+
+export interface RasterPage {
+  pixels: PixelBuffer;
+  widthPt: number; // Page size in PDF points, so the output prints at the original size
+  heightPt: number;
+}
+
+export const loadPdf = async (file: Blob): Promise<pdfjsLib.PDFDocumentProxy> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  return pdfjsLib.getDocument({ data }).promise;
+};
+
+export const renderPdfPage = async (pdf: pdfjsLib.PDFDocumentProxy, pageNum: number, scale: number): Promise<RasterPage> => {
+  const page = await pdf.getPage(pageNum);
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(viewport.width);
+  canvas.height = Math.round(viewport.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+  // Pages without a background would otherwise come out transparent
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: ctx, viewport }).promise;
+  const unscaled = page.getViewport({ scale: 1 });
+  return {
+    pixels: ctx.getImageData(0, 0, canvas.width, canvas.height),
+    widthPt: unscaled.width,
+    heightPt: unscaled.height,
+  };
+};
+
+// A text run as PDF.js reports it: usually a line or part of one, in a single font
+interface PdfTextRun {
+  str: string;
+  transform: number[];
+  width: number; // Along the baseline, in PDF points
+  fontName: string;
+  hasEOL: boolean;
+}
+
+const isTextRun = (item: object): item is PdfTextRun => 'str' in item && 'transform' in item;
+
+// A run's baseline in canvas space
+interface RunLayout {
+  origin: { x: number; y: number };
+  along: { x: number; y: number }; // Unit vector along the baseline
+  up: { x: number; y: number }; // Unit vector towards the top of the glyphs
+  fontHeight: number;
+  offsets: number[]; // See glyphOffsets
+}
+
+const MEASURE_FONT_SIZE = 100;
+
+// Where each character of a run starts along its baseline (plus where the run ends), in canvas pixels.
+// Widths are measured in the run's font family and scaled to the width PDF.js reports, so proportional
+// fonts line up; without a 2D context the characters are assumed evenly spaced.
+const glyphOffsets = (ctx: CanvasRenderingContext2D | null, run: PdfTextRun, fontFamily: string, width: number): number[] => {
+  const count = run.str.length;
+  if (ctx) {
+    ctx.font = `${MEASURE_FONT_SIZE}px ${fontFamily}`;
+    const prefixWidths = Array.from({ length: count + 1 }, (_, i) => ctx.measureText(run.str.slice(0, i)).width);
+    if (prefixWidths[count] > 0) return prefixWidths.map((prefix) => (prefix / prefixWidths[count]) * width);
+  }
+  return Array.from({ length: count + 1 }, (_, i) => (i / count) * width);
+};
+
+// Finds `pattern` in the text layer of a page. The runs are searched as one string (a line break after
+// each line), so a match split across runs is still found; it gets one box per run it touches. Boxes
+// are padded by a character on each side, as measured glyph widths are only as good as the fallback
+// font. Scanned pages have no text layer and return nothing.
+export const findPdfText = async (pdf: pdfjsLib.PDFDocumentProxy, pageNum: number, pattern: RegExp, scale: number): Promise<PdfTextMatch[]> => {
+  const page = await pdf.getPage(pageNum);
+  const viewport = page.getViewport({ scale });
+  const content = await page.getTextContent();
+  const runs = (content.items as object[]).filter(isTextRun);
+  const ctx = document.createElement('canvas').getContext('2d');
+
+  // The page text, and for each of its characters the run and position it came from (null for line breaks)
+  let text = '';
+  const sources: Array<{ run: number; index: number } | null> = [];
+  runs.forEach((run, r) => {
+    text += run.str;
+    for (let index = 0; index < run.str.length; index++) sources.push({ run: r, index });
+    if (run.hasEOL) {
+      text += '\n';
+      sources.push(null);
+    }
+  });
+
+  // Worked out on first use; null for runs with a degenerate transform
+  const layouts = new Map<number, RunLayout | null>();
+  const layoutOf = (r: number): RunLayout | null => {
+    if (!layouts.has(r)) {
+      const run = runs[r];
+      const [a, b, c, d, e, f] = pdfjsLib.Util.transform(viewport.transform, run.transform) as number[];
+      const fontHeight = Math.hypot(c, d);
+      const baseline = Math.hypot(a, b);
+      const fontFamily: string = content.styles[run.fontName]?.fontFamily ?? 'sans-serif';
+      layouts.set(r, fontHeight === 0 || baseline === 0 ? null : {
+        origin: { x: e, y: f },
+        along: { x: a / baseline, y: b / baseline },
+        up: { x: c / fontHeight, y: d / fontHeight },
+        fontHeight,
+        offsets: glyphOffsets(ctx, run, fontFamily, run.width * scale),
+      });
+    }
+    return layouts.get(r) ?? null;
+  };
+
+  const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+  const matches: PdfTextMatch[] = [];
+  for (const match of text.matchAll(new RegExp(pattern.source, flags))) {
+    if (match[0].length === 0) continue;
+    const start = match.index ?? 0;
+
+    // First and last character of the match within each run it covers
+    const spans = new Map<number, { first: number; last: number }>();
+    for (const source of sources.slice(start, start + match[0].length)) {
+      if (!source) continue;
+      const span = spans.get(source.run);
+      spans.set(source.run, span ? { first: span.first, last: source.index } : { first: source.index, last: source.index });
+    }
+
+    const rects: Rect[] = [];
+    for (const [r, { first, last }] of spans) {
+      const layout = layoutOf(r);
+      if (!layout) continue;
+      const { origin, along, up, fontHeight, offsets } = layout;
+      const padding = offsets[offsets.length - 1] / runs[r].str.length;
+      // Runs from just below the baseline (descenders) to the top of the line
+      const corners = [offsets[first] - padding, offsets[last + 1] + padding].flatMap((offset) =>
+        [-0.25, 1].map((height) => ({
+          x: origin.x + along.x * offset + up.x * fontHeight * height,
+          y: origin.y + along.y * offset + up.y * fontHeight * height,
+        })),
+      );
+      const x = Math.min(...corners.map((p) => p.x));
+      const y = Math.min(...corners.map((p) => p.y));
+      rects.push({ x, y, width: Math.max(...corners.map((p) => p.x)) - x, height: Math.max(...corners.map((p) => p.y)) - y });
+    }
+    if (rects.length > 0) matches.push({ pageNum, text: match[0], rects });
+  }
+  return matches;
+};
+
+// A PDF with one image per page and nothing else: no text layer, metadata or original objects
+// survive, so whatever was painted over in the pixels is gone from the file too.
+export const rasterPagesToPdf = (pages: RasterPage[], quality = 0.92): Blob => {
+  if (pages.length === 0) {
+    throw new Error('No pages to export.');
+  }
+  const orientationOf = (page: RasterPage) => (page.widthPt > page.heightPt ? 'l' : 'p');
+  const doc = new jsPDF({ orientation: orientationOf(pages[0]), unit: 'pt', format: [pages[0].widthPt, pages[0].heightPt] });
+  pages.forEach((page, index) => {
+    if (index > 0) doc.addPage([page.widthPt, page.heightPt], orientationOf(page));
+    doc.addImage(encodeImageToDataURL(page.pixels, 'image/jpeg', quality), 'JPEG', 0, 0, page.widthPt, page.heightPt);
+  });
+  return doc.output('blob');
+};
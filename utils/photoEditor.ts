@@ -0,0 +1,314 @@
+import {
+  applyAdjustments,
+  clonePixelBuffer,
+  createPixelBuffer,
+  crop,
+  drawPixelBuffer,
+  isIdentityAdjustment,
+  renderStroke,
+  renderTextMark,
+  resize,
+  rotate,
+  rotatedSize,
+  watermark,
+  DEFAULT_ADJUSTMENTS,
+} from '../core';
+import type { Adjustments, BrushStroke, PixelBuffer, Point, Rect, WatermarkPosition } from '../core';
+
+// --- Layer definitions ---
+// A document is a stack of layers, listed bottom to top. Each layer applies to the composite of
+// the layers below it: image and paint layers draw over it, the others transform it. Pixel data
+// lives outside the document (image layers refer to it by `sourceId`), so documents are small
+// immutable values that can be kept in the undo history.
+
+interface LayerBase {
+  id: string;
+  name: string;
+  visible: boolean;
+}
+
+export interface ImageLayer extends LayerBase {
+  type: 'image';
+  sourceId: string;
+  x: number; // Top-left corner on the canvas
+  y: number;
+  scale: number; // Percent of the source size
+  opacity: number; // 0.0 to 1.0
+  strokes: BrushStroke[]; // In source pixel coordinates
+}
+
+export interface PaintLayer extends LayerBase {
+  type: 'paint';
+  opacity: number;
+  strokes: BrushStroke[]; // In canvas coordinates
+}
+
+export interface AdjustmentLayer extends LayerBase {
+  type: 'adjustment';
+  adjustments: Adjustments;
+}
+
+export interface CropLayer extends LayerBase {
+  type: 'crop';
+  rect: Rect;
+}
+
+export interface RotateLayer extends LayerBase {
+  type: 'rotate';
+  degrees: number;
+}
+
+export interface WatermarkLayer extends LayerBase {
+  type: 'watermark';
+  text: string;
+  color: string;
+  opacity: number;
+  size: number; // Font size as a percentage of the canvas width
+  position: WatermarkPosition;
+  tiled: boolean;
+}
+
+export type EditorLayer = ImageLayer | PaintLayer | AdjustmentLayer | CropLayer | RotateLayer | WatermarkLayer;
+
+export type EditorLayerType = EditorLayer['type'];
+
+export interface EditorDocument {
+  width: number; // Canvas size before any crop or rotate layer
+  height: number;
+  layers: EditorLayer[];
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export const LAYER_LABELS: Record<EditorLayerType, string> = {
+  image: 'Image',
+  paint: 'Paint',
+  adjustment: 'Adjustments',
+  crop: 'Crop',
+  rotate: 'Rotate',
+  watermark: 'Text Watermark',
+};
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+export const createImageLayer = (sourceId: string, name: string, placement: Partial<Pick<ImageLayer, 'x' | 'y' | 'scale'>> = {}): ImageLayer => ({
+  id: createId(),
+  type: 'image',
+  name,
+  visible: true,
+  sourceId,
+  x: placement.x ?? 0,
+  y: placement.y ?? 0,
+  scale: placement.scale ?? 100,
+  opacity: 1,
+  strokes: [],
+});
+
+// `canvas` is the size of the composite the layer will apply to, used for the default crop
+export const createLayer = (type: Exclude<EditorLayerType, 'image'>, canvas: Size): EditorLayer => {
+  const base = { id: createId(), name: LAYER_LABELS[type], visible: true };
+  switch (type) {
+    case 'paint':
+      return { ...base, type, opacity: 1, strokes: [] };
+    case 'adjustment':
+      return { ...base, type, adjustments: DEFAULT_ADJUSTMENTS };
+    case 'crop':
+      return { ...base, type, rect: { x: 0, y: 0, width: canvas.width, height: canvas.height } };
+    case 'rotate':
+      return { ...base, type, degrees: 90 };
+    case 'watermark':
+      return { ...base, type, text: 'Your Watermark', color: '#ffffff', opacity: 0.5, size: 5, position: 'bottom-right', tiled: false };
+  }
+};
+
+export const createDocument = (base: ImageLayer, width: number, height: number): EditorDocument => ({
+  width,
+  height,
+  layers: [base],
+});
+
+export const describeLayer = (layer: EditorLayer): string => {
+  switch (layer.type) {
+    case 'image':
+    case 'paint': {
+      const strokes = layer.strokes.length;
+      const parts = [`${Math.round(layer.opacity * 100)}% opacity`];
+      if (layer.type === 'image' && layer.scale !== 100) parts.unshift(`${Math.round(layer.scale)}%`);
+      if (strokes > 0) parts.push(`${strokes} stroke${strokes === 1 ? '' : 's'}`);
+      return parts.join(', ');
+    }
+    case 'adjustment':
+      return isIdentityAdjustment(layer.adjustments) ? 'No changes' : 'Tone & color';
+    case 'crop':
+      return `${Math.round(layer.rect.width)} × ${Math.round(layer.rect.height)}`;
+    case 'rotate':
+      return `${layer.degrees}°`;
+    case 'watermark':
+      return `"${layer.text}"${layer.tiled ? ', tiled' : ` at ${layer.position}`}`;
+  }
+};
+
+// --- Editing the stack ---
+
+export const updateLayer = (doc: EditorDocument, id: string, patch: Partial<EditorLayer>): EditorDocument => ({
+  ...doc,
+  layers: doc.layers.map(layer => (layer.id === id ? ({ ...layer, ...patch } as EditorLayer) : layer)),
+});
+
+export const insertLayer = (doc: EditorDocument, layer: EditorLayer, index = doc.layers.length): EditorDocument => {
+  const layers = [...doc.layers];
+  layers.splice(Math.max(0, Math.min(layers.length, index)), 0, layer);
+  return { ...doc, layers };
+};
+
+export const removeLayer = (doc: EditorDocument, id: string): EditorDocument => ({
+  ...doc,
+  layers: doc.layers.filter(layer => layer.id !== id),
+});
+
+// `offset` is +1 to move a layer up the stack (applied later), -1 to move it down
+export const moveLayer = (doc: EditorDocument, id: string, offset: number): EditorDocument => {
+  const from = doc.layers.findIndex(layer => layer.id === id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= doc.layers.length) return doc;
+  const layers = [...doc.layers];
+  const [moved] = layers.splice(from, 1);
+  layers.splice(to, 0, moved);
+  return { ...doc, layers };
+};
+
+// --- Geometry ---
+
+// Same clamping as `crop` in core, so sizes computed here match the rendered result
+export const clampCropRect = (rect: Rect, size: Size): Rect => {
+  const x = Math.max(0, Math.min(size.width - 1, Math.round(rect.x)));
+  const y = Math.max(0, Math.min(size.height - 1, Math.round(rect.y)));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(size.width - x, Math.round(rect.width))),
+    height: Math.max(1, Math.min(size.height - y, Math.round(rect.height))),
+  };
+};
+
+const outputSize = (layer: EditorLayer, input: Size): Size => {
+  if (!layer.visible) return input;
+  if (layer.type === 'crop') {
+    const { width, height } = clampCropRect(layer.rect, input);
+    return { width, height };
+  }
+  if (layer.type === 'rotate') return rotatedSize(input.width, input.height, layer.degrees);
+  return input;
+};
+
+// Canvas size entering each layer, plus the final size as the last element
+export const layerCanvasSizes = (doc: EditorDocument): Size[] => {
+  const sizes: Size[] = [{ width: doc.width, height: doc.height }];
+  for (const layer of doc.layers) {
+    sizes.push(outputSize(layer, sizes[sizes.length - 1]));
+  }
+  return sizes;
+};
+
+// Maps a point on the final image back onto the canvas a layer is drawn on, undoing the crop
+// and rotate layers above it. Used to place brush strokes and drags on lower layers.
+export const toLayerCanvasPoint = (doc: EditorDocument, index: number, point: Point): Point => {
+  const sizes = layerCanvasSizes(doc);
+  let { x, y } = point;
+  for (let i = doc.layers.length - 1; i > index; i--) {
+    const layer = doc.layers[i];
+    if (!layer.visible) continue;
+    if (layer.type === 'crop') {
+      const rect = clampCropRect(layer.rect, sizes[i]);
+      x += rect.x;
+      y += rect.y;
+    } else if (layer.type === 'rotate') {
+      const input = sizes[i];
+      const output = sizes[i + 1];
+      const radians = (layer.degrees * Math.PI) / 180;
+      const dx = x - output.width / 2;
+      const dy = y - output.height / 2;
+      x = dx * Math.cos(radians) + dy * Math.sin(radians) + input.width / 2;
+      y = -dx * Math.sin(radians) + dy * Math.cos(radians) + input.height / 2;
+    }
+  }
+  return { x, y };
+};
+
+// Canvas coordinates to an image layer's own source pixel coordinates
+export const toImageLayerPoint = (layer: ImageLayer, point: Point): Point => ({
+  x: (point.x - layer.x) / (layer.scale / 100),
+  y: (point.y - layer.y) / (layer.scale / 100),
+});
+
+// --- Rendering ---
+
+// Downscaled copies of image sources for the preview, so the resample only runs when the size changes
+const scaledSources = new WeakMap<PixelBuffer, Map<string, PixelBuffer>>();
+const MAX_CACHED_SIZES = 4;
+
+const scaleSource = (source: PixelBuffer, width: number, height: number): PixelBuffer => {
+  if (width === source.width && height === source.height) return source;
+  const key = `${width}x${height}`;
+  let cache = scaledSources.get(source);
+  if (!cache) {
+    cache = new Map<string, PixelBuffer>();
+    scaledSources.set(source, cache);
+  }
+  const cached = cache.get(key);
+  if (cached) return cached;
+  if (cache.size >= MAX_CACHED_SIZES) cache.clear();
+  const scaled = resize(source, { width, height, method: 'bicubic' });
+  cache.set(key, scaled);
+  return scaled;
+};
+
+const applyLayer = (canvas: PixelBuffer, layer: EditorLayer, getSource: (sourceId: string) => PixelBuffer | undefined, scale: number): PixelBuffer => {
+  switch (layer.type) {
+    case 'image': {
+      const source = getSource(layer.sourceId);
+      if (!source) return canvas;
+      const factor = (layer.scale / 100) * scale;
+      let raster = scaleSource(source, Math.max(1, Math.round(source.width * factor)), Math.max(1, Math.round(source.height * factor)));
+      if (layer.strokes.length > 0) {
+        raster = clonePixelBuffer(raster);
+        layer.strokes.forEach(stroke => renderStroke(raster, stroke, factor));
+      }
+      drawPixelBuffer(canvas, raster, layer.x * scale, layer.y * scale, layer.opacity);
+      return canvas;
+    }
+    case 'paint': {
+      if (layer.strokes.length === 0) return canvas;
+      const raster = createPixelBuffer(canvas.width, canvas.height);
+      layer.strokes.forEach(stroke => renderStroke(raster, stroke, scale));
+      drawPixelBuffer(canvas, raster, 0, 0, layer.opacity);
+      return canvas;
+    }
+    case 'adjustment':
+      return isIdentityAdjustment(layer.adjustments) ? canvas : applyAdjustments(canvas, layer.adjustments);
+    case 'crop': {
+      const fullSize = { width: canvas.width / scale, height: canvas.height / scale };
+      const rect = clampCropRect(layer.rect, fullSize);
+      return crop(canvas, { x: rect.x * scale, y: rect.y * scale, width: rect.width * scale, height: rect.height * scale });
+    }
+    case 'rotate':
+      return layer.degrees % 360 === 0 ? canvas : rotate(canvas, layer.degrees);
+    case 'watermark': {
+      if (!layer.text.trim()) return canvas;
+      const mark = renderTextMark(layer.text, { fontSize: (canvas.width * layer.size) / 100, color: layer.color });
+      return watermark(canvas, mark, { opacity: layer.opacity, position: layer.position, tiled: layer.tiled });
+    }
+  }
+};
+
+// Flattens the document. `scale` renders a proportionally smaller copy for previews; export uses 1.
+export const renderDocument = (doc: EditorDocument, getSource: (sourceId: string) => PixelBuffer | undefined, scale = 1): PixelBuffer => {
+  let canvas = createPixelBuffer(doc.width * scale, doc.height * scale);
+  for (const layer of doc.layers) {
+    if (layer.visible) canvas = applyLayer(canvas, layer, getSource, scale);
+  }
+  return canvas;
+};
@@ -0,0 +1,150 @@
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  // May contain {{variable}} placeholders. Empty for a preset that only sets the system instruction.
+  prompt: string;
+  systemInstruction: string;
+  temperature?: number; // undefined = the model's default
+  builtIn?: boolean;
+}
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'builtin-alt-text',
+    name: 'Alt text',
+    prompt: 'Write alt text for an image showing: {{image description}}. The image is used on {{page context}}.',
+    systemInstruction: 'You write accessible alt text. Reply with a single sentence under 125 characters, without "image of" or "picture of", and describe only what matters in the given context.',
+    temperature: 0.3,
+    builtIn: true,
+  },
+  {
+    id: 'builtin-product-description',
+    name: 'Product description',
+    prompt: 'Write a product description for {{product name}}. Key features: {{features}}. Target audience: {{audience}}.',
+    systemInstruction: 'You are an e-commerce copywriter. Write two short paragraphs followed by a bulleted list of features. Be specific and avoid filler superlatives.',
+    temperature: 0.7,
+    builtIn: true,
+  },
+  {
+    id: 'builtin-social-caption',
+    name: 'Social media caption',
+    prompt: 'Write three {{platform}} captions for a photo of {{subject}}: one playful, one professional and one inspirational. Suggest up to five hashtags for each.',
+    systemInstruction: 'You write social media captions that fit the platform\'s length and style. Label each caption with its tone.',
+    temperature: 0.9,
+    builtIn: true,
+  },
+  {
+    id: 'builtin-image-prompt',
+    name: 'Image generation prompt',
+    prompt: 'Turn this idea into a detailed image generation prompt: {{idea}}. Style: {{style}}.',
+    systemInstruction: 'You write prompts for text-to-image models. Reply with one paragraph covering subject, composition, lighting, colour palette and medium. Do not add commentary.',
+    temperature: 0.8,
+    builtIn: true,
+  },
+  {
+    id: 'builtin-photo-feedback',
+    name: 'Photography coach',
+    prompt: '',
+    systemInstruction: 'You are a friendly photography coach. Give practical, specific advice on composition, lighting and editing, and keep answers short unless asked for detail.',
+    builtIn: true,
+  },
+];
+
+const VARIABLE_PATTERN = /\{\{\s*([\w][\w -]*?)\s*\}\}/g;
+
+// Variable names in the order they first appear, without duplicates
+export const templateVariables = (prompt: string): string[] => {
+  const names = Array.from(prompt.matchAll(VARIABLE_PATTERN), match => match[1]);
+  return [...new Set(names)];
+};
+
+export const fillTemplate = (prompt: string, values: Record<string, string>): string =>
+  prompt.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+
+// 'product_name' and 'product name' both read as 'Product name'
+export const variableLabel = (name: string): string => {
+  const words = name.replace(/[_-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+export const createTemplate = (fields: Omit<PromptTemplate, 'id' | 'builtIn'>): PromptTemplate => ({
+  ...fields,
+  id: createId(),
+});
+
+// --- Persistence ---
+
+// Only the user's own templates are stored; the built-in ones ship with the app, so updating
+// them never needs a migration
+const TEMPLATES_STORAGE_KEY = 'image-toolbox-prompt-templates';
+
+// Stored and imported JSON can hold anything; these are the fields a template needs, and the ones it may have
+interface TemplateLike {
+  name: string;
+  prompt: string;
+  id?: unknown;
+  systemInstruction?: unknown;
+  temperature?: unknown;
+}
+
+const isTemplateLike = (value: unknown): value is TemplateLike =>
+  typeof value === 'object' && value !== null &&
+  'name' in value && typeof value.name === 'string' &&
+  'prompt' in value && typeof value.prompt === 'string';
+
+// Array.isArray would widen the elements to any
+const asList = (value: unknown): unknown[] | null => (Array.isArray(value) ? value : null);
+
+const normalizeTemplate = (value: TemplateLike): Omit<PromptTemplate, 'id' | 'builtIn'> => ({
+  name: value.name.trim() || 'Untitled Template',
+  prompt: value.prompt,
+  systemInstruction: typeof value.systemInstruction === 'string' ? value.systemInstruction : '',
+  temperature: typeof value.temperature === 'number' && value.temperature >= 0 && value.temperature <= 2 ? value.temperature : undefined,
+});
+
+export const loadSavedTemplates = (): PromptTemplate[] => {
+  try {
+    const raw = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+    if (!raw) return [];
+    const list = asList(JSON.parse(raw)) ?? [];
+    return list.filter(isTemplateLike).map(t => ({ ...normalizeTemplate(t), id: typeof t.id === 'string' ? t.id : createId() }));
+  } catch (error) {
+    console.error("Failed to load prompt templates from localStorage", error);
+    return [];
+  }
+};
+
+export const saveTemplates = (templates: PromptTemplate[]) => {
+  try {
+    localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+  } catch (error) {
+    console.error("Failed to save prompt templates to localStorage", error);
+  }
+};
+
+// --- Import / export ---
+
+export const templatesToJson = (templates: PromptTemplate[]): string =>
+  JSON.stringify({ version: 1, templates: templates.map(normalizeTemplate) }, null, 2);
+
+// Accepts an exported file or a bare array of templates. Imported templates get fresh ids so
+// importing the same file twice never overwrites anything.
+export const parseTemplatesJson = (text: string): PromptTemplate[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const list = asList(parsed) ?? (typeof parsed === 'object' && parsed !== null && 'templates' in parsed ? asList(parsed.templates) : null);
+  if (!list) {
+    throw new Error('The file does not contain a list of templates.');
+  }
+  const templates = list.filter(isTemplateLike).map(t => createTemplate(normalizeTemplate(t)));
+  if (templates.length === 0) {
+    throw new Error('No templates with a name and a prompt were found in the file.');
+  }
+  return templates;
+};
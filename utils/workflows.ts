@@ -0,0 +1,218 @@
+import {
+  decodeImage,
+  encodeImage,
+  fitWithin,
+  mimeTypeToFormat,
+  renderTextMark,
+  resize,
+  rotate,
+  watermark,
+} from '../core';
+import type { OutputFormat, PixelBuffer, WatermarkPosition } from '../core';
+
+// --- Workflow step definitions ---
+
+export interface ResizeStep {
+  id: string;
+  type: 'resize';
+  maxWidth: number; // 0 = unconstrained
+  maxHeight: number; // 0 = unconstrained
+}
+
+export interface RotateStep {
+  id: string;
+  type: 'rotate';
+  degrees: number;
+}
+
+export interface WatermarkStep {
+  id: string;
+  type: 'watermark';
+  text: string;
+  color: string;
+  opacity: number;
+  size: number;
+  position: WatermarkPosition;
+  tiled: boolean;
+}
+
+// Sets the output encoding. Encoding happens once at the end of the chain,
+// so intermediate steps never pay a lossy round-trip.
+export interface ConvertStep {
+  id: string;
+  type: 'convert';
+  format: OutputFormat;
+  quality: number; // 0.1 to 1.0, ignored for PNG
+}
+
+export type WorkflowStep = ResizeStep | RotateStep | WatermarkStep | ConvertStep;
+
+export type WorkflowStepType = WorkflowStep['type'];
+
+export interface Workflow {
+  id: string;
+  name: string;
+  steps: WorkflowStep[];
+}
+
+export const STEP_LABELS: Record<WorkflowStepType, string> = {
+  resize: 'Resize',
+  rotate: 'Rotate',
+  watermark: 'Text Watermark',
+  convert: 'Convert / Compress',
+};
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+export const createStep = (type: WorkflowStepType): WorkflowStep => {
+  const id = createId();
+  switch (type) {
+    case 'resize':
+      return { id, type, maxWidth: 1200, maxHeight: 0 };
+    case 'rotate':
+      return { id, type, degrees: 90 };
+    case 'watermark':
+      return { id, type, text: 'Your Watermark', color: '#ffffff', opacity: 0.5, size: 5, position: 'bottom-right', tiled: false };
+    case 'convert':
+      return { id, type, format: 'webp', quality: 0.8 };
+  }
+};
+
+export const createWorkflow = (name: string, steps: WorkflowStep[]): Workflow => ({
+  id: createId(),
+  name,
+  steps,
+});
+
+export const describeStep = (step: WorkflowStep): string => {
+  switch (step.type) {
+    case 'resize': {
+      const parts = [];
+      if (step.maxWidth > 0) parts.push(`max width ${step.maxWidth}px`);
+      if (step.maxHeight > 0) parts.push(`max height ${step.maxHeight}px`);
+      return parts.length > 0 ? parts.join(', ') : 'no limit';
+    }
+    case 'rotate':
+      return `${step.degrees}°`;
+    case 'watermark':
+      return `"${step.text}"${step.tiled ? ', tiled' : ` at ${step.position}`}`;
+    case 'convert':
+      return step.format === 'png' ? 'PNG' : `${step.format.toUpperCase()} at ${Math.round(step.quality * 100)}%`;
+  }
+};
+
+// --- Running a workflow ---
+
+export interface WorkflowOutput {
+  blob: Blob;
+  format: OutputFormat;
+  width: number;
+  height: number;
+}
+
+const applyStep = (source: PixelBuffer, step: WorkflowStep): PixelBuffer => {
+  switch (step.type) {
+    case 'resize': {
+      const target = fitWithin(source.width, source.height, step.maxWidth, step.maxHeight);
+      if (target.width === source.width && target.height === source.height) return source;
+      return resize(source, { ...target, method: 'bicubic' });
+    }
+    case 'rotate':
+      return step.degrees % 360 === 0 ? source : rotate(source, step.degrees);
+    case 'watermark': {
+      const mark = renderTextMark(step.text, { fontSize: (source.width * step.size) / 100, color: step.color });
+      return watermark(source, mark, { opacity: step.opacity, position: step.position, tiled: step.tiled });
+    }
+    case 'convert':
+      return source;
+  }
+};
+
+export const runWorkflow = async (image: Blob, originalMimeType: string, steps: WorkflowStep[]): Promise<WorkflowOutput> => {
+  let current = await decodeImage(image);
+  for (const step of steps) {
+    current = applyStep(current, step);
+  }
+
+  // The last convert step wins; without one, keep the original format
+  const convertSteps = steps.filter((step): step is ConvertStep => step.type === 'convert');
+  const convert = convertSteps[convertSteps.length - 1];
+  const format = convert ? convert.format : mimeTypeToFormat(originalMimeType);
+  const quality = convert ? convert.quality : 0.92;
+
+  return {
+    blob: await encodeImage(current, { format, quality }),
+    format,
+    width: current.width,
+    height: current.height,
+  };
+};
+
+// --- Persistence ---
+
+const WORKFLOWS_STORAGE_KEY = 'image-toolbox-workflows';
+
+const WATERMARK_POSITIONS: readonly WatermarkPosition[] = ['bottom-right', 'top-left', 'center', 'bottom-left', 'top-right'];
+const OUTPUT_FORMATS: readonly OutputFormat[] = ['jpeg', 'png', 'webp', 'gif'];
+
+const isOneOf = <T>(list: readonly T[], value: unknown): value is T => list.some(item => item === value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Stored JSON can hold anything, including steps an older or newer build wrote; a step is only
+// kept when its type is known and it has every field runWorkflow reads for that type
+const isWorkflowStep = (value: unknown): value is WorkflowStep => {
+  if (typeof value !== 'object' || value === null || !('id' in value) || typeof value.id !== 'string') return false;
+  const step: Record<string, unknown> = { ...value };
+  switch (step.type) {
+    case 'resize':
+      return isNumber(step.maxWidth) && isNumber(step.maxHeight);
+    case 'rotate':
+      return isNumber(step.degrees);
+    case 'watermark':
+      return typeof step.text === 'string' && typeof step.color === 'string' && isNumber(step.opacity) &&
+        isNumber(step.size) && isOneOf(WATERMARK_POSITIONS, step.position) && typeof step.tiled === 'boolean';
+    case 'convert':
+      return isOneOf(OUTPUT_FORMATS, step.format) && isNumber(step.quality);
+    default:
+      return false;
+  }
+};
+
+interface WorkflowLike {
+  name: string;
+  steps: unknown[];
+  id?: unknown;
+}
+
+const isWorkflowLike = (value: unknown): value is WorkflowLike =>
+  typeof value === 'object' && value !== null &&
+  'name' in value && typeof value.name === 'string' &&
+  'steps' in value && Array.isArray(value.steps);
+
+// Array.isArray would widen the elements to any
+const asList = (value: unknown): unknown[] | null => (Array.isArray(value) ? value : null);
+
+export const loadSavedWorkflows = (): Workflow[] => {
+  try {
+    const raw = localStorage.getItem(WORKFLOWS_STORAGE_KEY);
+    if (!raw) return [];
+    const list = asList(JSON.parse(raw)) ?? [];
+    return list.filter(isWorkflowLike).map(w => ({
+      id: typeof w.id === 'string' ? w.id : createId(),
+      name: w.name,
+      steps: w.steps.filter(isWorkflowStep),
+    }));
+  } catch (error) {
+    console.error("Failed to load workflows from localStorage", error);
+    return [];
+  }
+};
+
+export const saveWorkflows = (workflows: Workflow[]) => {
+  try {
+    localStorage.setItem(WORKFLOWS_STORAGE_KEY, JSON.stringify(workflows));
+  } catch (error) {
+    console.error("Failed to save workflows to localStorage", error);
+  }
+};
@@ -0,0 +1,17 @@
+import { processBatchJob } from '../utils/imageBatch';
+import type { BatchWorkerRequest, BatchWorkerResponse } from '../utils/imageBatch';
+
+// The project compiles against the DOM lib, so give the worker scope a Worker-shaped type
+const ctx = self as unknown as Worker;
+
+const post = (message: BatchWorkerResponse) => ctx.postMessage(message);
+
+ctx.onmessage = async (event: MessageEvent<BatchWorkerRequest>) => {
+  const { job } = event.data;
+  try {
+    const result = await processBatchJob(job, progress => post({ type: 'progress', id: job.id, progress }));
+    post({ type: 'done', result });
+  } catch (error) {
+    post({ type: 'error', id: job.id, message: error instanceof Error ? error.message : 'Failed to process image.' });
+  }
+};